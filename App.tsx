@@ -5,6 +5,7 @@ import CustomerView from './components/CustomerView';
 import AuthGuard from './components/AuthGuard';
 import VendorHeader from './components/VendorHeader';
 import { setAuthUserId } from './services/storage';
+import { setSupabaseTokenGetter } from './lib/supabase';
 
 type Route =
   | { type: 'vendor' }
@@ -29,16 +30,20 @@ function parseHash(): Route {
 }
 
 /**
- * Syncs Clerk auth userId to the storage layer for Supabase.
+ * Syncs Clerk auth (userId + session token) to the storage layer for Supabase.
  * Must be inside ClerkProvider + AuthGuard (only renders when signed in).
  */
 function AuthSync() {
   try {
-    const { userId } = useAuth();
+    const { userId, getToken } = useAuth();
     useEffect(() => {
       setAuthUserId(userId || null);
-      return () => setAuthUserId(null);
-    }, [userId]);
+      setSupabaseTokenGetter(userId ? () => getToken() : null);
+      return () => {
+        setAuthUserId(null);
+        setSupabaseTokenGetter(null);
+      };
+    }, [userId, getToken]);
   } catch {
     // No ClerkProvider — no sync
   }
@@ -0,0 +1,62 @@
+// api/_lib/customStyles.ts — Vendor-defined art styles (snap_custom_styles)
+// The prompt template and canvas color always come from the database, never
+// from the request, so a client can only use styles its vendor has saved.
+// Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY (via supabase.ts)
+
+import { getServerSupabase } from './supabase.js';
+import { CUSTOM_STYLE_PREFIX, baseStyleId, isCustomStyleId } from '../../types.js';
+
+export interface CustomStyleRecord {
+  id: string;            // 'custom-' + row UUID
+  userId: string;
+  label: string;
+  promptTemplate: string;
+  backgroundColor: string;
+  knockout: 'edge' | 'soft';
+}
+
+const ROW_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Load a custom style by its app style ID (or a multi-view design ID of it)
+ * @returns null for built-in or unknown styles, or when Supabase is not configured
+ */
+export async function getCustomStyle(styleId: string): Promise<CustomStyleRecord | null> {
+  if (!isCustomStyleId(styleId)) return null;
+  const rowId = baseStyleId(styleId).slice(CUSTOM_STYLE_PREFIX.length);
+  if (!ROW_ID_PATTERN.test(rowId)) return null;
+
+  const supabase = getServerSupabase();
+  if (!supabase) return null;
+
+  const { data, error } = await supabase
+    .from('snap_custom_styles')
+    .select('id, user_id, label, prompt_template, background_color, knockout')
+    .eq('id', rowId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) return null;
+
+  return {
+    id: baseStyleId(styleId),
+    userId: data.user_id,
+    label: data.label,
+    promptTemplate: data.prompt_template,
+    backgroundColor: data.background_color || '#FFFFFF',
+    knockout: data.knockout === 'soft' ? 'soft' : 'edge',
+  };
+}
+
+/**
+ * Fill in a custom style's prompt template and canvas color for design details.
+ * Built-in styles pass through with any client-sent template removed.
+ * @returns null if details.styleId names a custom style the user does not own
+ */
+export async function resolveStyleDetails(details: any, userId: string): Promise<any | null> {
+  const { promptTemplate: _ignored, ...rest } = details;
+  if (typeof rest.styleId !== 'string' || !isCustomStyleId(rest.styleId)) return rest;
+
+  const style = await getCustomStyle(rest.styleId);
+  if (!style || style.userId !== userId) return null;
+  return { ...rest, artStyle: style.label, promptTemplate: style.promptTemplate, backgroundColor: style.backgroundColor };
+}
@@ -0,0 +1,100 @@
+// api/_lib/fakeProvider.ts — Offline image and vision provider
+// Needs no network or API key. Output is derived from a hash of the request,
+// so the same request always gets the same answer: images are labelled
+// placeholder cards on a flat white canvas in the requested body color (so
+// background knockout and the quality gate behave as they do for real
+// designs), identities come from a fixed list of cars.
+// Select with AI_PROVIDER=fake or per operation (AI_MODEL_<OPERATION>=fake:any).
+
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+import type {
+  GeneratedImage,
+  ImageModelProvider,
+  ImageRequest,
+  VisionProvider,
+  VisionRequest,
+} from './modelProvider.js';
+
+const FAKE_CARS = [
+  { year: '1969', make: 'Chevrolet', model: 'Camaro', trim: 'SS', color: { name: 'Hugger Orange', hex: '#E8601C' } },
+  { year: '1967', make: 'Ford', model: 'Mustang', trim: 'Fastback GT', color: { name: 'Highland Green', hex: '#2D4A3E' } },
+  { year: '1971', make: 'Plymouth', model: 'Barracuda', trim: "'Cuda", color: { name: 'Lemon Twist', hex: '#F2D21B' } },
+  { year: '1987', make: 'Buick', model: 'Regal', trim: 'Grand National', color: { name: 'Black', hex: '#111111' } },
+  { year: '1994', make: 'Toyota', model: 'Supra', trim: 'Turbo', color: { name: 'Super Red', hex: '#C8102E' } },
+];
+
+const IMAGE_SIZES = { '1K': 1024, '2K': 2048, '4K': 4096 };
+
+function hashRequest(...parts: string[]): Buffer {
+  const hash = createHash('sha256');
+  for (const part of parts) hash.update(part).update('\0');
+  return hash.digest();
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c]!));
+
+export const fakeImageProvider: ImageModelProvider = {
+  name: 'fake',
+
+  isConfigured: () => true,
+
+  async generateImage(model: string, request: ImageRequest): Promise<GeneratedImage> {
+    const hash = hashRequest(request.operation, model, request.prompt, ...(request.images || []).map(i => i.data));
+    const size = IMAGE_SIZES[request.imageSize || '1K'];
+    // The design's body color if the prompt names one, else a mid-dark accent
+    // so the white label stays readable
+    const accent = request.prompt.match(/Primary Color: (#[0-9a-f]{6})/i)?.[1]
+      || `rgb(${[0, 1, 2].map(i => 40 + (hash[i] % 140)).join(',')})`;
+    const label = escapeXml(`FAKE · ${request.operation}`);
+    const caption = escapeXml(request.prompt.replace(/\s+/g, ' ').trim().slice(0, 48));
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1024" height="1024" viewBox="0 0 1024 1024">
+      <rect x="192" y="312" width="640" height="400" rx="48" fill="${accent}"/>
+      <text x="512" y="470" font-family="sans-serif" font-size="56" font-weight="bold" fill="#FFFFFF" text-anchor="middle">${label}</text>
+      <text x="512" y="540" font-family="monospace" font-size="32" fill="#FFFFFF" text-anchor="middle">${hash.subarray(0, 4).toString('hex')}</text>
+      <text x="512" y="610" font-family="sans-serif" font-size="26" fill="#FFFFFF" text-anchor="middle">${caption}</text>
+    </svg>`;
+
+    const png = await sharp({ create: { width: size, height: size, channels: 3, background: '#FFFFFF' } })
+      .composite([{ input: await sharp(Buffer.from(svg)).resize(size, size).png().toBuffer() }])
+      .png()
+      .toBuffer();
+    return { data: png.toString('base64'), mimeType: 'image/png' };
+  },
+};
+
+export const fakeVisionProvider: VisionProvider = {
+  name: 'fake',
+
+  isConfigured: () => true,
+
+  async analyzeImages<T>(_model: string, request: VisionRequest): Promise<T> {
+    // Keyed on the photo only, so identify-color agrees with analyze
+    const hash = hashRequest(...request.images.map(i => i.data));
+    const car = FAKE_CARS[hash[0] % FAKE_CARS.length];
+
+    switch (request.operation) {
+      case 'analyze': {
+        // The photo's car, then a less likely runner-up
+        const runnerUp = FAKE_CARS[(hash[0] + 1) % FAKE_CARS.length];
+        return {
+          candidates: [
+            { ...car, confidence: 0.82, cues: 'Placeholder identification' },
+            { ...runnerUp, confidence: 0.11, cues: 'Placeholder runner-up' },
+          ],
+        } as T;
+      }
+      case 'identify-color':
+        return car.color as T;
+      case 'critique':
+        return { problems: '' } as T;
+      case 'redact':
+        // A rear plate low in the middle of the frame, so the blur shows up
+        return { regions: [{ kind: 'plate', ymin: 760, xmin: 400, ymax: 840, xmax: 600 }] } as T;
+      default:
+        throw new Error(`Fake vision provider does not support ${request.operation}`);
+    }
+  },
+};
@@ -0,0 +1,177 @@
+// api/_lib/fulfillment.ts — Print-on-demand fulfillment
+// Once payment is captured the order is submitted to a FulfillmentProvider
+// (print file, product, variant, shipping address). Status comes back via
+// provider webhooks (/api/fulfillment/webhook) or polling (/api/fulfillment/sync)
+// and moves the order through in_production → shipped → fulfilled.
+// Env: FULFILLMENT_PROVIDER (printful|mock; unset disables submission)
+
+import {
+  claimSubmission,
+  updateOrderFulfillment,
+  type OrderRecord,
+  type OrderStatus,
+  type ShippingAddressRecord,
+} from './orders.js';
+import { printfulProvider } from './printful.js';
+import { mockFulfillmentProvider } from './mockFulfillment.js';
+import { renderOrderPrintFiles } from './printRender.js';
+import { logError } from './validation.js';
+
+export type FulfillmentStatus = 'in_production' | 'shipped' | 'fulfilled' | 'failed' | 'cancelled';
+
+export interface FulfillmentItem {
+  productId: string; // catalog product ID (lib/catalog.ts)
+  size?: string;     // catalog size ID
+  color?: string;
+  quantity: number;
+  unitPrice: number;
+  printFileUrl: string;
+}
+
+export interface FulfillmentRequest {
+  orderId: string; // snap_orders.id — sent as the provider's external ID
+  recipient: ShippingAddressRecord & { email?: string };
+  items: FulfillmentItem[];
+}
+
+export interface TrackingInfo {
+  carrier: string;
+  number: string;
+  url?: string;
+}
+
+export interface FulfillmentUpdate {
+  fulfillmentId: string;
+  status: FulfillmentStatus;
+  tracking?: TrackingInfo;
+  error?: string;
+}
+
+export interface FulfillmentProvider {
+  name: string;
+  /** Create the provider-side order. Must be idempotent on request.orderId. */
+  submitOrder(request: FulfillmentRequest): Promise<FulfillmentUpdate>;
+  /** Fetch the current state of a submitted order */
+  getOrderStatus(order: OrderRecord): Promise<FulfillmentUpdate>;
+}
+
+const PROVIDERS: Record<string, FulfillmentProvider> = {
+  printful: printfulProvider,
+  mock: mockFulfillmentProvider,
+};
+
+/**
+ * Resolve a provider by name, defaulting to FULFILLMENT_PROVIDER
+ * @returns The provider, or null if fulfillment is not configured
+ */
+export function getFulfillmentProvider(name = process.env.FULFILLMENT_PROVIDER): FulfillmentProvider | null {
+  return (name && PROVIDERS[name]) || null;
+}
+
+// Order statuses fulfillment may advance, in lifecycle order
+const FULFILLMENT_RANK: Partial<Record<OrderStatus, number>> = {
+  confirmed: 0,
+  in_production: 1,
+  shipped: 2,
+  fulfilled: 3,
+};
+
+/**
+ * The order status a provider update implies, or null if it should not move.
+ * Only ever advances; refunds, disputes and cancellations are left alone.
+ */
+function nextOrderStatus(current: OrderStatus, update: FulfillmentStatus): OrderStatus | null {
+  const from = FULFILLMENT_RANK[current];
+  const to = FULFILLMENT_RANK[update as OrderStatus];
+  if (from === undefined || to === undefined) return null;
+  return to > from ? (update as OrderStatus) : null;
+}
+
+/**
+ * Record a provider update on the order: provider status, tracking and,
+ * where it moves forward, the order status.
+ */
+export async function applyFulfillmentUpdate(order: OrderRecord, update: FulfillmentUpdate): Promise<OrderStatus> {
+  const status = nextOrderStatus(order.status, update.status);
+  await updateOrderFulfillment(order.id, {
+    ...(status ? { status } : {}),
+    fulfillment_id: update.fulfillmentId,
+    fulfillment_status: update.status,
+    fulfillment_error: update.error || null,
+    ...(update.tracking ? {
+      tracking_carrier: update.tracking.carrier,
+      tracking_number: update.tracking.number,
+      tracking_url: update.tracking.url || null,
+    } : {}),
+  });
+  return status || order.status;
+}
+
+async function buildRequest(order: OrderRecord): Promise<FulfillmentRequest> {
+  if (!order.shipping_address) throw new Error('Order has no shipping address');
+  // Left as a failed submission for someone to look at, rather than an empty parcel
+  if (order.items.length === 0) throw new Error('Order has no line items — check the PayPal order');
+
+  // Print-resolution files, rendered once and kept on the order's items
+  const rendered = await renderOrderPrintFiles(order);
+  const items: FulfillmentItem[] = rendered.map(item => ({
+    productId: item.productId,
+    size: item.size,
+    color: item.color,
+    quantity: item.quantity || 1,
+    unitPrice: item.price,
+    printFileUrl: item.printFile!.url,
+  }));
+
+  return {
+    orderId: order.id,
+    recipient: { ...order.shipping_address, email: order.customer_email || undefined },
+    items,
+  };
+}
+
+/**
+ * Submit a paid order to the configured provider. No-op if fulfillment is not
+ * configured, the order is not confirmed, it was already submitted, or another
+ * caller holds the submission (claimSubmission).
+ * Failures are recorded on the order (fulfillment_error) rather than thrown,
+ * so payment handling never fails on fulfillment.
+ */
+export async function submitOrderForFulfillment(order: OrderRecord): Promise<void> {
+  const provider = getFulfillmentProvider();
+  if (!provider || order.status !== 'confirmed' || order.fulfillment_id) return;
+
+  try {
+    if (!(await claimSubmission(order))) return;
+  } catch (err: any) {
+    logError('fulfillment', err, { orderId: order.id, note: 'submission not claimed' });
+    return;
+  }
+
+  try {
+    const request = await buildRequest(order);
+    const update = await provider.submitOrder(request);
+    await updateOrderFulfillment(order.id, {
+      fulfillment_provider: provider.name,
+      fulfillment_submitted_at: new Date().toISOString(),
+    });
+    await applyFulfillmentUpdate(order, update);
+  } catch (err: any) {
+    logError('fulfillment', err, { orderId: order.id, provider: provider.name, attempt: (order.fulfillment_attempts || 0) + 1 });
+    await updateOrderFulfillment(order.id, {
+      fulfillment_provider: provider.name,
+      fulfillment_status: 'failed',
+      fulfillment_error: err.message || 'Submission failed',
+    }).catch(() => {});
+  }
+}
+
+/**
+ * Poll the provider for an open order and apply whatever changed
+ */
+export async function syncOrderFulfillment(order: OrderRecord): Promise<OrderStatus> {
+  const provider = getFulfillmentProvider(order.fulfillment_provider || undefined);
+  if (!provider || !order.fulfillment_id) return order.status;
+  const update = await provider.getOrderStatus(order);
+  return applyFulfillmentUpdate(order, update);
+}
@@ -0,0 +1,85 @@
+// api/_lib/geminiProvider.ts — Google Gemini image and vision provider
+// Env: GEMINI_API_KEY
+
+import { GoogleGenAI, Type } from '@google/genai';
+import type {
+  GeneratedImage,
+  ImageModelProvider,
+  ImageRequest,
+  ResponseSchema,
+  VisionProvider,
+  VisionRequest,
+} from './modelProvider.js';
+
+function getClient(): GoogleGenAI {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) throw new Error('GEMINI_API_KEY not configured');
+  return new GoogleGenAI({ apiKey });
+}
+
+const extractImageFromResponse = (response: any): GeneratedImage => {
+  const parts = response.candidates?.[0]?.content?.parts || [];
+  const imagePart = parts.find((p: any) => p.inlineData);
+  if (imagePart && imagePart.inlineData) {
+    return { data: imagePart.inlineData.data, mimeType: imagePart.inlineData.mimeType || 'image/png' };
+  }
+  // Log what we actually got back for debugging (server-side only)
+  console.error('No image in response. Parts:', JSON.stringify(parts?.map((p: any) => ({ hasText: !!p.text, hasInlineData: !!p.inlineData, textPreview: p.text?.slice(0, 200) })), null, 2));
+  console.error('Candidates:', JSON.stringify(response.candidates?.map((c: any) => ({ finishReason: c.finishReason, safetyRatings: c.safetyRatings })), null, 2));
+  throw new Error('The design studio failed to render the image. Please try again.');
+};
+
+function toGeminiSchema(schema: ResponseSchema): any {
+  if (schema.type === 'string') return { type: Type.STRING };
+  if (schema.type === 'number') return { type: Type.NUMBER };
+  if (schema.type === 'array') return { type: Type.ARRAY, items: toGeminiSchema(schema.items) };
+  return {
+    type: Type.OBJECT,
+    properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])),
+    ...(schema.required ? { required: schema.required } : {}),
+  };
+}
+
+export const geminiImageProvider: ImageModelProvider = {
+  name: 'gemini',
+
+  isConfigured: () => !!process.env.GEMINI_API_KEY,
+
+  async generateImage(model: string, request: ImageRequest): Promise<GeneratedImage> {
+    const parts: any[] = (request.images || []).map(image => ({ inlineData: image }));
+    parts.push({ text: request.prompt });
+
+    const config: any = { responseModalities: ['TEXT', 'IMAGE'], ...(request.signal ? { abortSignal: request.signal } : {}) };
+    // Flash image models don't support aspectRatio/imageSize — keep config minimal
+    if (!model.includes('flash') && (request.aspectRatio || request.imageSize)) {
+      config.imageConfig = {
+        ...(request.aspectRatio ? { aspectRatio: request.aspectRatio } : {}),
+        ...(request.imageSize ? { imageSize: request.imageSize } : {}),
+      };
+    }
+
+    const response = await getClient().models.generateContent({ model, contents: { parts }, config });
+    return extractImageFromResponse(response);
+  },
+};
+
+export const geminiVisionProvider: VisionProvider = {
+  name: 'gemini',
+
+  isConfigured: () => !!process.env.GEMINI_API_KEY,
+
+  async analyzeImages<T>(model: string, request: VisionRequest): Promise<T> {
+    const parts: any[] = request.images.map(image => ({ inlineData: image }));
+    parts.push({ text: request.prompt });
+
+    const response = await getClient().models.generateContent({
+      model,
+      contents: { parts },
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: toGeminiSchema(request.schema),
+      },
+    });
+    return JSON.parse(response.text as string) as T;
+  },
+};
@@ -0,0 +1,170 @@
+// api/_lib/generation.ts — Design generation
+// Shared by the synchronous /api/generate endpoint (draft model only, it must
+// finish inside the 60s function cap) and the job worker (/api/jobs), which
+// has time for the slower, higher-quality model. Models come from
+// modelProvider.ts ('generate' and 'generate-hq' operations).
+// The model never draws text: a title/subtitle is composited over the art
+// from the bundled lettering font (lettering.ts), so it is always spelled right.
+// Each image goes through the quality gate (qualityGate.ts); failing ones are
+// regenerated, within the retry budget and the caller's deadline, and the
+// best-scoring take is kept.
+
+import sharp from 'sharp';
+import { getStyleInstruction } from '../../lib/styleHelpers.js';
+import { trackImageGenCall } from '../../lib/apiTracker.js';
+import { persistImage } from './objectStorage.js';
+import { getImageModel, toImageInput } from './modelProvider.js';
+import { composeLettering } from './lettering.js';
+import { assessDesign, isQualityGateEnabled, qualityRetryBudget } from './qualityGate.js';
+import { defaultLettering } from '../../lib/lettering.js';
+import type { GenerationStage, LetteringSpec, QualityReport } from '../../types.js';
+
+export interface GenerateOptions {
+  operation?: 'generate' | 'generate-hq'; // defaults to the operation for details.quality
+  onStage?: (stage: GenerationStage) => void | Promise<void>;
+  deadline?: number; // epoch ms; no quality retry is started that would run past it
+}
+
+export interface GeneratedDesign {
+  imageUrl: string; // stored CDN URL when object storage is configured, else a base64 data URL
+  prompt: string;
+  model: string;
+  lettering?: LetteringSpec; // title/subtitle drawn over the art
+  artUrl?: string;           // the art without lettering, when lettering was drawn
+  quality?: QualityReport;   // unset when the quality gate is off
+}
+
+/**
+ * Operation for a requested quality: 'draft' uses the fast model, anything
+ * else the high-quality model
+ */
+export function operationForQuality(quality: string | undefined): 'generate' | 'generate-hq' {
+  return quality === 'draft' ? 'generate' : 'generate-hq';
+}
+
+// fixes: what the quality gate flagged in the previous take
+function buildPrompt(details: any, fixes: string[] = []): string {
+  const carIdentity = `${details.year || ''} ${details.make || ''} ${details.model || ''} ${details.trim || ''}`.trim();
+
+  // Titles are composited afterwards; leave them room instead
+  const typographyInstruction = titleLettering(details)
+    ? 'DO NOT add any text or labels. Keep the lower fifth of the canvas clear for a title.'
+    : 'DO NOT add any text or labels.';
+
+  const styleBase = getStyleInstruction(details);
+  const subjectDescription = details.referenceImage
+    ? 'the vehicle shown in the reference image'
+    : `a high-resolution, professional-grade studio photograph illustration of a ${carIdentity}`;
+
+  // Named factory paint, so the model can match the shade it knows ('Hugger Orange, code 72')
+  const paint = typeof details.colorName === 'string' && details.colorName
+    ? `${details.colorName}${details.paintCode ? `, code ${details.paintCode}` : ''}`
+    : '';
+
+  const metadataTags = `
+    [TAGS]
+    IDENTITY: ${details.year}, ${details.make}, ${details.model}, ${details.trim || 'Standard'}
+    AESTHETICS: ${details.artStyle}, Primary Color: ${details.color}${paint ? ` (${paint})` : ''}
+    COMPOSITION: ${details.view} view, Canvas: ${details.backgroundColor}
+    [/TAGS]
+  `;
+
+  // Candidate takes of one style share a prompt otherwise; nudge each one
+  const variationInstruction = details.variation
+    ? `VARIATION: This is take ${details.variation} of several. Keep the style, colors and view, but make your own choices of framing, line work and detail emphasis.`
+    : '';
+
+  return `${subjectDescription}.
+    ${styleBase}
+    GROUNDING: Search for and use the authentic visual details of a ${details.year} ${details.make} ${details.model}.${paint ? ` Body paint: factory ${paint} (${details.color}).` : ''} Centered square composition. ${details.view} view.
+    ${typographyInstruction}
+    ${variationInstruction}
+    ${fixes.length > 0 ? `FIX: The previous attempt was rejected (${fixes.join('; ')}). Avoid these problems.` : ''}
+    ${metadataTags}
+    CUSTOM: ${details.customization || 'None'}.`;
+}
+
+// Stacked lettering for a requested title/subtitle, or null if there is none
+function titleLettering(details: any): LetteringSpec | null {
+  const title = typeof details.title === 'string' ? details.title.trim() : '';
+  const subtitle = typeof details.subtitle === 'string' ? details.subtitle.trim() : '';
+  if (!title && !subtitle) return null;
+  return defaultLettering('stacked', { car: title, event: subtitle }, details.backgroundColor);
+}
+
+/**
+ * Losslessly recompress a model PNG (the model returns it barely compressed).
+ * Stays PNG: the stored design is the source for print files.
+ */
+async function compressDesignPng(data: string): Promise<string> {
+  const png = await sharp(Buffer.from(data, 'base64')).png({ compressionLevel: 9, effort: 7 }).toBuffer();
+  return `data:image/png;base64,${png.toString('base64')}`;
+}
+
+/**
+ * Generate a design image from validated design details and store it,
+ * reporting each stage through onStage
+ */
+export async function generateDesign(details: any, options: GenerateOptions = {}): Promise<GeneratedDesign> {
+  const { operation = operationForQuality(details.quality), onStage, deadline } = options;
+  const { provider, model } = getImageModel(operation);
+  const startTime = Date.now();
+  const gated = isQualityGateEnabled();
+  const maxAttempts = gated ? 1 + qualityRetryBudget() : 1;
+
+  let best: { compressed: string; prompt: string; quality?: QualityReport } | null = null;
+  let attempts = 0;
+  let fixes: string[] = [];
+  while (attempts < maxAttempts) {
+    const attemptStart = Date.now();
+    attempts++;
+    const promptText = buildPrompt(details, fixes);
+
+    await onStage?.('sent');
+    let image;
+    try {
+      image = await provider.generateImage(model, {
+        operation,
+        prompt: details.referenceImage
+          ? `Using the reference image AS THE ONLY SOURCE for features, create: ${promptText}`
+          : promptText,
+        images: details.referenceImage ? [toImageInput(details.referenceImage)] : [],
+        aspectRatio: '1:1',
+      });
+    } catch (err) {
+      // A failed retry still leaves the earlier take
+      if (best) break;
+      throw err;
+    }
+    await onStage?.('received');
+    const compressed = await compressDesignPng(image.data);
+    if (!gated) {
+      best = { compressed, prompt: promptText };
+      break;
+    }
+
+    const quality = await assessDesign(Buffer.from(compressed.split(',')[1], 'base64'), details);
+    if (!best || quality.score > best.quality!.score) best = { compressed, prompt: promptText, quality };
+    if (quality.passed) break;
+    fixes = quality.reasons;
+    // Assume another take would run about as long as this one
+    if (deadline && Date.now() + (Date.now() - attemptStart) > deadline) break;
+  }
+
+  const { compressed, prompt: promptText } = best!;
+  const quality = best!.quality && { ...best!.quality, attempts };
+  const lettering = titleLettering(details);
+  const lettered = lettering
+    ? `data:image/png;base64,${(await composeLettering(Buffer.from(compressed.split(',')[1], 'base64'), lettering)).toString('base64')}`
+    : compressed;
+  await onStage?.('compressed');
+  const imageUrl = await persistImage('designs', lettered);
+  const artUrl = lettering ? await persistImage('designs', compressed) : undefined;
+  await onStage?.('stored');
+  trackImageGenCall('MyRestoModStudio', 'generate_design', model, attempts, {
+    durationMs: Date.now() - startTime,
+    metadata: { style: details.artStyle, car: `${details.year} ${details.make} ${details.model}`, quality: details.quality || 'high' },
+  });
+
+  return { imageUrl, prompt: promptText, model, quality, ...(lettering ? { lettering, artUrl } : {}) };
+}
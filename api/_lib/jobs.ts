@@ -0,0 +1,188 @@
+// api/_lib/jobs.ts — Asynchronous design generation jobs
+// POST /api/jobs records a job and starts the worker after responding
+// (waitUntil), so generation is bounded by the jobs functions' maxDuration
+// (vercel.json) instead of the 60s request cap and can use the slower,
+// high-quality model. The client follows GET /api/jobs/:id — polled as JSON
+// or streamed as Server-Sent Events — for progress and the result.
+// Job state lives in Redis (24h TTL) with a per-job lock so only one worker
+// runs a job at a time. If a worker dies or runs out of time the job stays
+// queued/running and the next poll restarts it from the last attempt.
+// Without Redis configured (local dev) jobs are kept in process memory.
+// Env: KV_REST_API_URL, KV_REST_API_TOKEN
+
+import { getRedis } from './redis.js';
+import { generateDesign, type GeneratedDesign } from './generation.js';
+import { logError, sanitizeError } from './validation.js';
+import type { GenerationProgress, GenerationStage } from '../../types.js';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface JobRecord {
+  id: string;
+  userId: string;
+  status: JobStatus;
+  details: Record<string, any>; // validated design details (validateDesignInput)
+  result?: GeneratedDesign;
+  error?: string;
+  events: GenerationProgress[]; // every stage reached, oldest first
+  attempts: number;
+  maxAttempts: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const JOB_TTL_SECONDS = 24 * 60 * 60;
+const LOCK_TTL_SECONDS = 300; // matches the jobs functions' maxDuration
+const MAX_ATTEMPTS = 3;
+// Don't start another attempt this late into an invocation — leave the job
+// queued and let the next poll pick it up in a fresh one
+const WORKER_BUDGET_MS = 180_000;
+
+const jobKey = (id: string) => `job:${id}`;
+const lockKey = (id: string) => `job:${id}:lock`;
+
+// ── Store ───────────────────────────────────────────────────────────────
+
+interface JobStore {
+  get(id: string): Promise<JobRecord | null>;
+  put(job: JobRecord): Promise<void>;
+  /** @returns true if the lock was free and is now held */
+  lock(id: string): Promise<boolean>;
+  unlock(id: string): Promise<void>;
+}
+
+function redisStore(): JobStore | null {
+  const redis = getRedis();
+  if (!redis) return null;
+  return {
+    get: id => redis.get<JobRecord>(jobKey(id)),
+    put: async job => { await redis.set(jobKey(job.id), job, { ex: JOB_TTL_SECONDS }); },
+    lock: async id => (await redis.set(lockKey(id), 1, { nx: true, ex: LOCK_TTL_SECONDS })) === 'OK',
+    unlock: async id => { await redis.del(lockKey(id)); },
+  };
+}
+
+// Kept on globalThis so dev-server module reloads don't drop running jobs
+const memory: { jobs: Map<string, JobRecord>; locks: Set<string> } =
+  ((globalThis as any).__snapJobs ||= { jobs: new Map(), locks: new Set() });
+
+const memoryStore: JobStore = {
+  get: async id => memory.jobs.get(id) || null,
+  put: async job => { memory.jobs.set(job.id, { ...job, events: [...job.events] }); },
+  lock: async id => {
+    if (memory.locks.has(id)) return false;
+    memory.locks.add(id);
+    return true;
+  },
+  unlock: async id => { memory.locks.delete(id); },
+};
+
+const getStore = (): JobStore => redisStore() || memoryStore;
+
+// ── Jobs ────────────────────────────────────────────────────────────────
+
+/**
+ * Record a new generation job. Start it with processJob().
+ */
+export async function createJob(userId: string, details: Record<string, any>): Promise<JobRecord> {
+  const now = new Date().toISOString();
+  const job: JobRecord = {
+    id: crypto.randomUUID(),
+    userId,
+    status: 'queued',
+    details,
+    events: [{ stage: 'queued', at: now }],
+    attempts: 0,
+    maxAttempts: MAX_ATTEMPTS,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await getStore().put(job);
+  return job;
+}
+
+export async function getJob(id: string): Promise<JobRecord | null> {
+  return getStore().get(id);
+}
+
+/** Still waiting on a worker */
+export function isJobPending(job: JobRecord): boolean {
+  return job.status === 'queued' || job.status === 'running';
+}
+
+// Client errors from the model API (bad request, blocked content) won't
+// succeed on retry; rate limits and timeouts might
+function isRetryable(err: any): boolean {
+  const status = Number(err?.status);
+  if (status >= 400 && status < 500) return status === 408 || status === 429;
+  return !/not configured/i.test(err?.message || '');
+}
+
+/**
+ * Run a job to completion, retrying failed attempts with backoff.
+ * Safe to call repeatedly: returns immediately if another worker holds the
+ * job or it has already finished.
+ */
+export async function processJob(id: string): Promise<void> {
+  const store = getStore();
+  if (!(await store.lock(id))) return;
+
+  const startedAt = Date.now();
+  try {
+    const job = await store.get(id);
+    if (!job || !isJobPending(job)) return;
+
+    const record = async (stage: GenerationStage, error?: string) => {
+      job.updatedAt = new Date().toISOString();
+      job.events.push({ stage, at: job.updatedAt, attempt: job.attempts, ...(error ? { error } : {}) });
+      await store.put(job);
+    };
+
+    while (job.attempts < job.maxAttempts) {
+      if (job.attempts > 0) {
+        if (Date.now() - startedAt > WORKER_BUDGET_MS) {
+          job.status = 'queued';
+          job.updatedAt = new Date().toISOString();
+          await store.put(job);
+          return;
+        }
+        await new Promise(r => setTimeout(r, 2000 * job.attempts));
+      }
+
+      job.attempts++;
+      job.status = 'running';
+      job.updatedAt = new Date().toISOString();
+      await store.put(job);
+
+      try {
+        job.result = await generateDesign(job.details, {
+          onStage: stage => record(stage),
+          deadline: startedAt + WORKER_BUDGET_MS,
+        });
+        job.status = 'succeeded';
+        job.error = undefined;
+        break;
+      } catch (err: any) {
+        logError('job', err, { jobId: id, attempt: job.attempts });
+        job.error = sanitizeError(err);
+        await record('failed', job.error);
+        if (!isRetryable(err)) break;
+      }
+    }
+
+    if (job.status !== 'succeeded') {
+      job.status = 'failed';
+      // Last attempt was cut off by the function timeout rather than failing
+      if (!job.error) {
+        job.error = 'Generation timed out. Please try again.';
+        await record('failed', job.error);
+      }
+    }
+    // The reference photo is only needed while generating
+    job.details = { ...job.details, referenceImage: undefined };
+    job.updatedAt = new Date().toISOString();
+    await store.put(job);
+  } finally {
+    await store.unlock(id).catch(() => {});
+  }
+}
@@ -0,0 +1,176 @@
+// api/_lib/knockout.ts — Remove the flat canvas color behind a design
+// Every style is rendered on a known backgroundColor (STYLE_CONFIGS, or the
+// vendor's snap_custom_styles row), which
+// prints as a visible box on a garment. Two modes:
+//   edge — flood-fills the canvas from the image border within a tolerance and
+//          feathers the boundary; interior areas of the same color (a white car
+//          on a white canvas) are kept.
+//   soft — color-to-alpha over the whole image, so glows and watercolor washes
+//          fade into transparency instead of leaving a halo.
+// 'edge' falls back to 'soft' when the border is not mostly the expected color
+// (the model ignored the flat-background rule).
+
+import sharp from 'sharp';
+import { STYLE_CONFIGS, baseStyleId } from '../../types.js';
+import { getCustomStyle } from './customStyles.js';
+
+export type KnockoutMode = 'edge' | 'soft';
+
+export interface KnockoutOptions {
+  mode?: KnockoutMode;
+  tolerance?: number; // RGB distance still treated as pure background (0–441)
+  feather?: number;   // distance over which alpha ramps from 0 to 1 in edge mode
+  softRange?: number; // distance at which a pixel becomes fully opaque in soft mode
+}
+
+export interface KnockoutResult {
+  png: Buffer;
+  mode: KnockoutMode;
+  width: number;
+  height: number;
+}
+
+// Share of border pixels that must match the canvas for edge mode to be trusted
+const MIN_BORDER_MATCH = 0.6;
+
+/**
+ * Knockout settings for a built-in or custom style
+ * @returns null for unknown styles
+ */
+export async function getStyleKnockout(styleId: string): Promise<{ backgroundColor: string; mode: KnockoutMode } | null> {
+  const config = STYLE_CONFIGS.find(c => c.id === baseStyleId(styleId));
+  if (config) return { backgroundColor: config.backgroundColor || '#FFFFFF', mode: config.knockout || 'edge' };
+  const custom = await getCustomStyle(styleId);
+  return custom ? { backgroundColor: custom.backgroundColor, mode: custom.knockout } : null;
+}
+
+/** '#RRGGBB' (or '#RGB') as RGB components */
+export function parseHex(hex: string): [number, number, number] {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value;
+  const n = parseInt(full, 16);
+  if (Number.isNaN(n) || full.length !== 6) throw new Error(`Invalid background color ${hex}`);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+const clamp255 = (v: number) => (v < 0 ? 0 : v > 255 ? 255 : Math.round(v));
+
+/**
+ * Set a pixel's alpha and remove the background color bleeding into it,
+ * so semi-transparent edges don't keep a white/black fringe
+ */
+function applyAlpha(data: Buffer, i: number, alpha: number, bg: [number, number, number]) {
+  if (alpha <= 0) {
+    data[i + 3] = 0;
+    return;
+  }
+  if (alpha < 1) {
+    for (let c = 0; c < 3; c++) data[i + c] = clamp255(bg[c] + (data[i + c] - bg[c]) / alpha);
+  }
+  data[i + 3] = Math.round(alpha * (data[i + 3] / 255) * 255);
+}
+
+function knockoutSoft(data: Buffer, bg: [number, number, number], dist: Float32Array, softRange: number) {
+  for (let p = 0; p < dist.length; p++) {
+    applyAlpha(data, p * 4, Math.min(1, dist[p] / softRange), bg);
+  }
+}
+
+/**
+ * @returns false if the border does not look like the canvas and edge mode should not be used
+ */
+function knockoutEdge(
+  data: Buffer,
+  width: number,
+  height: number,
+  bg: [number, number, number],
+  dist: Float32Array,
+  tolerance: number,
+  feather: number
+): boolean {
+  const limit = tolerance + feather;
+  const visited = new Uint8Array(width * height);
+  // Each pixel is queued at most once (visited is set on push), so one
+  // preallocated queue holds the whole flood of a 4K master
+  const queue = new Int32Array(width * height);
+  let head = 0;
+  let tail = 0;
+
+  let borderMatches = 0;
+  let borderTotal = 0;
+  const seed = (p: number) => {
+    borderTotal++;
+    if (dist[p] <= limit) {
+      borderMatches++;
+      if (!visited[p]) {
+        visited[p] = 1;
+        queue[tail++] = p;
+      }
+    }
+  };
+  for (let x = 0; x < width; x++) {
+    seed(x);
+    seed((height - 1) * width + x);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    seed(y * width);
+    seed(y * width + width - 1);
+  }
+  if (borderMatches / borderTotal < MIN_BORDER_MATCH) return false;
+
+  // Flood the canvas inward; pixels in the feather band are taken but not expanded from
+  const visit = (n: number) => {
+    if (visited[n] || dist[n] > limit) return;
+    visited[n] = 1;
+    queue[tail++] = n;
+  };
+  while (head < tail) {
+    const p = queue[head++];
+    if (dist[p] > tolerance) continue;
+    const x = p % width;
+    if (x > 0) visit(p - 1);
+    if (x < width - 1) visit(p + 1);
+    if (p >= width) visit(p - width);
+    if (p + width < visited.length) visit(p + width);
+  }
+
+  for (let p = 0; p < visited.length; p++) {
+    if (!visited[p]) continue;
+    const alpha = feather > 0 ? Math.max(0, (dist[p] - tolerance) / feather) : 0;
+    applyAlpha(data, p * 4, Math.min(1, alpha), bg);
+  }
+  return true;
+}
+
+/**
+ * Replace a design's flat background color with transparency
+ * @returns Transparent PNG and the mode actually used
+ */
+export async function knockoutBackground(
+  image: Buffer,
+  backgroundColor: string,
+  options: KnockoutOptions = {}
+): Promise<KnockoutResult> {
+  const { tolerance = 36, feather = 28, softRange = 140 } = options;
+  const bg = parseHex(backgroundColor);
+
+  const { data, info } = await sharp(image).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  const { width, height } = info;
+
+  const dist = new Float32Array(width * height);
+  for (let p = 0, i = 0; p < dist.length; p++, i += 4) {
+    const dr = data[i] - bg[0];
+    const dg = data[i + 1] - bg[1];
+    const db = data[i + 2] - bg[2];
+    dist[p] = Math.sqrt(dr * dr + dg * dg + db * db);
+  }
+
+  let mode: KnockoutMode = options.mode || 'edge';
+  if (mode === 'edge' && !knockoutEdge(data, width, height, bg, dist, tolerance, feather)) {
+    mode = 'soft';
+  }
+  if (mode === 'soft') knockoutSoft(data, bg, dist, softRange);
+
+  const png = await sharp(data, { raw: { width, height, channels: 4 } }).png().toBuffer();
+  return { png, mode, width, height };
+}
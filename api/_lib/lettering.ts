@@ -0,0 +1,22 @@
+// api/_lib/lettering.ts — Composite lettering over a design image
+// The layout comes from lib/lettering.ts, the same code that draws the live
+// preview in the app, so print files and mockups match what the vendor saw.
+
+import sharp from 'sharp';
+import { renderLetteringSvg, hasLettering } from '../../lib/lettering.js';
+import type { LetteringSpec } from '../../types.js';
+
+/**
+ * Draw a lettering spec over an image at its full resolution
+ * @returns PNG buffer (the input unchanged if the spec has no text)
+ */
+export async function composeLettering(image: Buffer, spec: LetteringSpec | null | undefined): Promise<Buffer> {
+  if (!hasLettering(spec)) return image;
+  const { width = 1024, height = 1024 } = await sharp(image).metadata();
+  // Designs are square; on anything else the lettering square is centered
+  const svg = renderLetteringSvg(spec, Math.min(width, height));
+  return sharp(image)
+    .composite([{ input: Buffer.from(svg), gravity: 'center' }])
+    .png()
+    .toBuffer();
+}
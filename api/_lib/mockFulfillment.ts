@@ -0,0 +1,39 @@
+// api/_lib/mockFulfillment.ts — Local stand-in for a print-on-demand provider
+// Accepts every order and advances it on a clock instead of a print shop:
+// in_production on submit, shipped (with fake tracking) after one step,
+// fulfilled after two. Drive it with /api/fulfillment/sync.
+// Env: MOCK_FULFILLMENT_STEP_SECONDS (default 60)
+
+import type { FulfillmentProvider, FulfillmentUpdate } from './fulfillment.js';
+import type { OrderRecord } from './orders.js';
+
+function stepMs(): number {
+  return (Number(process.env.MOCK_FULFILLMENT_STEP_SECONDS) || 60) * 1000;
+}
+
+function mockTracking(fulfillmentId: string) {
+  const number = `MOCK${fulfillmentId.replace(/[^a-zA-Z0-9]/g, '').slice(-12).toUpperCase()}`;
+  return { carrier: 'MOCK', number, url: `https://example.com/track/${number}` };
+}
+
+export const mockFulfillmentProvider: FulfillmentProvider = {
+  name: 'mock',
+
+  async submitOrder(request): Promise<FulfillmentUpdate> {
+    for (const item of request.items) {
+      if (!item.printFileUrl) throw new Error(`Missing print file for ${item.productId}`);
+    }
+    return { fulfillmentId: `mock_${request.orderId}`, status: 'in_production' };
+  },
+
+  async getOrderStatus(order: OrderRecord): Promise<FulfillmentUpdate> {
+    const fulfillmentId = order.fulfillment_id || `mock_${order.id}`;
+    const submittedAt = order.fulfillment_submitted_at ? Date.parse(order.fulfillment_submitted_at) : Date.now();
+    const elapsed = Date.now() - submittedAt;
+
+    if (elapsed < stepMs()) return { fulfillmentId, status: 'in_production' };
+    const tracking = mockTracking(fulfillmentId);
+    if (elapsed < 2 * stepMs()) return { fulfillmentId, status: 'shipped', tracking };
+    return { fulfillmentId, status: 'fulfilled', tracking };
+  },
+};
@@ -0,0 +1,138 @@
+// api/_lib/modelProvider.ts — Image and vision model providers
+// Endpoints ask for a model by operation (generate, edit, analyze, …) and get
+// back a provider plus model name; they never construct a model client.
+// Providers: gemini (Google GenAI) and fake (deterministic placeholders, no
+// network or API key — for demos and offline development).
+// Env: AI_PROVIDER (gemini|fake, default gemini)
+//      AI_MODEL_<OPERATION> per-operation override, "provider:model" or "model",
+//        e.g. AI_MODEL_GENERATE_HQ=gemini:gemini-3-pro-image-preview, AI_MODEL_ANALYZE=fake:any
+//      GEMINI_HQ_MODEL, PRINT_UPSCALE_MODEL (older names for GENERATE_HQ / UPSCALE; 'off' skips upscaling)
+
+import { geminiImageProvider, geminiVisionProvider } from './geminiProvider.js';
+import { fakeImageProvider, fakeVisionProvider } from './fakeProvider.js';
+
+export type ImageOperation = 'generate' | 'generate-hq' | 'edit' | 'mockup' | 'upscale';
+export type VisionOperation = 'analyze' | 'identify-color' | 'critique' | 'redact';
+
+export interface ImageInput {
+  data: string; // base64, no data: prefix
+  mimeType: string;
+}
+
+export interface ImageRequest {
+  operation: ImageOperation;
+  prompt: string;
+  images?: ImageInput[];            // reference images, in the order the prompt refers to them
+  aspectRatio?: '1:1';
+  imageSize?: '1K' | '2K' | '4K';
+  signal?: AbortSignal;             // cancels the model call, e.g. on a timeout
+}
+
+export interface GeneratedImage {
+  data: string; // base64
+  mimeType: string;
+}
+
+// Subset of JSON Schema that both providers understand
+export type ResponseSchema =
+  | { type: 'string' }
+  | { type: 'number' }
+  | { type: 'array'; items: ResponseSchema }
+  | { type: 'object'; properties: Record<string, ResponseSchema>; required?: string[] };
+
+export interface VisionRequest {
+  operation: VisionOperation;
+  prompt: string;
+  images: ImageInput[];
+  schema: ResponseSchema;
+}
+
+export interface ImageModelProvider {
+  name: string;
+  isConfigured(): boolean;
+  /** @throws if the model returns no image */
+  generateImage(model: string, request: ImageRequest): Promise<GeneratedImage>;
+}
+
+export interface VisionProvider {
+  name: string;
+  isConfigured(): boolean;
+  /** Answer a question about images as JSON matching request.schema */
+  analyzeImages<T>(model: string, request: VisionRequest): Promise<T>;
+}
+
+const IMAGE_PROVIDERS: Record<string, ImageModelProvider> = {
+  gemini: geminiImageProvider,
+  fake: fakeImageProvider,
+};
+
+const VISION_PROVIDERS: Record<string, VisionProvider> = {
+  gemini: geminiVisionProvider,
+  fake: fakeVisionProvider,
+};
+
+// Model per operation when not overridden
+const DEFAULT_MODELS: Record<ImageOperation | VisionOperation, string> = {
+  // Draft generation runs inside the 60s request cap — Flash only.
+  // gemini-2.0-flash-exp broke (RECITATION filter), upgraded to 2.5-flash-image
+  'generate': 'gemini-2.5-flash-image',
+  'generate-hq': 'gemini-3-pro-image-preview',
+  'edit': 'gemini-3-pro-image-preview',
+  'mockup': 'gemini-2.5-flash-image',
+  'upscale': 'gemini-3-pro-image-preview',
+  'analyze': 'gemini-2.5-flash',
+  'identify-color': 'gemini-2.5-flash',
+  // Quality gate critique of generated art (qualityGate.ts) — an extra call
+  // per image, so opt in with e.g. AI_MODEL_CRITIQUE=gemini-2.5-flash
+  'critique': 'off',
+  // Plate and face boxes for photo redaction (redaction.ts)
+  'redact': 'gemini-2.5-flash',
+};
+
+// Env names that predate AI_MODEL_<OPERATION>
+const LEGACY_ENV: Partial<Record<ImageOperation | VisionOperation, string>> = {
+  'generate-hq': 'GEMINI_HQ_MODEL',
+  'upscale': 'PRINT_UPSCALE_MODEL',
+};
+
+function resolve(operation: ImageOperation | VisionOperation): { providerName: string; model: string } {
+  const legacyEnv = LEGACY_ENV[operation];
+  const spec = process.env[`AI_MODEL_${operation.replace(/-/g, '_').toUpperCase()}`]
+    || (legacyEnv && process.env[legacyEnv])
+    || DEFAULT_MODELS[operation];
+  const separator = spec.indexOf(':');
+  if (separator > 0) return { providerName: spec.slice(0, separator), model: spec.slice(separator + 1) };
+  return { providerName: process.env.AI_PROVIDER || 'gemini', model: spec };
+}
+
+/**
+ * Provider and model configured for an image operation.
+ * model is 'off' when the operation is disabled (upscale only).
+ */
+export function getImageModel(operation: ImageOperation): { provider: ImageModelProvider; model: string } {
+  const { providerName, model } = resolve(operation);
+  const provider = IMAGE_PROVIDERS[providerName];
+  if (!provider) throw new Error(`Unknown image model provider ${providerName}`);
+  return { provider, model };
+}
+
+/**
+ * Provider and model configured for a vision operation.
+ * model is 'off' when the operation is disabled (critique only).
+ */
+export function getVisionModel(operation: VisionOperation): { provider: VisionProvider; model: string } {
+  const { providerName, model } = resolve(operation);
+  const provider = VISION_PROVIDERS[providerName];
+  if (!provider) throw new Error(`Unknown vision model provider ${providerName}`);
+  return { provider, model };
+}
+
+/** Split a data URL (or bare base64) into an ImageInput */
+export function toImageInput(dataUrl: string, fallbackMimeType = 'image/png'): ImageInput {
+  const match = dataUrl.match(/^data:([\w/+.-]+);base64,(.*)$/);
+  return match ? { mimeType: match[1], data: match[2] } : { mimeType: fallbackMimeType, data: dataUrl };
+}
+
+export function toDataUrl(image: GeneratedImage): string {
+  return `data:${image.mimeType};base64,${image.data}`;
+}
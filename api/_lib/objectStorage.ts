@@ -0,0 +1,113 @@
+// api/_lib/objectStorage.ts — Persist generated images to object storage
+// Drivers:
+//   s3 — any S3-compatible bucket (AWS S3, Cloudflare R2, MinIO via STORAGE_ENDPOINT)
+//   fs — writes to a local directory served as static files (local development only;
+//        Vercel's filesystem is read-only)
+// Keys are content-addressed, so the same image always maps to the same URL.
+// Env: STORAGE_DRIVER (s3|fs), STORAGE_BUCKET, STORAGE_REGION, STORAGE_ENDPOINT,
+//      STORAGE_ACCESS_KEY_ID, STORAGE_SECRET_ACCESS_KEY, STORAGE_PUBLIC_URL (CDN base),
+//      STORAGE_LOCAL_DIR (fs driver, default public/uploads)
+
+import { createHash } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
+import { logError } from './validation.js';
+
+export type ImageKind = 'designs' | 'mockups' | 'print';
+
+interface StorageDriver {
+  put(key: string, body: Buffer, contentType: string): Promise<string>; // returns public URL
+}
+
+// ── S3-compatible driver ────────────────────────────────────────────────
+
+function createS3Driver(): StorageDriver {
+  const bucket = process.env.STORAGE_BUCKET!;
+  const region = process.env.STORAGE_REGION || 'auto';
+  const endpoint = process.env.STORAGE_ENDPOINT; // R2 / MinIO; omit for AWS
+  const client = new S3Client({
+    region,
+    endpoint,
+    forcePathStyle: !!endpoint, // MinIO needs path-style addressing
+    credentials: {
+      accessKeyId: process.env.STORAGE_ACCESS_KEY_ID || '',
+      secretAccessKey: process.env.STORAGE_SECRET_ACCESS_KEY || '',
+    },
+  });
+
+  const publicBase = process.env.STORAGE_PUBLIC_URL?.replace(/\/$/, '')
+    || (endpoint ? `${endpoint.replace(/\/$/, '')}/${bucket}` : `https://${bucket}.s3.${region}.amazonaws.com`);
+
+  return {
+    async put(key, body, contentType) {
+      await client.send(new PutObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+        CacheControl: 'public, max-age=31536000, immutable',
+      }));
+      return `${publicBase}/${key}`;
+    },
+  };
+}
+
+// ── Local filesystem driver ─────────────────────────────────────────────
+
+function createFsDriver(): StorageDriver {
+  const root = process.env.STORAGE_LOCAL_DIR || join(process.cwd(), 'public', 'uploads');
+  const publicBase = (process.env.STORAGE_PUBLIC_URL || '/uploads').replace(/\/$/, '');
+
+  return {
+    async put(key, body) {
+      const filePath = join(root, key);
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(filePath, body);
+      return `${publicBase}/${key}`;
+    },
+  };
+}
+
+let _driver: StorageDriver | null = null;
+
+function getDriver(): StorageDriver | null {
+  if (_driver) return _driver;
+  const driver = process.env.STORAGE_DRIVER || (process.env.STORAGE_BUCKET ? 's3' : '');
+  if (driver === 's3' && process.env.STORAGE_BUCKET) _driver = createS3Driver();
+  else if (driver === 'fs') _driver = createFsDriver();
+  return _driver;
+}
+
+// ── Public API ──────────────────────────────────────────────────────────
+
+/**
+ * Upload a raw image buffer under a content-addressed key
+ * @returns Stable public URL
+ */
+export async function storeImageBuffer(kind: ImageKind, body: Buffer, contentType = 'image/png'): Promise<string> {
+  const driver = getDriver();
+  if (!driver) throw new Error('Object storage not configured');
+
+  const ext = contentType === 'image/jpeg' ? 'jpg' : contentType.split('/')[1] || 'bin';
+  const hash = createHash('sha256').update(body).digest('hex').slice(0, 32);
+  const key = `${kind}/${hash.slice(0, 2)}/${hash}.${ext}`;
+  return driver.put(key, body, contentType);
+}
+
+/**
+ * Upload a base64 data URL returned by the image model.
+ * Falls back to returning the data URL unchanged when storage is not
+ * configured or the upload fails, so generation never breaks on storage.
+ */
+export async function persistImage(kind: ImageKind, dataUrl: string): Promise<string> {
+  const match = dataUrl.match(/^data:([\w/+.-]+);base64,(.+)$/);
+  if (!match || !getDriver()) return dataUrl;
+
+  try {
+    return await storeImageBuffer(kind, Buffer.from(match[2], 'base64'), match[1]);
+  } catch (err: any) {
+    logError('objectStorage', err, { kind });
+    return dataUrl;
+  }
+}
@@ -0,0 +1,416 @@
+// api/_lib/orders.ts — Server-side order records in snap_orders
+// Orders are keyed on the PayPal order ID so retried captures (or a capture
+// racing a webhook) update the same row instead of creating duplicates.
+
+import { getServerSupabase } from './supabase.js';
+import type { PricedItem } from './pricing.js';
+import { getProduct } from '../../lib/catalog.js';
+import type { LetteringSpec } from '../../types.js';
+
+export type OrderStatus =
+  | 'pending'
+  | 'confirmed'
+  | 'in_production'
+  | 'shipped'
+  | 'fulfilled'
+  | 'cancelled'
+  | 'refunded'
+  | 'disputed';
+
+export interface ShippingAddressRecord {
+  firstName: string;
+  lastName: string;
+  address1: string;
+  address2: string;
+  city: string;
+  state: string;
+  zip: string;
+  country: string;
+}
+
+/** Print-ready file rendered for a purchased item (api/_lib/printRender.ts) */
+export interface PrintFileRecord {
+  url: string;
+  widthPx: number;
+  heightPx: number;
+  dpi: number;
+  method: 'model' | 'resample'; // how the design was brought up to print resolution
+  knockout?: 'edge' | 'soft';    // set when the canvas color was made transparent
+}
+
+export interface OrderItemRecord {
+  productId: string;
+  styleId?: string;
+  size?: string;
+  color?: string;
+  quantity: number;
+  price: number;
+  printFile?: PrintFileRecord;
+}
+
+export interface OrderRecord {
+  id: string;
+  car_id: string | null;
+  event_id: string | null;
+  paypal_order_id: string;
+  payment_id: string | null;
+  customer_email: string | null;
+  customer_name: string | null;
+  shipping_address: ShippingAddressRecord | null;
+  items: OrderItemRecord[];
+  total: number | null;
+  status: OrderStatus;
+  status_before_dispute: OrderStatus | null; // restored when a dispute is resolved in the seller's favour
+  fulfillment_provider: string | null;
+  fulfillment_id: string | null;     // provider-side order ID
+  fulfillment_status: string | null; // last status reported by the provider
+  fulfillment_error: string | null;
+  fulfillment_submitted_at: string | null;
+  fulfillment_attempts: number;                // submissions started (claimSubmission)
+  fulfillment_next_attempt_at: string | null;  // when the cron may retry an unfinished submission
+  tracking_carrier: string | null;
+  tracking_number: string | null;
+  tracking_url: string | null;
+}
+
+// Car IDs are UUIDs (generateId() / gen_random_uuid()); snap_orders.car_id references snap_cars
+export const CAR_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Look up a car and the event it belongs to
+ * @returns null if the ID is malformed or the car hasn't synced to Supabase —
+ * the order is then recorded without a car rather than not at all
+ */
+async function findCar(carId: string | null | undefined): Promise<{ id: string; eventId: string | null } | null> {
+  const supabase = getServerSupabase();
+  if (!supabase || !carId || !CAR_ID_PATTERN.test(carId)) return null;
+  const { data } = await supabase.from('snap_cars').select('id, event_id').eq('id', carId).maybeSingle();
+  return data ? { id: data.id, eventId: data.event_id || null } : null;
+}
+
+/**
+ * Line items and total read back from a PayPal purchase unit, for when the
+ * pending row create-order writes is missing. Reverses create-order's item
+ * fields: sku is productId-size-color, the description ends in ' · styleId'.
+ * Items that don't resolve against the catalog are skipped.
+ */
+export function orderItemsFromPaypal(unit: any): { items: OrderItemRecord[]; total: number | null } {
+  const items = (Array.isArray(unit?.items) ? unit.items : []).flatMap((item: any): OrderItemRecord[] => {
+    const [productId, ...rest] = String(item?.sku || '').split('-');
+    const product = getProduct(productId);
+    const price = parseFloat(item?.unit_amount?.value);
+    if (!product || !Number.isFinite(price)) return [];
+    const size = product.sizes?.some(s => s.id === rest[0]) ? rest.shift() : undefined;
+    const color = rest.join('-') || undefined;
+    const styleId = String(item?.description || '').split(' · ')[1] || undefined;
+    return [{ productId: product.id, styleId, size, color, quantity: parseInt(item?.quantity, 10) || 1, price }];
+  });
+  const total = parseFloat(unit?.amount?.value);
+  return { items, total: Number.isFinite(total) ? total : null };
+}
+
+export async function getOrderByPaypalId(paypalOrderId: string): Promise<OrderRecord | null> {
+  const supabase = getServerSupabase();
+  if (!supabase) return null;
+  const { data, error } = await supabase
+    .from('snap_orders')
+    .select('*')
+    .eq('paypal_order_id', paypalOrderId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data as OrderRecord | null;
+}
+
+/**
+ * Record a pending order when the PayPal order is created, so capture
+ * knows the priced line items and which car they belong to.
+ */
+export async function recordPendingOrder(opts: {
+  paypalOrderId: string;
+  carId?: string;
+  items: PricedItem[];
+  total: number;
+}): Promise<void> {
+  const supabase = getServerSupabase();
+  if (!supabase) return;
+
+  const car = await findCar(opts.carId);
+  const { error } = await supabase
+    .from('snap_orders')
+    .upsert({
+      paypal_order_id: opts.paypalOrderId,
+      car_id: car?.id || null,
+      event_id: car?.eventId || null,
+      items: opts.items.map(i => ({
+        productId: i.productId,
+        styleId: i.styleId,
+        size: i.size,
+        color: i.color,
+        quantity: i.quantity,
+        price: i.unitPrice,
+      })),
+      total: opts.total,
+      status: 'pending',
+    }, { onConflict: 'paypal_order_id', ignoreDuplicates: true });
+
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Record (or update) the order after a successful capture. Idempotent on paypalOrderId.
+ * items/total (from the PayPal order) fill in for a missing pending row.
+ */
+export async function recordCapturedOrder(opts: {
+  paypalOrderId: string;
+  captureId: string | null;
+  captureStatus: string | undefined;
+  carId?: string | null;
+  items?: OrderItemRecord[];
+  total?: number | null;
+  payerEmail?: string;
+  payerName?: string;
+  shippingAddress?: ShippingAddressRecord;
+}): Promise<OrderRecord | null> {
+  const supabase = getServerSupabase();
+  if (!supabase) return null;
+
+  const existing = await getOrderByPaypalId(opts.paypalOrderId);
+  const car = existing?.car_id ? null : await findCar(opts.carId);
+  const carId = existing?.car_id || car?.id || null;
+  const eventId = existing?.event_id || car?.eventId || null;
+
+  const { data, error } = await supabase
+    .from('snap_orders')
+    .upsert({
+      paypal_order_id: opts.paypalOrderId,
+      car_id: carId,
+      event_id: eventId,
+      items: existing?.items?.length ? existing.items : opts.items || [],
+      total: existing?.total ?? opts.total ?? null,
+      payment_id: opts.captureId,
+      customer_email: opts.payerEmail || null,
+      customer_name: opts.payerName || null,
+      shipping_address: opts.shippingAddress || null,
+      // Never move a fulfilled/refunded/disputed order backwards
+      status: existing && existing.status !== 'pending' && existing.status !== 'confirmed'
+        ? existing.status
+        : opts.captureStatus === 'COMPLETED' ? 'confirmed' : 'pending',
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'paypal_order_id' })
+    .select('*')
+    .single();
+
+  if (error) throw new Error(error.message);
+  return data as OrderRecord;
+}
+
+/**
+ * Find an order by PayPal order ID, falling back to the capture ID (payment_id)
+ */
+export async function findOrder(ref: { paypalOrderId?: string; captureId?: string }): Promise<OrderRecord | null> {
+  if (ref.paypalOrderId) {
+    const byOrder = await getOrderByPaypalId(ref.paypalOrderId);
+    if (byOrder) return byOrder;
+  }
+  const supabase = getServerSupabase();
+  if (!supabase || !ref.captureId) return null;
+  const { data, error } = await supabase
+    .from('snap_orders')
+    .select('*')
+    .eq('payment_id', ref.captureId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data as OrderRecord | null;
+}
+
+/**
+ * Set an order's status (and optionally its capture ID). statusBeforeDispute
+ * is written when given; null clears it.
+ */
+export async function updateOrderStatus(
+  orderId: string,
+  status: OrderStatus,
+  captureId?: string,
+  statusBeforeDispute?: OrderStatus | null
+): Promise<void> {
+  const supabase = getServerSupabase();
+  if (!supabase) return;
+  const { error } = await supabase
+    .from('snap_orders')
+    .update({
+      status,
+      ...(captureId ? { payment_id: captureId } : {}),
+      ...(statusBeforeDispute !== undefined ? { status_before_dispute: statusBeforeDispute } : {}),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', orderId);
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Replace an order's line items (used to attach rendered print files)
+ */
+export async function updateOrderItems(orderId: string, items: OrderItemRecord[]): Promise<void> {
+  const supabase = getServerSupabase();
+  if (!supabase) return;
+  const { error } = await supabase
+    .from('snap_orders')
+    .update({ items, updated_at: new Date().toISOString() })
+    .eq('id', orderId);
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Patch an order's fulfillment columns (provider ID, status, tracking)
+ */
+export async function updateOrderFulfillment(
+  orderId: string,
+  patch: Partial<Pick<OrderRecord,
+    | 'status'
+    | 'fulfillment_provider'
+    | 'fulfillment_id'
+    | 'fulfillment_status'
+    | 'fulfillment_error'
+    | 'fulfillment_submitted_at'
+    | 'tracking_carrier'
+    | 'tracking_number'
+    | 'tracking_url'>>
+): Promise<void> {
+  const supabase = getServerSupabase();
+  if (!supabase) return;
+  const { error } = await supabase
+    .from('snap_orders')
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq('id', orderId);
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Find an order by the fulfillment provider's order ID
+ */
+export async function getOrderByFulfillmentId(provider: string, fulfillmentId: string): Promise<OrderRecord | null> {
+  const supabase = getServerSupabase();
+  if (!supabase) return null;
+  const { data, error } = await supabase
+    .from('snap_orders')
+    .select('*')
+    .eq('fulfillment_provider', provider)
+    .eq('fulfillment_id', fulfillmentId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data as OrderRecord | null;
+}
+
+/**
+ * Orders submitted for fulfillment that have not reached a final state yet
+ */
+export async function listOpenFulfillmentOrders(limit = 50): Promise<OrderRecord[]> {
+  const supabase = getServerSupabase();
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from('snap_orders')
+    .select('*')
+    .not('fulfillment_id', 'is', null)
+    .in('status', ['confirmed', 'in_production', 'shipped'])
+    .order('fulfillment_submitted_at', { ascending: true })
+    .limit(limit);
+  if (error) throw new Error(error.message);
+  return (data || []) as OrderRecord[];
+}
+
+// A submission renders print files (a model upscale per item) before it
+// reaches the provider, so retries back off: 15 min, 1 h, 4 h, 16 h. An
+// attempt cut off by the function timeout is retried on the same schedule.
+export const MAX_SUBMISSION_ATTEMPTS = 5;
+const RETRY_BASE_MS = 15 * 60 * 1000;
+// Paid orders no submission was ever started for (e.g. fulfillment was off)
+const UNSUBMITTED_GRACE_MS = 10 * 60 * 1000;
+
+function retryDelay(attempt: number): number {
+  return RETRY_BASE_MS * 4 ** (attempt - 1);
+}
+
+/**
+ * Claim an order's next fulfillment submission. Only one caller wins: capture
+ * and the PayPal webhook can both see a freshly confirmed order, and each
+ * submission renders (and pays for) its print files. An earlier claim still
+ * in progress blocks the next until its retry time.
+ * @returns true if this caller should submit the order
+ */
+export async function claimSubmission(order: OrderRecord): Promise<boolean> {
+  const supabase = getServerSupabase();
+  if (!supabase) return false;
+  const attempts = order.fulfillment_attempts || 0;
+  if (attempts >= MAX_SUBMISSION_ATTEMPTS) return false;
+
+  const now = Date.now();
+  const { data, error } = await supabase
+    .from('snap_orders')
+    .update({
+      fulfillment_status: 'submitting',
+      fulfillment_attempts: attempts + 1,
+      fulfillment_next_attempt_at: new Date(now + retryDelay(attempts + 1)).toISOString(),
+      updated_at: new Date(now).toISOString(),
+    })
+    .eq('id', order.id)
+    .eq('status', 'confirmed')
+    .is('fulfillment_id', null)
+    .eq('fulfillment_attempts', attempts)
+    .or(`fulfillment_status.is.null,fulfillment_status.neq.submitting,fulfillment_next_attempt_at.lt.${new Date(now).toISOString()}`)
+    .select('id');
+  if (error) throw new Error(error.message);
+  return (data || []).length > 0;
+}
+
+/**
+ * Paid orders due a (re)submission for fulfillment: the last attempt failed
+ * (e.g. print render or provider error) or never finished and its retry time
+ * has passed, or none was ever started. Orders out of attempts are left for
+ * someone to look at.
+ */
+export async function listFailedSubmissions(limit = 2): Promise<OrderRecord[]> {
+  const supabase = getServerSupabase();
+  if (!supabase) return [];
+  const now = Date.now();
+  const { data, error } = await supabase
+    .from('snap_orders')
+    .select('*')
+    .eq('status', 'confirmed')
+    .is('fulfillment_id', null)
+    .lt('fulfillment_attempts', MAX_SUBMISSION_ATTEMPTS)
+    .or(`fulfillment_next_attempt_at.lt.${new Date(now).toISOString()},and(fulfillment_next_attempt_at.is.null,updated_at.lt.${new Date(now - UNSUBMITTED_GRACE_MS).toISOString()})`)
+    .order('updated_at', { ascending: true })
+    .limit(limit);
+  if (error) throw new Error(error.message);
+  return (data || []) as OrderRecord[];
+}
+
+/**
+ * Look up the lettering drawn over a car's design, if any
+ */
+export async function getStyleLettering(carId: string, styleId: string): Promise<LetteringSpec | null> {
+  const supabase = getServerSupabase();
+  if (!supabase) return null;
+  const { data } = await supabase
+    .from('snap_styles')
+    .select('lettering')
+    .eq('car_id', carId)
+    .eq('style_id', styleId)
+    .maybeSingle();
+  return data?.lettering || null;
+}
+
+/**
+ * Look up the design image URL for a style generated for a car
+ */
+export async function getStyleImageUrl(carId: string, styleId: string): Promise<string | null> {
+  const supabase = getServerSupabase();
+  if (!supabase) return null;
+  const { data } = await supabase
+    .from('snap_styles')
+    .select('image_url')
+    .eq('car_id', carId)
+    .eq('style_id', styleId)
+    .maybeSingle();
+  return data?.image_url || null;
+}
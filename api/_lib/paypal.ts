@@ -0,0 +1,32 @@
+// api/_lib/paypal.ts — Shared PayPal REST helpers
+
+export const PAYPAL_API = process.env.PAYPAL_MODE === 'live'
+  ? 'https://api-m.paypal.com'
+  : 'https://api-m.sandbox.paypal.com';
+
+/**
+ * Fetch an OAuth access token using the app's client credentials
+ */
+export async function getAccessToken(): Promise<string> {
+  const clientId = process.env.PAYPAL_CLIENT_ID;
+  const secret = process.env.PAYPAL_CLIENT_SECRET;
+  if (!clientId || !secret) throw new Error('PayPal credentials not configured');
+
+  const auth = Buffer.from(`${clientId}:${secret}`).toString('base64');
+  const res = await fetch(`${PAYPAL_API}/v1/oauth2/token`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${auth}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: 'grant_type=client_credentials',
+  });
+
+  if (!res.ok) {
+    const err = await res.text();
+    throw new Error(`PayPal auth failed: ${err}`);
+  }
+
+  const data = await res.json();
+  return data.access_token;
+}
@@ -0,0 +1,224 @@
+// api/_lib/paypalWebhook.ts — PayPal webhook verification and event handling
+// Verification goes through PayPal's verify-webhook-signature API.
+// Event handling is kept separate from HTTP so recorded fixture payloads
+// (fixtures/paypal/*.json) can be replayed through processWebhookEvent, and
+// run through mapEventToStatus / nextEventStatus in tests/paypalWebhook.test.ts.
+
+import { waitUntil } from '@vercel/functions';
+import { PAYPAL_API, getAccessToken } from './paypal.js';
+import { findOrder, updateOrderStatus, type OrderRecord, type OrderStatus } from './orders.js';
+import { getServerSupabase } from './supabase.js';
+import { submitOrderForFulfillment } from './fulfillment.js';
+
+export interface PayPalWebhookEvent {
+  id: string;
+  event_type: string;
+  resource_type?: string;
+  resource: any;
+  create_time?: string;
+}
+
+export type WebhookOutcome =
+  | { result: 'updated'; orderId: string; status: OrderStatus }
+  | { result: 'duplicate' }
+  | { result: 'ignored'; reason: string };
+
+/**
+ * Verify the transmission signature with PayPal
+ * @returns true only if PayPal reports verification_status SUCCESS
+ */
+export async function verifyWebhookSignature(
+  headers: Record<string, string | string[] | undefined>,
+  event: PayPalWebhookEvent
+): Promise<boolean> {
+  const webhookId = process.env.PAYPAL_WEBHOOK_ID;
+  if (!webhookId) throw new Error('PAYPAL_WEBHOOK_ID not configured');
+
+  const header = (name: string) => {
+    const value = headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+
+  const required = ['paypal-auth-algo', 'paypal-cert-url', 'paypal-transmission-id', 'paypal-transmission-sig', 'paypal-transmission-time'];
+  if (required.some(name => !header(name))) return false;
+
+  const accessToken = await getAccessToken();
+  const res = await fetch(`${PAYPAL_API}/v1/notifications/verify-webhook-signature`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      auth_algo: header('paypal-auth-algo'),
+      cert_url: header('paypal-cert-url'),
+      transmission_id: header('paypal-transmission-id'),
+      transmission_sig: header('paypal-transmission-sig'),
+      transmission_time: header('paypal-transmission-time'),
+      webhook_id: webhookId,
+      webhook_event: event,
+    }),
+  });
+
+  if (!res.ok) {
+    console.error('PayPal webhook verification error:', await res.text());
+    return false;
+  }
+  const data = await res.json();
+  return data.verification_status === 'SUCCESS';
+}
+
+/**
+ * Map a webhook event onto the order status it implies
+ * @returns New status, or null if the event does not change order status
+ */
+export function mapEventToStatus(event: PayPalWebhookEvent): OrderStatus | null {
+  switch (event.event_type) {
+    case 'PAYMENT.CAPTURE.COMPLETED':
+      return 'confirmed';
+    case 'PAYMENT.CAPTURE.PENDING':
+      return 'pending';
+    case 'PAYMENT.CAPTURE.DENIED':
+    case 'PAYMENT.CAPTURE.DECLINED':
+      return 'cancelled';
+    case 'PAYMENT.CAPTURE.REFUNDED':
+    case 'PAYMENT.CAPTURE.REVERSED':
+      return 'refunded';
+    case 'CUSTOMER.DISPUTE.CREATED':
+    case 'CUSTOMER.DISPUTE.UPDATED':
+      return 'disputed';
+    case 'CUSTOMER.DISPUTE.RESOLVED': {
+      const outcome = event.resource?.dispute_outcome?.outcome_code;
+      return outcome === 'RESOLVED_BUYER_FAVOUR' ? 'refunded' : 'confirmed';
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Pull the PayPal order ID / capture ID an event refers to
+ */
+export function getEventOrderRef(event: PayPalWebhookEvent): { paypalOrderId?: string; captureId?: string } {
+  const resource = event.resource || {};
+
+  if (event.event_type.startsWith('CUSTOMER.DISPUTE.')) {
+    return { captureId: resource.disputed_transactions?.[0]?.seller_transaction_id };
+  }
+
+  const paypalOrderId = resource.supplementary_data?.related_ids?.order_id;
+  if (event.resource_type === 'refund') {
+    // Refund resources link back to the capture they refund
+    const up = (resource.links || []).find((l: any) => l.rel === 'up')?.href as string | undefined;
+    return { paypalOrderId, captureId: up?.split('/').pop() };
+  }
+  return { paypalOrderId, captureId: resource.id };
+}
+
+// Statuses a PayPal event may move an order to from each status. Refunded and
+// cancelled are final, and a denied payment only cancels an order still
+// awaiting payment. Fulfillment (in_production → shipped → fulfilled) is moved
+// by the provider, not by PayPal events.
+const ALLOWED_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  pending: ['confirmed', 'cancelled', 'refunded', 'disputed'],
+  confirmed: ['refunded', 'disputed'],
+  in_production: ['refunded', 'disputed'],
+  shipped: ['refunded', 'disputed'],
+  fulfilled: ['refunded', 'disputed'],
+  disputed: ['refunded'], // or back to status_before_dispute when the seller wins
+  refunded: [],
+  cancelled: [],
+};
+
+/**
+ * Whether an event's status may replace the order's current one. Late or
+ * out-of-order events must not overwrite fulfillment, refunds or disputes.
+ */
+export function shouldApply(current: OrderStatus, next: OrderStatus): boolean {
+  return ALLOWED_TRANSITIONS[current]?.includes(next) ?? false;
+}
+
+export interface StatusChange {
+  status: OrderStatus;
+  statusBeforeDispute?: OrderStatus | null; // set when opening a dispute, cleared when it closes
+}
+
+/**
+ * The status change an event makes to an order, or null if it leaves it alone.
+ * A dispute resolved in the seller's favour puts the order back to the status
+ * it had when the dispute opened, so fulfillment picks up where it left off.
+ */
+export function nextEventStatus(
+  order: Pick<OrderRecord, 'status' | 'status_before_dispute'>,
+  event: PayPalWebhookEvent
+): StatusChange | null {
+  const next = mapEventToStatus(event);
+  if (!next) return null;
+  if (event.event_type === 'CUSTOMER.DISPUTE.RESOLVED' && next !== 'refunded') {
+    if (order.status !== 'disputed') return null;
+    return { status: order.status_before_dispute || 'confirmed', statusBeforeDispute: null };
+  }
+  if (!shouldApply(order.status, next)) return null;
+  if (next === 'disputed') return { status: next, statusBeforeDispute: order.status };
+  return order.status === 'disputed' ? { status: next, statusBeforeDispute: null } : { status: next };
+}
+
+/**
+ * Apply a verified webhook event to snap_orders. Replays of the same event ID
+ * are recorded in snap_webhook_events and skipped.
+ */
+export async function processWebhookEvent(event: PayPalWebhookEvent): Promise<WebhookOutcome> {
+  const supabase = getServerSupabase();
+  if (!supabase) throw new Error('Database not configured');
+
+  const { data: seen } = await supabase
+    .from('snap_webhook_events')
+    .select('id, processed_at')
+    .eq('id', event.id)
+    .maybeSingle();
+  if (seen?.processed_at) return { result: 'duplicate' };
+
+  if (!seen) {
+    const { error } = await supabase.from('snap_webhook_events').insert({
+      id: event.id,
+      event_type: event.event_type,
+      resource_id: event.resource?.id || null,
+      payload: event,
+    });
+    // Unique violation — a concurrent delivery of the same event got here first
+    if (error?.code === '23505') return { result: 'duplicate' };
+    if (error) throw new Error(error.message);
+  }
+
+  const outcome = await applyEvent(event);
+
+  await supabase
+    .from('snap_webhook_events')
+    .update({ processed_at: new Date().toISOString(), outcome: outcome.result })
+    .eq('id', event.id);
+
+  return outcome;
+}
+
+async function applyEvent(event: PayPalWebhookEvent): Promise<WebhookOutcome> {
+  const status = mapEventToStatus(event);
+  if (!status) return { result: 'ignored', reason: `unhandled event type ${event.event_type}` };
+
+  const ref = getEventOrderRef(event);
+  const order = await findOrder(ref);
+  if (!order) return { result: 'ignored', reason: 'no matching order' };
+
+  const change = nextEventStatus(order, event);
+  if (!change) return { result: 'ignored', reason: `order already ${order.status}` };
+  const next = change.status;
+
+  const captureId = event.resource_type === 'capture' ? event.resource?.id : undefined;
+  await updateOrderStatus(order.id, next, captureId, change.statusBeforeDispute);
+
+  // Captures that complete asynchronously are only fulfilled from here. After
+  // the response, so rendering print files doesn't outlast PayPal's delivery timeout
+  if (next === 'confirmed') {
+    waitUntil(submitOrderForFulfillment({ ...order, status: next, payment_id: captureId || order.payment_id }));
+  }
+  return { result: 'updated', orderId: order.id, status: next };
+}
@@ -1,97 +1,100 @@
 // api/_lib/pricing.ts — Server-side canonical pricing
 // CRITICAL: Never trust client-provided prices
+// Prices come from the shared catalog in lib/catalog.ts
 
-export interface Product {
-  id: string;
-  name: string;
-  price: number; // USD
-  category: 'apparel' | 'home' | 'accessories';
+import { getProduct, getVariantPrice } from '../../lib/catalog.js';
+
+export interface OrderItemInput {
+  productId: string;
+  styleId?: string;
+  size?: string;
+  color?: string;
+  quantity?: number;
+}
+
+export interface PricedItem {
+  productId: string;
+  productName: string;
+  styleId?: string;
+  size?: string;
+  color?: string;
+  quantity: number;
+  unitPrice: number; // USD
 }
 
+const MAX_QUANTITY = 10;
+
 /**
- * Canonical product pricing (source of truth)
- * All prices in USD
+ * Get canonical price for a product variant
+ * @returns Price in USD or null if product/variant not found
  */
-export const PRODUCT_CATALOG: Record<string, Product> = {
-  'classic-tee': {
-    id: 'classic-tee',
-    name: 'Classic T-Shirt',
-    price: 29.99,
-    category: 'apparel',
-  },
-  'premium-hoodie': {
-    id: 'premium-hoodie',
-    name: 'Premium Hoodie',
-    price: 49.99,
-    category: 'apparel',
-  },
-  'poster-12x18': {
-    id: 'poster-12x18',
-    name: '12x18" Poster',
-    price: 19.99,
-    category: 'home',
-  },
-  'poster-18x24': {
-    id: 'poster-18x24',
-    name: '18x24" Poster',
-    price: 29.99,
-    category: 'home',
-  },
-  'mug-ceramic': {
-    id: 'mug-ceramic',
-    name: 'Ceramic Mug',
-    price: 14.99,
-    category: 'home',
-  },
-  'phone-case': {
-    id: 'phone-case',
-    name: 'Phone Case',
-    price: 24.99,
-    category: 'accessories',
-  },
-  'sticker-pack': {
-    id: 'sticker-pack',
-    name: 'Sticker Pack (5)',
-    price: 9.99,
-    category: 'accessories',
-  },
-};
+export function getProductPrice(productId: string, size?: string): number | null {
+  return getVariantPrice(productId, size);
+}
 
 /**
- * Get canonical price for a product
- * @returns Price in USD or null if product not found
+ * Resolve client order items against the catalog
+ * @returns Priced items plus per-item errors for unknown products, variants or colors
  */
-export function getProductPrice(productId: string): number | null {
-  const product = PRODUCT_CATALOG[productId];
-  return product ? product.price : null;
+export function priceOrderItems(items: OrderItemInput[]): { items: PricedItem[]; total: number; errors: string[] } {
+  const errors: string[] = [];
+  const priced: PricedItem[] = [];
+
+  items.forEach((item, i) => {
+    const product = getProduct(String(item?.productId || ''));
+    if (!product) {
+      errors.push(`Item ${i + 1}: invalid product ID: ${item?.productId}`);
+      return;
+    }
+
+    const unitPrice = getProductPrice(product.id, item.size);
+    if (unitPrice === null) {
+      errors.push(`Item ${i + 1}: invalid size for ${product.name}: ${item.size ?? '(none)'}`);
+      return;
+    }
+
+    if (item.color && product.colors && !product.colors.some(c => c.name === item.color)) {
+      errors.push(`Item ${i + 1}: invalid color for ${product.name}: ${item.color}`);
+      return;
+    }
+
+    const quantity = Math.trunc(Number(item.quantity ?? 1));
+    if (!(quantity >= 1 && quantity <= MAX_QUANTITY)) {
+      errors.push(`Item ${i + 1}: quantity must be between 1 and ${MAX_QUANTITY}`);
+      return;
+    }
+
+    priced.push({
+      productId: product.id,
+      productName: product.name,
+      styleId: item.styleId,
+      size: product.sizes ? item.size : undefined,
+      color: product.colors ? item.color : undefined,
+      quantity,
+      unitPrice,
+    });
+  });
+
+  const total = priced.reduce((sum, p) => sum + p.unitPrice * p.quantity, 0);
+  return { items: priced, total: parseFloat(total.toFixed(2)), errors };
 }
 
 /**
- * Validate order total against canonical pricing
+ * Validate a client-displayed order total against canonical pricing
  * @returns { valid: boolean, expectedTotal: number, receivedTotal: number }
  */
 export function validateOrderTotal(
-  items: Array<{ productId: string; quantity: number }>,
+  items: OrderItemInput[],
   receivedTotal: number
 ): { valid: boolean; expectedTotal: number; receivedTotal: number; errors?: string[] } {
-  const errors: string[] = [];
-  let expectedTotal = 0;
-
-  for (const item of items) {
-    const price = getProductPrice(item.productId);
-    if (price === null) {
-      errors.push(`Invalid product ID: ${item.productId}`);
-      continue;
-    }
-    expectedTotal += price * item.quantity;
-  }
+  const { total: expectedTotal, errors } = priceOrderItems(items);
 
   // Allow 1 cent tolerance for floating point rounding
-  const valid = Math.abs(expectedTotal - receivedTotal) < 0.01;
+  const valid = errors.length === 0 && Math.abs(expectedTotal - receivedTotal) < 0.01;
 
   return {
     valid,
-    expectedTotal: parseFloat(expectedTotal.toFixed(2)),
+    expectedTotal,
     receivedTotal: parseFloat(receivedTotal.toFixed(2)),
     errors: errors.length > 0 ? errors : undefined,
   };
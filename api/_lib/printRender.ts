@@ -0,0 +1,164 @@
+// api/_lib/printRender.ts — Print-ready final renders for purchased designs
+// Screen designs are ~1024px (600px JPEG once the client has compressed them);
+// print needs each product's full print area. For every purchased item the
+// chosen style is re-rendered at 4K by the image model, then resampled into
+// the product's print area as a lossless PNG carrying its DPI. If the model
+// re-render fails or times out, the stored design is resampled directly.
+// Lettering saved with the design is drawn over the master at full resolution
+// (lettering.ts), so text stays sharp instead of being upscaled.
+// Apparel files get the style's canvas color knocked out to transparency;
+// other products are padded out to their print area in that color.
+// The re-render model is the 'upscale' operation in modelProvider.ts.
+// Env: PRINT_UPSCALE_TIMEOUT_MS (default 30000)
+
+import sharp from 'sharp';
+import { getPrintArea, getProduct, type PrintArea } from '../../lib/catalog.js';
+import { trackImageGenCall } from '../../lib/apiTracker.js';
+import { storeImageBuffer } from './objectStorage.js';
+import { getStyleKnockout, knockoutBackground } from './knockout.js';
+import { getStyleImageUrl, getStyleLettering, updateOrderItems, type OrderRecord, type PrintFileRecord } from './orders.js';
+import { composeLettering } from './lettering.js';
+import { logError } from './validation.js';
+import { getImageModel } from './modelProvider.js';
+
+async function loadImage(url: string): Promise<Buffer> {
+  const dataMatch = url.match(/^data:[\w/+.-]+;base64,(.+)$/);
+  if (dataMatch) return Buffer.from(dataMatch[1], 'base64');
+
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Could not load design image (${res.status})`);
+  return Buffer.from(await res.arrayBuffer());
+}
+
+/**
+ * Re-render a design at 4K with the image model, keeping the composition
+ * @returns PNG buffer, or null if the model is disabled or not configured
+ */
+async function upscaleWithModel(source: Buffer): Promise<Buffer | null> {
+  const { provider, model } = getImageModel('upscale');
+  if (!provider.isConfigured() || model === 'off') return null;
+
+  const startTime = Date.now();
+  const timeoutMs = Number(process.env.PRINT_UPSCALE_TIMEOUT_MS) || 30000;
+
+  // On timeout the model call is aborted too, so it stops using the function's time
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<null>(resolve => {
+    timer = setTimeout(() => {
+      controller.abort();
+      resolve(null);
+    }, timeoutMs);
+  });
+  const request = provider.generateImage(model, {
+    operation: 'upscale',
+    prompt: 'Re-render this exact artwork at print resolution. Keep the composition, colors, linework and any text identical; add sharper detail only. Do not add, remove or move anything.',
+    images: [{ mimeType: 'image/png', data: (await sharp(source).png().toBuffer()).toString('base64') }],
+    aspectRatio: '1:1',
+    imageSize: '4K',
+    signal: controller.signal,
+  });
+  const image = await Promise.race([request, timeout]).finally(() => clearTimeout(timer));
+  if (!image) throw new Error(`Model upscale timed out after ${timeoutMs}ms`);
+
+  trackImageGenCall('MyRestoModStudio', 'print_upscale', model, 1, { durationMs: Date.now() - startTime });
+  return Buffer.from(image.data, 'base64');
+}
+
+/**
+ * Fit a design into a print area: lanczos resample, padding in the canvas
+ * color (transparent when none is given), lossless PNG with the DPI written
+ * into the pHYs chunk
+ */
+export async function renderToPrintArea(
+  source: Buffer,
+  area: PrintArea,
+  canvasColor?: string
+): Promise<{ png: Buffer; widthPx: number; heightPx: number }> {
+  const widthPx = Math.round(area.widthIn * area.dpi);
+  const heightPx = Math.round(area.heightIn * area.dpi);
+  const png = await sharp(source)
+    .resize(widthPx, heightPx, {
+      fit: 'contain',
+      kernel: 'lanczos3',
+      background: canvasColor || { r: 0, g: 0, b: 0, alpha: 0 },
+    })
+    .png({ compressionLevel: 9 })
+    .withMetadata({ density: area.dpi })
+    .toBuffer();
+  return { png, widthPx, heightPx };
+}
+
+/**
+ * Produce print files for every item of a paid order that does not have one
+ * yet, store them in object storage and record them on the order's items.
+ * One model re-render is shared by all items using the same style.
+ */
+export async function renderOrderPrintFiles(order: OrderRecord): Promise<OrderRecord['items']> {
+  if (order.items.every(item => item.printFile)) return order.items;
+  if (!order.car_id) throw new Error('Order is not linked to a car');
+
+  const masters = new Map<string, Promise<{ buffer: Buffer; method: PrintFileRecord['method'] }>>();
+  const getMaster = (styleId: string) => {
+    if (!masters.has(styleId)) {
+      masters.set(styleId, (async () => {
+        const sourceUrl = await getStyleImageUrl(order.car_id!, styleId);
+        if (!sourceUrl) throw new Error(`No design image for style ${styleId}`);
+        const source = await loadImage(sourceUrl);
+        const lettering = await getStyleLettering(order.car_id!, styleId);
+        try {
+          const upscaled = await upscaleWithModel(source);
+          if (upscaled) return { buffer: await composeLettering(upscaled, lettering), method: 'model' as const };
+        } catch (err: any) {
+          logError('printRender', err, { orderId: order.id, styleId, note: 'falling back to resample' });
+        }
+        return { buffer: await composeLettering(source, lettering), method: 'resample' as const };
+      })());
+    }
+    return masters.get(styleId)!;
+  };
+
+  // Transparent variant of a master for garments, also shared per style
+  const knockouts = new Map<string, Promise<{ buffer: Buffer; mode?: PrintFileRecord['knockout'] }>>();
+  const getKnockout = (styleId: string) => {
+    if (!knockouts.has(styleId)) {
+      knockouts.set(styleId, (async () => {
+        const master = await getMaster(styleId);
+        const spec = await getStyleKnockout(styleId);
+        if (!spec) return { buffer: master.buffer };
+        const result = await knockoutBackground(master.buffer, spec.backgroundColor, { mode: spec.mode });
+        return { buffer: result.png, mode: result.mode };
+      })());
+    }
+    return knockouts.get(styleId)!;
+  };
+
+  const items = [];
+  for (const item of order.items) {
+    if (item.printFile) {
+      items.push(item);
+      continue;
+    }
+    if (!item.styleId) throw new Error(`Item ${item.productId} has no design`);
+    const area = getPrintArea(item.productId, item.size);
+    if (!area) throw new Error(`No print area for ${item.productId}`);
+
+    const master = await getMaster(item.styleId);
+    const apparel = getProduct(item.productId)?.category === 'apparel';
+    const knockout = apparel ? await getKnockout(item.styleId) : null;
+    // Posters and mugs are printed edge to edge: the square design is set on
+    // its own canvas color at the print area's aspect ratio, rather than
+    // cropped (which could cut off lettering) or left with blank bands
+    const canvas = apparel ? undefined : (await getStyleKnockout(item.styleId))?.backgroundColor;
+    const canvasColor = canvas && /^#[0-9a-f]{6}$/i.test(canvas) ? canvas : undefined;
+    const { png, widthPx, heightPx } = await renderToPrintArea(knockout?.buffer || master.buffer, area, canvasColor);
+    const url = await storeImageBuffer('print', png, 'image/png');
+    items.push({
+      ...item,
+      printFile: { url, widthPx, heightPx, dpi: area.dpi, method: master.method, knockout: knockout?.mode },
+    });
+  }
+
+  await updateOrderItems(order.id, items);
+  return items;
+}
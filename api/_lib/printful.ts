@@ -0,0 +1,210 @@
+// api/_lib/printful.ts — Printful fulfillment provider (REST API v1)
+// Catalog products map onto Printful catalog products; the variant is resolved
+// at submit time by matching size and color against Printful's variant list.
+// Orders carry our order ID as external_id, so a resubmission finds the
+// existing Printful order instead of printing twice.
+// Env: PRINTFUL_API_KEY, PRINTFUL_STORE_ID (only for multi-store tokens),
+//      PRINTFUL_WEBHOOK_SECRET (query param on the registered webhook URL)
+
+import type { FulfillmentProvider, FulfillmentRequest, FulfillmentStatus, FulfillmentUpdate, TrackingInfo } from './fulfillment.js';
+import { getProduct } from '../../lib/catalog.js';
+
+const PRINTFUL_API = 'https://api.printful.com';
+
+interface PrintfulProductMapping {
+  printfulProductId: number;
+  defaultSize?: string;                   // for catalog products without sizes
+  colorAliases?: Record<string, string>;  // catalog color name → Printful color name
+}
+
+// Printful catalog product IDs — check against GET /products when changing blanks
+const PRODUCT_MAP: Record<string, PrintfulProductMapping> = {
+  tshirt: { printfulProductId: 71, colorAliases: { 'Heather Gray': 'Athletic Heather' } }, // Bella+Canvas 3001
+  hoodie: { printfulProductId: 146, colorAliases: { 'Heather Gray': 'Sport Grey' } },      // Gildan 18500
+  mug: { printfulProductId: 19, defaultSize: '11 oz' },                                    // White glossy mug
+  poster: { printfulProductId: 1 },                                                         // Enhanced matte paper poster (in)
+};
+
+interface PrintfulVariant {
+  id: number;
+  size: string | null;
+  color: string | null;
+}
+
+interface PrintfulOrder {
+  id: number;
+  external_id: string | null;
+  status: string;
+  shipments?: Array<{ carrier: string; tracking_number: string; tracking_url?: string }>;
+}
+
+async function printfulFetch<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const apiKey = process.env.PRINTFUL_API_KEY;
+  if (!apiKey) throw new Error('PRINTFUL_API_KEY not configured');
+
+  const res = await fetch(`${PRINTFUL_API}${path}`, {
+    ...init,
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+      ...(process.env.PRINTFUL_STORE_ID ? { 'X-PF-Store-Id': process.env.PRINTFUL_STORE_ID } : {}),
+    },
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const err: any = new Error(data?.error?.message || data?.result || `Printful error ${res.status}`);
+    err.status = res.status;
+    throw err;
+  }
+  return data.result as T;
+}
+
+// ── Variant resolution ──────────────────────────────────────────────────
+
+const variantCache = new Map<number, PrintfulVariant[]>();
+
+async function getVariants(printfulProductId: number): Promise<PrintfulVariant[]> {
+  const cached = variantCache.get(printfulProductId);
+  if (cached) return cached;
+  const result = await printfulFetch<{ variants: PrintfulVariant[] }>(`/products/${printfulProductId}`);
+  variantCache.set(printfulProductId, result.variants);
+  return result.variants;
+}
+
+// "18×24", "18″×24″" and "18x24" all compare equal
+const normalize = (value: string | null | undefined) =>
+  (value || '').toLowerCase().replace(/×/g, 'x').replace(/[^a-z0-9]/g, '');
+
+async function resolveVariantId(productId: string, sizeId?: string, color?: string): Promise<number> {
+  const mapping = PRODUCT_MAP[productId];
+  if (!mapping) throw new Error(`No Printful product for ${productId}`);
+
+  const sizeLabel = getProduct(productId)?.sizes?.find(s => s.id === sizeId)?.label || mapping.defaultSize;
+  const colorName = color ? mapping.colorAliases?.[color] || color : undefined;
+
+  const variants = await getVariants(mapping.printfulProductId);
+  const match = variants.find(v =>
+    (!sizeLabel || normalize(v.size) === normalize(sizeLabel)) &&
+    (!colorName || normalize(v.color) === normalize(colorName))
+  );
+  if (!match) throw new Error(`No Printful variant for ${productId} ${sizeLabel || ''} ${colorName || ''}`.trim());
+  return match.id;
+}
+
+// ── Status mapping ──────────────────────────────────────────────────────
+
+// Printful order status → our fulfillment status
+function mapPrintfulStatus(status: string): FulfillmentStatus {
+  switch (status) {
+    case 'partial':
+      return 'shipped';
+    case 'fulfilled':
+      return 'fulfilled';
+    case 'failed':
+      return 'failed';
+    case 'canceled':
+      return 'cancelled';
+    default: // draft, pending, inprocess, onhold
+      return 'in_production';
+  }
+}
+
+function latestTracking(order: PrintfulOrder): TrackingInfo | undefined {
+  const shipment = order.shipments?.[order.shipments.length - 1];
+  if (!shipment?.tracking_number) return undefined;
+  return { carrier: shipment.carrier, number: shipment.tracking_number, url: shipment.tracking_url };
+}
+
+function toUpdate(order: PrintfulOrder): FulfillmentUpdate {
+  return { fulfillmentId: String(order.id), status: mapPrintfulStatus(order.status), tracking: latestTracking(order) };
+}
+
+// Printful caps external_id at 32 characters — a UUID without dashes fits exactly
+const externalId = (orderId: string) => orderId.replace(/-/g, '');
+
+// ── Provider ────────────────────────────────────────────────────────────
+
+export const printfulProvider: FulfillmentProvider = {
+  name: 'printful',
+
+  async submitOrder(request: FulfillmentRequest): Promise<FulfillmentUpdate> {
+    const items = [];
+    for (const item of request.items) {
+      if (!/^https?:\/\//.test(item.printFileUrl)) {
+        throw new Error(`Print file for ${item.productId} is not a public URL`);
+      }
+      items.push({
+        variant_id: await resolveVariantId(item.productId, item.size, item.color),
+        quantity: item.quantity,
+        retail_price: item.unitPrice.toFixed(2),
+        files: [{ url: item.printFileUrl }],
+      });
+    }
+
+    const { recipient } = request;
+    try {
+      const order = await printfulFetch<PrintfulOrder>('/orders?confirm=true', {
+        method: 'POST',
+        body: JSON.stringify({
+          external_id: externalId(request.orderId),
+          recipient: {
+            name: `${recipient.firstName} ${recipient.lastName}`.trim(),
+            address1: recipient.address1,
+            address2: recipient.address2 || undefined,
+            city: recipient.city,
+            state_code: recipient.state,
+            country_code: recipient.country,
+            zip: recipient.zip,
+            email: recipient.email,
+          },
+          items,
+        }),
+      });
+      return toUpdate(order);
+    } catch (err: any) {
+      // Already submitted (e.g. a retried capture) — pick up the existing order
+      if (err.status === 400 && /external id/i.test(err.message)) {
+        return toUpdate(await printfulFetch<PrintfulOrder>(`/orders/@${externalId(request.orderId)}`));
+      }
+      throw err;
+    }
+  },
+
+  async getOrderStatus(order): Promise<FulfillmentUpdate> {
+    if (!order.fulfillment_id) throw new Error('Order was not submitted to Printful');
+    return toUpdate(await printfulFetch<PrintfulOrder>(`/orders/${order.fulfillment_id}`));
+  },
+};
+
+/**
+ * Translate a Printful webhook delivery into a fulfillment update
+ * @returns null for event types that carry no order status
+ */
+export function parsePrintfulWebhook(body: any): FulfillmentUpdate | null {
+  const order: PrintfulOrder | undefined = body?.data?.order;
+  if (!order?.id) return null;
+
+  switch (body.type) {
+    case 'package_shipped': {
+      const shipment = body.data.shipment;
+      const update = toUpdate(order);
+      return {
+        ...update,
+        // Partial shipments still report the order as in process
+        status: update.status === 'fulfilled' ? 'fulfilled' : 'shipped',
+        tracking: shipment?.tracking_number
+          ? { carrier: shipment.carrier, number: shipment.tracking_number, url: shipment.tracking_url }
+          : update.tracking,
+      };
+    }
+    case 'order_failed':
+    case 'order_canceled':
+    case 'order_put_hold':
+      return { ...toUpdate(order), error: body.data.reason || undefined };
+    case 'order_updated':
+    case 'order_created':
+      return toUpdate(order);
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,192 @@
+// api/_lib/qualityGate.ts — Score generated art before it is kept
+// Pixel checks on a downsampled copy of the text-free art:
+//   background — the border ring must be mostly the requested canvas hex
+//                (knockout.ts can only remove a flat canvas)
+//   cropping   — the subject must not run off an edge of the canvas
+//   body color — styles whose prompt asks for the paint color must show some
+//                of it (identity.color.hex, sent as details.color)
+// plus an optional vision-model critique for what pixels can't see (stray
+// text, wrong car, distorted body). generation.ts retries failing images
+// within a budget and keeps the best-scoring one.
+// Cost: the pixel checks are free. Each retry is another image-model call (and
+// another critique, if enabled), so a failing design costs up to
+// 1 + QUALITY_GATE_RETRIES generations; the caller's deadline stops a retry
+// that would run past the request or job budget.
+// Env: QUALITY_GATE (off disables the checks), QUALITY_GATE_RETRIES (default 1;
+//      0 scores and reports only), AI_MODEL_CRITIQUE (vision critique model;
+//      off by default, via modelProvider.ts)
+
+import sharp from 'sharp';
+import { getStyleInstruction } from '../../lib/styleHelpers.js';
+import { getStyleKnockout, parseHex, type KnockoutMode } from './knockout.js';
+import { getVisionModel } from './modelProvider.js';
+import { logError } from './validation.js';
+import type { QualityReport } from '../../types.js';
+
+const SAMPLE_SIZE = 128;
+const BORDER_RING = 6;           // px of the sample treated as the canvas border
+const BACKGROUND_TOLERANCE = 40; // RGB distance still counted as canvas
+const SUBJECT_DISTANCE = 90;     // RGB distance from the canvas that counts as subject
+const PAINT_TOLERANCE = 85;      // RGB distance still counted as the body color
+
+// Share of the border ring that must be canvas; soft styles (glows, washes) bleed further
+const MIN_BACKGROUND_SHARE: Record<KnockoutMode, number> = { edge: 0.85, soft: 0.6 };
+// Share of an outermost row/column covered by subject before the car counts as cropped
+const MAX_EDGE_COVERAGE = 0.12;
+// Share of subject pixels that must be near the body color
+const MIN_PAINT_SHARE = 0.06;
+
+type Rgb = [number, number, number];
+
+const distance = (data: Buffer, i: number, [r, g, b]: Rgb) =>
+  Math.sqrt((data[i] - r) ** 2 + (data[i + 1] - g) ** 2 + (data[i + 2] - b) ** 2);
+
+/** Whether designs are checked at all */
+export function isQualityGateEnabled(): boolean {
+  return process.env.QUALITY_GATE !== 'off';
+}
+
+const DEFAULT_RETRIES = 1;
+
+/** Extra generations allowed when an image fails the gate (each one is paid for) */
+export function qualityRetryBudget(): number {
+  const retries = Number(process.env.QUALITY_GATE_RETRIES ?? DEFAULT_RETRIES);
+  return Number.isInteger(retries) && retries >= 0 ? retries : DEFAULT_RETRIES;
+}
+
+interface Check {
+  penalty: number; // points off 100
+  reason?: string; // set when the check failed
+}
+
+function checkBackground(data: Buffer, bg: Rgb, mode: KnockoutMode, backgroundColor: string): Check {
+  let matches = 0;
+  let total = 0;
+  for (let y = 0; y < SAMPLE_SIZE; y++) {
+    for (let x = 0; x < SAMPLE_SIZE; x++) {
+      const inRing = x < BORDER_RING || y < BORDER_RING || x >= SAMPLE_SIZE - BORDER_RING || y >= SAMPLE_SIZE - BORDER_RING;
+      if (!inRing) continue;
+      total++;
+      if (distance(data, (y * SAMPLE_SIZE + x) * 3, bg) <= BACKGROUND_TOLERANCE) matches++;
+    }
+  }
+  const share = matches / total;
+  const min = MIN_BACKGROUND_SHARE[mode];
+  if (share >= min) return { penalty: 0 };
+  return {
+    penalty: Math.round(40 * Math.min(1, (min - share) / min + 0.25)),
+    reason: `Background is not flat ${backgroundColor} (${Math.round(share * 100)}% of the border matches)`,
+  };
+}
+
+function checkCropping(data: Buffer, bg: Rgb): Check {
+  const last = SAMPLE_SIZE - 1;
+  const edges: [string, (i: number) => number][] = [
+    ['top', i => i],
+    ['bottom', i => last * SAMPLE_SIZE + i],
+    ['left', i => i * SAMPLE_SIZE],
+    ['right', i => i * SAMPLE_SIZE + last],
+  ];
+  const cropped = edges
+    .filter(([, pixel]) => {
+      let covered = 0;
+      for (let i = 0; i < SAMPLE_SIZE; i++) {
+        if (distance(data, pixel(i) * 3, bg) > SUBJECT_DISTANCE) covered++;
+      }
+      return covered / SAMPLE_SIZE > MAX_EDGE_COVERAGE;
+    })
+    .map(([side]) => side);
+  if (cropped.length === 0) return { penalty: 0 };
+  return { penalty: 12 * cropped.length, reason: `Subject is cut off at the ${cropped.join(', ')} edge` };
+}
+
+function checkPaint(data: Buffer, bg: Rgb, paintHex: string): Check {
+  const paint = parseHex(paintHex);
+  // A white car on a white canvas can't be told apart from it
+  if (Math.hypot(paint[0] - bg[0], paint[1] - bg[1], paint[2] - bg[2]) < SUBJECT_DISTANCE) return { penalty: 0 };
+
+  let subject = 0;
+  let painted = 0;
+  for (let i = 0; i < data.length; i += 3) {
+    if (distance(data, i, bg) <= SUBJECT_DISTANCE) continue;
+    subject++;
+    if (distance(data, i, paint) <= PAINT_TOLERANCE) painted++;
+  }
+  if (subject === 0) return { penalty: 40, reason: 'No car found on the canvas' };
+  const share = painted / subject;
+  if (share >= MIN_PAINT_SHARE) return { penalty: 0 };
+  return {
+    penalty: Math.round(30 * (1 - share / MIN_PAINT_SHARE)),
+    reason: `Body color is far from ${paintHex.toUpperCase()}`,
+  };
+}
+
+// Problems the vision model sees; none when the critique is switched off or fails
+async function critique(png: Buffer, details: any): Promise<string[]> {
+  const { provider, model } = getVisionModel('critique');
+  if (model === 'off' || !provider.isConfigured()) return [];
+
+  const car = `${details.year || ''} ${details.make || ''} ${details.model || ''}`.trim();
+  try {
+    const result = await provider.analyzeImages<{ problems: string }>(model, {
+      operation: 'critique',
+      images: [{ data: png.toString('base64'), mimeType: 'image/png' }],
+      prompt: `This is ${details.artStyle || 'stylized'} merchandise art of a ${car}, body color ${details.color}, on a flat ${details.backgroundColor || '#FFFFFF'} canvas. `
+        + 'List only clear defects, separated by semicolons: any text, letters or logos; the car cut off by the image edge; '
+        + 'a different car than described; missing, extra or distorted wheels or body panels; a background that is not flat. '
+        + 'Return ONLY a JSON object: {"problems": "defect; defect"} with an empty string if there are none.',
+      schema: { type: 'object', properties: { problems: { type: 'string' } }, required: ['problems'] },
+    });
+    return (result.problems || '')
+      .split(';')
+      .map(p => p.trim())
+      .filter(p => p && !/^none\.?$/i.test(p))
+      .slice(0, 3);
+  } catch (err) {
+    // The pixel checks still stand on their own
+    logError('quality-critique', err, { styleId: details.styleId });
+    return [];
+  }
+}
+
+async function pixelChecks(png: Buffer, details: any, backgroundColor: string): Promise<Check[]> {
+  const bg = parseHex(backgroundColor);
+  const knockout = typeof details.styleId === 'string' ? await getStyleKnockout(details.styleId).catch(() => null) : null;
+  const mode = knockout?.mode || 'edge';
+
+  const { data } = await sharp(png)
+    .flatten({ background: backgroundColor })
+    .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: 'fill' })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const background = checkBackground(data, bg, mode, backgroundColor);
+  // On a canvas that isn't flat, the edges can't be told from the subject
+  const checks = background.reason ? [background] : [background, checkCropping(data, bg)];
+  // Only styles that render the paint color (the color appears in their prompt)
+  if (typeof details.color === 'string' && /^#[0-9a-f]{6}$/i.test(details.color)
+    && getStyleInstruction(details).includes(details.color)) {
+    checks.push(checkPaint(data, bg, details.color));
+  }
+  return checks;
+}
+
+/**
+ * Score a design (the PNG before any lettering) against the details it was
+ * generated from. attempts is left at 1; generation.ts fills in the real count.
+ */
+export async function assessDesign(png: Buffer, details: any): Promise<QualityReport> {
+  const backgroundColor = details.backgroundColor || '#FFFFFF';
+  const checks = await pixelChecks(png, details, backgroundColor).catch(err => {
+    // e.g. a custom style's canvas color that isn't a hex — the image is already paid for
+    logError('quality-gate', err, { styleId: details.styleId, backgroundColor });
+    return [];
+  });
+
+  const problems = await critique(png, details);
+  const reasons = [...checks.map(c => c.reason).filter((r): r is string => !!r), ...problems];
+  const penalty = checks.reduce((sum, c) => sum + c.penalty, 0) + Math.min(45, problems.length * 15);
+
+  return { score: Math.max(0, 100 - penalty), passed: reasons.length === 0, reasons, attempts: 1 };
+}
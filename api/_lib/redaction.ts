@@ -0,0 +1,110 @@
+// api/_lib/redaction.ts — Blur license plates and faces in car photos
+// A vision model finds the regions (boxes on a 0–1000 grid, the convention
+// Gemini is trained on); sharp blurs them. Runs before a photo is turned into
+// the stored thumbnail, the customer hero image or the generation reference.
+// Env: AI_MODEL_REDACT (detection model, via modelProvider.ts)
+
+import sharp from 'sharp';
+import { getVisionModel, toImageInput, type ResponseSchema } from './modelProvider.js';
+
+export type RedactionKind = 'plate' | 'face';
+
+export interface RedactionRegion {
+  kind: RedactionKind;
+  left: number; // px
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface RedactionResult {
+  image: string; // JPEG data URL
+  regions: RedactionRegion[];
+}
+
+const GRID = 1000;
+const PADDING = 0.15;     // grow each box by this share of its size — model boxes run tight
+const MIN_SIGMA = 6;
+const JPEG_QUALITY = 88;
+
+const REGIONS_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    regions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          kind: { type: 'string' },
+          ymin: { type: 'number' },
+          xmin: { type: 'number' },
+          ymax: { type: 'number' },
+          xmax: { type: 'number' },
+        },
+        required: ['kind', 'ymin', 'xmin', 'ymax', 'xmax'],
+      },
+    },
+  },
+  required: ['regions'],
+};
+
+const PROMPT = 'Find every license plate (front or rear, any country, dealer and temporary plates included) and every human face '
+  + '(bystanders, people inside the car, reflections in paint or glass) in this photo. '
+  + `Give each as a bounding box on a ${GRID}×${GRID} grid over the image. `
+  + 'Return ONLY a JSON object: {"regions": [{"kind": "plate" | "face", "ymin": 0, "xmin": 0, "ymax": 0, "xmax": 0}]} '
+  + 'with an empty list if there are none.';
+
+/** Model boxes → padded pixel rectangles inside the image; junk boxes are dropped */
+export function toPixelRegions(boxes: any[], width: number, height: number): RedactionRegion[] {
+  return (boxes || []).flatMap((box): RedactionRegion[] => {
+    const coords = [box?.xmin, box?.ymin, box?.xmax, box?.ymax].map(Number);
+    if (coords.some(n => !Number.isFinite(n))) return [];
+    const [x0, y0, x1, y1] = coords.map(n => Math.min(GRID, Math.max(0, n)) / GRID);
+    if (x1 <= x0 || y1 <= y0) return [];
+    const padX = (x1 - x0) * PADDING;
+    const padY = (y1 - y0) * PADDING;
+    const left = Math.max(0, Math.floor((x0 - padX) * width));
+    const top = Math.max(0, Math.floor((y0 - padY) * height));
+    const right = Math.min(width, Math.ceil((x1 + padX) * width));
+    const bottom = Math.min(height, Math.ceil((y1 + padY) * height));
+    if (right - left < 2 || bottom - top < 2) return [];
+    return [{ kind: box.kind === 'face' ? 'face' : 'plate', left, top, width: right - left, height: bottom - top }];
+  });
+}
+
+/**
+ * Blur the plates and faces in a photo (data URL or bare base64).
+ * @throws if detection fails — callers must not fall back to the original
+ */
+export async function redactPhoto(photo: string): Promise<RedactionResult> {
+  const { provider, model } = getVisionModel('redact');
+  if (!provider.isConfigured()) throw new Error('Vision model not configured');
+
+  // Bake in EXIF rotation so the model and the blur see the same pixels
+  const { data: upright, info } = await sharp(Buffer.from(toImageInput(photo, 'image/jpeg').data, 'base64'))
+    .rotate()
+    .jpeg({ quality: 95 })
+    .toBuffer({ resolveWithObject: true });
+
+  const found = await provider.analyzeImages<{ regions: any[] }>(model, {
+    operation: 'redact',
+    images: [{ data: upright.toString('base64'), mimeType: 'image/jpeg' }],
+    prompt: PROMPT,
+    schema: REGIONS_SCHEMA,
+  });
+  const regions = toPixelRegions(found.regions, info.width, info.height);
+
+  const patches = await Promise.all(regions.map(async region => ({
+    input: await sharp(upright)
+      .extract(region)
+      .blur(Math.max(MIN_SIGMA, Math.min(region.width, region.height) / 3))
+      .toBuffer(),
+    left: region.left,
+    top: region.top,
+  })));
+  const redacted = patches.length > 0
+    ? await sharp(upright).composite(patches).jpeg({ quality: JPEG_QUALITY }).toBuffer()
+    : await sharp(upright).jpeg({ quality: JPEG_QUALITY }).toBuffer();
+
+  return { image: `data:image/jpeg;base64,${redacted.toString('base64')}`, regions };
+}
@@ -0,0 +1,20 @@
+// api/_lib/redis.ts — Shared Upstash Redis client
+// Env: KV_REST_API_URL, KV_REST_API_TOKEN
+
+import { Redis } from '@upstash/redis';
+
+let _client: Redis | null = null;
+
+/**
+ * Get the shared Redis client
+ * @returns Client or null if KV_REST_API_URL / KV_REST_API_TOKEN are not configured
+ */
+export function getRedis(): Redis | null {
+  const url = process.env.KV_REST_API_URL;
+  const token = process.env.KV_REST_API_TOKEN;
+  if (!url || !token) return null;
+  if (!_client) {
+    _client = new Redis({ url, token });
+  }
+  return _client;
+}
@@ -0,0 +1,40 @@
+// api/_lib/sse.ts — Server-Sent Events responses
+// Endpoints that report generation progress stream when the client sends
+// Accept: text/event-stream and answer with plain JSON otherwise.
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+
+export interface EventStream {
+  send(event: string, data: unknown, id?: string | number): void;
+  close(): void;
+}
+
+export function wantsEventStream(req: VercelRequest): boolean {
+  return String(req.headers.accept || '').includes('text/event-stream');
+}
+
+/**
+ * Switch the response to an event stream. Write errors (client went away)
+ * are ignored — callers keep their own state and just stop sending.
+ */
+export function openEventStream(res: VercelResponse): EventStream {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders?.();
+
+  return {
+    send(event, data, id) {
+      if (res.writableEnded) return;
+      const lines = [`event: ${event}`];
+      if (id !== undefined) lines.push(`id: ${id}`);
+      lines.push(`data: ${JSON.stringify(data)}`);
+      res.write(`${lines.join('\n')}\n\n`);
+    },
+    close() {
+      if (!res.writableEnded) res.end();
+    },
+  };
+}
@@ -0,0 +1,21 @@
+// api/_lib/supabase.ts — Server-side Supabase client
+// Uses the service role key, so it bypasses RLS. Only ever return
+// explicitly selected, customer-safe columns from handlers that use it.
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+let _client: SupabaseClient | null = null;
+
+/**
+ * Get the shared server Supabase client
+ * @returns Client or null if SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY are not configured
+ */
+export function getServerSupabase(): SupabaseClient | null {
+  const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) return null;
+  if (!_client) {
+    _client = createClient(url, key, { auth: { persistSession: false } });
+  }
+  return _client;
+}
@@ -1,5 +1,8 @@
 // api/_lib/validation.ts — Input validation utilities
 
+import { DESIGN_VIEWS, LETTERING_FONTS, LETTERING_PRESETS, LETTERING_ROLES } from '../../types.js';
+import { unsupportedCharacters } from '../../lib/strokeFont.js';
+
 export interface ValidationError {
   field: string;
   message: string;
@@ -29,6 +32,30 @@ export function validateDesignInput(details: any): ValidationError[] {
     }
   }
 
+  if (details.styleId !== undefined && (typeof details.styleId !== 'string' || details.styleId.length > 100)) {
+    errors.push({ field: 'styleId', message: 'Style ID must be a string of 100 characters or less' });
+  }
+
+  if (details.variation !== undefined && (!Number.isInteger(details.variation) || details.variation < 1 || details.variation > 8)) {
+    errors.push({ field: 'variation', message: 'Variation must be a whole number from 1 to 8' });
+  }
+
+  if (details.view !== undefined && !DESIGN_VIEWS.some(v => v.id === details.view)) {
+    errors.push({ field: 'view', message: `View must be one of: ${DESIGN_VIEWS.map(v => v.id).join(', ')}` });
+  }
+
+  if (details.backgroundColor !== undefined && (typeof details.backgroundColor !== 'string' || !/^#[0-9a-f]{6}$/i.test(details.backgroundColor))) {
+    errors.push({ field: 'backgroundColor', message: 'Background color must be a hex color like #FFFFFF' });
+  }
+
+  if (details.colorName !== undefined && (typeof details.colorName !== 'string' || details.colorName.length > 100)) {
+    errors.push({ field: 'colorName', message: 'Color name must be a string of 100 characters or less' });
+  }
+
+  if (details.paintCode !== undefined && (typeof details.paintCode !== 'string' || details.paintCode.length > 20)) {
+    errors.push({ field: 'paintCode', message: 'Paint code must be a string of 20 characters or less' });
+  }
+
   if (details.make && typeof details.make === 'string') {
     if (details.make.length > 100) {
       errors.push({ field: 'make', message: 'Make must be 100 characters or less' });
@@ -44,6 +71,42 @@ export function validateDesignInput(details: any): ValidationError[] {
   return errors;
 }
 
+/**
+ * Validate a lettering spec (LetteringSpec in types.ts)
+ */
+export function validateLettering(spec: any): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const hex = /^#[0-9a-f]{6}$/i;
+
+  if (!spec || typeof spec !== 'object') {
+    return [{ field: 'lettering', message: 'Lettering must be an object' }];
+  }
+  if (!LETTERING_PRESETS.some(p => p.id === spec.preset)) {
+    errors.push({ field: 'lettering.preset', message: `Preset must be one of: ${LETTERING_PRESETS.map(p => p.id).join(', ')}` });
+  }
+  if (!LETTERING_FONTS.some(f => f.id === spec.font)) {
+    errors.push({ field: 'lettering.font', message: `Font must be one of: ${LETTERING_FONTS.map(f => f.id).join(', ')}` });
+  }
+  if (typeof spec.color !== 'string' || !hex.test(spec.color)) {
+    errors.push({ field: 'lettering.color', message: 'Color must be a hex color like #111111' });
+  }
+  if (spec.plateColor !== undefined && (typeof spec.plateColor !== 'string' || !hex.test(spec.plateColor))) {
+    errors.push({ field: 'lettering.plateColor', message: 'Plate color must be a hex color like #FFFFFF' });
+  }
+  if (!Array.isArray(spec.layers) || spec.layers.length > LETTERING_ROLES.length
+    || !spec.layers.every((l: any) => LETTERING_ROLES.some(r => r.id === l?.role) && typeof l.text === 'string' && l.text.length <= 80)) {
+    errors.push({ field: 'lettering.layers', message: 'Layers must be car, owner, event or date text of 80 characters or less' });
+  } else {
+    // The stroke font would print these as '?' on the product
+    const missing = unsupportedCharacters(spec.layers.map((l: any) => l.text).join(''));
+    if (missing.length) {
+      errors.push({ field: 'lettering.layers', message: `Lettering can't draw ${missing.join(' ')} — use Latin letters, digits and basic punctuation` });
+    }
+  }
+
+  return errors;
+}
+
 /**
  * Sanitize error messages for client response
  * Never expose stack traces or internal details to clients
@@ -1,13 +1,79 @@
 // api/analyze.ts — Vehicle analysis (AUTHENTICATED)
-// POST { imageBase64 } → returns VehicleAnalysis JSON
+// POST { images } → returns VehicleAnalysis JSON: the best identity (year, make,
+// model, trim, color, confidence) plus up to MAX_CANDIDATES ranked candidates,
+// each with a 0–1 confidence and the cues that set it apart. Make, model and
+// trim come back in the vehicle taxonomy's canonical spelling; a color that
+// names a factory paint comes back with its paint code (color.code).
+// images: 1–MAX_CAR_PHOTOS base64 photos of one car, identified together
+// (badges, wheels and interior shots settle the trim). { imageBase64 } is
+// still accepted for a single photo.
 // NOTE: Large base64 images may exceed Vercel's 4.5MB body limit
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { GoogleGenAI, Type } from '@google/genai';
 import { trackGeminiCall } from '../lib/apiTracker.js';
+import { normalizeIdentity } from '../lib/vehicleTaxonomy.js';
+import { catalogColor } from '../lib/paintCodes.js';
 import { requireAuth } from './_lib/auth.js';
 import { sanitizeError, logError } from './_lib/validation.js';
 import { rateLimit } from './_lib/ratelimit.js';
+import { getVisionModel, toImageInput, type ResponseSchema } from './_lib/modelProvider.js';
+import { MAX_CAR_PHOTOS } from '../types.js';
+import type { IdentityCandidate, VehicleAnalysis } from '../types.js';
+
+const MAX_CANDIDATES = 3;
+
+const IDENTITY_FORMAT = `List up to ${MAX_CANDIDATES} candidate identifications, most likely first. For each give the factory Year, Make, Model, and Trim level, `
+  + 'the primary exterior paint color (descriptive name and closest hex code), your confidence from 0 to 1 (the confidences add up to at most 1), '
+  + 'and the visible cues that set it apart from the other candidates. '
+  + 'Return ONLY a JSON object: {"candidates": [{"year": "YYYY", "make": "Make", "model": "Model", "trim": "Trim", "color": {"name": "Color Name", "hex": "#HEX"}, "confidence": 0.8, "cues": "Cues"}]}.';
+
+const CANDIDATE_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    year: { type: 'string' },
+    make: { type: 'string' },
+    model: { type: 'string' },
+    trim: { type: 'string' },
+    color: {
+      type: 'object',
+      properties: { name: { type: 'string' }, hex: { type: 'string' } },
+      required: ['name', 'hex'],
+    },
+    confidence: { type: 'number' },
+    cues: { type: 'string' },
+  },
+  required: ['year', 'make', 'model', 'trim', 'color', 'confidence', 'cues'],
+};
+
+// Ranked, clamped and capped; candidates the model left incomplete are dropped.
+// Names are normalized to the vehicle taxonomy ('Chevy' → 'Chevrolet'), colors
+// that name a factory paint get its catalog code and hex, and candidates that
+// turn out to be the same car are merged.
+function rankCandidates(candidates: any[] | undefined): IdentityCandidate[] {
+  const ranked = (candidates || [])
+    .filter(c => c && c.make && c.model && c.color?.hex)
+    .map(c => normalizeIdentity({
+      year: String(c.year || ''),
+      make: String(c.make),
+      model: String(c.model),
+      trim: String(c.trim || ''),
+      color: { name: String(c.color.name || ''), hex: String(c.color.hex) },
+      confidence: Math.min(1, Math.max(0, Number(c.confidence) || 0)),
+      cues: String(c.cues || ''),
+    }))
+    .map(c => ({ ...c, color: catalogColor(c.make, c.year, c.color) }))
+    .sort((a, b) => b.confidence - a.confidence);
+
+  const merged: IdentityCandidate[] = [];
+  for (const candidate of ranked) {
+    const same = merged.find(m => m.year === candidate.year && m.make === candidate.make
+      && m.model === candidate.model && m.trim === candidate.trim);
+    // Adding to the higher-ranked entry keeps the order
+    if (same) same.confidence = Math.min(1, same.confidence + candidate.confidence);
+    else merged.push(candidate);
+  }
+  return merged.slice(0, MAX_CANDIDATES);
+}
 
 async function analyzeHandler(req: VercelRequest, res: VercelResponse, user: any) {
   if (!(await rateLimit(req, res, 'ai', user.sub))) return;
@@ -16,47 +82,39 @@ async function analyzeHandler(req: VercelRequest, res: VercelResponse, user: any
 
   try {
     const { imageBase64 } = req.body;
-    if (!imageBase64) return res.status(400).json({ error: 'imageBase64 is required' });
+    const images: unknown[] = Array.isArray(req.body.images) ? req.body.images : imageBase64 ? [imageBase64] : [];
+    if (images.length === 0) return res.status(400).json({ error: 'images is required' });
+    if (images.length > MAX_CAR_PHOTOS) return res.status(400).json({ error: `At most ${MAX_CAR_PHOTOS} images` });
+    if (images.some(image => typeof image !== 'string' || !image)) {
+      return res.status(400).json({ error: 'images must be base64 strings' });
+    }
 
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) return res.status(500).json({ error: 'GEMINI_API_KEY not configured' });
+    const { provider, model } = getVisionModel('analyze');
+    if (!provider.isConfigured()) return res.status(500).json({ error: 'Vision model not configured' });
 
-    const ai = new GoogleGenAI({ apiKey });
     const startTime = Date.now();
-    const base64Data = imageBase64.replace(/^data:image\/\w+;base64,/, '');
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          { inlineData: { mimeType: 'image/png', data: base64Data } },
-          { text: 'Identify the vehicle in this image. Provide the factory Year, Make, Model, and Trim level. Also identify the primary exterior paint color (descriptive name and closest hex code). Return ONLY a JSON object: {"year": "YYYY", "make": "Make", "model": "Model", "trim": "Trim", "color": {"name": "Color Name", "hex": "#HEX"}}.' },
-        ],
-      },
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            year: { type: Type.STRING },
-            make: { type: Type.STRING },
-            model: { type: Type.STRING },
-            trim: { type: Type.STRING },
-            color: {
-              type: Type.OBJECT,
-              properties: { name: { type: Type.STRING }, hex: { type: Type.STRING } },
-              required: ['name', 'hex'],
-            },
-          },
-          required: ['year', 'make', 'model', 'trim', 'color'],
-        },
+    const result = await provider.analyzeImages<{ candidates?: any[] }>(model, {
+      operation: 'analyze',
+      images: (images as string[]).map(image => toImageInput(image)),
+      prompt: images.length === 1
+        ? `Identify the vehicle in this image. ${IDENTITY_FORMAT}`
+        : `These ${images.length} photos all show the same vehicle — exterior angles, badges, wheels or interior. `
+          + 'Identify it from all of them together: badges, emblems, wheels and interior details decide the trim; '
+          + `take the paint color from the exterior shots. Each candidate is one identity for the whole vehicle. ${IDENTITY_FORMAT}`,
+      schema: {
+        type: 'object',
+        properties: { candidates: { type: 'array', items: CANDIDATE_SCHEMA } },
+        required: ['candidates'],
       },
     });
 
-    trackGeminiCall('MyRestoModStudio', 'analyze_vehicle', 'gemini-2.5-flash', 1500, 200, { durationMs: Date.now() - startTime });
+    trackGeminiCall('MyRestoModStudio', 'analyze_vehicle', model, 1500 * images.length, 200, { durationMs: Date.now() - startTime });
 
-    const result = JSON.parse(response.text as string);
-    return res.status(200).json(result);
+    const candidates = rankCandidates(result.candidates);
+    if (candidates.length === 0) return res.status(502).json({ error: 'Could not identify the vehicle' });
+    const { cues: _cues, ...best } = candidates[0];
+    const analysis: VehicleAnalysis = { ...best, candidates };
+    return res.status(200).json(analysis);
   } catch (err: any) {
     logError('analyze', err, { userId: user.sub });
     return res.status(500).json({ error: sanitizeError(err) });
@@ -0,0 +1,66 @@
+// api/car/[id].ts — Public read of a shared car session (PUBLIC)
+// GET /api/car/:id → returns { id, identity, photoThumbnail, styles, customStyles, eventName, createdAt, expiresAt }
+// Each style carries the view angle it was rendered from (null for older designs)
+// and its lettering (LetteringSpec, drawn over imageUrl by the client), if any.
+// customStyles names the vendor-defined styles among styles (label, emoji, canvas color).
+// photoThumbnail is null when the event requires redaction and the photo never had it.
+// 404 if the car does not exist, 410 once the share link has expired.
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getServerSupabase } from '../_lib/supabase.js';
+import { logError } from '../_lib/validation.js';
+import { rateLimit } from '../_lib/ratelimit.js';
+
+// Car IDs are UUIDs (generateId() / gen_random_uuid())
+const CAR_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (!(await rateLimit(req, res, 'read'))) return;
+
+  if (req.method !== 'GET') return res.status(405).json({ error: 'Method not allowed' });
+
+  const id = String(req.query.id || '');
+  if (!CAR_ID_PATTERN.test(id)) return res.status(404).json({ error: 'Car not found' });
+
+  try {
+    const supabase = getServerSupabase();
+    if (!supabase) return res.status(500).json({ error: 'Database not configured' });
+
+    // Same narrow read path the anon role gets (snap_get_shared_car in
+    // supabase/migration.sql), which also owns the 30-day link expiry
+    const { data: car, error } = await supabase.rpc('snap_get_shared_car', { p_car_id: id });
+
+    if (error) throw new Error(error.message);
+    if (!car) return res.status(404).json({ error: 'Car not found' });
+
+    const expiresAt = new Date(car.expires_at).getTime();
+    if (car.expired) {
+      return res.status(410).json({ error: 'This share link has expired', expiresAt });
+    }
+
+    res.setHeader('Cache-Control', 'public, max-age=30, stale-while-revalidate=300');
+    return res.status(200).json({
+      id: car.id,
+      identity: car.identity,
+      photoThumbnail: car.photo_thumbnail || null,
+      styles: (car.styles || []).map((s: { style_id: string; image_url: string; view: string | null; lettering: object | null }) => ({
+        styleId: s.style_id,
+        imageUrl: s.image_url,
+        view: s.view || null,
+        lettering: s.lettering || null,
+      })),
+      customStyles: (car.custom_styles || []).map((s: { id: string; label: string; emoji: string; background_color: string }) => ({
+        id: s.id,
+        label: s.label,
+        emoji: s.emoji,
+        backgroundColor: s.background_color,
+      })),
+      eventName: car.event_name || null,
+      createdAt: new Date(car.created_at).getTime(),
+      expiresAt,
+    });
+  } catch (err: any) {
+    logError('car', err, { carId: id });
+    return res.status(500).json({ error: 'Failed to load car' });
+  }
+}
@@ -1,22 +1,16 @@
 // api/edit.ts — Edit/tweak a generated car design (AUTHENTICATED)
 // POST { imageBase64, editPrompt, resolution, details } → returns { imageUrl, prompt }
+// imageUrl is a stored CDN URL when object storage is configured, else a base64 data URL
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { GoogleGenAI } from '@google/genai';
 import { getStyleInstruction } from '../lib/styleHelpers.js';
 import { trackImageGenCall } from '../lib/apiTracker.js';
 import { requireAuth } from './_lib/auth.js';
 import { sanitizeError, logError } from './_lib/validation.js';
 import { rateLimit } from './_lib/ratelimit.js';
-
-const extractImageFromResponse = (response: any): string => {
-  const parts = response.candidates?.[0]?.content?.parts || [];
-  const imagePart = parts.find((p: any) => p.inlineData);
-  if (imagePart && imagePart.inlineData) {
-    return `data:image/png;base64,${imagePart.inlineData.data}`;
-  }
-  throw new Error('The design studio failed to render the image. Please try again.');
-};
+import { persistImage } from './_lib/objectStorage.js';
+import { getImageModel, toDataUrl, toImageInput } from './_lib/modelProvider.js';
+import { resolveStyleDetails } from './_lib/customStyles.js';
 
 async function editHandler(req: VercelRequest, res: VercelResponse, user: any) {
   if (!(await rateLimit(req, res, 'ai', user.sub))) return;
@@ -27,31 +21,29 @@ async function editHandler(req: VercelRequest, res: VercelResponse, user: any) {
     const { imageBase64, editPrompt, resolution, details } = req.body;
     if (!imageBase64 || !editPrompt) return res.status(400).json({ error: 'imageBase64 and editPrompt are required' });
 
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) return res.status(500).json({ error: 'GEMINI_API_KEY not configured' });
+    const { provider, model } = getImageModel('edit');
+    if (!provider.isConfigured()) return res.status(500).json({ error: 'Image model not configured' });
+
+    const styled = await resolveStyleDetails(details || {}, user.sub);
+    if (!styled) return res.status(400).json({ error: 'Unknown style' });
 
-    const ai = new GoogleGenAI({ apiKey });
     const startTime = Date.now();
-    const base64Data = imageBase64.replace(/^data:image\/\w+;base64,/, '');
-    const styleInstruction = getStyleInstruction(details || {});
+    const styleInstruction = getStyleInstruction(styled);
 
     const prompt = `Modify this car art: "${editPrompt}". 
   MAINTAIN STYLE: ${styleInstruction}
   Current orientation: ${details?.view || '3/4 Front'}.`;
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
-      contents: {
-        parts: [
-          { inlineData: { mimeType: 'image/png', data: base64Data } },
-          { text: prompt },
-        ],
-      },
-      config: { imageConfig: { aspectRatio: '1:1', imageSize: resolution || '1K' } },
+    const image = await provider.generateImage(model, {
+      operation: 'edit',
+      prompt,
+      images: [toImageInput(imageBase64)],
+      aspectRatio: '1:1',
+      imageSize: resolution || '1K',
     });
 
-    const imageUrl = extractImageFromResponse(response);
-    trackImageGenCall('SnapMerch', 'tweak_design', 'gemini-3-pro-image-preview', 1, { durationMs: Date.now() - startTime });
+    const imageUrl = await persistImage('designs', toDataUrl(image));
+    trackImageGenCall('SnapMerch', 'tweak_design', model, 1, { durationMs: Date.now() - startTime });
 
     return res.status(200).json({ imageUrl, prompt });
   } catch (err: any) {
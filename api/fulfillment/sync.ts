@@ -0,0 +1,56 @@
+// api/fulfillment/sync.ts — Poll fulfillment providers for open orders (CRON)
+// GET (Authorization: Bearer <CRON_SECRET>) → returns { checked, updated, failed, resubmitted }
+// Backstop for missed provider webhooks, and the only update path for the
+// mock provider. Also retries submissions that failed (print render or
+// provider errors) or were cut off by the capture/webhook function's timeout,
+// with backoff and a cap on attempts (listFailedSubmissions).
+// Scheduled in vercel.json.
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { listFailedSubmissions, listOpenFulfillmentOrders } from '../_lib/orders.js';
+import { submitOrderForFulfillment, syncOrderFulfillment } from '../_lib/fulfillment.js';
+import { logError } from '../_lib/validation.js';
+
+const RESUBMIT_PER_RUN = 2;
+const RESUBMIT_START_BY_MS = 20_000; // of the 60s maxDuration
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const startedAt = Date.now();
+  if (req.method !== 'GET') return res.status(405).json({ error: 'Method not allowed' });
+
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.authorization !== `Bearer ${secret}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const orders = await listOpenFulfillmentOrders();
+    let updated = 0;
+    let failed = 0;
+
+    for (const order of orders) {
+      try {
+        const status = await syncOrderFulfillment(order);
+        if (status !== order.status) updated++;
+      } catch (err: any) {
+        failed++;
+        logError('fulfillment-sync', err, { orderId: order.id, fulfillmentId: order.fulfillment_id });
+      }
+    }
+
+    // A resubmission can spend most of the function's time rendering print
+    // files, so only a couple start per run, and none once time runs short.
+    // submitOrderForFulfillment records its own failures on the order
+    let resubmitted = 0;
+    for (const order of await listFailedSubmissions(RESUBMIT_PER_RUN)) {
+      if (Date.now() - startedAt > RESUBMIT_START_BY_MS) break;
+      await submitOrderForFulfillment(order);
+      resubmitted++;
+    }
+
+    return res.status(200).json({ checked: orders.length, updated, failed, resubmitted });
+  } catch (err: any) {
+    logError('fulfillment-sync', err);
+    return res.status(500).json({ error: 'Sync failed' });
+  }
+}
@@ -0,0 +1,39 @@
+// api/fulfillment/webhook.ts — Printful webhook receiver (PUBLIC, shared-secret)
+// POST <Printful webhook event>?secret=... → 200 { result }
+// Register as https://<host>/api/fulfillment/webhook?secret=<PRINTFUL_WEBHOOK_SECRET>
+// for package_shipped, order_updated, order_failed, order_canceled and order_put_hold.
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { timingSafeEqual } from 'crypto';
+import { parsePrintfulWebhook } from '../_lib/printful.js';
+import { applyFulfillmentUpdate } from '../_lib/fulfillment.js';
+import { getOrderByFulfillmentId } from '../_lib/orders.js';
+import { logError } from '../_lib/validation.js';
+
+function secretMatches(received: unknown): boolean {
+  const expected = process.env.PRINTFUL_WEBHOOK_SECRET;
+  if (!expected || typeof received !== 'string') return false;
+  const a = Buffer.from(received);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+  if (!secretMatches(req.query.secret)) return res.status(401).json({ error: 'Unauthorized' });
+
+  const update = parsePrintfulWebhook(req.body);
+  if (!update) return res.status(200).json({ result: 'ignored' });
+
+  try {
+    const order = await getOrderByFulfillmentId('printful', update.fulfillmentId);
+    if (!order) return res.status(200).json({ result: 'ignored', reason: 'no matching order' });
+
+    const status = await applyFulfillmentUpdate(order, update);
+    return res.status(200).json({ result: 'updated', orderId: order.id, status });
+  } catch (err: any) {
+    // Non-2xx makes Printful retry delivery later
+    logError('fulfillment-webhook', err, { type: req.body?.type, fulfillmentId: update.fulfillmentId });
+    return res.status(500).json({ error: 'Webhook processing failed' });
+  }
+}
@@ -1,52 +1,54 @@
 // api/identify-color.ts — Identify paint color given corrected vehicle info + photo (AUTHENTICATED)
+// POST { imageBase64, year?, make?, model? } → returns { name, hex, code? }.
+// When the make is in the factory paint catalog (lib/paintData.ts) the model
+// picks from the colors offered that year, and the answer is snapped to the
+// catalog entry; code is only set for catalog paints.
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { GoogleGenAI, Type } from '@google/genai';
+import { listPaints, catalogColor } from '../lib/paintCodes.js';
 import { requireAuth } from './_lib/auth.js';
 import { sanitizeError, logError } from './_lib/validation.js';
 import { rateLimit } from './_lib/ratelimit.js';
+import { getVisionModel, toImageInput } from './_lib/modelProvider.js';
 
 async function identifyColorHandler(req: VercelRequest, res: VercelResponse, user: any) {
   if (!(await rateLimit(req, res, 'ai', user.sub))) return;
-  
+
   if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
 
   try {
     const { imageBase64, year, make, model } = req.body;
     if (!imageBase64) return res.status(400).json({ error: 'imageBase64 is required' });
 
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) return res.status(500).json({ error: 'GEMINI_API_KEY not configured' });
-
-    const ai = new GoogleGenAI({ apiKey });
-    const base64Data = imageBase64.replace(/^data:image\/\w+;base64,/, '');
+    const { provider, model: visionModel } = getVisionModel('identify-color');
+    if (!provider.isConfigured()) return res.status(500).json({ error: 'Vision model not configured' });
 
     const vehicleHint = year && make && model ? `This is a ${year} ${make} ${model}.` : '';
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          { inlineData: { mimeType: 'image/jpeg', data: base64Data } },
-          {
-            text: `${vehicleHint} Identify the exact exterior paint color of this vehicle. If you know the factory paint code or name for this year/make/model, use it. Return ONLY a JSON object: {"name": "Color Name", "hex": "#HEX"}`,
-          },
-        ],
-      },
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            name: { type: Type.STRING },
-            hex: { type: Type.STRING },
-          },
-          required: ['name', 'hex'],
+    const paints = typeof make === 'string' ? listPaints(make, year) : [];
+    const paintHint = paints.length > 0
+      ? `Factory colors offered for this make${year ? ` in ${year}` : ''}: ${paints.map(p => `${p.name} (code ${p.code}, ${p.hex})`).join('; ')}. `
+        + 'If the paint is one of these, answer with its exact name and code; otherwise describe the color and leave code empty.'
+      : 'If you know the factory paint code or name for this year/make/model, use it.';
+
+    const result = await provider.analyzeImages<{ name: string; hex: string; code?: string }>(visionModel, {
+      operation: 'identify-color',
+      images: [toImageInput(imageBase64, 'image/jpeg')],
+      prompt: `${vehicleHint} Identify the exact exterior paint color of this vehicle. ${paintHint} Return ONLY a JSON object: {"name": "Color Name", "hex": "#HEX", "code": "Paint Code"}`,
+      schema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          hex: { type: 'string' },
+          code: { type: 'string' },
         },
+        required: ['name', 'hex'],
       },
     });
 
-    const result = JSON.parse(response.text as string);
-    return res.status(200).json(result);
+    return res.status(200).json(catalogColor(make || '', year, {
+      name: String(result.name || ''),
+      hex: String(result.hex || ''),
+      code: result.code ? String(result.code) : undefined,
+    }));
   } catch (err: any) {
     logError('identify-color', err, { userId: user.sub });
     return res.status(500).json({ error: sanitizeError(err) });
@@ -0,0 +1,88 @@
+// api/jobs/[id].ts — Follow a design generation job (AUTHENTICATED)
+// GET /api/jobs/:id → returns { jobId, status, attempts, progress, imageUrl?, prompt?, quality?, error? }
+// quality is the quality gate's verdict on the kept image; its attempts are
+// the takes generated in the successful job attempt.
+// With Accept: text/event-stream, streams instead: a `progress` event per
+// stage reached (id = its index; resume with Last-Event-ID), then `done`
+// carrying the JSON body above once the job has finished.
+// Only the user who submitted the job can read it. A pending job whose worker
+// died or ran out of time is restarted here.
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { waitUntil } from '@vercel/functions';
+import { requireAuth } from '../_lib/auth.js';
+import { logError } from '../_lib/validation.js';
+import { rateLimit } from '../_lib/ratelimit.js';
+import { openEventStream, wantsEventStream } from '../_lib/sse.js';
+import { getJob, isJobPending, processJob, type JobRecord } from '../_lib/jobs.js';
+
+const STREAM_POLL_MS = 1000;
+// Close well inside maxDuration; the client reconnects with Last-Event-ID
+const STREAM_MAX_MS = 240_000;
+
+function toResponse(job: JobRecord) {
+  return {
+    jobId: job.id,
+    status: job.status,
+    attempts: job.attempts,
+    progress: job.events[job.events.length - 1],
+    imageUrl: job.result?.imageUrl,
+    prompt: job.result?.prompt,
+    quality: job.result?.quality,
+    error: job.status === 'failed' ? job.error : undefined,
+  };
+}
+
+// No-op while the running worker still holds the job's lock
+function resume(job: JobRecord) {
+  if (isJobPending(job)) {
+    waitUntil(processJob(job.id).catch(err => logError('job', err, { jobId: job.id })));
+  }
+}
+
+async function streamJob(req: VercelRequest, res: VercelResponse, job: JobRecord) {
+  const stream = openEventStream(res);
+  let closed = false;
+  req.on('close', () => { closed = true; });
+
+  let sent = Number(req.headers['last-event-id']);
+  sent = Number.isInteger(sent) ? sent + 1 : 0;
+  const deadline = Date.now() + STREAM_MAX_MS;
+
+  let current: JobRecord | null = job;
+  while (current && !closed) {
+    for (; sent < current.events.length; sent++) stream.send('progress', current.events[sent], sent);
+    if (!isJobPending(current)) {
+      stream.send('done', toResponse(current));
+      break;
+    }
+    if (Date.now() > deadline) break;
+    await new Promise(r => setTimeout(r, STREAM_POLL_MS));
+    current = await getJob(job.id);
+  }
+  stream.close();
+}
+
+async function getJobHandler(req: VercelRequest, res: VercelResponse, user: any) {
+  if (!(await rateLimit(req, res, 'read', user.sub))) return;
+
+  if (req.method !== 'GET') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    const job = await getJob(String(req.query.id || ''));
+    if (!job || job.userId !== user.sub) return res.status(404).json({ error: 'Job not found' });
+
+    resume(job);
+
+    if (wantsEventStream(req)) return await streamJob(req, res, job);
+
+    res.setHeader('Cache-Control', 'no-store');
+    return res.status(200).json(toResponse(job));
+  } catch (err: any) {
+    logError('jobs', err, { userId: user.sub });
+    if (res.headersSent) return res.end();
+    return res.status(500).json({ error: 'Could not load job' });
+  }
+}
+
+export default requireAuth(getJobHandler);
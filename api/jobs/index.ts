@@ -0,0 +1,48 @@
+// api/jobs/index.ts — Submit a design generation job (AUTHENTICATED)
+// POST { details } → 202 { jobId, status }
+// Generation runs after the response; poll GET /api/jobs/:id for the result.
+// details.quality 'draft' uses the draft model, anything else the high-quality model (modelProvider.ts).
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { waitUntil } from '@vercel/functions';
+import { requireAuth } from '../_lib/auth.js';
+import { validateDesignInput, sanitizeError, logError } from '../_lib/validation.js';
+import { rateLimit } from '../_lib/ratelimit.js';
+import { createJob, processJob } from '../_lib/jobs.js';
+import { operationForQuality } from '../_lib/generation.js';
+import { getImageModel } from '../_lib/modelProvider.js';
+import { resolveStyleDetails } from '../_lib/customStyles.js';
+
+async function submitJobHandler(req: VercelRequest, res: VercelResponse, user: any) {
+  if (!(await rateLimit(req, res, 'ai', user.sub))) return;
+
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  try {
+    const { details } = req.body;
+    if (!details) return res.status(400).json({ error: 'details object is required' });
+
+    const validationErrors = validateDesignInput(details);
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Invalid input', validationErrors });
+    }
+
+    if (!getImageModel(operationForQuality(details.quality)).provider.isConfigured()) {
+      return res.status(500).json({ error: 'Image model not configured' });
+    }
+
+    // Custom style templates are resolved once, at submission
+    const styled = await resolveStyleDetails(details, user.sub);
+    if (!styled) return res.status(400).json({ error: 'Unknown style' });
+
+    const job = await createJob(user.sub, styled);
+    waitUntil(processJob(job.id).catch(err => logError('job', err, { jobId: job.id })));
+
+    return res.status(202).json({ jobId: job.id, status: job.status });
+  } catch (err: any) {
+    logError('jobs', err, { userId: user.sub });
+    return res.status(500).json({ error: sanitizeError(err) });
+  }
+}
+
+export default requireAuth(submitJobHandler);
@@ -1,24 +1,30 @@
 // api/mockup.ts — Generate product mockup (T-shirt, Hoodie, Mug, Poster) (AUTHENTICATED)
-// POST { designImageBase64, productType?, shirtColor, shirtColorName, shirtBrand, gender, ageRange, carDescription, modelPhotoBase64?, background? }
+// POST { designImageBase64, styleId?, lettering?, productType?, shirtColor, shirtColorName, shirtBrand, gender, ageRange, carDescription, modelPhotoBase64?, background? }
 // → returns { imageUrl }
+// With Accept: text/event-stream, streams `progress` events (sent, received,
+// compressed, stored), then `done` { imageUrl } or `error` { error }.
+// lettering (LetteringSpec) is drawn over the design first, as it will be in the print file.
+// For apparel, styleId's canvas color is knocked out first so the print doesn't show as a box
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { GoogleGenAI } from '@google/genai';
+import sharp from 'sharp';
 import { trackImageGenCall } from '../lib/apiTracker.js';
 import { requireAuth } from './_lib/auth.js';
-import { sanitizeError, logError } from './_lib/validation.js';
+import { sanitizeError, logError, validateLettering } from './_lib/validation.js';
 import { rateLimit } from './_lib/ratelimit.js';
-
-const MODEL = 'gemini-2.5-flash-image';
-
-const extractImageFromResponse = (response: any): string => {
-  const parts = response.candidates?.[0]?.content?.parts || [];
-  const imagePart = parts.find((p: any) => p.inlineData);
-  if (imagePart && imagePart.inlineData) {
-    return `data:image/png;base64,${imagePart.inlineData.data}`;
-  }
-  throw new Error('The design studio failed to render the mockup. Please try again.');
-};
+import { persistImage } from './_lib/objectStorage.js';
+import { getStyleKnockout, knockoutBackground } from './_lib/knockout.js';
+import { composeLettering } from './_lib/lettering.js';
+import { hasLettering } from '../lib/lettering.js';
+import { openEventStream, wantsEventStream, type EventStream } from './_lib/sse.js';
+import { getImageModel, toImageInput, type ImageInput } from './_lib/modelProvider.js';
+import type { GenerationStage } from '../types.js';
+
+// Mockups are photos and never printed — JPEG is fine and far smaller
+async function compressMockup(data: string): Promise<string> {
+  const jpeg = await sharp(Buffer.from(data, 'base64')).jpeg({ quality: 85, mozjpeg: true }).toBuffer();
+  return `data:image/jpeg;base64,${jpeg.toString('base64')}`;
+}
 
 function buildPrompt(opts: {
   productType: string;
@@ -29,8 +35,9 @@ function buildPrompt(opts: {
   backgroundDescription: string;
   carDescription: string;
   hasModelPhoto: boolean;
+  transparentDesign: boolean;
 }): string {
-  const { productType, modelDescription, colorName, colorHex, brand, backgroundDescription, carDescription, hasModelPhoto } = opts;
+  const { productType, modelDescription, colorName, colorHex, brand, backgroundDescription, carDescription, hasModelPhoto, transparentDesign } = opts;
 
   const modelNote = hasModelPhoto
     ? 'IMPORTANT: Use the person from the second reference photo as the model. Preserve their appearance, face, and body type accurately.'
@@ -63,9 +70,13 @@ IMPORTANT: This is ${carDescription || 'automotive art'}. The artwork in the pri
     ? `${colorName} pullover hoodie (${brand || 'Gildan 18500'} style, relaxed fit)`
     : `${colorName} crew-neck t-shirt (${brand || 'Bella Canvas 3001'} style, relaxed fit)`;
 
+  const transparencyNote = transparentDesign
+    ? ' The artwork has a transparent background: print only the artwork itself, with the garment fabric showing around and through it — no rectangle, box or background panel behind it.'
+    : '';
+
   return `Create a professional e-commerce product mockup photo. Show ${modelDescription} wearing a ${garmentType}.
 
-The ${productType === 'hoodie' ? 'hoodie' : 't-shirt'} has the provided car artwork design (first image) printed on the front center. The design should look naturally printed on the fabric, following the contours and folds.
+The ${productType === 'hoodie' ? 'hoodie' : 't-shirt'} has the provided car artwork design (first image) printed on the front center. The design should look naturally printed on the fabric, following the contours and folds.${transparencyNote}
 
 PHOTOGRAPHY STYLE: ${backgroundDescription} Model shown from waist up, slightly angled. Natural pose, looking at or near camera.
 
@@ -81,9 +92,12 @@ async function mockupHandler(req: VercelRequest, res: VercelResponse, user: any)
   
   if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
 
+  let stream: EventStream | null = null;
   try {
     const {
       designImageBase64,
+      styleId,
+      lettering,
       productType = 'tshirt',
       shirtColor,
       shirtColorName,
@@ -96,13 +110,32 @@ async function mockupHandler(req: VercelRequest, res: VercelResponse, user: any)
     } = req.body;
 
     if (!designImageBase64) return res.status(400).json({ error: 'designImageBase64 is required' });
+    if (lettering !== undefined && lettering !== null) {
+      const validationErrors = validateLettering(lettering);
+      if (validationErrors.length > 0) return res.status(400).json({ error: 'Invalid input', validationErrors });
+    }
+
+    const { provider, model } = getImageModel('mockup');
+    if (!provider.isConfigured()) return res.status(500).json({ error: 'Image model not configured' });
 
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) return res.status(500).json({ error: 'GEMINI_API_KEY not configured' });
+    if (wantsEventStream(req)) stream = openEventStream(res);
+    const report = (stage: GenerationStage) => stream?.send('progress', { stage, at: new Date().toISOString() });
 
-    const ai = new GoogleGenAI({ apiKey });
     const startTime = Date.now();
-    const base64Data = designImageBase64.replace(/^data:image\/\w+;base64,/, '');
+    let design: ImageInput = toImageInput(designImageBase64);
+    if (hasLettering(lettering)) {
+      const lettered = await composeLettering(Buffer.from(design.data, 'base64'), lettering);
+      design = { data: lettered.toString('base64'), mimeType: 'image/png' };
+    }
+
+    // Garments: knock out the style's flat canvas so it isn't printed as a box
+    const knockout = (productType === 'tshirt' || productType === 'hoodie') && typeof styleId === 'string'
+      ? await getStyleKnockout(styleId)
+      : null;
+    if (knockout) {
+      const result = await knockoutBackground(Buffer.from(design.data, 'base64'), knockout.backgroundColor, { mode: knockout.mode });
+      design = { data: result.png.toString('base64'), mimeType: 'image/png' };
+    }
 
     const ageDescriptions: Record<string, string> = {
       '18-25': 'young adult in their early twenties',
@@ -128,34 +161,35 @@ async function mockupHandler(req: VercelRequest, res: VercelResponse, user: any)
       backgroundDescription,
       carDescription: carDescription || 'automotive art',
       hasModelPhoto: !!modelPhotoBase64,
+      transparentDesign: !!knockout,
     });
 
-    const parts: any[] = [
-      { inlineData: { mimeType: 'image/png', data: base64Data } },
-    ];
-    if (modelPhotoBase64) {
-      const modelData = modelPhotoBase64.replace(/^data:image\/\w+;base64,/, '');
-      parts.push({ inlineData: { mimeType: 'image/jpeg', data: modelData } });
-    }
-    parts.push({ text: prompt });
-
-    const response = await ai.models.generateContent({
-      model: MODEL,
-      contents: { parts },
-      config: {
-        responseModalities: ['TEXT', 'IMAGE'] as any,
-      },
-    });
-
-    const imageUrl = extractImageFromResponse(response);
-    trackImageGenCall('SnapMerch', 'generate_mockup', MODEL, 1, {
+    const images = [design];
+    if (modelPhotoBase64) images.push(toImageInput(modelPhotoBase64, 'image/jpeg'));
+
+    report('sent');
+    const image = await provider.generateImage(model, { operation: 'mockup', prompt, images });
+    report('received');
+    const compressed = await compressMockup(image.data);
+    report('compressed');
+    const imageUrl = await persistImage('mockups', compressed);
+    report('stored');
+    trackImageGenCall('SnapMerch', 'generate_mockup', model, 1, {
       durationMs: Date.now() - startTime,
       metadata: { productType, color: shirtColorName || 'White' },
     });
 
+    if (stream) {
+      stream.send('done', { imageUrl });
+      return stream.close();
+    }
     return res.status(200).json({ imageUrl });
   } catch (err: any) {
     logError('mockup', err, { userId: user.sub });
+    if (stream) {
+      stream.send('error', { error: sanitizeError(err) });
+      return stream.close();
+    }
     return res.status(500).json({ error: sanitizeError(err) });
   }
 }
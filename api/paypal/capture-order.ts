@@ -1,83 +1,142 @@
 // api/paypal/capture-order.ts — Capture payment after customer approves
 // POST { orderId }
-// → returns { captureId, status, payer }
+// → returns { captureId, status, payer, shipping, recordId }
+// Writes the snap_orders row server-side, keyed on the PayPal order ID, so a
+// retried capture returns the recorded order instead of creating a duplicate.
+// Line items come from the pending row create-order wrote, or failing that
+// from the PayPal order itself.
+// Confirmed orders are then submitted for print-on-demand fulfillment after
+// the response (waitUntil) — rendering print files can take most of the
+// function's time, and the customer has already paid.
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { waitUntil } from '@vercel/functions';
 import { checkRateLimit } from '../_lib/rateLimit.js';
+import { PAYPAL_API, getAccessToken } from '../_lib/paypal.js';
+import { getOrderByPaypalId, orderItemsFromPaypal, recordCapturedOrder, type OrderRecord, type ShippingAddressRecord } from '../_lib/orders.js';
+import { submitOrderForFulfillment } from '../_lib/fulfillment.js';
+import { logError } from '../_lib/validation.js';
 
-const PAYPAL_API = process.env.PAYPAL_MODE === 'live'
-  ? 'https://api-m.paypal.com'
-  : 'https://api-m.sandbox.paypal.com';
+function splitName(fullName: string | undefined): { firstName: string; lastName: string } {
+  const parts = (fullName || '').trim().split(/\s+/);
+  return { firstName: parts[0] || '', lastName: parts.slice(1).join(' ') };
+}
 
-async function getAccessToken(): Promise<string> {
-  const clientId = process.env.PAYPAL_CLIENT_ID;
-  const secret = process.env.PAYPAL_CLIENT_SECRET;
-  if (!clientId || !secret) throw new Error('PayPal credentials not configured');
+function responseFromRecord(record: OrderRecord) {
+  return {
+    captureId: record.payment_id,
+    status: record.status === 'pending' ? 'PENDING' : 'COMPLETED',
+    payer: { email: record.customer_email || undefined, name: record.customer_name || undefined },
+    shipping: record.shipping_address ? {
+      name: `${record.shipping_address.firstName} ${record.shipping_address.lastName}`.trim(),
+      address: record.shipping_address,
+    } : undefined,
+    recordId: record.id,
+  };
+}
 
-  const auth = Buffer.from(`${clientId}:${secret}`).toString('base64');
-  const res = await fetch(`${PAYPAL_API}/v1/oauth2/token`, {
+// Capture the order; if PayPal says it was already captured, fetch its current state instead
+async function captureOrFetch(orderId: string, accessToken: string): Promise<any> {
+  const captureRes = await fetch(`${PAYPAL_API}/v2/checkout/orders/${encodeURIComponent(orderId)}/capture`, {
     method: 'POST',
     headers: {
-      'Authorization': `Basic ${auth}`,
-      'Content-Type': 'application/x-www-form-urlencoded',
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+      'PayPal-Request-Id': `capture-${orderId}`, // PayPal-side idempotency
+      'Prefer': 'return=representation', // include line items and amount, for orderItemsFromPaypal
     },
-    body: 'grant_type=client_credentials',
   });
 
-  if (!res.ok) throw new Error('PayPal auth failed');
-  const data = await res.json();
-  return data.access_token;
+  if (captureRes.ok) return captureRes.json();
+
+  const err = await captureRes.text();
+  if (captureRes.status === 422 && err.includes('ORDER_ALREADY_CAPTURED')) {
+    const orderRes = await fetch(`${PAYPAL_API}/v2/checkout/orders/${encodeURIComponent(orderId)}`, {
+      headers: { 'Authorization': `Bearer ${accessToken}` },
+    });
+    if (orderRes.ok) return orderRes.json();
+  }
+
+  console.error('PayPal capture error:', err);
+  throw new Error('Failed to capture payment');
 }
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (!(await checkRateLimit(req, res, 'sensitive'))) return;
-  
+
   if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
 
   try {
     const { orderId } = req.body;
-    if (!orderId) return res.status(400).json({ error: 'orderId is required' });
+    if (!orderId || typeof orderId !== 'string') return res.status(400).json({ error: 'orderId is required' });
+
+    // Already captured and recorded — replay the stored result
+    const existing = await getOrderByPaypalId(orderId).catch(err => {
+      logError('capture-order', err, { orderId });
+      return null;
+    });
+    if (existing?.payment_id && existing.status !== 'pending') {
+      return res.status(200).json(responseFromRecord(existing));
+    }
 
     const accessToken = await getAccessToken();
+    const capture = await captureOrFetch(orderId, accessToken);
 
-    const captureRes = await fetch(`${PAYPAL_API}/v2/checkout/orders/${orderId}/capture`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-        'Content-Type': 'application/json',
-      },
-    });
+    const unit = capture.purchase_units?.[0];
+    const captureInfo = unit?.payments?.captures?.[0];
+    const captureId = captureInfo?.id;
+    const payer = capture.payer;
+    const shipping = unit?.shipping;
 
-    if (!captureRes.ok) {
-      const err = await captureRes.text();
-      console.error('PayPal capture error:', err);
-      throw new Error('Failed to capture payment');
+    const payerName = payer?.name ? `${payer.name.given_name} ${payer.name.surname}` : undefined;
+    const shippingAddress: ShippingAddressRecord | undefined = shipping?.address ? {
+      ...splitName(shipping.name?.full_name || payerName),
+      address1: shipping.address.address_line_1 || '',
+      address2: shipping.address.address_line_2 || '',
+      city: shipping.address.admin_area_2 || '',
+      state: shipping.address.admin_area_1 || '',
+      zip: shipping.address.postal_code || '',
+      country: shipping.address.country_code || 'US',
+    } : undefined;
+
+    // The customer has paid at this point — a failed DB write must not fail the response
+    let record: OrderRecord | null = null;
+    try {
+      record = await recordCapturedOrder({
+        paypalOrderId: orderId,
+        captureId: captureId || null,
+        captureStatus: captureInfo?.status,
+        carId: captureInfo?.custom_id || unit?.custom_id || null,
+        ...orderItemsFromPaypal(unit),
+        payerEmail: payer?.email_address,
+        payerName,
+        shippingAddress,
+      });
+    } catch (err: any) {
+      logError('capture-order', err, { orderId, captureId, note: 'payment captured but order not recorded' });
     }
 
-    const capture = await captureRes.json();
-    const captureId = capture.purchase_units?.[0]?.payments?.captures?.[0]?.id;
-    const payer = capture.payer;
-    const shipping = capture.purchase_units?.[0]?.shipping;
+    if (record && record.items.length === 0) {
+      logError('capture-order', new Error('Order recorded without line items'), { orderId, captureId, recordId: record.id });
+    }
+
+    // Hand the paid order to the print provider (records its own failures).
+    // If the function times out first, /api/fulfillment/sync picks it up.
+    if (record) waitUntil(submitOrderForFulfillment(record));
 
     return res.status(200).json({
       captureId,
       status: capture.status,
       payer: {
         email: payer?.email_address,
-        name: payer?.name ? `${payer.name.given_name} ${payer.name.surname}` : undefined,
+        name: payerName,
         payerId: payer?.payer_id,
       },
       shipping: shipping ? {
         name: shipping.name?.full_name,
-        address: shipping.address ? {
-          address1: shipping.address.address_line_1 || '',
-          address2: shipping.address.address_line_2 || '',
-          city: shipping.address.admin_area_2 || '',
-          state: shipping.address.admin_area_1 || '',
-          zip: shipping.address.postal_code || '',
-          country: shipping.address.country_code || 'US',
-        } : undefined,
+        address: shippingAddress,
       } : undefined,
+      recordId: record?.id,
     });
   } catch (err: any) {
     console.error('capture-order error:', err);
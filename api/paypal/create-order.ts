@@ -1,37 +1,17 @@
 // api/paypal/create-order.ts — Create a PayPal order for checkout
-// POST { items: [{ name, quantity, price }], currency? }
-// → returns { orderId }
+// POST { items: [{ productId, styleId, size?, color?, quantity? }], carSessionId?, carTitle?, total? }
+// → returns { orderId, total }
+// Line items and amounts are built server-side from the catalog; client prices are ignored.
+// If `total` (what the customer was shown) is sent and no longer matches, responds 409.
+// carSessionId, if sent, must be a car ID (UUID); the order is still recorded
+// without the car when it hasn't synced to Supabase yet.
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { checkRateLimit } from '../_lib/rateLimit.js';
-
-const PAYPAL_API = process.env.PAYPAL_MODE === 'live'
-  ? 'https://api-m.paypal.com'
-  : 'https://api-m.sandbox.paypal.com';
-
-async function getAccessToken(): Promise<string> {
-  const clientId = process.env.PAYPAL_CLIENT_ID;
-  const secret = process.env.PAYPAL_CLIENT_SECRET;
-  if (!clientId || !secret) throw new Error('PayPal credentials not configured');
-
-  const auth = Buffer.from(`${clientId}:${secret}`).toString('base64');
-  const res = await fetch(`${PAYPAL_API}/v1/oauth2/token`, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Basic ${auth}`,
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body: 'grant_type=client_credentials',
-  });
-
-  if (!res.ok) {
-    const err = await res.text();
-    throw new Error(`PayPal auth failed: ${err}`);
-  }
-
-  const data = await res.json();
-  return data.access_token;
-}
+import { priceOrderItems, validateOrderTotal } from '../_lib/pricing.js';
+import { PAYPAL_API, getAccessToken } from '../_lib/paypal.js';
+import { recordPendingOrder, CAR_ID_PATTERN } from '../_lib/orders.js';
+import { logError } from '../_lib/validation.js';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (!(await checkRateLimit(req, res, 'sensitive'))) return;
@@ -39,26 +19,43 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
 
   try {
-    const { items, currency = 'USD' } = req.body;
+    const { items, carSessionId, carTitle, total } = req.body;
+    if (carSessionId !== undefined && carSessionId !== null
+      && (typeof carSessionId !== 'string' || !CAR_ID_PATTERN.test(carSessionId))) {
+      return res.status(400).json({ error: 'carSessionId must be a car ID' });
+    }
+    const carId: string | undefined = carSessionId || undefined;
 
     if (!items || !Array.isArray(items) || items.length === 0) {
       return res.status(400).json({ error: 'items array is required' });
     }
 
+    const priced = priceOrderItems(items);
+    if (priced.errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid input', validationErrors: priced.errors });
+    }
+
+    if (total !== undefined) {
+      const check = validateOrderTotal(items, parseFloat(total));
+      if (!check.valid) {
+        return res.status(409).json({ error: 'Prices have changed — please review your order', expectedTotal: check.expectedTotal });
+      }
+    }
+
     const accessToken = await getAccessToken();
 
-    // Calculate totals
-    const itemTotal = items.reduce((sum: number, item: any) => {
-      return sum + (parseFloat(item.price) * (parseInt(item.quantity) || 1));
-    }, 0);
+    const currency = 'USD'; // catalog prices are USD
+    const itemTotal = priced.total;
+    const titlePrefix = typeof carTitle === 'string' && carTitle.trim() ? `${carTitle.trim().slice(0, 60)} — ` : '';
 
-    const paypalItems = items.map((item: any) => ({
-      name: item.name,
-      description: item.description || '',
-      quantity: String(item.quantity || 1),
+    const paypalItems = priced.items.map(item => ({
+      name: `${titlePrefix}${item.productName}${item.size ? ` (${item.size})` : ''}${item.color ? ` — ${item.color}` : ''}`.slice(0, 127),
+      description: `Custom ${item.productName} design${item.styleId ? ` · ${item.styleId}` : ''}`.slice(0, 127),
+      sku: [item.productId, item.size, item.color].filter(Boolean).join('-').slice(0, 127),
+      quantity: String(item.quantity),
       unit_amount: {
         currency_code: currency,
-        value: parseFloat(item.price).toFixed(2),
+        value: item.unitPrice.toFixed(2),
       },
       category: 'PHYSICAL_GOODS',
     }));
@@ -67,6 +64,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       intent: 'CAPTURE',
       purchase_units: [{
         description: 'MyRestoMod Custom Merch',
+        custom_id: carId, // links the capture back to the car session
         amount: {
           currency_code: currency,
           value: itemTotal.toFixed(2),
@@ -106,7 +104,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     }
 
     const order = await orderRes.json();
-    return res.status(200).json({ orderId: order.id });
+
+    // Remember what was priced so capture can record the order server-side
+    try {
+      await recordPendingOrder({ paypalOrderId: order.id, carId, items: priced.items, total: itemTotal });
+    } catch (err: any) {
+      logError('create-order', err, { orderId: order.id });
+    }
+
+    return res.status(200).json({ orderId: order.id, total: itemTotal });
   } catch (err: any) {
     console.error('create-order error:', err);
     return res.status(500).json({ error: err.message || 'Failed to create order' });
@@ -0,0 +1,39 @@
+// api/paypal/webhook.ts — PayPal webhook receiver (PUBLIC, signature-verified)
+// POST <PayPal webhook event> → 200 { result }
+// Maps PAYMENT.CAPTURE.* and CUSTOMER.DISPUTE.* events onto snap_orders.status.
+// Replays of an event ID are acknowledged without being re-applied.
+// Local replay of fixtures: set PAYPAL_WEBHOOK_VERIFY=off under `vercel dev`
+// and run `npm run webhook:replay` (ignored on deployed environments).
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { verifyWebhookSignature, processWebhookEvent, type PayPalWebhookEvent } from '../_lib/paypalWebhook.js';
+import { logError } from '../_lib/validation.js';
+
+function verificationDisabled(): boolean {
+  const isLocal = !process.env.VERCEL_ENV || process.env.VERCEL_ENV === 'development';
+  return isLocal && process.env.PAYPAL_WEBHOOK_VERIFY === 'off';
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  const event = req.body as PayPalWebhookEvent;
+  if (!event?.id || !event?.event_type) return res.status(400).json({ error: 'Invalid webhook payload' });
+
+  try {
+    if (!verificationDisabled()) {
+      const valid = await verifyWebhookSignature(req.headers, event);
+      if (!valid) {
+        console.warn(`Rejected PayPal webhook ${event.id} (${event.event_type}): bad signature`);
+        return res.status(400).json({ error: 'Invalid signature' });
+      }
+    }
+
+    const outcome = await processWebhookEvent(event);
+    return res.status(200).json(outcome);
+  } catch (err: any) {
+    // Non-2xx makes PayPal retry delivery later
+    logError('paypal-webhook', err, { eventId: event.id, eventType: event.event_type });
+    return res.status(500).json({ error: 'Webhook processing failed' });
+  }
+}
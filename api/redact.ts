@@ -0,0 +1,39 @@
+// api/redact.ts — Blur license plates and faces in car photos (AUTHENTICATED)
+// POST { images } → returns { images, regions }: the photos as JPEG data URLs
+// with plates and faces blurred, in the order sent, and how many regions were
+// blurred in each. images: 1–MAX_CAR_PHOTOS base64 photos.
+// Fails as a whole (502) if any photo can't be checked — the client then keeps
+// the originals on the device only and never stores or shares them.
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { requireAuth } from './_lib/auth.js';
+import { sanitizeError, logError } from './_lib/validation.js';
+import { rateLimit } from './_lib/ratelimit.js';
+import { redactPhoto } from './_lib/redaction.js';
+import { MAX_CAR_PHOTOS } from '../types.js';
+
+async function redactHandler(req: VercelRequest, res: VercelResponse, user: any) {
+  if (!(await rateLimit(req, res, 'ai', user.sub))) return;
+
+  if (req.method !== 'POST') return res.status(405).json({ error: 'Method not allowed' });
+
+  const images: unknown[] = Array.isArray(req.body?.images) ? req.body.images : [];
+  if (images.length === 0) return res.status(400).json({ error: 'images is required' });
+  if (images.length > MAX_CAR_PHOTOS) return res.status(400).json({ error: `At most ${MAX_CAR_PHOTOS} images` });
+  if (images.some(image => typeof image !== 'string' || !image)) {
+    return res.status(400).json({ error: 'images must be base64 strings' });
+  }
+
+  try {
+    const results = await Promise.all((images as string[]).map(image => redactPhoto(image)));
+    return res.status(200).json({
+      images: results.map(r => r.image),
+      regions: results.map(r => r.regions.length),
+    });
+  } catch (err: any) {
+    logError('redact', err, { userId: user.sub, imageCount: images.length });
+    return res.status(502).json({ error: sanitizeError(err) });
+  }
+}
+
+export default requireAuth(redactHandler);
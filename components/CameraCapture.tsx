@@ -1,7 +1,9 @@
 import React, { useRef, useState, useCallback } from 'react';
+import { MAX_CAR_PHOTOS } from '../types';
+import { readImageFiles } from '../services/storage';
 
 interface CameraCaptureProps {
-  onCapture: (base64Image: string) => void;
+  onCapture: (base64Images: string[]) => void; // one or more photos of the same car
   isProcessing: boolean;
 }
 
@@ -10,22 +12,17 @@ export default function CameraCapture({ onCapture, isProcessing }: CameraCapture
   const cameraInputRef = useRef<HTMLInputElement>(null);
   const [dragOver, setDragOver] = useState(false);
 
-  const processFile = useCallback((file: File) => {
-    if (!file.type.startsWith('image/')) return;
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const result = e.target?.result as string;
-      if (result) onCapture(result);
-    };
-    reader.readAsDataURL(file);
+  const processFiles = useCallback(async (files: FileList | null) => {
+    if (!files) return;
+    const images = await readImageFiles(files);
+    if (images.length > 0) onCapture(images);
   }, [onCapture]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setDragOver(false);
-    const file = e.dataTransfer.files[0];
-    if (file) processFile(file);
-  }, [processFile]);
+    processFiles(e.dataTransfer.files);
+  }, [processFiles]);
 
   return (
     <div className="flex flex-col items-center gap-6 px-4 pt-8 pb-4">
@@ -100,8 +97,7 @@ export default function CameraCapture({ onCapture, isProcessing }: CameraCapture
         capture="environment"
         className="hidden"
         onChange={(e) => {
-          const file = e.target.files?.[0];
-          if (file) processFile(file);
+          processFiles(e.target.files);
           e.target.value = '';
         }}
       />
@@ -109,10 +105,10 @@ export default function CameraCapture({ onCapture, isProcessing }: CameraCapture
         ref={fileInputRef}
         type="file"
         accept="image/*"
+        multiple
         className="hidden"
         onChange={(e) => {
-          const file = e.target.files?.[0];
-          if (file) processFile(file);
+          processFiles(e.target.files);
           e.target.value = '';
         }}
       />
@@ -120,6 +116,7 @@ export default function CameraCapture({ onCapture, isProcessing }: CameraCapture
       {/* Tips */}
       <div className="text-center text-neutral-500 text-xs max-w-xs space-y-1">
         <p>📸 Best results: 3/4 front angle, good lighting</p>
+        <p>🔍 Pick up to {MAX_CAR_PHOTOS} photos — badges, wheels and interior pin down the trim</p>
         <p>🚗 Works with any car — classics, exotics, JDM, muscle</p>
       </div>
     </div>
@@ -1,45 +1,85 @@
-import React, { useState } from 'react';
-import type { CarIdentity as CarIdentityType } from '../types';
+import React, { useId, useState } from 'react';
+import type { CarIdentity as CarIdentityType, IdentityCandidate } from '../types';
 import { identifyColor } from '../services/api';
+import { listMakes, listModels, listTrims, normalizeIdentity } from '../lib/vehicleTaxonomy';
+import { listPaints, catalogColor } from '../lib/paintCodes';
 
 interface CarIdentityProps {
   identity: CarIdentityType;
   photoBase64?: string;
   onUpdate?: (updated: CarIdentityType) => void;
   locked?: boolean; // Hide edit button (e.g. during/after generation)
+  candidates?: IdentityCandidate[]; // ranked matches, offered as one-tap choices
+  lowConfidence?: boolean;          // ask the vendor to check the ID before generating
 }
 
-export default function CarIdentityCard({ identity, photoBase64, onUpdate, locked }: CarIdentityProps) {
+const sameCar = (a: CarIdentityType, b: CarIdentityType) =>
+  a.year === b.year && a.make === b.make && a.model === b.model && (a.trim || '') === (b.trim || '');
+
+const isHex = (hex: string | undefined) => !!hex && /^#[0-9a-f]{6}$/i.test(hex);
+
+const candidateTitle = (c: IdentityCandidate) =>
+  [c.year, c.make, c.model, c.trim && c.trim !== 'Standard' && c.trim !== 'N/A' ? c.trim : ''].filter(Boolean).join(' ');
+
+export default function CarIdentityCard({ identity, photoBase64, onUpdate, locked, candidates, lowConfidence }: CarIdentityProps) {
   const [editing, setEditing] = useState(false);
   const [identifying, setIdentifying] = useState(false);
+  const [pickingPaint, setPickingPaint] = useState(false);
   const [year, setYear] = useState(identity.year);
   const [make, setMake] = useState(identity.make);
   const [model, setModel] = useState(identity.model);
   const [trim, setTrim] = useState(identity.trim || '');
+  const listId = useId();
 
   const title = `${identity.year} ${identity.make} ${identity.model}`;
 
   const handleSave = async () => {
     if (!onUpdate) return;
 
+    // Canonical names, so 'chevy' and 'Chevrolet' are the same car everywhere
+    const edited = normalizeIdentity({ ...identity, year: year.trim(), make, model, trim });
+
     // If year/make/model changed AND we have a photo, re-identify the paint color
-    const identityChanged = year !== identity.year || make !== identity.make || model !== identity.model;
-    let updatedColor = identity.color;
+    const identityChanged = edited.year !== identity.year || edited.make !== identity.make || edited.model !== identity.model;
+    // Re-read against the new car's paint catalog — a code from the old make means nothing
+    let updatedColor = identityChanged ? catalogColor(edited.make, edited.year, identity.color) : identity.color;
 
     if (identityChanged && photoBase64) {
       setIdentifying(true);
       try {
-        updatedColor = await identifyColor(photoBase64, year, make, model);
+        updatedColor = await identifyColor(photoBase64, edited.year, edited.make, edited.model);
       } catch {
         // Keep existing color if re-ID fails
       }
       setIdentifying(false);
     }
 
-    onUpdate({ ...identity, year, make, model, trim, color: updatedColor });
+    onUpdate({ ...edited, color: updatedColor });
     setEditing(false);
   };
 
+  // Ask the model again, e.g. when the detected paint is wrong but the car is right
+  const handleRedetectPaint = async () => {
+    if (!onUpdate || !photoBase64) return;
+    setIdentifying(true);
+    try {
+      onUpdate({ ...identity, color: await identifyColor(photoBase64, identity.year, identity.make, identity.model) });
+    } catch {
+      // Keep the current color
+    }
+    setIdentifying(false);
+  };
+
+  const handleEdit = () => {
+    // The identity may have changed (a candidate was picked) since the last edit
+    setYear(identity.year);
+    setMake(identity.make);
+    setModel(identity.model);
+    setTrim(identity.trim || '');
+    setPickingPaint(false);
+    setEditing(true);
+  };
+
   const handleCancel = () => {
     setYear(identity.year);
     setMake(identity.make);
@@ -82,6 +122,8 @@ export default function CarIdentityCard({ identity, photoBase64, onUpdate, locke
                 type="text"
                 value={make}
                 onChange={e => setMake(e.target.value)}
+                list={`${listId}-makes`}
+                autoComplete="off"
                 className="w-full bg-surface-elevated border border-surface-border rounded-lg px-2 py-1.5 text-white text-sm focus:border-brand focus:outline-none"
               />
             </div>
@@ -91,10 +133,33 @@ export default function CarIdentityCard({ identity, photoBase64, onUpdate, locke
                 type="text"
                 value={model}
                 onChange={e => setModel(e.target.value)}
+                list={`${listId}-models`}
+                autoComplete="off"
                 className="w-full bg-surface-elevated border border-surface-border rounded-lg px-2 py-1.5 text-white text-sm focus:border-brand focus:outline-none"
               />
             </div>
           </div>
+          <div>
+            <label className="text-[10px] text-neutral-500 uppercase tracking-wider font-semibold">Trim</label>
+            <input
+              type="text"
+              value={trim}
+              onChange={e => setTrim(e.target.value)}
+              list={`${listId}-trims`}
+              autoComplete="off"
+              className="w-full bg-surface-elevated border border-surface-border rounded-lg px-2 py-1.5 text-white text-sm focus:border-brand focus:outline-none"
+            />
+          </div>
+          {/* Autocomplete from the bundled vehicle taxonomy, narrowed by what's filled in */}
+          <datalist id={`${listId}-makes`}>
+            {listMakes(year).map(name => <option key={name} value={name} />)}
+          </datalist>
+          <datalist id={`${listId}-models`}>
+            {listModels(make, year).map(name => <option key={name} value={name} />)}
+          </datalist>
+          <datalist id={`${listId}-trims`}>
+            {listTrims(make, model).map(name => <option key={name} value={name} />)}
+          </datalist>
           <div className="flex gap-2">
             <button
               onClick={handleSave}
@@ -114,12 +179,22 @@ export default function CarIdentityCard({ identity, photoBase64, onUpdate, locke
       ) : (
         /* Display mode */
         <div className="p-4 flex items-center gap-3">
-          {/* Color swatch */}
-          <div
-            className="w-10 h-10 rounded-full border-2 border-white/20 shadow-md flex-shrink-0"
-            style={{ backgroundColor: identity.color?.hex || '#666' }}
-            title={identity.color?.name || 'Unknown'}
-          />
+          {/* Color swatch — tap to pick the factory paint */}
+          {onUpdate && !locked ? (
+            <button
+              onClick={() => setPickingPaint(p => !p)}
+              className={`w-10 h-10 rounded-full border-2 shadow-md flex-shrink-0 active:scale-95 transition-transform
+                ${pickingPaint ? 'border-brand' : 'border-white/20'}`}
+              style={{ backgroundColor: identity.color?.hex || '#666' }}
+              title={`${identity.color?.name || 'Unknown'} — change paint`}
+            />
+          ) : (
+            <div
+              className="w-10 h-10 rounded-full border-2 border-white/20 shadow-md flex-shrink-0"
+              style={{ backgroundColor: identity.color?.hex || '#666' }}
+              title={identity.color?.name || 'Unknown'}
+            />
+          )}
           
           <div className="flex-1 min-w-0">
             <h2 className="text-white font-bold text-lg truncate">{title}</h2>
@@ -127,23 +202,118 @@ export default function CarIdentityCard({ identity, photoBase64, onUpdate, locke
               {identity.trim && identity.trim !== 'Standard' && identity.trim !== 'N/A' 
                 ? `${identity.trim} · ` : ''}
               {identity.color?.name || 'Unknown Color'}
+              {identity.color?.code && <span className="font-mono text-neutral-500"> · {identity.color.code}</span>}
             </p>
           </div>
 
           {/* Edit button — hidden once generation starts */}
           {onUpdate && !locked && (
             <button
-              onClick={() => setEditing(true)}
+              onClick={handleEdit}
               className="flex-shrink-0 bg-surface-elevated text-neutral-400 hover:text-white px-2.5 py-1.5 rounded-full text-xs font-medium transition-colors active:scale-95"
             >
               ✏️ Edit
             </button>
           )}
 
-          {/* Verified badge */}
-          <div className="flex-shrink-0 bg-brand/20 text-brand px-2 py-1 rounded-full text-xs font-semibold">
-            ✓ ID'd
+          {/* Verified badge, or a prompt to check a shaky ID */}
+          {lowConfidence && !locked ? (
+            <div className="flex-shrink-0 bg-amber-500/20 text-amber-300 px-2 py-1 rounded-full text-xs font-semibold">
+              ? Check
+            </div>
+          ) : (
+            <div className="flex-shrink-0 bg-brand/20 text-brand px-2 py-1 rounded-full text-xs font-semibold">
+              ✓ ID'd
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Factory paint picker — the owner knows their paint better than the model does */}
+      {pickingPaint && !editing && !locked && onUpdate && (() => {
+        const paints = listPaints(identity.make, identity.year);
+        return (
+          <div className="px-4 pb-4 space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-[10px] text-neutral-500 uppercase tracking-wider font-semibold">
+                {paints.length > 0 ? `${identity.year} ${identity.make} factory paint` : 'Paint'}
+              </p>
+              {photoBase64 && (
+                <button
+                  onClick={handleRedetectPaint}
+                  disabled={identifying}
+                  className="text-neutral-400 hover:text-white text-xs font-medium transition-colors disabled:opacity-60"
+                >
+                  {identifying ? '🎨 Matching color...' : '🎨 Re-detect'}
+                </button>
+              )}
+            </div>
+            {paints.length > 0 ? (
+              <div className="grid grid-cols-2 gap-1.5 max-h-48 overflow-y-auto">
+                {paints.map(paint => {
+                  const current = identity.color?.code === paint.code && identity.color?.name === paint.name;
+                  return (
+                    <button
+                      key={`${paint.code}-${paint.name}`}
+                      onClick={() => onUpdate({ ...identity, color: { name: paint.name, hex: paint.hex, code: paint.code } })}
+                      className={`flex items-center gap-2 px-2 py-1.5 rounded-xl border text-left transition-all active:scale-[0.98]
+                        ${current ? 'border-brand bg-brand/10' : 'border-surface-border bg-surface-elevated hover:border-brand/50'}`}
+                    >
+                      <span className="w-4 h-4 rounded-full flex-shrink-0 border border-white/20" style={{ backgroundColor: paint.hex }} />
+                      <span className="min-w-0">
+                        <span className="block text-white text-xs font-semibold truncate">{paint.name}</span>
+                        <span className="block text-neutral-500 text-[10px] font-mono">{paint.code}</span>
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+            ) : (
+              <p className="text-neutral-500 text-xs">No factory colors on file for this car — pick the closest color instead.</p>
+            )}
+            <label className="flex items-center gap-2 text-neutral-400 text-xs">
+              <input
+                type="color"
+                value={isHex(identity.color?.hex) ? identity.color.hex.toLowerCase() : '#666666'}
+                onChange={e => onUpdate({ ...identity, color: { name: 'Custom', hex: e.target.value.toUpperCase() } })}
+                className="w-8 h-6 bg-transparent border-0 p-0"
+              />
+              Custom color
+            </label>
           </div>
+        );
+      })()}
+
+      {/* Ranked matches — tap one to use it */}
+      {!editing && !locked && onUpdate && candidates && candidates.length > 0 && (
+        <div className="px-4 pb-4 space-y-1.5">
+          {lowConfidence && (
+            <p className="text-amber-300 text-xs">Not sure about this one — tap the right match or edit the details before generating.</p>
+          )}
+          {candidates.length > 1 && candidates.map((candidate, i) => {
+            const current = sameCar(candidate, identity);
+            return (
+              <button
+                key={i}
+                onClick={() => onUpdate({
+                  year: candidate.year,
+                  make: candidate.make,
+                  model: candidate.model,
+                  trim: candidate.trim,
+                  color: candidate.color,
+                })}
+                className={`w-full text-left px-3 py-2 rounded-xl border transition-all active:scale-[0.98]
+                  ${current ? 'border-brand bg-brand/10' : 'border-surface-border bg-surface-elevated hover:border-brand/50'}`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="w-3 h-3 rounded-full flex-shrink-0 border border-white/20" style={{ backgroundColor: candidate.color.hex }} />
+                  <span className="text-white text-xs font-semibold flex-1 truncate">{candidateTitle(candidate)}</span>
+                  <span className="text-neutral-400 text-[10px] font-mono">{Math.round(candidate.confidence * 100)}%</span>
+                </div>
+                {candidate.cues && <p className="text-neutral-500 text-[10px] mt-0.5 line-clamp-2">{candidate.cues}</p>}
+              </button>
+            );
+          })}
         </div>
       )}
     </div>
@@ -0,0 +1,75 @@
+import React, { useRef } from 'react';
+import type { CarPhoto } from '../types';
+import { MAX_CAR_PHOTOS } from '../types';
+import { readImageFiles } from '../services/storage';
+
+interface CarPhotoStripProps {
+  photos: CarPhoto[];
+  referencePhotoId?: string;
+  locked?: boolean;         // designs started: no more photos, reference fixed
+  isProcessing?: boolean;   // identifying from the photos
+  onAddPhotos: (base64Images: string[]) => void;
+  onSetReference: (photoId: string) => void;
+}
+
+export default function CarPhotoStrip({ photos, referencePhotoId, locked, isProcessing, onAddPhotos, onSetReference }: CarPhotoStripProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const canAdd = !locked && photos.length < MAX_CAR_PHOTOS;
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex gap-2 overflow-x-auto">
+        {photos.map(photo => {
+          const isReference = photo.id === referencePhotoId;
+          return (
+            <button
+              key={photo.id}
+              onClick={() => onSetReference(photo.id)}
+              disabled={locked || isReference || !photo.base64}
+              aria-label={isReference ? 'Reference photo' : 'Use as reference photo'}
+              className={`relative flex-shrink-0 w-16 h-16 rounded-xl overflow-hidden border-2 transition-all
+                ${isReference ? 'border-brand' : 'border-surface-border hover:border-brand/50 active:scale-95'}`}
+            >
+              {photo.thumbnail && <img src={photo.thumbnail} alt="" className="w-full h-full object-cover" />}
+              {isReference && (
+                <span className="absolute bottom-0 inset-x-0 bg-brand text-white text-[8px] font-bold uppercase text-center py-0.5">
+                  Reference
+                </span>
+              )}
+            </button>
+          );
+        })}
+        {canAdd && (
+          <button
+            onClick={() => inputRef.current?.click()}
+            disabled={isProcessing}
+            className="flex-shrink-0 w-16 h-16 rounded-xl border-2 border-dashed border-surface-border text-neutral-500
+              flex flex-col items-center justify-center hover:border-brand/50 hover:text-brand-light transition-all disabled:opacity-50"
+          >
+            <span className="text-lg leading-none">+</span>
+            <span className="text-[9px] font-medium">Photo</span>
+          </button>
+        )}
+      </div>
+      {!locked && (
+        <p className="text-neutral-500 text-[10px]">
+          {photos.length > 1
+            ? 'Identified from all photos · tap one to generate designs from it'
+            : 'Add a rear badge, wheel or interior shot to pin down the trim'}
+        </p>
+      )}
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        className="hidden"
+        onChange={async e => {
+          const images = await readImageFiles(e.target.files || [], MAX_CAR_PHOTOS - photos.length);
+          e.target.value = '';
+          if (images.length > 0) onAddPhotos(images);
+        }}
+      />
+    </div>
+  );
+}
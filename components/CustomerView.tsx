@@ -1,8 +1,9 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import type { CarSession, SnapMerchStyle, OrderItem, Order } from '../types';
-import { STYLE_CONFIGS, PRODUCT_OPTIONS } from '../types';
-import { getCarSession, saveOrder, generateId } from '../services/storage';
+import { getCarSession, saveOrder } from '../services/storage';
+import { getSharedCar } from '../services/api';
 import { getPrioritizedStyles } from '../services/stylePriority';
+import { getStyleConfigs } from '../services/styleRegistry';
 import { getTheme, toggleTheme, type Theme } from '../lib/theme';
 import StyleGrid from './StyleGrid';
 import ProductSelector from './ProductSelector';
@@ -37,18 +38,48 @@ function CustomerThemeToggle() {
   );
 }
 
+type LoadState = 'loading' | 'ready' | 'expired' | 'not-found' | 'error';
+
 export default function CustomerView({ carSessionId }: CustomerViewProps) {
   const [car, setCar] = useState<CarSession | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [loadState, setLoadState] = useState<LoadState>('loading');
+  const [reloadKey, setReloadKey] = useState(0);
   const [selectedStyle, setSelectedStyle] = useState<SnapMerchStyle | null>(null);
   const [cart, setCart] = useState<OrderItem[]>([]);
   const [showOrderForm, setShowOrderForm] = useState(false);
 
   useEffect(() => {
-    const carData = getCarSession(carSessionId);
-    setCar(carData);
-    setLoading(false);
-  }, [carSessionId]);
+    let cancelled = false;
+    setLoadState('loading');
+
+    // Vendor previewing on their own device — local copy has the freshest images
+    const localCar = getCarSession(carSessionId);
+    if (localCar) {
+      setCar(localCar);
+      setLoadState('ready');
+      return;
+    }
+
+    // Customer's own phone — load the shared car from the server
+    getSharedCar(carSessionId)
+      .then(result => {
+        if (cancelled) return;
+        if (result.status === 'found') {
+          setCar(result.car);
+          setLoadState('ready');
+        } else {
+          setCar(null);
+          setLoadState(result.status);
+        }
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Failed to load shared car:', err);
+        setLoadState('error');
+      });
+
+    return () => { cancelled = true; };
+  }, [carSessionId, reloadKey]);
 
   const carTitle = car?.identity
     ? `${car.identity.year} ${car.identity.make} ${car.identity.model}`
@@ -79,7 +110,23 @@ export default function CustomerView({ carSessionId }: CustomerViewProps) {
     }
   };
 
-  if (loading) {
+  // Priority-ordered configs for customer view — only styles that have been generated
+  const orderedConfigs = useMemo(() => {
+    // getSharedCar registers the car's custom styles, so they resolve here
+    const configs = getStyleConfigs();
+    const prioritized = car?.identity ? getPrioritizedStyles(car.identity, configs) : configs;
+    const finished = prioritized.filter(c => car?.styles.some(s => s.styleId === c.id && s.status === 'done'));
+    return finished.length > 0 ? finished : prioritized;
+  }, [car]);
+
+  // Show only styles that have actually been generated (done or error)
+  const visibleCount = useMemo(() => {
+    if (!car) return 4;
+    const generated = car.styles.filter(s => s.status === 'done' || s.status === 'error').length;
+    return Math.max(4, generated);
+  }, [car]);
+
+  if (loadState === 'loading') {
     return (
       <div className="min-h-screen bg-surface flex items-center justify-center">
         <div className="text-center space-y-3">
@@ -93,17 +140,39 @@ export default function CustomerView({ carSessionId }: CustomerViewProps) {
     );
   }
 
-  if (!car) {
+  if (loadState !== 'ready' || !car) {
+    const message = {
+      expired: {
+        emoji: '⏳',
+        title: 'Link Expired',
+        body: 'This design session has ended and the link is no longer active. Visit us at the next Cars & Coffee to get your custom merch!',
+      },
+      error: {
+        emoji: '📡',
+        title: 'Couldn\'t Load Design',
+        body: 'We had trouble reaching the server. Check your connection and try again.',
+      },
+    }[loadState as 'expired' | 'error'] || {
+      emoji: '🚗',
+      title: 'Design Not Found',
+      body: 'This link may be mistyped or the design was removed. Visit us at the next Cars & Coffee to get your custom merch!',
+    };
+
     return (
       <div className="min-h-screen bg-surface flex items-center justify-center px-6">
         <CustomerThemeToggle />
         <div className="text-center space-y-4 max-w-sm">
-          <div className="text-6xl">🚗</div>
-          <h1 className="text-foreground text-2xl font-bold">Design Not Found</h1>
-          <p className="text-foreground-muted">
-            This link may have expired or the design session has ended.
-            Visit us at the next Cars & Coffee to get your custom merch!
-          </p>
+          <div className="text-6xl">{message.emoji}</div>
+          <h1 className="text-foreground text-2xl font-bold">{message.title}</h1>
+          <p className="text-foreground-muted">{message.body}</p>
+          {loadState === 'error' && (
+            <button
+              onClick={() => setReloadKey(k => k + 1)}
+              className="px-6 py-3 rounded-xl bg-brand text-white font-bold active:scale-95 transition-all"
+            >
+              Try Again
+            </button>
+          )}
           <div className="pt-4">
             <span className="text-brand font-bold text-lg">SnapMerch</span>
             <span className="text-foreground-muted text-sm block">by MyRestoMod</span>
@@ -113,19 +182,6 @@ export default function CustomerView({ carSessionId }: CustomerViewProps) {
     );
   }
 
-  // Priority-ordered configs for customer view — show all styles that have been generated
-  const orderedConfigs = useMemo(() => {
-    if (car?.identity) return getPrioritizedStyles(car.identity);
-    return STYLE_CONFIGS;
-  }, [car?.identity]);
-
-  // Show only styles that have actually been generated (done or error)
-  const visibleCount = useMemo(() => {
-    if (!car) return 4;
-    const generated = car.styles.filter(s => s.status === 'done' || s.status === 'error').length;
-    return Math.max(4, generated);
-  }, [car]);
-
   const selectedStyleData = selectedStyle
     ? car.styles.find(s => s.styleId === selectedStyle)
     : null;
@@ -137,11 +193,15 @@ export default function CustomerView({ carSessionId }: CustomerViewProps) {
       <div className="relative">
         {/* Car photo */}
         <div className="h-48 overflow-hidden">
-          <img
-            src={car.photoThumbnail || car.photoBase64}
-            alt={carTitle}
-            className="w-full h-full object-cover"
-          />
+          {(car.photoThumbnail || car.photoBase64) ? (
+            <img
+              src={car.photoThumbnail || car.photoBase64}
+              alt={carTitle}
+              className="w-full h-full object-cover"
+            />
+          ) : (
+            <div className="w-full h-full bg-surface-elevated" />
+          )}
           <div className="absolute inset-0 bg-gradient-to-b from-black/30 via-transparent to-surface" />
         </div>
 
@@ -176,6 +236,7 @@ export default function CustomerView({ carSessionId }: CustomerViewProps) {
           <ProductSelector
             styleId={selectedStyle}
             styleImageUrl={selectedStyleData.imageUrl}
+            lettering={selectedStyleData.lettering}
             carTitle={carTitle}
             onAddToCart={handleAddToCart}
             onBack={() => setSelectedStyle(null)}
@@ -1,37 +1,92 @@
-import React from 'react';
+import React, { useState } from 'react';
 import type { EventSession, CarSession, SnapMerchStyle } from '../types';
+import { formatEventDates } from './EventManager';
 
 interface EventDashboardProps {
   session: EventSession;
   onSelectCar: (carId: string) => void;
   onShareCar: (carId: string) => void;
-  onNewSession: () => void;
+  onManageEvents: () => void;
+  onManageStyles: () => void;
+  onCloseEvent: () => void;
+  onToggleRedaction: (enabled: boolean) => void;
 }
 
-export default function EventDashboard({ session, onSelectCar, onShareCar, onNewSession }: EventDashboardProps) {
-  const carsToday = session.cars.length;
-  const ordersToday = session.cars.reduce((sum, car) => sum + car.orders.length, 0);
+export default function EventDashboard({ session, onSelectCar, onShareCar, onManageEvents, onManageStyles, onCloseEvent, onToggleRedaction }: EventDashboardProps) {
+  const [confirmingClose, setConfirmingClose] = useState(false);
+  const carCount = session.cars.length;
+  const orderCount = session.cars.reduce((sum, car) => sum + car.orders.length, 0);
 
   return (
     <div className="px-4 py-3 space-y-4">
       {/* Stats header */}
       <div className="flex items-center justify-between">
-        <div>
-          <h2 className="text-white font-bold text-xl">{session.name}</h2>
-          <p className="text-neutral-400 text-sm">{new Date(session.date).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}</p>
+        <div className="min-w-0">
+          <h2 className="text-white font-bold text-xl truncate">{session.name}</h2>
+          <p className="text-neutral-400 text-sm">
+            {formatEventDates(session.date, session.endDate)}
+            {session.location && ` · ${session.location}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-3 flex-shrink-0">
+          <button
+            onClick={onManageEvents}
+            className="text-xs text-neutral-500 hover:text-brand transition-colors"
+          >
+            Events
+          </button>
+          <button
+            onClick={onManageStyles}
+            className="text-xs text-neutral-500 hover:text-brand transition-colors"
+          >
+            Styles
+          </button>
+          <button
+            onClick={() => setConfirmingClose(true)}
+            className="text-xs text-neutral-500 hover:text-brand transition-colors"
+          >
+            Close event
+          </button>
         </div>
-        <button
-          onClick={onNewSession}
-          className="text-xs text-neutral-500 hover:text-brand transition-colors"
-        >
-          Reset
-        </button>
       </div>
 
+      {/* Closing keeps everything — the event can be reopened from Events */}
+      {confirmingClose && (
+        <div className="bg-surface-card border border-surface-border rounded-xl p-3 space-y-2">
+          <p className="text-neutral-300 text-sm">
+            Close <span className="font-semibold text-white">{session.name}</span>? Its {carCount} cars and designs are kept and you can reopen it later.
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={onCloseEvent}
+              className="flex-1 py-2 rounded-xl bg-brand text-white text-sm font-bold active:scale-95 transition-transform"
+            >
+              Close Event
+            </button>
+            <button
+              onClick={() => setConfirmingClose(false)}
+              className="px-4 py-2 rounded-xl bg-surface-elevated text-neutral-400 text-sm font-medium active:scale-95 transition-transform"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Privacy — applies to photos taken from now on */}
+      <label className="flex items-center gap-2 text-neutral-400 text-xs">
+        <input
+          type="checkbox"
+          checked={session.redactPhotos !== false}
+          onChange={e => onToggleRedaction(e.target.checked)}
+        />
+        Blur license plates & faces before photos are saved or shared
+      </label>
+
       {/* Stats row */}
       <div className="grid grid-cols-3 gap-3">
         <div className="bg-surface-card border border-surface-border rounded-xl p-3 text-center">
-          <div className="text-brand text-2xl font-black">{carsToday}</div>
+          <div className="text-brand text-2xl font-black">{carCount}</div>
           <div className="text-neutral-400 text-xs">Cars</div>
         </div>
         <div className="bg-surface-card border border-surface-border rounded-xl p-3 text-center">
@@ -41,22 +96,22 @@ export default function EventDashboard({ session, onSelectCar, onShareCar, onNew
           <div className="text-neutral-400 text-xs">Designs</div>
         </div>
         <div className="bg-surface-card border border-surface-border rounded-xl p-3 text-center">
-          <div className="text-green-400 text-2xl font-black">{ordersToday}</div>
+          <div className="text-green-400 text-2xl font-black">{orderCount}</div>
           <div className="text-neutral-400 text-xs">Orders</div>
         </div>
       </div>
 
       {/* Car list */}
-      {carsToday === 0 ? (
+      {carCount === 0 ? (
         <div className="text-center py-12 space-y-3">
           <div className="text-5xl">📸</div>
-          <p className="text-neutral-400">No cars yet today</p>
+          <p className="text-neutral-400">No cars yet</p>
           <p className="text-neutral-500 text-sm">Snap your first car to get started!</p>
         </div>
       ) : (
         <div className="space-y-2">
           <h3 className="text-sm font-semibold text-neutral-400 uppercase tracking-wider">
-            Today's Cars
+            Cars
           </h3>
           <div className="grid grid-cols-2 gap-3">
             {session.cars.map(car => (
@@ -0,0 +1,201 @@
+import React, { useState, useEffect } from 'react';
+import type { EventSession, EventSummary } from '../types';
+import { createEvent, switchEvent, reopenEvent, listOpenEvents, fetchEventHistory, localDate } from '../services/storage';
+
+interface EventManagerProps {
+  activeEventId: string | null;
+  onSelectEvent: (session: EventSession) => void;
+  onDismiss?: () => void; // omitted when there is no active event to go back to
+}
+
+// Event dates are local calendar days — parse at local midnight, not UTC
+function parseLocalDate(date: string): Date {
+  return new Date(`${date}T00:00:00`);
+}
+
+/** "Sat, Oct 18" or "Sat, Oct 18 – Sun, Oct 19" */
+export function formatEventDates(date: string, endDate?: string): string {
+  const fmt = (d: string) => parseLocalDate(d).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  return endDate && endDate !== date ? `${fmt(date)} – ${fmt(endDate)}` : fmt(date);
+}
+
+export default function EventManager({ activeEventId, onSelectEvent, onDismiss }: EventManagerProps) {
+  const today = localDate();
+  const [name, setName] = useState('');
+  const [location, setLocation] = useState('');
+  const [date, setDate] = useState(today);
+  const [endDate, setEndDate] = useState(today);
+  const [redactPhotos, setRedactPhotos] = useState(true);
+  const [openEvents] = useState<EventSession[]>(listOpenEvents());
+  const [history, setHistory] = useState<EventSummary[]>([]);
+  const [historyState, setHistoryState] = useState<'loading' | 'ready' | 'error'>('loading');
+  const [reopeningId, setReopeningId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchEventHistory()
+      .then(events => {
+        if (cancelled) return;
+        setHistory(events);
+        setHistoryState('ready');
+      })
+      .catch(() => {
+        if (!cancelled) setHistoryState('error');
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  const handleCreate = () => {
+    if (!name.trim()) {
+      setError('Give the event a name');
+      return;
+    }
+    onSelectEvent(createEvent({ name, location, date, endDate, redactPhotos }));
+  };
+
+  const handleSwitch = (eventId: string) => {
+    const session = switchEvent(eventId);
+    if (session) onSelectEvent(session);
+  };
+
+  const handleReopen = async (eventId: string) => {
+    setReopeningId(eventId);
+    setError('');
+    try {
+      onSelectEvent(await reopenEvent(eventId));
+    } catch (err: any) {
+      setError(err.message || 'Could not reopen event');
+      setReopeningId(null);
+    }
+  };
+
+  const openIds = new Set(openEvents.map(e => e.id));
+  const pastEvents = history.filter(e => !openIds.has(e.id));
+  const inputClass = 'w-full bg-surface-elevated border border-surface-border rounded-lg px-3 py-2 text-white text-sm focus:border-brand focus:outline-none';
+
+  return (
+    <div className="px-4 py-3 space-y-5">
+      <div className="flex items-center justify-between">
+        <h2 className="text-white font-bold text-xl">Events</h2>
+        {onDismiss && (
+          <button onClick={onDismiss} className="text-xs text-neutral-500 hover:text-brand transition-colors">
+            Back
+          </button>
+        )}
+      </div>
+
+      {/* New event */}
+      <div className="bg-surface-card border border-surface-border rounded-xl p-4 space-y-3">
+        <h3 className="text-sm font-semibold text-neutral-400 uppercase tracking-wider">New Event</h3>
+        <input
+          type="text"
+          value={name}
+          onChange={e => { setName(e.target.value); setError(''); }}
+          placeholder="Event name (e.g. Cars & Coffee Katy)"
+          className={inputClass}
+        />
+        <input
+          type="text"
+          value={location}
+          onChange={e => setLocation(e.target.value)}
+          placeholder="Location (optional)"
+          className={inputClass}
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <label className="space-y-1">
+            <span className="text-neutral-500 text-xs">Starts</span>
+            <input
+              type="date"
+              value={date}
+              onChange={e => {
+                setDate(e.target.value);
+                if (endDate < e.target.value) setEndDate(e.target.value);
+              }}
+              className={inputClass}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="text-neutral-500 text-xs">Ends</span>
+            <input
+              type="date"
+              value={endDate}
+              min={date}
+              onChange={e => setEndDate(e.target.value)}
+              className={inputClass}
+            />
+          </label>
+        </div>
+        <label className="flex items-center gap-2 text-neutral-400 text-xs">
+          <input
+            type="checkbox"
+            checked={redactPhotos}
+            onChange={e => setRedactPhotos(e.target.checked)}
+          />
+          Blur license plates & faces in car photos
+        </label>
+        {error && <p className="text-red-400 text-xs">{error}</p>}
+        <button
+          onClick={handleCreate}
+          className="w-full py-2.5 rounded-xl bg-brand text-white text-sm font-bold active:scale-95 transition-transform"
+        >
+          Start Event
+        </button>
+      </div>
+
+      {/* Open events */}
+      {openEvents.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-neutral-400 uppercase tracking-wider">Open Events</h3>
+          {openEvents.map(event => (
+            <button
+              key={event.id}
+              onClick={() => handleSwitch(event.id)}
+              className={`w-full text-left bg-surface-card border rounded-xl p-3 transition-colors
+                ${event.id === activeEventId ? 'border-brand' : 'border-surface-border hover:border-neutral-600'}`}
+            >
+              <div className="flex items-center justify-between">
+                <p className="text-white text-sm font-semibold truncate">{event.name}</p>
+                {event.id === activeEventId && <span className="text-brand text-[10px] font-bold uppercase">Active</span>}
+              </div>
+              <p className="text-neutral-500 text-xs">
+                {formatEventDates(event.date, event.endDate)}
+                {event.location && ` · ${event.location}`}
+                {` · ${event.cars.length} cars`}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Past events */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-neutral-400 uppercase tracking-wider">Past Events</h3>
+        {historyState === 'loading' && <p className="text-neutral-500 text-sm">Loading…</p>}
+        {historyState === 'error' && <p className="text-neutral-500 text-sm">Couldn't load past events</p>}
+        {historyState === 'ready' && pastEvents.length === 0 && (
+          <p className="text-neutral-500 text-sm">No past events yet</p>
+        )}
+        {pastEvents.map(event => (
+          <div key={event.id} className="flex items-center gap-3 bg-surface-card border border-surface-border rounded-xl p-3">
+            <div className="flex-1 min-w-0">
+              <p className="text-white text-sm font-semibold truncate">{event.name}</p>
+              <p className="text-neutral-500 text-xs">
+                {formatEventDates(event.date, event.endDate)}
+                {event.location && ` · ${event.location}`}
+                {` · ${event.carCount} cars`}
+              </p>
+            </div>
+            <button
+              onClick={() => handleReopen(event.id)}
+              disabled={reopeningId !== null}
+              className="flex-shrink-0 bg-surface-elevated text-neutral-400 hover:text-white px-3 py-1.5 rounded-full text-xs font-medium transition-colors active:scale-95 disabled:opacity-60"
+            >
+              {reopeningId === event.id ? 'Opening…' : 'Reopen'}
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import React, { useMemo } from 'react';
+import type { LetteringSpec } from '../types';
+import { hasLettering, renderLetteringSvg } from '../lib/lettering';
+
+/**
+ * A design's lettering, laid over its image. Place inside a relative,
+ * square container. Same SVG the server composites for mockups and print.
+ */
+export default function LetteringOverlay({ spec }: { spec?: LetteringSpec | null }) {
+  const src = useMemo(
+    () => hasLettering(spec) ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(renderLetteringSvg(spec))}` : null,
+    [spec],
+  );
+  if (!src) return null;
+  return <img src={src} alt="" aria-hidden="true" className="absolute inset-0 w-full h-full pointer-events-none" />;
+}
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import type { OrderItem, Order } from '../types';
-import { PRODUCT_OPTIONS } from '../types';
+import { PRODUCT_OPTIONS } from '../lib/catalog';
 import { generateId } from '../services/storage';
 
 interface OrderFormProps {
@@ -23,6 +23,7 @@ export default function OrderForm({ items, carSessionId, carTitle, onSubmit, onB
     payerEmail: string;
     payerName: string;
     shipping?: any;
+    recordId?: string;
   } | null>(null);
 
   const total = items.reduce((sum, item) => sum + item.price, 0);
@@ -31,9 +32,10 @@ export default function OrderForm({ items, carSessionId, carTitle, onSubmit, onB
     setOrderDetails(details);
     setPaymentStatus('success');
 
-    // Create order record
+    // Local copy of the order — the server already recorded it at capture,
+    // so reuse its ID to keep the two in step
     const order: Order = {
-      id: generateId(),
+      id: details?.recordId || generateId(),
       carSessionId,
       items,
       customerEmail: details?.payerEmail || '',
@@ -56,11 +58,12 @@ export default function OrderForm({ items, carSessionId, carTitle, onSubmit, onB
       </div>
       {items.map((item, i) => {
         const product = PRODUCT_OPTIONS.find(p => p.id === item.productId);
+        const sizeLabel = product?.sizes?.find(s => s.id === item.size)?.label || item.size;
         return (
           <div key={i} className="flex justify-between items-center text-sm">
             <span className="text-neutral-300">
               {product?.emoji || '📦'} {product?.name || item.productId}
-              {item.size ? ` · ${item.size}` : ''}{item.color ? ` · ${item.color}` : ''}
+              {sizeLabel ? ` · ${sizeLabel}` : ''}{item.color ? ` · ${item.color}` : ''}
             </span>
             <span className="text-white font-semibold">${item.price.toFixed(2)}</span>
           </div>
@@ -148,6 +151,7 @@ export default function OrderForm({ items, carSessionId, carTitle, onSubmit, onB
         <PayPalButtons
           clientId={PAYPAL_CLIENT_ID}
           items={items}
+          carSessionId={carSessionId}
           total={total}
           carTitle={carTitle}
           onSuccess={handlePaymentSuccess}
@@ -187,14 +191,15 @@ export default function OrderForm({ items, carSessionId, carTitle, onSubmit, onB
 interface PayPalButtonsProps {
   clientId: string;
   items: OrderItem[];
+  carSessionId: string;
   total: number;
   carTitle: string;
-  onSuccess: (details: { captureId: string; payerEmail: string; payerName: string; shipping?: any }) => void;
+  onSuccess: (details: { captureId: string; payerEmail: string; payerName: string; shipping?: any; recordId?: string }) => void;
   onError: (message: string) => void;
   disabled?: boolean;
 }
 
-function PayPalButtons({ clientId, items, total, carTitle, onSuccess, onError, disabled }: PayPalButtonsProps) {
+function PayPalButtons({ clientId, items, carSessionId, total, carTitle, onSuccess, onError, disabled }: PayPalButtonsProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [sdkReady, setSdkReady] = useState(false);
   const [loading, setLoading] = useState(true);
@@ -235,23 +240,20 @@ function PayPalButtons({ clientId, items, total, carTitle, onSuccess, onError, d
         height: 48,
       },
 
-      // Create order on our server
+      // Create order on our server — it prices the items from the catalog
       createOrder: async () => {
         try {
-          const paypalItems = items.map(item => {
-            const product = PRODUCT_OPTIONS.find(p => p.id === item.productId);
-            return {
-              name: `${carTitle} — ${product?.name || item.productId}${item.size ? ` (${item.size})` : ''}${item.color ? ` — ${item.color}` : ''}`,
-              quantity: 1,
-              price: item.price.toFixed(2),
-              description: `Custom ${product?.name || 'merch'} design`,
-            };
-          });
+          const orderItems = items.map(item => ({
+            productId: item.productId,
+            styleId: item.styleId,
+            size: item.size,
+            color: item.color,
+          }));
 
           const res = await fetch('/api/paypal/create-order', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ items: paypalItems }),
+            body: JSON.stringify({ items: orderItems, carSessionId, carTitle, total: Number(total.toFixed(2)) }),
           });
 
           if (!res.ok) {
@@ -287,6 +289,7 @@ function PayPalButtons({ clientId, items, total, carTitle, onSuccess, onError, d
             payerEmail: result.payer?.email || '',
             payerName: result.payer?.name || '',
             shipping: result.shipping,
+            recordId: result.recordId,
           });
         } catch (err: any) {
           onError(err.message || 'Payment failed after approval');
@@ -302,7 +305,7 @@ function PayPalButtons({ clientId, items, total, carTitle, onSuccess, onError, d
         onError('Payment system error — please try again');
       },
     }).render(containerRef.current);
-  }, [sdkReady, items, total, carTitle, onSuccess, onError, disabled]);
+  }, [sdkReady, items, carSessionId, total, carTitle, onSuccess, onError, disabled]);
 
   return (
     <div className="space-y-3">
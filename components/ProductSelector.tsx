@@ -1,82 +1,56 @@
-import React, { useState, useRef, useCallback } from 'react';
-import type { SnapMerchStyle, OrderItem } from '../types';
-import { PRODUCT_OPTIONS } from '../types';
+import React, { useState, useRef } from 'react';
+import type { SnapMerchStyle, OrderItem, GenerationProgress, LetteringSpec } from '../types';
+import { GENERATION_STEPS, GENERATION_STAGE_LABELS } from '../types';
+import { PRODUCT_OPTIONS, getVariantPrice, getStartingPrice } from '../lib/catalog';
 import { generateMockup } from '../services/api';
+import LetteringOverlay from './LetteringOverlay';
 
 interface ProductSelectorProps {
   styleId: SnapMerchStyle;
   styleImageUrl: string;
+  lettering?: LetteringSpec;
   carTitle: string;
   onAddToCart: (item: OrderItem) => void;
   onBack: () => void;
 }
 
-const PROGRESS_MESSAGES = [
-  'Setting up the photo studio…',
-  'Positioning the product…',
-  'Applying your design…',
-  'Adjusting lighting…',
-  'Rendering final mockup…',
-  'Almost there…',
-];
-
-export default function ProductSelector({ styleId, styleImageUrl, carTitle, onAddToCart, onBack }: ProductSelectorProps) {
+export default function ProductSelector({ styleId, styleImageUrl, lettering, carTitle, onAddToCart, onBack }: ProductSelectorProps) {
   const [selectedProduct, setSelectedProduct] = useState<string>('tshirt');
   const [selectedSize, setSelectedSize] = useState<string>('L');
   const [selectedColor, setSelectedColor] = useState<string>('Black');
   const [mockupStatus, setMockupStatus] = useState<'idle' | 'generating' | 'done' | 'error'>('idle');
   const [mockupUrl, setMockupUrl] = useState<string | null>(null);
   const [mockupError, setMockupError] = useState<string>('');
-  const [progressMsg, setProgressMsg] = useState('');
-  const [progressPercent, setProgressPercent] = useState(0);
-  const progressTimer = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Latest stage streamed by /api/mockup; null while the design is still being prepared and uploaded
+  const [mockupProgress, setMockupProgress] = useState<GenerationProgress | null>(null);
   const mockupRef = useRef<HTMLDivElement>(null);
 
   const product = PRODUCT_OPTIONS.find(p => p.id === selectedProduct)!;
   const selectedColorObj = product.colors?.find(c => c.name === selectedColor);
+  const price = getVariantPrice(product.id, product.sizes ? selectedSize : undefined) ?? product.basePrice;
 
-  const clearProgress = useCallback(() => {
-    if (progressTimer.current) {
-      clearInterval(progressTimer.current);
-      progressTimer.current = null;
-    }
-  }, []);
-
-  const startProgress = useCallback(() => {
-    let step = 0;
-    setProgressPercent(0);
-    setProgressMsg(PROGRESS_MESSAGES[0]);
-    progressTimer.current = setInterval(() => {
-      step++;
-      const pct = Math.min(90, step * 6);
-      setProgressPercent(pct);
-      const msgIdx = Math.min(step, PROGRESS_MESSAGES.length - 1);
-      setProgressMsg(PROGRESS_MESSAGES[msgIdx]);
-    }, 3000);
-  }, []);
+  const progressStep = mockupProgress ? GENERATION_STEPS.indexOf(mockupProgress.stage) + 1 : 0;
 
   const handleGenerateMockup = async () => {
     setMockupStatus('generating');
     setMockupUrl(null);
     setMockupError('');
-    startProgress();
+    setMockupProgress(null);
 
     try {
       const url = await generateMockup(styleImageUrl, {
+        styleId,
+        lettering,
         productType: selectedProduct,
         color: selectedColorObj?.hex || '#000000',
         colorName: selectedColor,
         carDescription: carTitle,
-      });
-      clearProgress();
-      setProgressPercent(100);
-      setProgressMsg('Done!');
+      }, setMockupProgress);
       setMockupUrl(url);
       setMockupStatus('done');
       // Scroll to mockup
       setTimeout(() => mockupRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' }), 200);
     } catch (err: any) {
-      clearProgress();
       setMockupError(err.message || 'Mockup generation failed');
       setMockupStatus('error');
     }
@@ -123,9 +97,9 @@ export default function ProductSelector({ styleId, styleImageUrl, carTitle, onAd
     onAddToCart({
       productId: selectedProduct,
       styleId,
-      size: selectedSize,
-      color: selectedColor,
-      price: product.basePrice,
+      size: product.sizes ? selectedSize : undefined,
+      color: product.colors ? selectedColor : undefined,
+      price,
     });
   };
 
@@ -145,8 +119,9 @@ export default function ProductSelector({ styleId, styleImageUrl, carTitle, onAd
       </button>
 
       {/* Design preview */}
-      <div className="rounded-2xl overflow-hidden bg-surface-elevated border border-surface-border">
+      <div className="relative rounded-2xl overflow-hidden bg-surface-elevated border border-surface-border">
         <img src={styleImageUrl} alt="Design" className="w-full aspect-square object-cover" />
+        <LetteringOverlay spec={lettering} />
       </div>
 
       {/* Product type selector */}
@@ -158,7 +133,7 @@ export default function ProductSelector({ styleId, styleImageUrl, carTitle, onAd
               key={p.id}
               onClick={() => {
                 setSelectedProduct(p.id);
-                if (p.sizes) setSelectedSize(p.sizes[Math.floor(p.sizes.length / 2)]);
+                if (p.sizes) setSelectedSize(p.sizes[Math.floor(p.sizes.length / 2)].id);
                 if (p.colors) setSelectedColor(p.colors[0].name);
                 // Reset mockup when changing product
                 setMockupStatus('idle');
@@ -172,7 +147,9 @@ export default function ProductSelector({ styleId, styleImageUrl, carTitle, onAd
               <span className="text-lg">{p.emoji}</span>
               <div className="text-left">
                 <div className="text-sm font-semibold">{p.name}</div>
-                <div className="text-xs text-neutral-400">${p.basePrice.toFixed(2)}</div>
+                <div className="text-xs text-neutral-400">
+                  {p.sizes?.some(sz => sz.priceDelta) ? 'from ' : ''}${getStartingPrice(p).toFixed(2)}
+                </div>
               </div>
             </button>
           ))}
@@ -186,14 +163,15 @@ export default function ProductSelector({ styleId, styleImageUrl, carTitle, onAd
           <div className="flex gap-2 flex-wrap">
             {product.sizes.map(size => (
               <button
-                key={size}
-                onClick={() => setSelectedSize(size)}
+                key={size.id}
+                onClick={() => setSelectedSize(size.id)}
                 className={`min-w-[48px] px-3 py-2 rounded-lg border text-sm font-semibold transition-all
-                  ${selectedSize === size
+                  ${selectedSize === size.id
                     ? 'bg-brand border-brand text-white'
                     : 'bg-surface-elevated border-surface-border text-neutral-300 hover:border-brand/40'}`}
               >
-                {size}
+                {size.label}
+                {size.priceDelta ? <span className="ml-1 text-[10px] font-medium opacity-70">+${size.priceDelta}</span> : null}
               </button>
             ))}
           </div>
@@ -268,10 +246,12 @@ export default function ProductSelector({ styleId, styleImageUrl, carTitle, onAd
             <div className="w-full h-2 bg-surface-elevated rounded-full overflow-hidden">
               <div
                 className="h-full bg-gradient-to-r from-purple-500 to-indigo-500 rounded-full transition-all duration-1000 ease-out"
-                style={{ width: `${progressPercent}%` }}
+                style={{ width: `${(progressStep / GENERATION_STEPS.length) * 100}%` }}
               />
             </div>
-            <p className="text-xs text-neutral-400 text-center animate-pulse">{progressMsg}</p>
+            <p className="text-xs text-neutral-400 text-center animate-pulse">
+              {mockupProgress ? GENERATION_STAGE_LABELS[mockupProgress.stage] : 'Preparing design…'}
+            </p>
           </div>
         )}
       </div>
@@ -329,7 +309,7 @@ export default function ProductSelector({ styleId, styleImageUrl, carTitle, onAd
         className="w-full py-4 rounded-2xl bg-gradient-to-r from-brand to-brand-dark text-white font-bold text-lg 
           shadow-lg shadow-brand/30 active:scale-[0.98] transition-all"
       >
-        Add to Cart — ${product.basePrice.toFixed(2)}
+        Add to Cart — ${price.toFixed(2)}
       </button>
     </div>
   );
@@ -1,7 +1,31 @@
 import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
-import type { CarIdentity, GeneratedStyle, SnapMerchStyle, StyleConfig } from '../types';
-import { STYLE_CONFIGS } from '../types';
+import type {
+  CarIdentity,
+  DesignView,
+  GeneratedStyle,
+  GenerationProgress,
+  LetteringRole,
+  LetteringSpec,
+  SnapMerchStyle,
+  StyleConfig,
+} from '../types';
+import {
+  GENERATION_STEPS,
+  GENERATION_STAGE_LABELS,
+  DESIGN_VIEWS,
+  DEFAULT_VIEW,
+  MULTI_VIEW_PACK,
+  VARIATION_COUNTS,
+  LETTERING_PRESETS,
+  LETTERING_FONTS,
+  LETTERING_ROLES,
+} from '../types';
 import { tweakDesign } from '../services/api';
+import { withViewConfigs } from '../services/styleRegistry';
+import { getCurrentVersion, getParentVersion, getVersionTree } from '../services/designVersions';
+import { defaultLettering } from '../lib/lettering';
+import { unsupportedCharacters } from '../lib/strokeFont';
+import LetteringOverlay from './LetteringOverlay';
 
 // Convert a data URL to a blob URL to reduce memory pressure.
 function dataUrlToBlobUrl(dataUrl: string): string | null {
@@ -32,24 +56,34 @@ interface StyleGridProps {
   canGenerateMore?: boolean;        // whether there are more styles to generate
   isGeneratingMore?: boolean;       // whether more styles are currently being generated
   carIdentity?: CarIdentity | null; // car identity for tweak/remix context
-  onStyleUpdated?: (styleId: SnapMerchStyle, newImageUrl: string) => void; // callback when a style is tweaked
+  onStyleUpdated?: (styleId: SnapMerchStyle, newImageUrl: string, prompt?: string) => void; // callback when a style is tweaked
+  onRevertVersion?: (styleId: SnapMerchStyle, versionId: string) => void; // show an earlier version again
+  onLetteringChange?: (styleId: SnapMerchStyle, lettering: LetteringSpec | undefined) => void; // save or remove lettering
+  letteringTexts?: Partial<Record<LetteringRole, string>>; // starting text for new lettering
+  onChangeView?: (styleId: SnapMerchStyle, view: DesignView) => void; // re-render a design from another angle
+  onGenerateViews?: (styleId: SnapMerchStyle, views: DesignView[]) => void; // multi-view pack of a style
+  onGenerateVariations?: (styleId: SnapMerchStyle, count: number) => void; // several takes to pick from
+  onPickVariation?: (styleId: SnapMerchStyle, imageUrl: string) => void; // promote a take to the design
 }
 
-// Fun messages that rotate during generation
-const LOADING_MESSAGES = [
-  '🎨 Mixing the paints...',
-  '✏️ Sketching the lines...',
-  '🖌️ Laying down color...',
-  '🔥 Adding some heat...',
-  '✨ Polishing the details...',
-  '🎯 Dialing it in...',
-  '💎 Making it shine...',
-  '🖼️ Framing the shot...',
-];
-
-function LoadingTimer({ startTime }: { startTime: number }) {
+// "2 rendering · 1 waiting" from the latest server event of each generating style
+function summarizeActivity(generating: GeneratedStyle[]): string {
+  const counts = { rendering: 0, finishing: 0, retrying: 0, waiting: 0 };
+  for (const s of generating) {
+    const stage = s.progress?.stage;
+    if (stage === 'sent') counts.rendering++;
+    else if (stage === 'received' || stage === 'compressed' || stage === 'stored') counts.finishing++;
+    else if (stage === 'failed') counts.retrying++;
+    else counts.waiting++;
+  }
+  return Object.entries(counts)
+    .filter(([, n]) => n > 0)
+    .map(([label, n]) => `${n} ${label}`)
+    .join(' · ');
+}
+
+function LoadingTimer({ startTime, activity }: { startTime: number; activity: string }) {
   const [elapsed, setElapsed] = useState(0);
-  const [msgIndex, setMsgIndex] = useState(0);
 
   useEffect(() => {
     const interval = setInterval(() => {
@@ -58,13 +92,6 @@ function LoadingTimer({ startTime }: { startTime: number }) {
     return () => clearInterval(interval);
   }, [startTime]);
 
-  useEffect(() => {
-    const interval = setInterval(() => {
-      setMsgIndex(i => (i + 1) % LOADING_MESSAGES.length);
-    }, 3000);
-    return () => clearInterval(interval);
-  }, []);
-
   const mins = Math.floor(elapsed / 60);
   const secs = elapsed % 60;
 
@@ -73,25 +100,20 @@ function LoadingTimer({ startTime }: { startTime: number }) {
       <span className="font-mono tabular-nums text-brand font-semibold">
         {mins > 0 ? `${mins}:${secs.toString().padStart(2, '0')}` : `${secs}s`}
       </span>
-      <span className="text-neutral-500 transition-all duration-500">{LOADING_MESSAGES[msgIndex]}</span>
+      <span className="text-neutral-500 transition-all duration-500">{activity}</span>
     </div>
   );
 }
 
-function StyleLoadingCard({ config, index }: { config: StyleConfig; index: number }) {
-  const [progress, setProgress] = useState(0);
-
-  useEffect(() => {
-    const interval = setInterval(() => {
-      setProgress(p => {
-        if (p >= 90) return p + 0.1;
-        if (p >= 70) return p + 0.3;
-        if (p >= 50) return p + 0.5;
-        return p + 1;
-      });
-    }, 200);
-    return () => clearInterval(interval);
-  }, []);
+function StyleLoadingCard({ config, index, progress }: { config: StyleConfig; index: number; progress?: GenerationProgress }) {
+  // No event yet: waiting for one of the two generation slots
+  const step = progress ? GENERATION_STEPS.indexOf(progress.stage) + 1 : 0;
+  const retrying = progress?.stage === 'failed';
+  const stageLabel = !progress
+    ? 'Waiting for a slot'
+    : retrying
+      ? `Attempt ${progress.attempt || 1} failed — retrying`
+      : `${GENERATION_STAGE_LABELS[progress.stage]}${progress.attempt && progress.attempt > 1 ? ` (attempt ${progress.attempt})` : ''}`;
 
   const accentColor = config.backgroundColor === '#000000' || config.backgroundColor === '#1a0033' || config.backgroundColor === '#003366'
     ? '#a855f7' : '#d97706';
@@ -131,9 +153,13 @@ function StyleLoadingCard({ config, index }: { config: StyleConfig; index: numbe
         <div className="w-2/3 h-1 bg-surface-border rounded-full overflow-hidden mt-1">
           <div
             className="h-full bg-gradient-to-r from-brand to-brand-light rounded-full progress-bar-glow transition-all duration-300 ease-out"
-            style={{ width: `${Math.min(progress, 95)}%` }}
+            style={{ width: `${(step / GENERATION_STEPS.length) * 100}%` }}
           />
         </div>
+        <span className={`text-[10px] ${retrying ? 'text-amber-400' : 'text-neutral-400'}`}>{stageLabel}</span>
+        {retrying && progress?.error && (
+          <span className="text-[10px] text-neutral-500 px-3 text-center line-clamp-2">{progress.error}</span>
+        )}
       </div>
 
       <div className="absolute bottom-0 left-0 right-0 px-2 py-1.5 bg-gradient-to-t from-black/80 to-transparent z-10">
@@ -215,7 +241,11 @@ function StylePicker({ allConfigs, styles, onGenerate, onClose, anyGenerating }:
                         : 'border-surface-border bg-surface-elevated hover:border-neutral-500 active:scale-95'}
               `}
             >
-              <span className="text-xl leading-none">{config.emoji}</span>
+              {config.previewUrl ? (
+                <img src={config.previewUrl} alt="" className="w-8 h-8 rounded-md object-cover" />
+              ) : (
+                <span className="text-xl leading-none">{config.emoji}</span>
+              )}
               <span className={`text-[10px] font-semibold leading-tight text-center ${
                 alreadyDone ? 'text-emerald-400' :
                 isPicked ? 'text-brand-light' :
@@ -295,22 +325,133 @@ function StylePicker({ allConfigs, styles, onGenerate, onClose, anyGenerating }:
   );
 }
 
+// ── Variation Picker (takes side by side) ───────────────────────────────
+
+interface VariationPickerProps {
+  config: StyleConfig;
+  candidates: string[];
+  currentUrl: string | null;
+  onPick: (imageUrl: string) => void;
+}
+
+function VariationPicker({ config, candidates, currentUrl, onPick }: VariationPickerProps) {
+  // The current design leads the list when there was one
+  const takeOffset = candidates[0] === currentUrl ? 0 : 1;
+  return (
+    <div className="col-span-2 rounded-2xl border-2 border-brand/50 bg-surface-card p-2 space-y-2 animate-fadeIn">
+      <div className="flex items-center justify-between px-1">
+        <span className="flex items-center gap-1.5 text-xs font-semibold text-white">
+          <span className="text-sm">{config.emoji}</span>
+          {config.label}
+        </span>
+        <span className="text-[10px] text-neutral-500">Tap the best take</span>
+      </div>
+      <div className={`grid gap-2 ${candidates.length > 2 ? 'grid-cols-3' : 'grid-cols-2'}`}>
+        {candidates.map((url, i) => (
+          <button
+            key={url}
+            onClick={() => onPick(url)}
+            className="relative aspect-square rounded-xl overflow-hidden border-2 border-surface-border
+              hover:border-brand active:scale-95 transition-all"
+          >
+            <img src={url} alt={`${config.label} take ${i + 1}`} loading="lazy" decoding="async" className="w-full h-full object-cover" />
+            <span className="absolute bottom-1 left-1 px-1.5 py-0.5 rounded-md bg-black/60 text-[9px] font-semibold text-white">
+              {url === currentUrl ? 'Current' : `Take ${i + takeOffset}`}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// ── Before / After Slider ───────────────────────────────────────────────
+
+function CompareSlider({ before, after, alt }: { before: string; after: string; alt: string }) {
+  const [split, setSplit] = useState(50);
+  return (
+    <div className="absolute inset-0">
+      <img src={after} alt={`${alt} after`} className="absolute inset-0 w-full h-full object-cover" />
+      <img
+        src={before}
+        alt={`${alt} before`}
+        className="absolute inset-0 w-full h-full object-cover"
+        style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}
+      />
+      <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow-lg pointer-events-none" style={{ left: `${split}%` }} />
+      <span className="absolute top-2 left-2 px-1.5 py-0.5 rounded-md bg-black/60 text-[9px] font-semibold text-white">Before</span>
+      <span className="absolute top-2 right-2 px-1.5 py-0.5 rounded-md bg-black/60 text-[9px] font-semibold text-white">After</span>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={split}
+        onChange={e => setSplit(Number(e.target.value))}
+        aria-label="Before and after split"
+        className="absolute inset-x-3 bottom-3 accent-brand"
+      />
+    </div>
+  );
+}
+
 // ── Tweak Panel (slide-up overlay) ──────────────────────────────────────
 
 interface TweakPanelProps {
   style: GeneratedStyle;
   config: StyleConfig;
   imageUrl: string;         // display URL (may be blob for memory efficiency)
-  originalUrl?: string;     // original data URL for API calls
+  originalUrl?: string;     // original data/CDN URL for API calls
   carIdentity?: CarIdentity | null;
   onClose: () => void;
-  onTweakComplete: (styleId: SnapMerchStyle, newImageUrl: string) => void;
+  onTweakComplete: (styleId: SnapMerchStyle, newImageUrl: string, prompt?: string) => void;
+  onRevertVersion?: (styleId: SnapMerchStyle, versionId: string) => void;
+  onLetteringChange?: (styleId: SnapMerchStyle, lettering: LetteringSpec | undefined) => void;
+  letteringTexts?: Partial<Record<LetteringRole, string>>;
+  onChangeView?: (styleId: SnapMerchStyle, view: DesignView) => void;
+  onGenerateViews?: (styleId: SnapMerchStyle, views: DesignView[]) => void;
+  onGenerateVariations?: (styleId: SnapMerchStyle, count: number) => void;
+  onPickVariation?: (styleId: SnapMerchStyle, imageUrl: string) => void;
 }
 
-function TweakPanel({ style, config, imageUrl, originalUrl, carIdentity, onClose, onTweakComplete }: TweakPanelProps) {
+function TweakPanel({
+  style,
+  config,
+  imageUrl,
+  originalUrl,
+  carIdentity,
+  onClose,
+  onTweakComplete,
+  onRevertVersion,
+  onLetteringChange,
+  letteringTexts,
+  onChangeView,
+  onGenerateViews,
+  onGenerateVariations,
+  onPickVariation,
+}: TweakPanelProps) {
+  const currentView = config.view || style.view || DEFAULT_VIEW;
   const [tweakPrompt, setTweakPrompt] = useState('');
   const [isRemixing, setIsRemixing] = useState(false);
   const [showTweakInput, setShowTweakInput] = useState(false);
+  const [showViewPack, setShowViewPack] = useState(false);
+  const [packViews, setPackViews] = useState<Set<DesignView>>(new Set(MULTI_VIEW_PACK.filter(v => v !== currentView)));
+  const [showAlternates, setShowAlternates] = useState(false);
+  const alternates = style.alternates || [];
+  const [showHistory, setShowHistory] = useState(false);
+  const [showCompare, setShowCompare] = useState(false);
+  const currentVersion = getCurrentVersion(style);
+  const parentVersion = currentVersion && getParentVersion(style, currentVersion);
+  const canCompare = !!parentVersion?.imageUrl && currentVersion?.imageUrl === style.imageUrl;
+  const versionTree = getVersionTree(style);
+  // Lettering being edited; shown over the preview until saved or discarded
+  const [letteringDraft, setLetteringDraft] = useState<LetteringSpec | null>(null);
+  const updateDraft = (patch: Partial<LetteringSpec>) => setLetteringDraft(prev => prev && { ...prev, ...patch });
+  const setDraftText = (role: LetteringRole, text: string) => setLetteringDraft(prev => prev && {
+    ...prev,
+    layers: LETTERING_ROLES.map(r => ({ role: r.id, text: r.id === role ? text : prev.layers.find(l => l.role === r.id)?.text || '' })),
+  });
+  // Characters the stroke font would print as '?', so the draft can't be saved
+  const undrawable = letteringDraft ? unsupportedCharacters(letteringDraft.layers.map(l => l.text).join('')) : [];
   const [error, setError] = useState<string | null>(null);
   const panelRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -335,9 +476,11 @@ function TweakPanel({ style, config, imageUrl, originalUrl, carIdentity, onClose
 
     try {
       const carDetails: Record<string, any> = {
+        styleId: config.id,
         artStyle: config.artStyle,
-        view: '3/4 Front',
+        view: currentView,
         backgroundColor: config.backgroundColor || '#FFFFFF',
+        cyanotypeInverted: config.cyanotypeInverted || undefined,
         color: carIdentity?.color?.hex || '#003366',
       };
       if (carIdentity) {
@@ -349,7 +492,7 @@ function TweakPanel({ style, config, imageUrl, originalUrl, carIdentity, onClose
 
       // Use original data URL for API call (blob URLs may fail in fetch)
       const newImageUrl = await tweakDesign(originalUrl || imageUrl, tweakPrompt.trim(), carDetails);
-      onTweakComplete(style.styleId, newImageUrl);
+      onTweakComplete(style.styleId, newImageUrl, tweakPrompt.trim());
       onClose();
     } catch (err: any) {
       setError(err.message || 'Remix failed — try again');
@@ -357,6 +500,14 @@ function TweakPanel({ style, config, imageUrl, originalUrl, carIdentity, onClose
     }
   };
 
+  const togglePackView = (view: DesignView) => {
+    setPackViews(prev => {
+      const next = new Set(prev);
+      if (next.has(view)) next.delete(view); else next.add(view);
+      return next;
+    });
+  };
+
   return (
     <div
       className="fixed inset-0 z-50 flex items-end justify-center bg-black/60 backdrop-blur-sm animate-fadeIn"
@@ -365,7 +516,7 @@ function TweakPanel({ style, config, imageUrl, originalUrl, carIdentity, onClose
       <div
         ref={panelRef}
         className="w-full max-w-lg bg-surface-card rounded-t-3xl shadow-2xl border-t border-surface-border
-          animate-slideUp overflow-hidden"
+          animate-slideUp overflow-y-auto"
         style={{ maxHeight: '85vh' }}
       >
         {/* Handle bar */}
@@ -397,6 +548,20 @@ function TweakPanel({ style, config, imageUrl, originalUrl, carIdentity, onClose
               alt={config.label}
               className={`w-full h-full object-cover transition-opacity duration-300 ${isRemixing ? 'opacity-40' : ''}`}
             />
+            <LetteringOverlay spec={letteringDraft || style.lettering} />
+            {/* Before/after against the version this one was remixed from */}
+            {showCompare && canCompare && !isRemixing && (
+              <CompareSlider before={parentVersion!.imageUrl} after={imageUrl} alt={config.label} />
+            )}
+            {canCompare && !isRemixing && (
+              <button
+                onClick={() => setShowCompare(prev => !prev)}
+                className={`absolute bottom-3 right-3 px-2.5 py-1 rounded-lg text-[10px] font-semibold backdrop-blur transition-colors
+                  ${showCompare ? 'bg-brand text-white' : 'bg-surface-card/80 text-neutral-300 border border-surface-border'}`}
+              >
+                {showCompare ? 'Done' : '⇆ Compare'}
+              </button>
+            )}
             {isRemixing && (
               <div className="absolute inset-0 flex flex-col items-center justify-center gap-3">
                 <svg className="w-10 h-10 animate-spin text-brand" fill="none" viewBox="0 0 24 24">
@@ -409,6 +574,15 @@ function TweakPanel({ style, config, imageUrl, originalUrl, carIdentity, onClose
           </div>
         </div>
 
+        {/* What the quality gate still flags in this design */}
+        {style.status === 'done' && style.error && !error && (
+          <div className="px-4 pb-2">
+            <p className="text-amber-300 text-xs bg-amber-500/10 rounded-xl px-3 py-2 border border-amber-500/20">
+              ⚠️ {style.error}. Reroll or tweak it if it won't print well.
+            </p>
+          </div>
+        )}
+
         {/* Error message */}
         {error && (
           <div className="px-4 pb-2">
@@ -484,6 +658,289 @@ function TweakPanel({ style, config, imageUrl, originalUrl, carIdentity, onClose
               </button>
             </div>
           )}
+
+          {/* Angle — re-render this design from another view (main designs only;
+              multi-view designs are fixed to their angle) */}
+          {onChangeView && !config.view && !isRemixing && (
+            <div className="space-y-1.5 pt-1">
+              <p className="text-[10px] font-semibold text-neutral-500 uppercase tracking-wider">Angle</p>
+              <div className="grid grid-cols-3 gap-1.5">
+                {DESIGN_VIEWS.map(view => (
+                  <button
+                    key={view.id}
+                    onClick={() => {
+                      if (view.id === currentView) return;
+                      onChangeView(style.styleId, view.id);
+                      onClose();
+                    }}
+                    className={`py-2 rounded-lg border text-xs font-medium transition-all active:scale-95
+                      ${view.id === currentView
+                        ? 'border-brand bg-brand/15 text-brand-light'
+                        : 'border-surface-border bg-surface-elevated text-neutral-400 hover:border-neutral-500'}`}
+                  >
+                    {view.id}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Multi-view pack — the same style from several angles, each its own design */}
+          {onGenerateViews && !config.view && !isRemixing && (
+            showViewPack ? (
+              <div className="space-y-2 bg-surface-elevated border border-surface-border rounded-xl p-3">
+                <p className="text-xs text-neutral-400">
+                  Render {config.label} from more angles — e.g. Front, Side and Rear for a triptych poster.
+                </p>
+                <div className="grid grid-cols-3 gap-1.5">
+                  {DESIGN_VIEWS.filter(view => view.id !== currentView).map(view => (
+                    <button
+                      key={view.id}
+                      onClick={() => togglePackView(view.id)}
+                      className={`py-2 rounded-lg border text-xs font-medium transition-all active:scale-95
+                        ${packViews.has(view.id)
+                          ? 'border-brand bg-brand/15 text-brand-light'
+                          : 'border-surface-border bg-surface-card text-neutral-400 hover:border-neutral-500'}`}
+                    >
+                      {view.id}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  onClick={() => {
+                    onGenerateViews(style.styleId, DESIGN_VIEWS.map(v => v.id).filter(v => packViews.has(v)));
+                    onClose();
+                  }}
+                  disabled={packViews.size === 0}
+                  className="w-full py-2.5 rounded-xl bg-brand text-white font-bold text-sm active:scale-[0.98] transition-all disabled:opacity-40"
+                >
+                  Render {packViews.size} View{packViews.size === 1 ? '' : 's'}
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={() => setShowViewPack(true)}
+                className="w-full py-2.5 rounded-xl bg-surface-elevated border border-surface-border
+                  text-neutral-400 font-medium text-sm flex items-center justify-center gap-1.5
+                  hover:border-brand/40 hover:text-neutral-300 active:scale-[0.98] transition-all"
+              >
+                <span>🎞️</span> Multi-View Pack
+              </button>
+            )
+          )}
+
+          {/* Variations — fresh takes of this style, picked side by side in the grid */}
+          {onGenerateVariations && !isRemixing && (
+            <div className="flex items-center gap-1.5">
+              <span className="flex-1 text-xs text-neutral-400 flex items-center gap-1.5">
+                <span>🎲</span> Roll variations
+              </span>
+              {VARIATION_COUNTS.map(count => (
+                <button
+                  key={count}
+                  onClick={() => {
+                    onGenerateVariations(style.styleId, count);
+                    onClose();
+                  }}
+                  className="px-3 py-2 rounded-lg bg-surface-elevated border border-surface-border text-xs font-semibold
+                    text-neutral-300 hover:border-brand/40 active:scale-95 transition-all"
+                >
+                  ×{count}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Lettering — text drawn from the bundled font, never by the model */}
+          {onLetteringChange && !isRemixing && (
+            letteringDraft ? (
+              <div className="space-y-2 bg-surface-elevated border border-surface-border rounded-xl p-3">
+                <div className="grid grid-cols-3 gap-1.5">
+                  {LETTERING_PRESETS.map(preset => (
+                    <button
+                      key={preset.id}
+                      onClick={() => updateDraft({ preset: preset.id })}
+                      className={`py-2 rounded-lg border text-xs font-medium transition-all active:scale-95
+                        ${letteringDraft.preset === preset.id
+                          ? 'border-brand bg-brand/15 text-brand-light'
+                          : 'border-surface-border bg-surface-card text-neutral-400 hover:border-neutral-500'}`}
+                    >
+                      {preset.label}
+                    </button>
+                  ))}
+                </div>
+                <div className="grid grid-cols-3 gap-1.5">
+                  {LETTERING_FONTS.map(font => (
+                    <button
+                      key={font.id}
+                      onClick={() => updateDraft({ font: font.id })}
+                      className={`py-1.5 rounded-lg border text-[11px] font-medium transition-all active:scale-95
+                        ${letteringDraft.font === font.id
+                          ? 'border-brand bg-brand/15 text-brand-light'
+                          : 'border-surface-border bg-surface-card text-neutral-400 hover:border-neutral-500'}`}
+                    >
+                      {font.label}
+                    </button>
+                  ))}
+                </div>
+                {LETTERING_ROLES.map(role => (
+                  <input
+                    key={role.id}
+                    type="text"
+                    value={letteringDraft.layers.find(l => l.role === role.id)?.text || ''}
+                    onChange={e => setDraftText(role.id, e.target.value)}
+                    maxLength={80}
+                    placeholder={role.label}
+                    aria-label={role.label}
+                    className="w-full px-3 py-2 rounded-lg bg-surface-card border border-surface-border text-neutral-200 text-sm
+                      placeholder-neutral-500 focus:outline-none focus:border-brand/60"
+                  />
+                ))}
+                {undrawable.length > 0 && (
+                  <p className="text-amber-300 text-xs bg-amber-500/10 rounded-lg px-3 py-2 border border-amber-500/20">
+                    The lettering font can't draw {undrawable.join(' ')} — use Latin letters, digits and basic punctuation.
+                  </p>
+                )}
+                <div className="flex items-center gap-3 text-xs text-neutral-400">
+                  <label className="flex items-center gap-1.5">
+                    Ink
+                    <input
+                      type="color"
+                      value={letteringDraft.color}
+                      onChange={e => updateDraft({ color: e.target.value.toUpperCase() })}
+                      className="w-8 h-6 bg-transparent"
+                    />
+                  </label>
+                  {letteringDraft.preset === 'badge' && (
+                    <label className="flex items-center gap-1.5">
+                      Plate
+                      <input
+                        type="color"
+                        value={letteringDraft.plateColor || '#FFFFFF'}
+                        onChange={e => updateDraft({ plateColor: e.target.value.toUpperCase() })}
+                        className="w-8 h-6 bg-transparent"
+                      />
+                    </label>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => {
+                      onLetteringChange(style.styleId, letteringDraft);
+                      setLetteringDraft(null);
+                    }}
+                    disabled={undrawable.length > 0}
+                    className="flex-1 py-2 rounded-lg bg-brand text-white font-bold text-xs active:scale-[0.98] transition-all
+                      disabled:opacity-40 disabled:active:scale-100"
+                  >
+                    Save Lettering
+                  </button>
+                  {style.lettering && (
+                    <button
+                      onClick={() => {
+                        onLetteringChange(style.styleId, undefined);
+                        setLetteringDraft(null);
+                      }}
+                      className="px-3 py-2 rounded-lg bg-surface-card text-neutral-400 text-xs font-medium hover:text-red-400 transition-colors"
+                    >
+                      Remove
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setLetteringDraft(null)}
+                    className="px-3 py-2 rounded-lg bg-surface-card text-neutral-400 text-xs font-medium hover:text-white transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={() => setLetteringDraft(style.lettering
+                  || defaultLettering(config.lettering || 'stacked', letteringTexts || {}, config.backgroundColor))}
+                className="w-full py-2.5 rounded-xl bg-surface-elevated border border-surface-border
+                  text-neutral-400 font-medium text-sm flex items-center justify-center gap-1.5
+                  hover:border-brand/40 hover:text-neutral-300 active:scale-[0.98] transition-all"
+              >
+                <span>🔤</span> {style.lettering ? 'Edit Lettering' : 'Add Lettering'}
+              </button>
+            )
+          )}
+
+          {/* Version history — restore any earlier version; tweaks then branch from it */}
+          {onRevertVersion && versionTree.length > 1 && !isRemixing && (
+            <div className="space-y-1.5">
+              <button
+                onClick={() => setShowHistory(prev => !prev)}
+                className="text-xs text-neutral-500 hover:text-neutral-300 transition-colors"
+              >
+                {showHistory ? '▾' : '▸'} History ({versionTree.length} versions)
+              </button>
+              {showHistory && (
+                <div className="space-y-1">
+                  {versionTree.map(({ version, depth }) => {
+                    const isCurrent = version.id === currentVersion?.id;
+                    return (
+                      <button
+                        key={version.id}
+                        onClick={() => {
+                          setShowCompare(false);
+                          onRevertVersion(style.styleId, version.id);
+                        }}
+                        disabled={isCurrent || !version.imageUrl}
+                        style={{ marginLeft: depth * 12, width: `calc(100% - ${depth * 12}px)` }}
+                        className={`flex items-center gap-2 p-1.5 rounded-lg border text-left transition-colors
+                          ${isCurrent ? 'border-brand bg-brand/10' : 'border-surface-border bg-surface-elevated hover:border-neutral-500'}
+                          disabled:cursor-default`}
+                      >
+                        {version.imageUrl ? (
+                          <img src={version.imageUrl} alt="" loading="lazy" className="w-9 h-9 rounded-md object-cover flex-shrink-0" />
+                        ) : (
+                          <span className="w-9 h-9 rounded-md bg-surface-card flex items-center justify-center text-neutral-600 text-xs flex-shrink-0">—</span>
+                        )}
+                        <span className="flex-1 min-w-0">
+                          <span className="block text-xs text-neutral-300 truncate">{version.prompt || 'Generated'}</span>
+                          <span className="block text-[10px] text-neutral-500">
+                            {new Date(version.createdAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                          </span>
+                        </span>
+                        {isCurrent && <span className="text-[10px] font-bold text-brand uppercase flex-shrink-0">Current</span>}
+                      </button>
+                    );
+                  })}
+                  <p className="text-[10px] text-neutral-500">Tweaks made after restoring a version start a new branch.</p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Takes passed over in earlier picks */}
+          {onPickVariation && alternates.length > 0 && !isRemixing && (
+            <div className="space-y-1.5">
+              <button
+                onClick={() => setShowAlternates(prev => !prev)}
+                className="text-xs text-neutral-500 hover:text-neutral-300 transition-colors"
+              >
+                {showAlternates ? '▾' : '▸'} Other takes ({alternates.length})
+              </button>
+              {showAlternates && (
+                <div className="grid grid-cols-4 gap-1.5">
+                  {alternates.map((url, i) => (
+                    <button
+                      key={url}
+                      onClick={() => {
+                        onPickVariation(style.styleId, url);
+                        onClose();
+                      }}
+                      className="aspect-square rounded-lg overflow-hidden border border-surface-border hover:border-brand active:scale-95 transition-all"
+                    >
+                      <img src={url} alt={`${config.label} earlier take ${i + 1}`} loading="lazy" className="w-full h-full object-cover" />
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Bottom padding */}
@@ -517,6 +974,13 @@ export default function StyleGrid({
   isGeneratingMore,
   carIdentity,
   onStyleUpdated,
+  onRevertVersion,
+  onLetteringChange,
+  letteringTexts,
+  onChangeView,
+  onGenerateViews,
+  onGenerateVariations,
+  onPickVariation,
 }: StyleGridProps) {
   const [showPicker, setShowPicker] = useState(false);
   const [tweakStyleId, setTweakStyleId] = useState<SnapMerchStyle | null>(null);
@@ -526,42 +990,42 @@ export default function StyleGrid({
   const extraConfigs = extraVisibleStyles
     ? orderedConfigs.filter(c => extraVisibleStyles.has(c.id) && !baseConfigs.some(b => b.id === c.id))
     : [];
-  const visibleConfigs = [...baseConfigs, ...extraConfigs];
+  // Multi-view designs sit right after the style they were rendered from
+  const visibleConfigs = withViewConfigs([...baseConfigs, ...extraConfigs], styles);
   const anyLoading = styles.some(s => s.status === 'generating');
   const visibleStyles = styles.filter(s => visibleConfigs.some(c => c.id === s.styleId));
   const doneCount = visibleStyles.filter(s => s.status === 'done').length;
-  const generatingCount = visibleStyles.filter(s => s.status === 'generating').length;
+  const generatingStyles = visibleStyles.filter(s => s.status === 'generating');
+  const generatingCount = generatingStyles.length;
   const totalVisible = visibleConfigs.length;
 
   // Are there any styles left that haven't been generated yet?
-  const hasUngeneratedStyles = STYLE_CONFIGS.some(c => {
+  const hasUngeneratedStyles = orderedConfigs.some(c => {
     const s = styles.find(st => st.styleId === c.id);
     return !s || s.status === 'idle' || s.status === 'error';
   });
 
   // Convert data URLs to blob URLs to reduce JS heap memory pressure.
+  // Cached by source image, so a reverted or tweaked design gets a fresh blob.
   const blobUrlsRef = useRef<Map<string, string>>(new Map());
   const blobUrls = useMemo(() => {
     const newMap = new Map<string, string>();
+    const bySource = new Map<string, string>();
     styles.forEach(s => {
       if (s.status === 'done' && s.imageUrl) {
-        const existing = blobUrlsRef.current.get(s.styleId);
-        if (existing) {
-          newMap.set(s.styleId, existing);
-        } else {
-          const blobUrl = dataUrlToBlobUrl(s.imageUrl);
-          if (blobUrl) {
-            newMap.set(s.styleId, blobUrl);
-          }
+        const blobUrl = blobUrlsRef.current.get(s.imageUrl) || bySource.get(s.imageUrl) || dataUrlToBlobUrl(s.imageUrl);
+        if (blobUrl) {
+          newMap.set(s.styleId, blobUrl);
+          bySource.set(s.imageUrl, blobUrl);
         }
       }
     });
-    blobUrlsRef.current.forEach((url, key) => {
-      if (!newMap.has(key)) {
+    blobUrlsRef.current.forEach((url, source) => {
+      if (!bySource.has(source)) {
         URL.revokeObjectURL(url);
       }
     });
-    blobUrlsRef.current = newMap;
+    blobUrlsRef.current = bySource;
     return newMap;
   }, [styles]);
 
@@ -601,7 +1065,7 @@ export default function StyleGrid({
           Choose Your Style
         </h3>
         {anyLoading && generationStartTime && (
-          <LoadingTimer startTime={generationStartTime} />
+          <LoadingTimer startTime={generationStartTime} activity={summarizeActivity(generatingStyles)} />
         )}
       </div>
 
@@ -631,7 +1095,19 @@ export default function StyleGrid({
           const hasError = generated?.status === 'error';
 
           if (isLoading) {
-            return <StyleLoadingCard key={config.id} config={config} index={index} />;
+            return <StyleLoadingCard key={config.id} config={config} index={index} progress={generated?.progress} />;
+          }
+
+          if (isReady && generated?.candidates?.length && onPickVariation) {
+            return (
+              <VariationPicker
+                key={config.id}
+                config={config}
+                candidates={generated.candidates}
+                currentUrl={generated.imageUrl}
+                onPick={imageUrl => onPickVariation(config.id, imageUrl)}
+              />
+            );
           }
 
           return (
@@ -658,19 +1134,25 @@ export default function StyleGrid({
               `}
             >
               {isReady && generated?.imageUrl ? (
-                <img
-                  src={blobUrls.get(config.id) || generated.imageUrl}
-                  alt={config.label}
-                  loading="lazy"
-                  decoding="async"
-                  className="w-full h-full object-cover art-reveal"
-                />
+                <>
+                  <img
+                    src={blobUrls.get(config.id) || generated.imageUrl}
+                    alt={config.label}
+                    loading="lazy"
+                    decoding="async"
+                    className="w-full h-full object-cover art-reveal"
+                  />
+                  <LetteringOverlay spec={generated.lettering} />
+                </>
               ) : (
                 <div className="w-full h-full flex flex-col items-center justify-center gap-2 bg-surface-elevated">
                   {hasError ? (
                     <>
                       <span className="text-2xl">⚠️</span>
                       <span className="text-red-400 text-xs">Failed</span>
+                      {generated?.error && (
+                        <span className="text-neutral-500 text-[10px] px-3 text-center line-clamp-2">{generated.error}</span>
+                      )}
                     </>
                   ) : (
                     <>
@@ -685,9 +1167,20 @@ export default function StyleGrid({
                 <div className="flex items-center gap-1.5">
                   <span className="text-sm">{config.emoji}</span>
                   <span className="text-white text-xs font-semibold">{config.label}</span>
+                  {/* Kept although it failed the quality gate */}
+                  {isReady && generated?.error && (
+                    <span className="ml-auto text-amber-400 text-[10px] font-semibold" title={generated.error}>⚠ Check</span>
+                  )}
                 </div>
               </div>
 
+              {/* Main design re-rendered from a non-default angle */}
+              {!config.view && generated?.view && generated.view !== DEFAULT_VIEW && (
+                <div className="absolute top-2 left-2 px-1.5 py-0.5 bg-surface-card/80 backdrop-blur rounded-md border border-surface-border text-[9px] font-semibold text-neutral-300">
+                  {generated.view}
+                </div>
+              )}
+
               {/* Tweak hint badge on ready styles */}
               {isReady && !isSelected && (
                 <div className="absolute top-2 right-2 w-6 h-6 bg-surface-card/80 backdrop-blur rounded-full flex items-center justify-center border border-surface-border">
@@ -755,10 +1248,10 @@ export default function StyleGrid({
       {/* Tweak Panel (slide-up) */}
       {tweakStyleId && (() => {
         const tweakStyle = styles.find(s => s.styleId === tweakStyleId);
-        const tweakConfig = orderedConfigs.find(c => c.id === tweakStyleId);
+        const tweakConfig = visibleConfigs.find(c => c.id === tweakStyleId);
         // Use blob URL for display, but keep original data URL for API calls
         const tweakDisplayUrl = blobUrls.get(tweakStyleId) || tweakStyle?.imageUrl;
-        const tweakOriginalUrl = tweakStyle?.imageUrl; // always the data URL
+        const tweakOriginalUrl = tweakStyle?.imageUrl; // data URL or stored CDN URL
         if (!tweakStyle || !tweakConfig || !tweakDisplayUrl) return null;
         return (
           <TweakPanel
@@ -767,13 +1260,20 @@ export default function StyleGrid({
             imageUrl={tweakDisplayUrl}
             originalUrl={tweakOriginalUrl || undefined}
             carIdentity={carIdentity}
+            onChangeView={onChangeView}
+            onGenerateViews={onGenerateViews}
+            onGenerateVariations={onGenerateVariations}
+            onPickVariation={onPickVariation}
+            onRevertVersion={onRevertVersion}
+            onLetteringChange={onLetteringChange}
+            letteringTexts={letteringTexts}
             onClose={() => setTweakStyleId(null)}
-            onTweakComplete={(styleId, newImageUrl) => {
+            onTweakComplete={(styleId, newImageUrl, prompt) => {
               // Only update parent if the image actually changed (remix happened).
               // If user just clicked "Use This Design" without remixing, newImageUrl
-              // is the display blob URL — DON'T overwrite the original data URL with it.
-              if (newImageUrl.startsWith('data:')) {
-                onStyleUpdated?.(styleId, newImageUrl);
+              // is the display URL — DON'T overwrite the original image URL with it.
+              if (newImageUrl !== tweakDisplayUrl && !newImageUrl.startsWith('blob:')) {
+                onStyleUpdated?.(styleId, newImageUrl, prompt);
               }
               // Select the style for product/mockup flow
               onSelectStyle(styleId);
@@ -0,0 +1,295 @@
+import React, { useState } from 'react';
+import type { CustomStyle, CustomStyleId, EventSession, StylePackId } from '../types';
+import { STYLE_CONFIGS, STYLE_PACKS } from '../types';
+import {
+  listCustomStyles,
+  saveCustomStyle,
+  archiveCustomStyle,
+  setEventCustomStyles,
+  setEventStylePacks,
+  createThumbnail,
+} from '../services/storage';
+
+interface StyleManagerProps {
+  event: EventSession;
+  onEventChange: (session: EventSession) => void;
+  onStylesChange: () => void;
+  onDismiss: () => void;
+}
+
+const EMPTY_FORM = {
+  label: '',
+  emoji: '🎨',
+  promptTemplate: '',
+  backgroundColor: '#FFFFFF',
+  softKnockout: false,
+  previewUrl: '',
+};
+
+export default function StyleManager({ event, onEventChange, onStylesChange, onDismiss }: StyleManagerProps) {
+  const [styles, setStyles] = useState<CustomStyle[]>(listCustomStyles());
+  const [editingId, setEditingId] = useState<CustomStyleId | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const enabledIds = event.customStyleIds || [];
+  const enabledPacks = event.stylePacks || [];
+
+  const update = (patch: Partial<typeof EMPTY_FORM>) => {
+    setForm(prev => ({ ...prev, ...patch }));
+    setError('');
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleEdit = (style: CustomStyle) => {
+    setEditingId(style.id);
+    setForm({
+      label: style.label,
+      emoji: style.emoji,
+      promptTemplate: style.promptTemplate,
+      backgroundColor: style.backgroundColor || '#FFFFFF',
+      softKnockout: style.knockout === 'soft',
+      previewUrl: style.previewUrl || '',
+    });
+    setError('');
+  };
+
+  const handlePreview = (file: File | undefined) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = async () => {
+      // Small thumbnail only — it's stored inline with the style
+      update({ previewUrl: await createThumbnail(reader.result as string, 160) });
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const toggleEnabled = (styleId: CustomStyleId) => {
+    const next = enabledIds.includes(styleId)
+      ? enabledIds.filter(id => id !== styleId)
+      : [...enabledIds, styleId];
+    const updated = setEventCustomStyles(event.id, next);
+    if (updated) onEventChange(updated);
+  };
+
+  const togglePack = (packId: StylePackId) => {
+    const next = enabledPacks.includes(packId)
+      ? enabledPacks.filter(id => id !== packId)
+      : [...enabledPacks, packId];
+    const updated = setEventStylePacks(event.id, next);
+    if (updated) onEventChange(updated);
+  };
+
+  const handleSave = async () => {
+    if (!form.label.trim()) {
+      setError('Give the style a name');
+      return;
+    }
+    if (!form.promptTemplate.trim()) {
+      setError('Describe the style in the prompt');
+      return;
+    }
+    setSaving(true);
+    try {
+      const saved = await saveCustomStyle({
+        id: editingId || undefined,
+        label: form.label,
+        emoji: form.emoji,
+        promptTemplate: form.promptTemplate,
+        backgroundColor: form.backgroundColor,
+        knockout: form.softKnockout ? 'soft' : 'edge',
+        previewUrl: form.previewUrl || undefined,
+      });
+      setStyles(listCustomStyles());
+      // New styles are offered at the current event straight away
+      if (!editingId) toggleEnabled(saved.id);
+      onStylesChange();
+      resetForm();
+    } catch (err: any) {
+      setError(err.message || 'Could not save style');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleArchive = async (styleId: CustomStyleId) => {
+    setError('');
+    try {
+      await archiveCustomStyle(styleId);
+      setStyles(listCustomStyles());
+      if (editingId === styleId) resetForm();
+      onStylesChange();
+      const updated = { ...event, customStyleIds: enabledIds.filter(id => id !== styleId) };
+      onEventChange(updated);
+    } catch (err: any) {
+      setError(err.message || 'Could not remove style');
+    }
+  };
+
+  const inputClass = 'w-full bg-surface-elevated border border-surface-border rounded-lg px-3 py-2 text-white text-sm focus:border-brand focus:outline-none';
+
+  return (
+    <div className="px-4 py-3 space-y-5">
+      <div className="flex items-center justify-between">
+        <h2 className="text-white font-bold text-xl">Styles</h2>
+        <button onClick={onDismiss} className="text-xs text-neutral-500 hover:text-brand transition-colors">
+          Back
+        </button>
+      </div>
+
+      {/* Built-in style packs, toggled per event */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-neutral-400 uppercase tracking-wider">Style Packs</h3>
+        <p className="text-neutral-500 text-xs">The 12 core styles are always offered. Add packs for {event.name}:</p>
+        {STYLE_PACKS.map(pack => {
+          const enabled = enabledPacks.includes(pack.id);
+          const packStyles = STYLE_CONFIGS.filter(c => c.pack === pack.id);
+          return (
+            <button
+              key={pack.id}
+              onClick={() => togglePack(pack.id)}
+              className={`w-full flex items-center gap-3 text-left bg-surface-card border rounded-xl p-3 transition-colors
+                ${enabled ? 'border-brand' : 'border-surface-border hover:border-neutral-600'}`}
+            >
+              <span className="text-2xl flex-shrink-0">{pack.emoji}</span>
+              <div className="flex-1 min-w-0">
+                <p className="text-white text-sm font-semibold">{pack.label}</p>
+                <p className="text-neutral-500 text-xs">{pack.description}</p>
+                <p className="text-neutral-600 text-xs mt-0.5">{packStyles.map(c => c.emoji).join(' ')}</p>
+              </div>
+              {enabled && <span className="text-brand text-[10px] font-bold uppercase flex-shrink-0">On</span>}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* New / edit style */}
+      <div className="bg-surface-card border border-surface-border rounded-xl p-4 space-y-3">
+        <h3 className="text-sm font-semibold text-neutral-400 uppercase tracking-wider">
+          {editingId ? 'Edit Style' : 'New Style'}
+        </h3>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={form.emoji}
+            onChange={e => update({ emoji: e.target.value })}
+            maxLength={4}
+            aria-label="Emoji"
+            className={`${inputClass} w-14 text-center`}
+          />
+          <input
+            type="text"
+            value={form.label}
+            onChange={e => update({ label: e.target.value })}
+            maxLength={40}
+            placeholder="Style name (e.g. Shop Logo Badge)"
+            className={inputClass}
+          />
+        </div>
+        <textarea
+          value={form.promptTemplate}
+          onChange={e => update({ promptTemplate: e.target.value })}
+          rows={4}
+          maxLength={1000}
+          placeholder="Describe the look, e.g. Bold screen-print badge, two-tone {color} ink, thick outlines"
+          className={`${inputClass} resize-none`}
+        />
+        <p className="text-neutral-500 text-xs">
+          Use {'{color}'} for the car's paint, {'{background}'} for the canvas and {'{view}'} for the angle.
+        </p>
+        <div className="grid grid-cols-2 gap-2">
+          <label className="space-y-1">
+            <span className="text-neutral-500 text-xs">Canvas color</span>
+            <input
+              type="color"
+              value={form.backgroundColor}
+              onChange={e => update({ backgroundColor: e.target.value.toUpperCase() })}
+              className="w-full h-9 bg-surface-elevated border border-surface-border rounded-lg"
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="text-neutral-500 text-xs">Preview image</span>
+            <input
+              type="file"
+              accept="image/*"
+              onChange={e => handlePreview(e.target.files?.[0])}
+              className="w-full text-neutral-400 text-xs file:mr-2 file:px-2 file:py-1.5 file:rounded-lg file:border-0 file:bg-surface-elevated file:text-neutral-300"
+            />
+          </label>
+        </div>
+        {form.previewUrl && (
+          <img src={form.previewUrl} alt="Style preview" className="w-20 h-20 rounded-lg object-cover border border-surface-border" />
+        )}
+        <label className="flex items-center gap-2 text-neutral-400 text-xs">
+          <input
+            type="checkbox"
+            checked={form.softKnockout}
+            onChange={e => update({ softKnockout: e.target.checked })}
+          />
+          Soft edges on shirts (glows, washes, smoke)
+        </label>
+        {error && <p className="text-red-400 text-xs">{error}</p>}
+        <div className="flex gap-2">
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="flex-1 py-2.5 rounded-xl bg-brand text-white text-sm font-bold active:scale-95 transition-transform disabled:opacity-60"
+          >
+            {saving ? 'Saving…' : editingId ? 'Save Changes' : 'Add Style'}
+          </button>
+          {editingId && (
+            <button
+              onClick={resetForm}
+              className="px-4 py-2.5 rounded-xl bg-surface-elevated text-neutral-400 text-sm font-medium active:scale-95 transition-transform"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Vendor's styles, toggled per event */}
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-neutral-400 uppercase tracking-wider">Your Styles</h3>
+        {styles.length === 0 && (
+          <p className="text-neutral-500 text-sm">No custom styles yet — create one above</p>
+        )}
+        {styles.map(style => {
+          const enabled = enabledIds.includes(style.id);
+          return (
+            <div key={style.id} className="flex items-center gap-3 bg-surface-card border border-surface-border rounded-xl p-3">
+              {style.previewUrl ? (
+                <img src={style.previewUrl} alt="" className="w-10 h-10 rounded-lg object-cover flex-shrink-0" />
+              ) : (
+                <span className="w-10 h-10 flex items-center justify-center text-2xl flex-shrink-0">{style.emoji}</span>
+              )}
+              <button onClick={() => handleEdit(style)} className="flex-1 min-w-0 text-left">
+                <p className="text-white text-sm font-semibold truncate">{style.label}</p>
+                <p className="text-neutral-500 text-xs truncate">{style.promptTemplate}</p>
+              </button>
+              <button
+                onClick={() => toggleEnabled(style.id)}
+                className={`flex-shrink-0 px-3 py-1.5 rounded-full text-xs font-medium transition-colors active:scale-95
+                  ${enabled ? 'bg-brand/15 text-brand' : 'bg-surface-elevated text-neutral-400 hover:text-white'}`}
+              >
+                {enabled ? 'Offered' : 'Offer here'}
+              </button>
+              <button
+                onClick={() => handleArchive(style.id)}
+                aria-label={`Remove ${style.label}`}
+                className="flex-shrink-0 text-neutral-600 hover:text-red-400 text-xs transition-colors"
+              >
+                ✕
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
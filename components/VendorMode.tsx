@@ -1,17 +1,25 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import type {
+  CarIdentity,
+  CarPhoto,
   CarSession,
+  DesignView,
   EventSession,
   GeneratedStyle,
+  LetteringRole,
+  LetteringSpec,
   SnapMerchStyle,
   StyleConfig,
   OrderItem,
   Order,
   VendorTab,
 } from '../types';
-import { STYLE_CONFIGS } from '../types';
-import { analyzeVehicle, generateAllStyles } from '../services/api';
+import { LOW_CONFIDENCE, MAX_ALTERNATES, MAX_CAR_PHOTOS, baseStyleId, viewOfStyleId } from '../types';
+import { analyzeVehicle, generateAllStyles, generateVariations, redactPhotos } from '../services/api';
 import { getPrioritizedStyles } from '../services/stylePriority';
+import { getStyleConfigs, getViewConfig } from '../services/styleRegistry';
+import { addTweakVersion, revertToVersion } from '../services/designVersions';
+import { defaultLettering, formatLetteringDate } from '../lib/lettering';
 import {
   getEventSession,
   addCarSession,
@@ -19,22 +27,80 @@ import {
   saveOrder,
   createThumbnail,
   generateId,
-  createNewEventSession,
+  closeEvent,
+  fetchCustomStyles,
+  setEventRedaction,
+  isStorageFull,
 } from '../services/storage';
 import CameraCapture from './CameraCapture';
 import CarIdentityCard from './CarIdentity';
+import CarPhotoStrip from './CarPhotoStrip';
 import StyleGrid from './StyleGrid';
 import ProductSelector from './ProductSelector';
 import QRShare from './QRShare';
 import OrderForm from './OrderForm';
 import EventDashboard from './EventDashboard';
+import EventManager from './EventManager';
+import StyleManager from './StyleManager';
 
 const INITIAL_BATCH_SIZE = 4;
 const MORE_BATCH_SIZE = 4;
 
+// Add idle slots for styles a car doesn't have yet (e.g. a custom style
+// enabled for the event after the car was snapped)
+function withStyleSlots(styles: GeneratedStyle[], configs: StyleConfig[]): GeneratedStyle[] {
+  const missing = configs.filter(c => !styles.some(s => s.styleId === c.id));
+  return [...styles, ...missing.map(c => ({ styleId: c.id, imageUrl: null, status: 'idle' as const }))];
+}
+
+// What each lettering layer starts out saying for a car at an event
+function letteringTexts(identity: CarIdentity | null, event: EventSession | null): Partial<Record<LetteringRole, string>> {
+  return {
+    car: identity ? `${identity.year} ${identity.make} ${identity.model}` : '',
+    event: event?.name || '',
+    date: event?.date ? formatLetteringDate(event.date) : '',
+  };
+}
+
+// Photos of a car with small thumbnails for the photo strip
+async function toCarPhotos(base64Images: string[], redacted: boolean): Promise<CarPhoto[]> {
+  return Promise.all(base64Images.map(async base64 => ({
+    id: generateId(),
+    base64,
+    thumbnail: await createThumbnail(base64, 120),
+    redacted,
+  })));
+}
+
+// Blur plates and faces unless the event has redaction turned off. If that
+// fails the originals are used but stay unredacted: storage then keeps them
+// on this device only, and they are never sent as a generation reference.
+async function redactForEvent(base64Images: string[], event: EventSession | null): Promise<{ images: string[]; redacted: boolean; failed: boolean }> {
+  if (event?.redactPhotos === false) return { images: base64Images, redacted: false, failed: false };
+  try {
+    const { images } = await redactPhotos(base64Images);
+    return { images, redacted: true, failed: false };
+  } catch (err: any) {
+    console.error('Redaction failed:', err);
+    return { images: base64Images, redacted: false, failed: true };
+  }
+}
+
+// The photo designs are generated from, if it may be sent: generated designs
+// are persisted and shown on the share page, and can reproduce a plate or face
+function generationReference(photo: { base64: string; redacted?: boolean }, event: EventSession | null): string {
+  return event?.redactPhotos === false || photo.redacted ? photo.base64 : '';
+}
+
+const REDACTION_FAILED = `⚠️ Couldn't blur plates & faces — the photo stays on this device and designs are drawn without it`;
+
 export default function VendorMode() {
   const [tab, setTab] = useState<VendorTab>('capture');
-  const [eventSession, setEventSession] = useState<EventSession>(getEventSession());
+  const [eventSession, setEventSession] = useState<EventSession | null>(getEventSession());
+  const [showEvents, setShowEvents] = useState(false);
+  const [showStyles, setShowStyles] = useState(false);
+  // Bumped when the custom style cache changes
+  const [stylesVersion, setStylesVersion] = useState(0);
   const [currentCar, setCurrentCar] = useState<CarSession | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [selectedStyle, setSelectedStyle] = useState<SnapMerchStyle | null>(null);
@@ -48,8 +114,14 @@ export default function VendorMode() {
   // Whether the user has started design generation (locks year/make/model)
   const [generationStarted, setGenerationStarted] = useState(false);
 
+  // Core styles plus the packs and custom styles the active event offers
+  // (stylesVersion: the registry reads the custom style cache)
+  const styleConfigs = useMemo(
+    () => getStyleConfigs({ stylePacks: eventSession?.stylePacks, customStyleIds: eventSession?.customStyleIds }),
+    [eventSession?.stylePacks, eventSession?.customStyleIds, stylesVersion]
+  );
   // Priority-ordered style configs for current car
-  const [orderedConfigs, setOrderedConfigs] = useState<StyleConfig[]>(STYLE_CONFIGS);
+  const [orderedConfigs, setOrderedConfigs] = useState<StyleConfig[]>(styleConfigs);
   // How many styles are currently visible (starts at 4, can grow to 8, 12)
   const [visibleCount, setVisibleCount] = useState(INITIAL_BATCH_SIZE);
   // Whether we're generating more styles
@@ -64,6 +136,13 @@ export default function VendorMode() {
     setEventSession(getEventSession());
   }, []);
 
+  // Pick up custom styles saved on other devices
+  useEffect(() => {
+    fetchCustomStyles()
+      .then(() => setStylesVersion(v => v + 1))
+      .catch(err => console.warn('Custom styles refresh failed:', err.message));
+  }, []);
+
   // Generate a batch of styles
   const generateStyleBatch = useCallback(async (
     carSession: CarSession,
@@ -76,14 +155,22 @@ export default function VendorMode() {
       carSession.identity!,
       configs,
       referenceImage,
-      (styleId, imageUrl) => {
+      (styleId, imageUrl, quality) => {
         completedCount++;
         const config = configs.find(c => c.id === styleId);
-        setStatusMessage(`✅ ${config?.label || styleId} ready! (${completedCount}/${configs.length}${totalLabel})`);
+        // Kept even if no take passed the quality gate; its reasons go in error
+        const issues = quality && !quality.passed ? quality.reasons.join('; ') : undefined;
+        setStatusMessage(`${issues ? '⚠️' : '✅'} ${config?.label || styleId} ready${issues ? ' — check it' : '!'} (${completedCount}/${configs.length}${totalLabel})`);
         setCurrentCar(prev => {
           if (!prev) return prev;
+          // Lettering styles start with the car name drawn in their preset
+          const lettering = config?.lettering
+            ? defaultLettering(config.lettering, letteringTexts(carSession.identity, eventSession), config.backgroundColor)
+            : undefined;
           const styles = prev.styles.map(s =>
-            s.styleId === styleId ? { ...s, imageUrl, status: 'done' as const } : s
+            s.styleId === styleId
+              ? { ...s, imageUrl, status: 'done' as const, error: issues, progress: undefined, lettering: s.lettering || lettering }
+              : s
           );
           const updated = { ...prev, styles };
           updateCarSession(prev.id, { styles });
@@ -98,18 +185,29 @@ export default function VendorMode() {
         setCurrentCar(prev => {
           if (!prev) return prev;
           const styles = prev.styles.map(s =>
-            s.styleId === styleId ? { ...s, status: 'error' as const, error } : s
+            s.styleId === styleId ? { ...s, status: 'error' as const, error, progress: undefined } : s
           );
           const updated = { ...prev, styles };
           updateCarSession(prev.id, { styles });
           return updated;
         });
+      },
+      (styleId, progress) => {
+        // Live stage only — not persisted to the car session
+        setCurrentCar(prev => {
+          if (!prev) return prev;
+          const styles = prev.styles.map(s =>
+            s.styleId === styleId && s.status === 'generating' ? { ...s, progress } : s
+          );
+          return { ...prev, styles };
+        });
       }
     );
-  }, [refreshSession]);
+  }, [refreshSession, eventSession]);
 
-  // Handle photo capture — analyze only, don't auto-generate designs
-  const handleCapture = useCallback(async (base64Image: string) => {
+  // Handle photo capture — analyze only, don't auto-generate designs.
+  // Several photos are one car; the first is the reference until the vendor picks another.
+  const handleCapture = useCallback(async (base64Images: string[]) => {
     setIsAnalyzing(true);
     setSelectedStyle(null);
     setCart([]);
@@ -117,19 +215,27 @@ export default function VendorMode() {
     setGenerationStarted(false);
     setExtraVisibleStyles(new Set());
     setStatusStep(1);
-    setStatusMessage('📷 Compressing photo...');
+    setStatusMessage(`📷 Compressing ${base64Images.length > 1 ? `${base64Images.length} photos` : 'photo'}...`);
     setVisibleCount(INITIAL_BATCH_SIZE);
-    currentPhotoRef.current = base64Image;
 
-    const thumbnail = await createThumbnail(base64Image);
+    // Plates and faces are blurred before anything is kept, shown or generated from
+    if (eventSession?.redactPhotos !== false) setStatusMessage('🔒 Blurring plates & faces...');
+    const { images, redacted, failed: redactionFailed } = await redactForEvent(base64Images, eventSession);
+    currentPhotoRef.current = generationReference({ base64: images[0], redacted }, eventSession);
 
-    // Create car session with all 12 style slots
+    const thumbnail = await createThumbnail(images[0]);
+    const photos = await toCarPhotos(images, redacted);
+
+    // Create car session with a slot per style offered at the event
     const carSession: CarSession = {
       id: generateId(),
-      photoBase64: base64Image,
+      photoBase64: images[0],
       photoThumbnail: thumbnail,
+      photoRedacted: redacted,
+      photos,
+      referencePhotoId: photos[0].id,
       identity: null,
-      styles: STYLE_CONFIGS.map(c => ({ styleId: c.id, imageUrl: null, status: 'idle' as const })),
+      styles: styleConfigs.map(c => ({ styleId: c.id, imageUrl: null, status: 'idle' as const })),
       mockups: [],
       orders: [],
       createdAt: Date.now(),
@@ -141,12 +247,13 @@ export default function VendorMode() {
       // Analyze vehicle — stop here, let user review/edit before generating
       setStatusStep(2);
       setStatusMessage('🔍 Identifying vehicle — year, make, model...');
-      const identity = await analyzeVehicle(base64Image);
+      const { identity, candidates } = await analyzeVehicle(images);
       carSession.identity = identity;
+      carSession.candidates = candidates;
       setCurrentCar({ ...carSession });
 
       // Get priority-ordered configs
-      const prioritized = getPrioritizedStyles(identity);
+      const prioritized = getPrioritizedStyles(identity, styleConfigs);
       setOrderedConfigs(prioritized);
 
       // Add to event session
@@ -154,7 +261,7 @@ export default function VendorMode() {
       setEventSession(updated);
       setIsAnalyzing(false);
       setStatusStep(0);
-      setStatusMessage(null);
+      setStatusMessage(redactionFailed ? REDACTION_FAILED : null);
       // User can now edit year/make/model, then hit "Generate Designs"
     } catch (err: any) {
       console.error('Analysis failed:', err);
@@ -162,9 +269,10 @@ export default function VendorMode() {
 
       const fallbackIdentity = { year: '?', make: 'Unknown', model: 'Vehicle', trim: '', color: { name: 'Unknown', hex: '#666666' } };
       carSession.identity = fallbackIdentity;
+      carSession.candidates = []; // nothing to pick from — flagged until edited
       setCurrentCar({ ...carSession });
 
-      const prioritized = getPrioritizedStyles(fallbackIdentity);
+      const prioritized = getPrioritizedStyles(fallbackIdentity, styleConfigs);
       setOrderedConfigs(prioritized);
 
       const updated = addCarSession(carSession);
@@ -172,7 +280,48 @@ export default function VendorMode() {
       setStatusStep(0);
       setStatusMessage(`⚠️ Couldn't auto-ID — edit the details above, then generate.`);
     }
-  }, [refreshSession]);
+  }, [refreshSession, styleConfigs, eventSession]);
+
+  // More photos of the current car — re-identify it from all of them
+  const handleAddPhotos = useCallback(async (base64Images: string[]) => {
+    if (!currentCar || generationStarted || isAnalyzing) return;
+    setIsAnalyzing(true);
+    if (eventSession?.redactPhotos !== false) setStatusMessage('🔒 Blurring plates & faces...');
+    const { images, redacted, failed: redactionFailed } = await redactForEvent(base64Images, eventSession);
+    const photos = [...(currentCar.photos || []), ...(await toCarPhotos(images, redacted))].slice(0, MAX_CAR_PHOTOS);
+    const withPhotos = { ...currentCar, photos };
+    setCurrentCar(withPhotos);
+    updateCarSession(currentCar.id, { photos });
+
+    setStatusStep(2);
+    setStatusMessage(`🔍 Re-identifying from ${photos.length} photos...`);
+    try {
+      const { identity, candidates } = await analyzeVehicle(photos.map(p => p.base64).filter(Boolean));
+      const update = { identity, candidates, identityConfirmed: false };
+      setCurrentCar(prev => prev && prev.id === withPhotos.id ? { ...prev, ...update } : prev);
+      updateCarSession(withPhotos.id, update);
+      setOrderedConfigs(getPrioritizedStyles(identity, styleConfigs));
+      refreshSession();
+      setStatusMessage(redactionFailed ? REDACTION_FAILED : null);
+    } catch (err: any) {
+      console.error('Analysis failed:', err);
+      setStatusMessage(`⚠️ Couldn't re-identify — the details above are unchanged.`);
+    }
+    setIsAnalyzing(false);
+    setStatusStep(0);
+  }, [currentCar, generationStarted, isAnalyzing, refreshSession, styleConfigs, eventSession]);
+
+  // Generate designs from another of the car's photos
+  const handleSetReferencePhoto = useCallback(async (photoId: string) => {
+    const photo = currentCar?.photos?.find(p => p.id === photoId);
+    if (!currentCar || !photo?.base64 || generationStarted) return;
+    currentPhotoRef.current = generationReference(photo, eventSession);
+    const photoThumbnail = await createThumbnail(photo.base64);
+    const update = { referencePhotoId: photoId, photoBase64: photo.base64, photoThumbnail, photoRedacted: !!photo.redacted };
+    setCurrentCar(prev => prev && prev.id === currentCar.id ? { ...prev, ...update } : prev);
+    updateCarSession(currentCar.id, update);
+    refreshSession();
+  }, [currentCar, generationStarted, refreshSession, eventSession]);
 
   // Start generating designs (user-triggered after reviewing car identity)
   const handleStartGeneration = useCallback(async () => {
@@ -182,7 +331,7 @@ export default function VendorMode() {
     const referenceImage = currentPhotoRef.current || undefined;
 
     // Re-compute priority order in case user edited the identity
-    const prioritized = getPrioritizedStyles(currentCar.identity);
+    const prioritized = getPrioritizedStyles(currentCar.identity, styleConfigs);
     setOrderedConfigs(prioritized);
 
     const initialConfigs = prioritized.slice(0, INITIAL_BATCH_SIZE);
@@ -192,7 +341,7 @@ export default function VendorMode() {
     // Mark initial styles as generating
     setCurrentCar(prev => {
       if (!prev) return prev;
-      const styles = prev.styles.map(s => {
+      const styles = withStyleSlots(prev.styles, prioritized).map(s => {
         if (initialConfigs.some(c => c.id === s.styleId)) {
           return { ...s, status: 'generating' as const };
         }
@@ -204,18 +353,18 @@ export default function VendorMode() {
 
     await generateStyleBatch(currentCar, initialConfigs, referenceImage, '');
 
-    // Memory cleanup — release full photo
+    // Memory cleanup — release full photos
     currentPhotoRef.current = '';
     setCurrentCar(prev => {
       if (!prev) return prev;
-      const cleaned = { ...prev, photoBase64: '' };
-      updateCarSession(prev.id, { photoBase64: '' });
-      return cleaned;
+      const released = { photoBase64: '', photos: prev.photos?.map(p => ({ ...p, base64: '' })) };
+      updateCarSession(prev.id, released);
+      return { ...prev, ...released };
     });
 
     setStatusStep(0);
     setStatusMessage(null);
-  }, [currentCar, generateStyleBatch]);
+  }, [currentCar, generateStyleBatch, styleConfigs]);
 
   // Handle "Generate More Styles" (auto next batch)
   const handleGenerateMore = useCallback(async () => {
@@ -259,7 +408,7 @@ export default function VendorMode() {
 
     // Find configs for the selected style IDs
     const selectedConfigs = styleIds
-      .map(id => STYLE_CONFIGS.find(c => c.id === id))
+      .map(id => orderedConfigs.find(c => c.id === id))
       .filter((c): c is StyleConfig => c !== undefined);
 
     if (selectedConfigs.length === 0) return;
@@ -299,9 +448,152 @@ export default function VendorMode() {
     setStatusMessage(null);
   }, [currentCar, visibleCount, orderedConfigs, isGeneratingMore, generateStyleBatch]);
 
+  // Re-render one design from a different angle
+  const handleChangeView = useCallback(async (styleId: SnapMerchStyle, view: DesignView) => {
+    const config = orderedConfigs.find(c => c.id === styleId);
+    if (!currentCar?.identity || isGeneratingMore || !config) return;
+
+    setIsGeneratingMore(true);
+    setStatusMessage(`🎨 Redrawing ${config.label} from the ${view.toLowerCase()}...`);
+    setGenerationStartTime(Date.now());
+
+    setCurrentCar(prev => {
+      if (!prev) return prev;
+      const styles = prev.styles.map(s =>
+        s.styleId === styleId ? { ...s, view, status: 'generating' as const, imageUrl: null, error: undefined } : s
+      );
+      return { ...prev, styles };
+    });
+
+    await generateStyleBatch({ ...currentCar }, [{ ...config, view }], undefined, ' angle');
+
+    setIsGeneratingMore(false);
+    setStatusMessage(null);
+  }, [currentCar, orderedConfigs, isGeneratingMore, generateStyleBatch]);
+
+  // Multi-view pack — the same style from several angles, each a separate design
+  const handleGenerateViews = useCallback(async (styleId: SnapMerchStyle, views: DesignView[]) => {
+    const base = orderedConfigs.find(c => c.id === styleId);
+    if (!currentCar?.identity || isGeneratingMore || !base || views.length === 0) return;
+    const viewConfigs = views.map(view => getViewConfig(base, view));
+    const viewIds = viewConfigs.map(c => c.id);
+
+    setIsGeneratingMore(true);
+    setStatusMessage(`🎞️ Rendering ${base.label} from ${views.length} angle${views.length > 1 ? 's' : ''}...`);
+    setGenerationStartTime(Date.now());
+
+    setCurrentCar(prev => {
+      if (!prev) return prev;
+      const styles = withStyleSlots(prev.styles, viewConfigs).map(s =>
+        viewIds.includes(s.styleId)
+          ? { ...s, view: viewConfigs.find(c => c.id === s.styleId)!.view, status: 'generating' as const, imageUrl: null, error: undefined }
+          : s
+      );
+      return { ...prev, styles };
+    });
+
+    await generateStyleBatch({ ...currentCar }, viewConfigs, undefined, ' views');
+
+    setIsGeneratingMore(false);
+    setStatusMessage(null);
+  }, [currentCar, orderedConfigs, isGeneratingMore, generateStyleBatch]);
+
+  // Config for a style on screen, including multi-view designs of it
+  const findConfig = useCallback((styleId: SnapMerchStyle): StyleConfig | undefined => {
+    const config = orderedConfigs.find(c => c.id === styleId);
+    if (config) return config;
+    const base = orderedConfigs.find(c => c.id === baseStyleId(styleId));
+    const view = viewOfStyleId(styleId);
+    return base && view ? getViewConfig(base, view) : undefined;
+  }, [orderedConfigs]);
+
+  // Roll several takes of one style; the vendor picks one in the grid
+  const handleGenerateVariations = useCallback(async (styleId: SnapMerchStyle, count: number) => {
+    const style = currentCar?.styles.find(s => s.styleId === styleId);
+    const config = findConfig(styleId);
+    if (!currentCar?.identity || isGeneratingMore || !style || !config) return;
+
+    setIsGeneratingMore(true);
+    setStatusMessage(`🎲 Rolling ${count} takes of ${config.label}...`);
+    setGenerationStartTime(Date.now());
+
+    const setStyle = (update: (s: GeneratedStyle) => GeneratedStyle, persist: boolean) => {
+      setCurrentCar(prev => {
+        if (!prev) return prev;
+        const styles = prev.styles.map(s => s.styleId === styleId ? update(s) : s);
+        if (persist) updateCarSession(prev.id, { styles });
+        return { ...prev, styles };
+      });
+    };
+
+    setStyle(s => ({ ...s, status: 'generating', error: undefined }), false);
+    try {
+      const takes = await generateVariations(
+        currentCar.identity,
+        { ...config, view: config.view || style.view },
+        count,
+        undefined,
+        progress => setStyle(s => s.status === 'generating' ? { ...s, progress } : s, false),
+      );
+      setStyle(s => ({
+        ...s,
+        status: 'done',
+        progress: undefined,
+        candidates: s.imageUrl ? [s.imageUrl, ...takes] : takes,
+      }), true);
+    } catch (err: any) {
+      // Keep the design there was, if any
+      setStyle(s => ({ ...s, status: s.imageUrl ? 'done' : 'error', error: err.message, progress: undefined }), true);
+    }
+
+    setIsGeneratingMore(false);
+    setStatusMessage(null);
+  }, [currentCar, findConfig, isGeneratingMore]);
+
+  // Promote a take to the style's design; the rest go to its other takes
+  const handlePickVariation = useCallback((styleId: SnapMerchStyle, imageUrl: string) => {
+    setCurrentCar(prev => {
+      if (!prev) return prev;
+      const styles = prev.styles.map(s => {
+        if (s.styleId !== styleId) return s;
+        const passedOver = [...(s.candidates || []), s.imageUrl, ...(s.alternates || [])]
+          .filter((url): url is string => !!url && url !== imageUrl);
+        return {
+          ...s,
+          imageUrl,
+          error: undefined, // quality notes were about the previous take
+          candidates: undefined,
+          alternates: [...new Set(passedOver)].slice(0, MAX_ALTERNATES),
+        };
+      });
+      updateCarSession(prev.id, { styles });
+      return { ...prev, styles };
+    });
+  }, []);
+
+  // Save or remove (spec undefined) a design's lettering
+  const handleLetteringChange = useCallback((styleId: SnapMerchStyle, lettering: LetteringSpec | undefined) => {
+    setCurrentCar(prev => {
+      if (!prev) return prev;
+      const styles = prev.styles.map(s => s.styleId === styleId ? { ...s, lettering } : s);
+      updateCarSession(prev.id, { styles });
+      return { ...prev, styles };
+    });
+  }, []);
+
+  // Restore an earlier version of a design (tweaks then branch from it)
+  const handleRevertVersion = useCallback((styleId: SnapMerchStyle, versionId: string) => {
+    setCurrentCar(prev => {
+      if (!prev) return prev;
+      const styles = prev.styles.map(s => s.styleId === styleId ? revertToVersion(s, versionId) : s);
+      updateCarSession(prev.id, { styles });
+      return { ...prev, styles };
+    });
+  }, []);
+
   // Handle selecting a car from dashboard
   const handleSelectCar = useCallback((carId: string) => {
-    const car = eventSession.cars.find(c => c.id === carId);
+    const car = eventSession?.cars.find(c => c.id === carId);
     if (car) {
       if (currentCar && currentCar.id !== carId) {
         setCurrentCar(prev => {
@@ -309,7 +601,7 @@ export default function VendorMode() {
           return { ...prev, photoBase64: '', styles: prev.styles.map(s => ({ ...s, imageUrl: s.status === 'done' ? '' : s.imageUrl })) };
         });
       }
-      setCurrentCar(car);
+      setCurrentCar({ ...car, styles: withStyleSlots(car.styles, styleConfigs) });
       setSelectedStyle(null);
       setCart([]);
       setShowOrderForm(false);
@@ -317,22 +609,29 @@ export default function VendorMode() {
       // Re-compute priority order for this car
       setExtraVisibleStyles(new Set());
       if (car.identity) {
-        const prioritized = getPrioritizedStyles(car.identity);
+        // Include styles this car has designs in, even if the event no longer offers them
+        const carConfigs = [
+          ...styleConfigs,
+          ...getStyleConfigs().filter(c =>
+            !styleConfigs.some(sc => sc.id === c.id) && car.styles.some(s => s.styleId === c.id && s.status !== 'idle')
+          ),
+        ];
+        const prioritized = getPrioritizedStyles(car.identity, carConfigs);
         setOrderedConfigs(prioritized);
         // Show all styles that have been generated
         const doneOrErrorCount = car.styles.filter(s => s.status === 'done' || s.status === 'error').length;
-        setVisibleCount(Math.max(INITIAL_BATCH_SIZE, Math.min(doneOrErrorCount, STYLE_CONFIGS.length)));
+        setVisibleCount(Math.max(INITIAL_BATCH_SIZE, Math.min(doneOrErrorCount, prioritized.length)));
         // If any styles were already generated, lock the identity
         setGenerationStarted(doneOrErrorCount > 0);
       } else {
-        setOrderedConfigs(STYLE_CONFIGS);
+        setOrderedConfigs(styleConfigs);
         setVisibleCount(INITIAL_BATCH_SIZE);
         setGenerationStarted(false);
       }
 
       setTab('designs');
     }
-  }, [eventSession, currentCar]);
+  }, [eventSession, currentCar, styleConfigs]);
 
   const handleShareCar = useCallback((carId: string) => {
     setShowQRForCarId(carId);
@@ -357,18 +656,64 @@ export default function VendorMode() {
   const carTitle = currentCar?.identity
     ? `${currentCar.identity.year} ${currentCar.identity.make} ${currentCar.identity.model}`
     : 'Vehicle';
+  // Identification the vendor should check before generating (no candidates = it failed)
+  const needsIdCheck = !!currentCar?.candidates && !currentCar.identityConfirmed
+    && (currentCar.candidates[0]?.confidence ?? 0) < LOW_CONFIDENCE;
 
   const qrCarId = showQRForCarId || currentCar?.id;
-  const qrCar = qrCarId ? eventSession.cars.find(c => c.id === qrCarId) : currentCar;
+  const qrCar = qrCarId ? eventSession?.cars.find(c => c.id === qrCarId) : currentCar;
   const qrCarTitle = qrCar?.identity
     ? `${qrCar.identity.year} ${qrCar.identity.make} ${qrCar.identity.model}`
     : 'Vehicle';
 
   const canGenerateMore = visibleCount < orderedConfigs.length;
 
+  // No open event yet (or switching) — cars always belong to a named event
+  if (!eventSession || showEvents) {
+    return (
+      <div className="min-h-screen bg-surface flex flex-col">
+        <div className="flex-1 overflow-y-auto pb-8">
+          <EventManager
+            activeEventId={eventSession?.id || null}
+            onSelectEvent={(session) => {
+              if (session.id !== eventSession?.id) {
+                setCurrentCar(null);
+                setTab('capture');
+              }
+              setEventSession(session);
+              setShowEvents(false);
+            }}
+            onDismiss={eventSession ? () => setShowEvents(false) : undefined}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (showStyles) {
+    return (
+      <div className="min-h-screen bg-surface flex flex-col">
+        <div className="flex-1 overflow-y-auto pb-8">
+          <StyleManager
+            event={eventSession}
+            onEventChange={setEventSession}
+            onStylesChange={() => setStylesVersion(v => v + 1)}
+            onDismiss={() => setShowStyles(false)}
+          />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-surface flex flex-col">
       <div className="flex-1 overflow-y-auto pb-20">
+        {/* Read on every render — each save goes through state here */}
+        {isStorageFull() && (
+          <div className="mx-4 mt-3 px-4 py-3 rounded-2xl border text-sm font-medium bg-amber-500/10 border-amber-500/30 text-amber-300">
+            ⚠️ This device is out of storage — some car photos couldn't be kept here. Stay signed in and online so your events back up to your account.
+          </div>
+        )}
         {tab === 'capture' && (
           <CameraCapture onCapture={handleCapture} isProcessing={isAnalyzing} />
         )}
@@ -400,24 +745,41 @@ export default function VendorMode() {
                   identity={currentCar.identity}
                   photoBase64={currentCar.photoThumbnail || currentCar.photoBase64}
                   locked={generationStarted}
+                  candidates={currentCar.candidates}
+                  lowConfidence={needsIdCheck}
                   onUpdate={(updated) => {
                     setCurrentCar(prev => {
                       if (!prev) return prev;
-                      const car = { ...prev, identity: updated };
-                      updateCarSession(prev.id, { identity: updated });
+                      // Picked from the candidates or edited by hand — no longer in doubt
+                      const car = { ...prev, identity: updated, identityConfirmed: true };
+                      updateCarSession(prev.id, { identity: updated, identityConfirmed: true });
                       refreshSession();
                       return car;
                     });
                   }}
                 />
+                {currentCar.photos && currentCar.photos.length > 0 && (!generationStarted || currentCar.photos.length > 1) && (
+                  <div className="mt-2">
+                    <CarPhotoStrip
+                      photos={currentCar.photos}
+                      referencePhotoId={currentCar.referencePhotoId}
+                      locked={generationStarted}
+                      isProcessing={isAnalyzing}
+                      onAddPhotos={handleAddPhotos}
+                      onSetReference={handleSetReferencePhoto}
+                    />
+                  </div>
+                )}
               </div>
             )}
 
             {/* "Generate Designs" button — shown after ID, before generation starts */}
             {currentCar.identity && !generationStarted && !isAnalyzing && (
               <div className="px-4 pt-2">
-                <p className="text-neutral-400 text-xs text-center mb-2">
-                  Review the details above, then tap to generate designs
+                <p className={`text-xs text-center mb-2 ${needsIdCheck ? 'text-amber-300' : 'text-neutral-400'}`}>
+                  {needsIdCheck
+                    ? 'Low-confidence ID — check the details above before generating'
+                    : 'Review the details above, then tap to generate designs'}
                 </p>
                 <button
                   onClick={handleStartGeneration}
@@ -453,6 +815,7 @@ export default function VendorMode() {
               <ProductSelector
                 styleId={selectedStyle}
                 styleImageUrl={currentCar.styles.find(s => s.styleId === selectedStyle)!.imageUrl!}
+                lettering={currentCar.styles.find(s => s.styleId === selectedStyle)!.lettering}
                 carTitle={carTitle}
                 onAddToCart={handleAddToCart}
                 onBack={() => setSelectedStyle(null)}
@@ -472,10 +835,17 @@ export default function VendorMode() {
                   canGenerateMore={canGenerateMore}
                   isGeneratingMore={isGeneratingMore}
                   carIdentity={currentCar.identity}
-                  onStyleUpdated={(styleId, newImageUrl) => {
-                    // Update the style's imageUrl in the car session
+                  onChangeView={handleChangeView}
+                  onGenerateViews={handleGenerateViews}
+                  onGenerateVariations={handleGenerateVariations}
+                  onPickVariation={handlePickVariation}
+                  onRevertVersion={handleRevertVersion}
+                  onLetteringChange={handleLetteringChange}
+                  letteringTexts={letteringTexts(currentCar.identity, eventSession)}
+                  onStyleUpdated={(styleId, newImageUrl, prompt) => {
+                    // Record the tweak as a new version and show it
                     const updatedStyles = currentCar.styles.map(s =>
-                      s.styleId === styleId ? { ...s, imageUrl: newImageUrl } : s
+                      s.styleId === styleId ? { ...addTweakVersion(s, newImageUrl, prompt), error: undefined } : s
                     );
                     setCurrentCar(prev => prev ? { ...prev, styles: updatedStyles } : prev);
                     updateCarSession(currentCar.id, { styles: updatedStyles });
@@ -516,10 +886,17 @@ export default function VendorMode() {
             session={eventSession}
             onSelectCar={handleSelectCar}
             onShareCar={handleShareCar}
-            onNewSession={() => {
-              const ns = createNewEventSession();
-              setEventSession(ns);
+            onManageEvents={() => setShowEvents(true)}
+            onManageStyles={() => setShowStyles(true)}
+            onToggleRedaction={enabled => {
+              const updated = setEventRedaction(eventSession.id, enabled);
+              if (updated) setEventSession(updated);
+            }}
+            onCloseEvent={() => {
+              closeEvent(eventSession.id);
+              setEventSession(null);
               setCurrentCar(null);
+              setTab('capture');
             }}
           />
         )}
@@ -0,0 +1,126 @@
+// lib/catalog.ts
+// Product catalog — single source of truth for the storefront (client) and
+// checkout pricing (api/_lib/pricing.ts). Prices in USD.
+
+/** Printable area of a product, used to size print-ready files */
+export interface PrintArea {
+  widthIn: number;
+  heightIn: number;
+  dpi: number;
+}
+
+export interface ProductSize {
+  id: string;          // stored on OrderItem.size
+  label: string;
+  priceDelta?: number; // upcharge on top of basePrice
+  printArea?: PrintArea; // overrides the product's print area (posters)
+}
+
+export interface ProductOption {
+  id: string;
+  name: string;
+  emoji: string;
+  category: 'apparel' | 'home';
+  basePrice: number;
+  sizes?: ProductSize[];
+  colors?: { name: string; hex: string }[];
+  printArea?: PrintArea;
+}
+
+const APPAREL_COLORS = [
+  { name: 'Black', hex: '#000000' },
+  { name: 'White', hex: '#FFFFFF' },
+  { name: 'Navy', hex: '#001F3F' },
+  { name: 'Heather Gray', hex: '#9CA3AF' },
+  { name: 'Red', hex: '#C8102E' },
+];
+
+const apparelSizes = (xxlUpcharge: number): ProductSize[] => [
+  { id: 'S', label: 'S' },
+  { id: 'M', label: 'M' },
+  { id: 'L', label: 'L' },
+  { id: 'XL', label: 'XL' },
+  { id: '2XL', label: '2XL', priceDelta: xxlUpcharge },
+];
+
+export const PRODUCT_OPTIONS: ProductOption[] = [
+  {
+    id: 'tshirt',
+    name: 'T-Shirt',
+    emoji: '👕',
+    category: 'apparel',
+    basePrice: 29.99,
+    sizes: apparelSizes(3),
+    colors: APPAREL_COLORS,
+    printArea: { widthIn: 12, heightIn: 16, dpi: 150 }, // DTG front
+  },
+  {
+    id: 'hoodie',
+    name: 'Hoodie',
+    emoji: '🧥',
+    category: 'apparel',
+    basePrice: 49.99,
+    sizes: apparelSizes(4),
+    colors: APPAREL_COLORS,
+    printArea: { widthIn: 12, heightIn: 12, dpi: 150 }, // DTG front, above the pocket
+  },
+  {
+    id: 'mug',
+    name: 'Coffee Mug',
+    emoji: '☕',
+    category: 'home',
+    basePrice: 19.99,
+    colors: [
+      { name: 'White', hex: '#FFFFFF' },
+      { name: 'Black', hex: '#000000' },
+    ],
+    printArea: { widthIn: 9, heightIn: 3.5, dpi: 300 }, // full wrap
+  },
+  {
+    id: 'poster',
+    name: 'Poster',
+    emoji: '🖼️',
+    category: 'home',
+    basePrice: 24.99,
+    sizes: [
+      { id: '12x18', label: '12×18', printArea: { widthIn: 12, heightIn: 18, dpi: 300 } },
+      { id: '18x24', label: '18×24', priceDelta: 10, printArea: { widthIn: 18, heightIn: 24, dpi: 200 } },
+      { id: '24x36', label: '24×36', priceDelta: 20, printArea: { widthIn: 24, heightIn: 36, dpi: 150 } },
+    ],
+  },
+];
+
+export function getProduct(productId: string): ProductOption | undefined {
+  return PRODUCT_OPTIONS.find(p => p.id === productId);
+}
+
+/**
+ * Price for a product variant
+ * @returns Price in USD, or null if the product/size combination does not exist
+ */
+export function getVariantPrice(productId: string, sizeId?: string): number | null {
+  const product = getProduct(productId);
+  if (!product) return null;
+  if (!product.sizes) return sizeId ? null : product.basePrice;
+
+  const size = product.sizes.find(s => s.id === sizeId);
+  if (!size) return null;
+  return Math.round((product.basePrice + (size.priceDelta || 0)) * 100) / 100;
+}
+
+/**
+ * Print area for a product variant — the size's own area wins over the product's
+ * @returns null if the product has no printable area defined
+ */
+export function getPrintArea(productId: string, sizeId?: string): PrintArea | null {
+  const product = getProduct(productId);
+  if (!product) return null;
+  const size = product.sizes?.find(s => s.id === sizeId);
+  return size?.printArea || product.printArea || null;
+}
+
+/** Lowest price across all variants — used for "from $X" labels */
+export function getStartingPrice(product: ProductOption): number {
+  const deltas = product.sizes?.map(s => s.priceDelta || 0) || [0];
+  return product.basePrice + Math.min(...deltas);
+}
@@ -0,0 +1,202 @@
+// lib/lettering.ts
+// Lettering layout — turns a LetteringSpec into an SVG overlay for a square
+// design. Text is laid out in a 1000-unit square from the bundled stroke font
+// (strokeFont.ts) and emitted as paths only, so the browser preview and the
+// server-side composite (api/_lib/lettering.ts, via sharp) are identical.
+
+import type { LetteringFont, LetteringPreset, LetteringRole, LetteringSpec } from '../types.js';
+import { CAP_HEIGHT, FONT_FACES, TRACKING, getGlyph, measureText, toFontText, unsupportedCharacters } from './strokeFont.js';
+
+const VIEWBOX = 1000;
+const MAX_LINE_WIDTH = 880;
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+type Point = [number, number];
+
+interface LaidOutLine {
+  d: string;
+  scale: number; // font units → viewBox units
+}
+
+const round = (n: number) => Math.round(n * 10) / 10;
+
+// Glyph polylines of one line of text, in font units from its left cap line
+function layoutText(text: string): Point[][] {
+  const polylines: Point[][] = [];
+  let x = 0;
+  for (const char of toFontText(text)) {
+    const glyph = getGlyph(char);
+    for (const stroke of glyph.strokes) {
+      polylines.push(stroke.split(' ').map(pair => {
+        const [gx, gy] = pair.split(',').map(Number);
+        return [x + gx, gy];
+      }));
+    }
+    x += glyph.w + TRACKING;
+  }
+  return polylines;
+}
+
+// Split long segments so they follow a curve once bent onto an arc
+function densify(polyline: Point[], step = 1): Point[] {
+  const out: Point[] = [polyline[0]];
+  for (let i = 1; i < polyline.length; i++) {
+    const [x0, y0] = polyline[i - 1];
+    const [x1, y1] = polyline[i];
+    const parts = Math.max(1, Math.ceil(Math.hypot(x1 - x0, y1 - y0) / step));
+    for (let p = 1; p <= parts; p++) out.push([x0 + ((x1 - x0) * p) / parts, y0 + ((y1 - y0) * p) / parts]);
+  }
+  return out;
+}
+
+function toPathData(polylines: Point[][]): string {
+  return polylines.map(line => 'M' + line.map(([x, y]) => `${round(x)} ${round(y)}`).join('L')).join('');
+}
+
+// Straight line centered on cx, cap line at top, shrunk to fit maxWidth
+function straightLine(text: string, cx: number, top: number, size: number, maxWidth = MAX_LINE_WIDTH): LaidOutLine {
+  const width = measureText(text);
+  const scale = Math.min(size / CAP_HEIGHT, maxWidth / width);
+  const left = cx - (width * scale) / 2;
+  const polylines = layoutText(text).map(line => line.map(([x, y]): Point => [left + x * scale, top + y * scale]));
+  return { d: toPathData(polylines), scale };
+}
+
+// Text bent around a circle centered on (cx, cy). 'top' runs over the top with
+// letters standing outside the circle; 'bottom' runs under it, letters inside.
+// Shrinks to fit within maxAngle radians of arc.
+function arcLine(text: string, cx: number, cy: number, radius: number, size: number, side: 'top' | 'bottom', maxAngle: number): LaidOutLine {
+  const width = measureText(text);
+  const scale = Math.min(size / CAP_HEIGHT, (radius * maxAngle) / width);
+  const start = -(width * scale) / 2;
+  const polylines = layoutText(text).map(line => densify(line).map(([x, y]): Point => {
+    const angle = (start + x * scale) / radius;
+    const lift = (CAP_HEIGHT - y) * scale; // height above the baseline
+    const r = side === 'top' ? radius + lift : radius - lift;
+    return [cx + r * Math.sin(angle), side === 'top' ? cy - r * Math.cos(angle) : cy + r * Math.cos(angle)];
+  }));
+  return { d: toPathData(polylines), scale };
+}
+
+// Lines stacked under each other from top; returns the lines and the total height
+function stackLines(lines: { text: string; size: number }[], top: number, maxWidth = MAX_LINE_WIDTH): { lines: LaidOutLine[]; height: number } {
+  const laidOut: LaidOutLine[] = [];
+  let y = top;
+  lines.forEach((line, i) => {
+    if (i > 0) y += line.size * 0.8;
+    const laid = straightLine(line.text, VIEWBOX / 2, y, line.size, maxWidth);
+    laidOut.push(laid);
+    y += laid.scale * CAP_HEIGHT;
+  });
+  return { lines: laidOut, height: y - top };
+}
+
+function layerText(spec: LetteringSpec, role: LetteringRole): string {
+  return spec.layers.find(l => l.role === role)?.text.trim() || '';
+}
+
+function layout(spec: LetteringSpec): { lines: LaidOutLine[]; plate?: { x: number; y: number; w: number; h: number } } {
+  const car = layerText(spec, 'car');
+  const owner = layerText(spec, 'owner');
+  const when = [layerText(spec, 'event'), layerText(spec, 'date')].filter(Boolean).join(' · ');
+
+  switch (spec.preset) {
+    case 'arched': {
+      // Car name over the top; owner, event and date share the bottom arc
+      const under = [owner, when].filter(Boolean).join(' · ');
+      const lines: LaidOutLine[] = [];
+      if (car) lines.push(arcLine(car, 500, 520, 380, 60, 'top', 2.0));
+      if (under) lines.push(arcLine(under, 500, 520, 400, 36, 'bottom', 2.0));
+      return { lines };
+    }
+    case 'badge': {
+      const rows = [
+        car && { text: car, size: 46 },
+        owner && { text: owner, size: 26 },
+        when && { text: when, size: 24 },
+      ].filter((row): row is { text: string; size: number } => !!row);
+      if (rows.length === 0) return { lines: [] };
+      const padding = 34;
+      const measured = stackLines(rows, 0, 600);
+      const h = measured.height + padding * 2;
+      const y = 960 - h;
+      return { lines: stackLines(rows, y + padding, 600).lines, plate: { x: 170, y, w: 660, h } };
+    }
+    case 'stacked':
+    default: {
+      const rows = [
+        car && { text: car, size: 72 },
+        owner && { text: owner, size: 32 },
+        when && { text: when, size: 28 },
+      ].filter((row): row is { text: string; size: number } => !!row);
+      const measured = stackLines(rows, 0);
+      return { lines: stackLines(rows, 955 - measured.height).lines };
+    }
+  }
+}
+
+/** True if any layer has text to draw */
+export function hasLettering(spec: LetteringSpec | null | undefined): spec is LetteringSpec {
+  return !!spec && spec.layers.some(l => l.text.trim());
+}
+
+/**
+ * The lettering as a transparent SVG, size × size pixels, to lay over the
+ * design. Only paths are emitted — text never ends up in the markup.
+ */
+export function renderLetteringSvg(spec: LetteringSpec, size = VIEWBOX): string {
+  const face = FONT_FACES[spec.font] || FONT_FACES.block;
+  const color = HEX_COLOR.test(spec.color) ? spec.color : '#111111';
+  const plateColor = spec.plateColor && HEX_COLOR.test(spec.plateColor) ? spec.plateColor : '#FFFFFF';
+  const { lines, plate } = layout(spec);
+
+  const plateSvg = plate
+    ? `<rect x="${plate.x}" y="${round(plate.y)}" width="${plate.w}" height="${round(plate.h)}" rx="24" fill="${plateColor}" stroke="${color}" stroke-width="6"/>`
+      + `<rect x="${plate.x + 12}" y="${round(plate.y + 12)}" width="${plate.w - 24}" height="${round(plate.h - 24)}" rx="16" fill="none" stroke="${color}" stroke-width="2"/>`
+    : '';
+  const paths = lines
+    .map(line => `<path d="${line.d}" stroke-width="${round(face.weight * line.scale)}"/>`)
+    .join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${VIEWBOX} ${VIEWBOX}">`
+    + plateSvg
+    + `<g fill="none" stroke="${color}" stroke-linecap="${face.cap}" stroke-linejoin="${face.join}">${paths}</g>`
+    + '</svg>';
+}
+
+/** Near-black or white, whichever reads better on a canvas color */
+export function contrastColor(hex: string): string {
+  if (!HEX_COLOR.test(hex)) return '#111111';
+  const [r, g, b] = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+  return 0.299 * r + 0.587 * g + 0.114 * b > 150 ? '#111111' : '#FFFFFF';
+}
+
+/** Event date (YYYY-MM-DD) as lettering text, e.g. 'JUN 14 2026' */
+export function formatLetteringDate(date: string): string {
+  const parsed = new Date(`${date}T12:00:00Z`);
+  if (isNaN(parsed.getTime())) return date;
+  return parsed.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' }).replace(',', '').toUpperCase();
+}
+
+// Drop what the font can't draw from text filled in automatically, rather
+// than print '?' for it; the vendor can still retype it in the editor
+function drawableText(text: string): string {
+  const missing = new Set(unsupportedCharacters(text));
+  return missing.size ? [...text].filter(c => !missing.has(c)).join('').replace(/\s+/g, ' ').trim() : text;
+}
+
+/** A starting spec: the given texts on the style's canvas color */
+export function defaultLettering(
+  preset: LetteringPreset,
+  texts: Partial<Record<LetteringRole, string>>,
+  canvasColor = '#FFFFFF',
+  font: LetteringFont = 'block',
+): LetteringSpec {
+  return {
+    preset,
+    font,
+    color: contrastColor(canvasColor),
+    plateColor: HEX_COLOR.test(canvasColor) ? canvasColor : '#FFFFFF',
+    layers: (['car', 'owner', 'event', 'date'] as LetteringRole[]).map(role => ({ role, text: drawableText(texts[role] || '') })),
+  };
+}
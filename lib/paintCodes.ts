@@ -0,0 +1,60 @@
+// lib/paintCodes.ts
+// Lookups over the bundled factory paint catalog (paintData.ts). Feeds the
+// identity card's swatch picker and snaps detected colors to the factory
+// paint they name, so the design color is the owner's actual paint rather
+// than the model's guess at a hex.
+
+import type { CarIdentity } from '../types.js';
+import { canonicalMake } from './vehicleTaxonomy.js';
+import { PAINT_CATALOG, type FactoryPaint } from './paintData.js';
+
+export type { FactoryPaint };
+
+type PaintColor = CarIdentity['color'];
+
+// Paint codes and names compare case, space and punctuation insensitive
+const toKey = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+function offeredIn(paint: FactoryPaint, year: number | null): boolean {
+  return year === null || paint.years.some(([from, to]) => year >= from && year <= (to ?? Infinity));
+}
+
+/**
+ * Factory colors of a make, limited to the model year if one is given. Empty
+ * when the make isn't in the taxonomy or has no catalog entry.
+ */
+export function listPaints(make: string, year?: string): FactoryPaint[] {
+  const name = canonicalMake(make || '');
+  const parsed = parseInt(year || '', 10);
+  const built = parsed >= 1880 && parsed <= 2100 ? parsed : null;
+  const seen = new Set<string>();
+  return (name && PAINT_CATALOG[name] || []).filter(paint => {
+    if (!offeredIn(paint, built)) return false;
+    // Without a year, a color carried over under the same code is listed once
+    const key = `${toKey(paint.code)}|${toKey(paint.name)}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/** The catalog paint with this code, or else this name, for the make and year */
+export function findPaint(make: string, year: string | undefined, color: { code?: string; name?: string }): FactoryPaint | undefined {
+  const paints = listPaints(make, year);
+  const code = toKey(color.code || '');
+  const name = toKey(color.name || '');
+  return (code && paints.find(p => toKey(p.code) === code))
+    || (name && paints.find(p => toKey(p.name) === name))
+    || undefined;
+}
+
+/**
+ * A detected or typed color snapped to the factory paint it names (catalog
+ * name, code and hex). Colors the catalog doesn't know are kept as given,
+ * without a code.
+ */
+export function catalogColor(make: string, year: string | undefined, color: PaintColor): PaintColor {
+  const paint = findPaint(make, year, color);
+  if (paint) return { name: paint.name, hex: paint.hex, code: paint.code };
+  return { name: color.name, hex: color.hex };
+}
@@ -0,0 +1,453 @@
+// lib/paintData.ts
+// Bundled factory paint catalog: colors each make offered, with the
+// manufacturer's paint code and the years it was available. Keyed by the
+// canonical make names of vehicleData.ts. Hex values are screen
+// approximations of the paint in daylight — close enough to steer the design
+// color, not a body-shop match. Lookups live in paintCodes.ts.
+
+import type { YearRange } from './vehicleData.js';
+
+export interface FactoryPaint {
+  code: string;
+  name: string;
+  hex: string;
+  years: YearRange[];
+}
+
+export const PAINT_CATALOG: Record<string, FactoryPaint[]> = {
+  // ── US ────────────────────────────────────────────────────────────────
+  'Chevrolet': [
+    { code: '936', name: 'Tuxedo Black', hex: '#0B0B0C', years: [[1955, 1957]] },
+    { code: '951', name: 'Roman Red', hex: '#B0252A', years: [[1961, 1962]] },
+    { code: '923', name: 'Ermine White', hex: '#F1EEE4', years: [[1962, 1964]] },
+    { code: '986', name: 'Daytona Blue', hex: '#3F6FA8', years: [[1963, 1964]] },
+    { code: 'R', name: 'Tuxedo Black', hex: '#0B0B0C', years: [[1965, 1968]] },
+    { code: '10', name: 'Tuxedo Black', hex: '#0B0B0C', years: [[1969, 1972]] },
+    { code: '50', name: 'Dover White', hex: '#F0EEE4', years: [[1969, 1969]] },
+    { code: '52', name: 'Garnet Red', hex: '#9E1B24', years: [[1969, 1969]] },
+    { code: '40', name: 'Daytona Yellow', hex: '#F1C52A', years: [[1969, 1969]] },
+    { code: '72', name: 'Hugger Orange', hex: '#E2561F', years: [[1969, 1970]] },
+    { code: '53', name: 'Glacier Blue', hex: '#7EA4C9', years: [[1969, 1969]] },
+    { code: '14', name: 'Cortez Silver', hex: '#A8ACAF', years: [[1969, 1969]] },
+    { code: '17', name: 'Shadow Gray', hex: '#55595C', years: [[1970, 1970]] },
+    { code: '25', name: 'Fathom Green', hex: '#2F4B3A', years: [[1970, 1970]] },
+    { code: '1984', name: 'Classic Red', hex: '#B11B21', years: [[1984, 1994]] },
+    { code: 'WA8555', name: 'Black', hex: '#0C0C0D', years: [[1990, 2026]] },
+    { code: 'GAZ', name: 'Summit White', hex: '#F2F2EE', years: [[1996, 2026]] },
+    { code: 'GBA', name: 'Mosaic Black Metallic', hex: '#1A1B1D', years: [[2016, 2026]] },
+    { code: 'GKZ', name: 'Torch Red', hex: '#C8102E', years: [[2013, 2026]] },
+    { code: 'G7C', name: 'Red Hot', hex: '#C41E2A', years: [[2015, 2026]] },
+    { code: 'GAN', name: 'Silver Ice Metallic', hex: '#B6BABD', years: [[2005, 2026]] },
+    { code: 'G9K', name: 'Satin Steel Metallic', hex: '#7D8185', years: [[2019, 2026]] },
+    { code: 'GLL', name: 'Rapid Blue', hex: '#0079C1', years: [[2020, 2026]] },
+    { code: 'GJV', name: 'Riverside Blue Metallic', hex: '#1F4E8C', years: [[2019, 2023]] },
+    { code: 'GD1', name: 'Accelerate Yellow', hex: '#F6D30B', years: [[2020, 2026]] },
+    { code: 'GC5', name: 'Amplify Orange Tintcoat', hex: '#E2521B', years: [[2020, 2026]] },
+    { code: 'GXD', name: 'Shadow Gray Metallic', hex: '#4C4F52', years: [[2018, 2026]] },
+  ],
+  'Ford': [
+    { code: 'A', name: 'Raven Black', hex: '#0D0D0E', years: [[1964, 1973]] },
+    { code: 'M', name: 'Wimbledon White', hex: '#F2F0E6', years: [[1964, 1973]] },
+    { code: 'T', name: 'Candyapple Red', hex: '#A4161A', years: [[1966, 1969]] },
+    { code: 'F', name: 'Dark Highland Green', hex: '#1F3A2A', years: [[1968, 1968]] },
+    { code: 'U', name: 'Grabber Blue', hex: '#2A8BD0', years: [[1970, 1971]] },
+    { code: 'Z', name: 'Grabber Orange', hex: '#F0631E', years: [[1970, 1973]] },
+    { code: 'E8', name: 'Vibrant Red', hex: '#B8141F', years: [[1994, 1996]] },
+    { code: 'UA', name: 'Shadow Black', hex: '#0E0E10', years: [[2005, 2026]] },
+    { code: 'YZ', name: 'Oxford White', hex: '#F3F3EF', years: [[1995, 2026]] },
+    { code: 'PQ', name: 'Race Red', hex: '#C8102E', years: [[2013, 2026]] },
+    { code: 'RR', name: 'Ruby Red Metallic', hex: '#7A1522', years: [[2010, 2019]] },
+    { code: 'J7', name: 'Magnetic Metallic', hex: '#5A5D60', years: [[2014, 2026]] },
+    { code: 'JS', name: 'Iconic Silver Metallic', hex: '#B4B7BA', years: [[2016, 2026]] },
+    { code: 'AX', name: 'Velocity Blue Metallic', hex: '#1E4F9C', years: [[2015, 2026]] },
+    { code: 'E7', name: 'Kona Blue Metallic', hex: '#173E7A', years: [[2013, 2014]] },
+    { code: 'D4', name: 'Grabber Blue', hex: '#1478C8', years: [[2010, 2024]] },
+    { code: 'CC', name: 'Twister Orange Metallic', hex: '#D9561E', years: [[2020, 2026]] },
+    { code: 'KR', name: 'Atlas Blue Metallic', hex: '#2B4A6F', years: [[2019, 2026]] },
+    { code: 'E3', name: 'Lightning Blue Metallic', hex: '#1D56A6', years: [[2017, 2020]] },
+    { code: 'AS', name: 'Cactus Gray', hex: '#8C9088', years: [[2021, 2026]] },
+    { code: 'D1', name: 'Carbonized Gray Metallic', hex: '#4A4C4E', years: [[2019, 2026]] },
+  ],
+  'Dodge': [
+    { code: 'EV2', name: 'Hemi Orange', hex: '#F15A22', years: [[1968, 1971]] },
+    { code: 'EK2', name: 'Go Mango', hex: '#F36A1B', years: [[1970, 1971]] },
+    { code: 'FY1', name: 'Top Banana', hex: '#F6CF1A', years: [[1970, 1971]] },
+    { code: 'FJ5', name: 'Sublime', hex: '#8CC63F', years: [[1970, 1971]] },
+    { code: 'FC7', name: 'Plum Crazy', hex: '#5B2A86', years: [[1970, 1971]] },
+    { code: 'TX9', name: 'Black', hex: '#0D0D0E', years: [[1969, 1974]] },
+    { code: 'PXR', name: 'Pitch Black', hex: '#0C0C0D', years: [[2008, 2026]] },
+    { code: 'PW7', name: 'White Knuckle', hex: '#F2F2EF', years: [[2015, 2026]] },
+    { code: 'PRP', name: 'TorRed', hex: '#C8241C', years: [[2008, 2026]] },
+    { code: 'PFQ', name: 'Octane Red Pearl', hex: '#6E0F1A', years: [[2016, 2023]] },
+    { code: 'PHG', name: 'Plum Crazy Pearl', hex: '#4E2A7A', years: [[2015, 2026]] },
+    { code: 'PFB', name: 'Go Mango', hex: '#F05A22', years: [[2016, 2026]] },
+    { code: 'PFP', name: 'Sublime Pearl', hex: '#82C341', years: [[2015, 2023]] },
+    { code: 'PQD', name: 'B5 Blue Pearl', hex: '#1B7BC4', years: [[2015, 2023]] },
+    { code: 'PAR', name: 'Destroyer Grey', hex: '#5E6266', years: [[2015, 2026]] },
+    { code: 'PSC', name: 'Billet Silver Metallic', hex: '#A9ADB0', years: [[2011, 2026]] },
+    { code: 'PJP', name: 'IndiGo Blue', hex: '#274F9E', years: [[2018, 2023]] },
+    { code: 'PYV', name: 'Yellow Jacket', hex: '#F3C316', years: [[2012, 2023]] },
+  ],
+  'Ram': [
+    { code: 'PXR', name: 'Diamond Black Crystal Pearl', hex: '#121315', years: [[2011, 2026]] },
+    { code: 'PW7', name: 'Bright White', hex: '#F4F4F2', years: [[2011, 2026]] },
+    { code: 'PRV', name: 'Flame Red', hex: '#C1121F', years: [[2011, 2026]] },
+    { code: 'PAU', name: 'Granite Crystal Metallic', hex: '#4A4D50', years: [[2013, 2026]] },
+    { code: 'PSC', name: 'Billet Silver Metallic', hex: '#A9ADB0', years: [[2011, 2026]] },
+    { code: 'PBJ', name: 'Hydro Blue Pearl', hex: '#1E6FB5', years: [[2019, 2026]] },
+    { code: 'PUP', name: 'Patriot Blue Pearl', hex: '#1C2E53', years: [[2013, 2026]] },
+  ],
+  'Plymouth': [
+    { code: 'EV2', name: 'Tor-Red', hex: '#F2471C', years: [[1969, 1971]] },
+    { code: 'FY1', name: 'Lemon Twist', hex: '#F6CF1A', years: [[1970, 1971]] },
+    { code: 'FJ5', name: 'Limelight', hex: '#8CC63F', years: [[1970, 1971]] },
+    { code: 'FC7', name: 'In-Violet', hex: '#5B2A86', years: [[1970, 1971]] },
+    { code: 'EB5', name: 'Blue Fire Metallic', hex: '#27508F', years: [[1970, 1971]] },
+    { code: 'EK2', name: 'Vitamin C', hex: '#F36A1B', years: [[1970, 1971]] },
+  ],
+  'Pontiac': [
+    { code: '10', name: 'Cameo White', hex: '#F1EEE3', years: [[1969, 1974]] },
+    { code: '19', name: 'Starlight Black', hex: '#0E0E0F', years: [[1969, 1974]] },
+    { code: '52', name: 'Carousel Red', hex: '#E6471F', years: [[1969, 1969]] },
+    { code: '26', name: 'Lucerne Blue', hex: '#2F4E8C', years: [[1970, 1972]] },
+    { code: '19', name: 'Starlight Black', hex: '#0E0E0F', years: [[1977, 1981]] },
+    { code: 'WA8555', name: 'Black', hex: '#0C0C0D', years: [[1982, 2002]] },
+    { code: 'WA9753', name: 'Bright Red', hex: '#C3161E', years: [[1990, 2002]] },
+  ],
+  'Buick': [
+    { code: 'WA8555', name: 'Black', hex: '#0C0C0D', years: [[1982, 1987]] },
+    { code: '10', name: 'Polar White', hex: '#F1F0EA', years: [[1965, 1979]] },
+    { code: 'P', name: 'Burgundy Mist', hex: '#5A1E2A', years: [[1965, 1970]] },
+    { code: '49', name: 'Apollo White', hex: '#F0EEE6', years: [[1970, 1970]] },
+    { code: '39', name: 'Saturn Gold', hex: '#C29B43', years: [[1970, 1971]] },
+  ],
+  'Oldsmobile': [
+    { code: 'C', name: 'Provincial White', hex: '#F0EEE4', years: [[1966, 1970]] },
+    { code: 'A', name: 'Ebony Black', hex: '#0D0D0E', years: [[1966, 1979]] },
+    { code: 'R', name: 'Matador Red', hex: '#A8171F', years: [[1968, 1972]] },
+    { code: 'M', name: 'Sebring Yellow', hex: '#F4C21C', years: [[1970, 1970]] },
+  ],
+  'Cadillac': [
+    { code: '10', name: 'Cotillion White', hex: '#F1EFE7', years: [[1970, 1976]] },
+    { code: '11', name: 'Sable Black', hex: '#0D0D0F', years: [[1966, 1990]] },
+    { code: '48', name: 'Cranberry Red', hex: '#6A1828', years: [[1975, 1985]] },
+    { code: 'GBA', name: 'Black Raven', hex: '#101113', years: [[2008, 2026]] },
+    { code: 'GXK', name: 'Crystal White Tricoat', hex: '#EFEDE6', years: [[2012, 2026]] },
+  ],
+  'Lincoln': [
+    { code: '1C', name: 'Black', hex: '#0D0D0E', years: [[1970, 2011]] },
+    { code: '9D', name: 'Vibrant White', hex: '#F1F0EA', years: [[1990, 2011]] },
+  ],
+  'GMC': [
+    { code: 'GAZ', name: 'Summit White', hex: '#F2F2EE', years: [[1996, 2026]] },
+    { code: 'GBA', name: 'Onyx Black', hex: '#0E0F10', years: [[2008, 2026]] },
+    { code: 'G7C', name: 'Cardinal Red', hex: '#B3141F', years: [[2015, 2026]] },
+    { code: 'GXD', name: 'Satin Steel Metallic', hex: '#7D8185', years: [[2019, 2026]] },
+  ],
+  'Jeep': [
+    { code: 'PX8', name: 'Black', hex: '#0C0C0D', years: [[1987, 2026]] },
+    { code: 'PW7', name: 'Bright White', hex: '#F4F4F2', years: [[1997, 2026]] },
+    { code: 'PR4', name: 'Firecracker Red', hex: '#C41E27', years: [[2012, 2026]] },
+    { code: 'PGG', name: 'Sarge Green', hex: '#5A5E48', years: [[2020, 2026]] },
+    { code: 'PGD', name: 'Gecko', hex: '#7DBA3E', years: [[2021, 2022]] },
+    { code: 'PBM', name: 'Hydro Blue Pearl', hex: '#1E6FB5', years: [[2019, 2026]] },
+    { code: 'PAU', name: 'Granite Crystal Metallic', hex: '#4A4D50', years: [[2013, 2026]] },
+    { code: 'PJP', name: 'Punk\'n Metallic', hex: '#E05D1D', years: [[2019, 2019]] },
+  ],
+  'Tesla': [
+    { code: 'PBSB', name: 'Solid Black', hex: '#0D0D0E', years: [[2012, 2026]] },
+    { code: 'PPSW', name: 'Pearl White Multi-Coat', hex: '#EFEFEA', years: [[2012, 2026]] },
+    { code: 'PMNG', name: 'Midnight Silver Metallic', hex: '#4B4E52', years: [[2017, 2023]] },
+    { code: 'PPSB', name: 'Deep Blue Metallic', hex: '#1F3A6B', years: [[2017, 2026]] },
+    { code: 'PPMR', name: 'Red Multi-Coat', hex: '#A3131F', years: [[2017, 2023]] },
+    { code: 'PR01', name: 'Ultra Red', hex: '#B0141F', years: [[2023, 2026]] },
+    { code: 'PN01', name: 'Stealth Grey', hex: '#3E4144', years: [[2023, 2026]] },
+  ],
+
+  // ── Japan ─────────────────────────────────────────────────────────────
+  'Toyota': [
+    { code: '040', name: 'Super White', hex: '#F3F3F0', years: [[1990, 2026]] },
+    { code: '202', name: 'Black', hex: '#0C0C0D', years: [[1986, 2026]] },
+    { code: '3E5', name: 'Super Red', hex: '#C8102E', years: [[1993, 2002]] },
+    { code: '3R3', name: 'Barcelona Red Metallic', hex: '#7C1222', years: [[2005, 2026]] },
+    { code: '1F7', name: 'Classic Silver Metallic', hex: '#B3B6B8', years: [[2004, 2026]] },
+    { code: '1G3', name: 'Magnetic Gray Metallic', hex: '#55585B', years: [[2010, 2026]] },
+    { code: '089', name: 'Wind Chill Pearl', hex: '#EDECE6', years: [[2013, 2026]] },
+    { code: '8W7', name: 'Blueprint', hex: '#1F3A78', years: [[2016, 2026]] },
+    { code: '4V8', name: 'Inferno', hex: '#E45A1C', years: [[2015, 2019]] },
+    { code: '1K4', name: 'Cement', hex: '#8C8E8A', years: [[2018, 2026]] },
+    { code: '2NF', name: 'Nitro Yellow', hex: '#E8D21D', years: [[2020, 2026]] },
+    { code: '3T7', name: 'Renaissance Red 2.0', hex: '#B0131E', years: [[2019, 2026]] },
+    { code: '218', name: 'Black Sand Pearl', hex: '#16171A', years: [[2001, 2026]] },
+    { code: '4R8', name: 'Solar Octane', hex: '#E5551C', years: [[2021, 2026]] },
+  ],
+  'Nissan': [
+    { code: 'KH3', name: 'Super Black', hex: '#0C0C0D', years: [[1990, 2026]] },
+    { code: 'QM1', name: 'Fresh Powder', hex: '#F2F2EE', years: [[2008, 2026]] },
+    { code: 'QAB', name: 'Pearl White', hex: '#F0EFE9', years: [[2008, 2026]] },
+    { code: 'KAD', name: 'Gun Metallic', hex: '#55595C', years: [[2008, 2026]] },
+    { code: 'K23', name: 'Brilliant Silver', hex: '#B3B6B9', years: [[2007, 2026]] },
+    { code: 'NAH', name: 'Solid Red', hex: '#C1121F', years: [[2009, 2026]] },
+    { code: 'TV2', name: 'Bayside Blue', hex: '#2B64B8', years: [[1999, 2002]] },
+    { code: 'RAY', name: 'Bayside Blue', hex: '#2B64B8', years: [[2023, 2026]] },
+    { code: 'B51', name: 'Chrome Blue', hex: '#24468E', years: [[2003, 2006]] },
+    { code: 'EAM', name: 'Chicane Yellow', hex: '#F0C51D', years: [[2011, 2020]] },
+    { code: 'EBB', name: 'Ikazuchi Yellow', hex: '#F3C81E', years: [[2023, 2026]] },
+    { code: 'KY0', name: 'Super Silver', hex: '#ABAFB2', years: [[2009, 2015]] },
+  ],
+  'Datsun': [
+    { code: '918', name: 'Orange', hex: '#E8631C', years: [[1971, 1973]] },
+    { code: '110', name: 'Safari Gold', hex: '#C39A3D', years: [[1971, 1973]] },
+    { code: '115', name: 'Racing Green', hex: '#295A3A', years: [[1970, 1973]] },
+    { code: '904', name: 'White', hex: '#F1EFE8', years: [[1968, 1978]] },
+    { code: '112', name: 'Red', hex: '#B3181E', years: [[1968, 1978]] },
+  ],
+  'Honda': [
+    { code: 'NH0', name: 'Championship White', hex: '#F3F2EB', years: [[1992, 2026]] },
+    { code: 'NH731P', name: 'Crystal Black Pearl', hex: '#0F1012', years: [[2003, 2026]] },
+    { code: 'R81', name: 'Milano Red', hex: '#C1121F', years: [[1990, 2015]] },
+    { code: 'R513', name: 'Rallye Red', hex: '#C8102E', years: [[2012, 2026]] },
+    { code: 'B74P', name: 'Aegean Blue Pearl', hex: '#1E4A7A', years: [[2016, 2021]] },
+    { code: 'B593M', name: 'Boost Blue Pearl', hex: '#2A63B8', years: [[2022, 2026]] },
+    { code: 'NH830M', name: 'Lunar Silver Metallic', hex: '#B4B7BA', years: [[2016, 2026]] },
+    { code: 'NH797M', name: 'Modern Steel Metallic', hex: '#5A5E62', years: [[2013, 2026]] },
+    { code: 'Y49P', name: 'Phoenix Yellow', hex: '#F4C300', years: [[1996, 2001]] },
+    { code: 'YR598P', name: 'Energy Orange', hex: '#E25A1C', years: [[2016, 2017]] },
+    { code: 'B92P', name: 'Nighthawk Black Pearl', hex: '#121318', years: [[1990, 2008]] },
+    { code: 'Y56', name: 'Rio Yellow Pearl', hex: '#F2C91A', years: [[2007, 2009]] },
+  ],
+  'Acura': [
+    { code: 'NH0', name: 'Championship White', hex: '#F3F2EB', years: [[1992, 2006]] },
+    { code: 'B92P', name: 'Nighthawk Black Pearl', hex: '#121318', years: [[1990, 2008]] },
+    { code: 'R81', name: 'Milano Red', hex: '#C1121F', years: [[1990, 2006]] },
+    { code: 'Y49P', name: 'Phoenix Yellow', hex: '#F4C300', years: [[1997, 2001]] },
+    { code: 'B528P', name: 'Indy Yellow Pearl', hex: '#F3C319', years: [[2017, 2022]] },
+    { code: 'R565M', name: 'Performance Red Pearl', hex: '#A3121C', years: [[2018, 2026]] },
+    { code: 'B637P', name: 'Apex Blue Pearl', hex: '#1C4FA0', years: [[2019, 2026]] },
+    { code: 'NH883P', name: 'Platinum White Pearl', hex: '#EEEDE7', years: [[2015, 2026]] },
+  ],
+  'Mazda': [
+    { code: 'PZ', name: 'Snowflake White Pearl', hex: '#EFEEE8', years: [[2010, 2026]] },
+    { code: '41W', name: 'Jet Black Mica', hex: '#111214', years: [[2012, 2026]] },
+    { code: '46V', name: 'Soul Red Crystal Metallic', hex: '#A50F1F', years: [[2017, 2026]] },
+    { code: '41V', name: 'Soul Red Metallic', hex: '#9C1121', years: [[2013, 2016]] },
+    { code: '46G', name: 'Machine Gray Metallic', hex: '#5F6265', years: [[2016, 2026]] },
+    { code: 'SU', name: 'Vintage Red', hex: '#B7171E', years: [[1978, 1995]] },
+    { code: 'HU', name: 'Classic Red', hex: '#C1121F', years: [[1989, 1997]] },
+    { code: 'PT', name: 'Mariner Blue', hex: '#1E3F7A', years: [[1990, 1997]] },
+    { code: 'UC', name: 'Sunburst Yellow', hex: '#F3C41A', years: [[1992, 1993]] },
+    { code: '42B', name: 'Racing Orange', hex: '#E05B1D', years: [[2019, 2022]] },
+    { code: '47A', name: 'Zircon Sand Metallic', hex: '#9C9A8E', years: [[2021, 2026]] },
+  ],
+  'Subaru': [
+    { code: '02C', name: 'WR Blue Pearl', hex: '#1C4A9C', years: [[2006, 2014]] },
+    { code: 'K7X', name: 'WR Blue Pearl', hex: '#1C4A9C', years: [[2015, 2021]] },
+    { code: 'E8H', name: 'WR Blue Pearl', hex: '#1C4A9C', years: [[2022, 2026]] },
+    { code: '02U', name: 'World Rally Blue', hex: '#1F4DA0', years: [[2002, 2005]] },
+    { code: 'K1X', name: 'Crystal White Pearl', hex: '#EFEEE8', years: [[2013, 2026]] },
+    { code: 'D4S', name: 'Crystal Black Silica', hex: '#111214', years: [[2009, 2026]] },
+    { code: 'G1U', name: 'Ice Silver Metallic', hex: '#B5B8BB', years: [[2012, 2026]] },
+    { code: 'M3Y', name: 'Magnetite Gray Metallic', hex: '#55585B', years: [[2017, 2026]] },
+    { code: 'H2Q', name: 'Pure Red', hex: '#BD1620', years: [[2017, 2026]] },
+    { code: 'P8Y', name: 'Solar Orange Pearl', hex: '#E15A1C', years: [[2022, 2026]] },
+  ],
+  'Mitsubishi': [
+    { code: 'W13', name: 'Scotia White', hex: '#F2F1EB', years: [[1995, 2008]] },
+    { code: 'X42', name: 'Amethyst Black Pearl', hex: '#15141B', years: [[1995, 2015]] },
+    { code: 'R82', name: 'Palma Red', hex: '#B8161F', years: [[1996, 2001]] },
+    { code: 'T64', name: 'Lightning Blue', hex: '#1F55A5', years: [[2006, 2007]] },
+    { code: 'Y19', name: 'Lemon Yellow', hex: '#F4D419', years: [[1999, 2001]] },
+    { code: 'A31', name: 'Rally Red', hex: '#C1121F', years: [[2008, 2016]] },
+    { code: 'W37', name: 'Wicked White', hex: '#F1F0EA', years: [[2008, 2016]] },
+  ],
+  'Lexus': [
+    { code: '077', name: 'Starfire Pearl', hex: '#EFEEE8', years: [[2003, 2026]] },
+    { code: '212', name: 'Obsidian', hex: '#0E0F11', years: [[2008, 2026]] },
+    { code: '3T2', name: 'Infrared', hex: '#C8102E', years: [[2015, 2026]] },
+    { code: '8X1', name: 'Ultrasonic Blue Mica 2.0', hex: '#2B5CB0', years: [[2015, 2026]] },
+    { code: '1J7', name: 'Atomic Silver', hex: '#B5B8BB', years: [[2015, 2026]] },
+    { code: '4X2', name: 'Solar Flare', hex: '#E2571D', years: [[2018, 2026]] },
+  ],
+  'Infiniti': [
+    { code: 'KH3', name: 'Black Obsidian', hex: '#0F1012', years: [[2003, 2026]] },
+    { code: 'QAB', name: 'Moonlight White', hex: '#F0EFE9', years: [[2008, 2026]] },
+    { code: 'NBF', name: 'Dynamic Sunstone Red', hex: '#8E1626', years: [[2017, 2026]] },
+    { code: 'RBP', name: 'Iridium Blue', hex: '#1F3A6B', years: [[2014, 2026]] },
+  ],
+
+  // ── Europe ────────────────────────────────────────────────────────────
+  'Porsche': [
+    { code: '6407', name: 'Slate Gray', hex: '#7A7E80', years: [[1965, 1968]] },
+    { code: '6804', name: 'Tangerine', hex: '#E8591D', years: [[1969, 1971]] },
+    { code: '1616', name: 'Signal Yellow', hex: '#F2C31B', years: [[1969, 1973]] },
+    { code: 'L041', name: 'Black', hex: '#0D0D0E', years: [[1976, 2026]] },
+    { code: 'L84A', name: 'Guards Red', hex: '#C8102E', years: [[1979, 2026]] },
+    { code: 'L908', name: 'Grand Prix White', hex: '#F2F0E9', years: [[1975, 2016]] },
+    { code: '0Q', name: 'Carrara White Metallic', hex: '#EEEDE8', years: [[2009, 2026]] },
+    { code: 'M7S', name: 'GT Silver Metallic', hex: '#A9ADB0', years: [[2004, 2026]] },
+    { code: 'M5V', name: 'Miami Blue', hex: '#1FA6CF', years: [[2016, 2026]] },
+    { code: 'M1W', name: 'Racing Yellow', hex: '#F4D00C', years: [[2008, 2026]] },
+    { code: 'M2A', name: 'Lava Orange', hex: '#E4541B', years: [[2016, 2026]] },
+    { code: 'M9A', name: 'Gentian Blue Metallic', hex: '#1F3A7A', years: [[2019, 2026]] },
+    { code: 'M5C', name: 'Shark Blue', hex: '#1A6FB8', years: [[2020, 2026]] },
+    { code: 'M7Z', name: 'Chalk', hex: '#C9C8C1', years: [[2017, 2026]] },
+    { code: '2M5', name: 'Python Green', hex: '#6BB33A', years: [[2020, 2026]] },
+  ],
+  'Ferrari': [
+    { code: '322', name: 'Rosso Corsa', hex: '#D40000', years: [[1950, 2026]] },
+    { code: '300/12', name: 'Rosso Corsa', hex: '#D40000', years: [[1980, 2000]] },
+    { code: '4305', name: 'Giallo Modena', hex: '#F7D517', years: [[1985, 2026]] },
+    { code: '1240', name: 'Nero', hex: '#0D0D0E', years: [[1950, 2026]] },
+    { code: '100', name: 'Bianco Avus', hex: '#F2F1EB', years: [[1990, 2026]] },
+    { code: '106', name: 'Grigio Silverstone', hex: '#6C7073', years: [[2000, 2026]] },
+    { code: '3242', name: 'Rosso Scuderia', hex: '#E32119', years: [[2005, 2026]] },
+    { code: '523', name: 'Blu Tour de France', hex: '#1F3671', years: [[1990, 2026]] },
+    { code: '2424', name: 'Argento Nürburgring', hex: '#A9ADB0', years: [[2000, 2026]] },
+  ],
+  'Lamborghini': [
+    { code: '0077', name: 'Verde Ithaca', hex: '#6BBD2A', years: [[2011, 2026]] },
+    { code: '0021', name: 'Arancio Borealis', hex: '#F0651B', years: [[2011, 2026]] },
+    { code: '0047', name: 'Giallo Orion', hex: '#F4C400', years: [[2014, 2026]] },
+    { code: 'LM1B', name: 'Giallo Midas', hex: '#F0B917', years: [[2003, 2013]] },
+    { code: '0056', name: 'Blu Cepheus', hex: '#1F4AA0', years: [[2014, 2026]] },
+    { code: '0040', name: 'Bianco Monocerus', hex: '#F1F0EA', years: [[2014, 2026]] },
+    { code: '0009', name: 'Nero Noctis', hex: '#0D0D0E', years: [[2011, 2026]] },
+    { code: '0069', name: 'Grigio Titans', hex: '#5E6266', years: [[2014, 2026]] },
+    { code: '0035', name: 'Rosso Mars', hex: '#C8102E', years: [[2014, 2026]] },
+    { code: '0U1', name: 'Verde Mantis', hex: '#7AC142', years: [[2015, 2026]] },
+  ],
+  'McLaren': [
+    { code: 'MSO1', name: 'Papaya Spark', hex: '#F27D1D', years: [[2011, 2026]] },
+    { code: 'MSO2', name: 'Volcano Orange', hex: '#E45A1C', years: [[2011, 2026]] },
+    { code: 'MSO3', name: 'Silica White', hex: '#EEEDE7', years: [[2015, 2026]] },
+    { code: 'MSO4', name: 'Onyx Black', hex: '#0F1012', years: [[2011, 2026]] },
+    { code: 'MSO5', name: 'Ventura Orange', hex: '#E8681E', years: [[2021, 2026]] },
+  ],
+  'Aston Martin': [
+    { code: 'AM1', name: 'Silver Birch', hex: '#B8BBB8', years: [[1963, 1965]] },
+    { code: 'AM2', name: 'AM Racing Green', hex: '#1E4D3A', years: [[2005, 2026]] },
+    { code: 'AM3', name: 'Onyx Black', hex: '#0E0F10', years: [[2005, 2026]] },
+    { code: 'AM4', name: 'Lightning Silver', hex: '#A9ADB0', years: [[2005, 2026]] },
+    { code: 'AM5', name: 'Lime Essence', hex: '#C5D62E', years: [[2018, 2026]] },
+  ],
+  'Lotus': [
+    { code: 'B21', name: 'Calypso Red', hex: '#C1121F', years: [[1996, 2021]] },
+    { code: 'B29', name: 'Racing Green', hex: '#1F4D33', years: [[1996, 2026]] },
+    { code: 'B119', name: 'Hethel Yellow', hex: '#F3C71A', years: [[2022, 2026]] },
+    { code: 'B54', name: 'Motorsport Black', hex: '#0E0E10', years: [[1996, 2026]] },
+  ],
+  'Maserati': [
+    { code: 'M1', name: 'Rosso Folgore', hex: '#A3121C', years: [[2007, 2026]] },
+    { code: 'M2', name: 'Blu Emozione', hex: '#1F3A7A', years: [[2013, 2026]] },
+    { code: 'M3', name: 'Bianco Audace', hex: '#F1F0EA', years: [[2020, 2026]] },
+    { code: 'M4', name: 'Nero Ribelle', hex: '#0E0F11', years: [[2013, 2026]] },
+  ],
+  'BMW': [
+    { code: '068', name: 'Chamonix White', hex: '#F1F0EA', years: [[1968, 1988]] },
+    { code: '010', name: 'Polaris Silver', hex: '#ADB1B4', years: [[1968, 1976]] },
+    { code: '027', name: 'Inka Orange', hex: '#E2641E', years: [[1971, 1975]] },
+    { code: '218', name: 'Alpine White III', hex: '#F2F2EE', years: [[1985, 1997]] },
+    { code: '300', name: 'Alpine White III', hex: '#F2F2EE', years: [[1998, 2026]] },
+    { code: '668', name: 'Jet Black', hex: '#0C0C0D', years: [[1990, 2026]] },
+    { code: '475', name: 'Black Sapphire Metallic', hex: '#131519', years: [[2002, 2026]] },
+    { code: '314', name: 'Hellrot', hex: '#C1121F', years: [[1986, 2003]] },
+    { code: '318', name: 'Estoril Blue', hex: '#1F3D8C', years: [[1995, 2006]] },
+    { code: 'B45', name: 'Estoril Blue Metallic', hex: '#1F3D8C', years: [[2007, 2016]] },
+    { code: 'A75', name: 'Melbourne Red Metallic', hex: '#7E1623', years: [[2004, 2026]] },
+    { code: 'C31', name: 'Yas Marina Blue', hex: '#2B8BC6', years: [[2014, 2018]] },
+    { code: 'C3G', name: 'Austin Yellow Metallic', hex: '#E9B81A', years: [[2015, 2020]] },
+    { code: 'C4P', name: 'Brooklyn Grey', hex: '#8A8D8C', years: [[2019, 2026]] },
+    { code: 'C57', name: 'Sao Paulo Yellow', hex: '#F2D100', years: [[2021, 2026]] },
+    { code: 'C4W', name: 'Isle of Man Green Metallic', hex: '#1E5E3F', years: [[2021, 2026]] },
+    { code: 'C31', name: 'Portimao Blue Metallic', hex: '#1D4FA0', years: [[2019, 2026]] },
+    { code: '416', name: 'Carbon Black Metallic', hex: '#141B2A', years: [[2006, 2026]] },
+  ],
+  'Mercedes-Benz': [
+    { code: '040', name: 'Black', hex: '#0D0D0E', years: [[1960, 2026]] },
+    { code: '050', name: 'White', hex: '#F1F0EA', years: [[1960, 1989]] },
+    { code: '147', name: 'Arctic White', hex: '#F2F2EE', years: [[1986, 2006]] },
+    { code: '149', name: 'Polar White', hex: '#F2F2EE', years: [[2007, 2026]] },
+    { code: '197', name: 'Obsidian Black Metallic', hex: '#15161A', years: [[2000, 2026]] },
+    { code: '744', name: 'Brilliant Silver Metallic', hex: '#AEB2B5', years: [[1999, 2015]] },
+    { code: '792', name: 'Palladium Silver Metallic', hex: '#9FA3A4', years: [[2007, 2026]] },
+    { code: '755', name: 'Tenorite Grey Metallic', hex: '#5A5E61', years: [[2013, 2020]] },
+    { code: '589', name: 'Mars Red', hex: '#C1121F', years: [[1990, 2026]] },
+    { code: '571', name: 'Signal Red', hex: '#C8241C', years: [[1965, 1989]] },
+    { code: '199', name: 'Blue Black Metallic', hex: '#1B1F2A', years: [[1982, 1993]] },
+    { code: '297', name: 'Selenite Grey Metallic', hex: '#6A6E70', years: [[2017, 2026]] },
+    { code: '265', name: 'Brilliant Blue Metallic', hex: '#1E3F8C', years: [[2014, 2026]] },
+    { code: '796', name: 'Diamond White Metallic', hex: '#EDECE6', years: [[2010, 2026]] },
+    { code: '6000', name: 'AMG Green Hell Magno', hex: '#3F5D3A', years: [[2017, 2026]] },
+  ],
+  'Audi': [
+    { code: 'LY9B', name: 'Brilliant Black', hex: '#0C0C0D', years: [[1990, 2026]] },
+    { code: 'LY9C', name: 'Ibis White', hex: '#F2F2EE', years: [[2000, 2026]] },
+    { code: 'LY7W', name: 'Florett Silver Metallic', hex: '#AEB2B5', years: [[2008, 2026]] },
+    { code: 'LY7C', name: 'Nardo Gray', hex: '#8B8D8D', years: [[2013, 2026]] },
+    { code: 'LY5R', name: 'Sepang Blue Pearl', hex: '#1D4E99', years: [[2012, 2026]] },
+    { code: 'LZ5F', name: 'Ascari Blue Metallic', hex: '#1F3B7A', years: [[2016, 2026]] },
+    { code: 'LY3J', name: 'Misano Red Pearl', hex: '#A3121C', years: [[2008, 2026]] },
+    { code: 'LY3D', name: 'Tango Red Metallic', hex: '#8E1626', years: [[2010, 2026]] },
+    { code: 'LZ3M', name: 'Imola Yellow', hex: '#F2C817', years: [[1995, 2012]] },
+    { code: 'LZ3N', name: 'Vegas Yellow', hex: '#F3C61C', years: [[2016, 2026]] },
+    { code: 'LX7Z', name: 'Daytona Gray Pearl', hex: '#4C4F52', years: [[2012, 2026]] },
+    { code: 'L041', name: 'Tornado Red', hex: '#C8102E', years: [[1985, 2016]] },
+  ],
+  'Volkswagen': [
+    { code: 'L41', name: 'Black', hex: '#0D0D0E', years: [[1955, 1979]] },
+    { code: 'L282', name: 'Lotus White', hex: '#F1F0E6', years: [[1962, 1967]] },
+    { code: 'L633', name: 'Zenith Blue', hex: '#6C95C3', years: [[1965, 1967]] },
+    { code: 'L531', name: 'Ruby Red', hex: '#A0181F', years: [[1965, 1967]] },
+    { code: 'L620', name: 'Savanna Beige', hex: '#D5C59A', years: [[1967, 1970]] },
+    { code: 'L20D', name: 'Brilliant Orange', hex: '#E8641C', years: [[1972, 1974]] },
+    { code: 'LC9X', name: 'Deep Black Pearl', hex: '#111214', years: [[2003, 2026]] },
+    { code: 'LB9A', name: 'Candy White', hex: '#F2F2EE', years: [[1990, 2026]] },
+    { code: 'LY3D', name: 'Tornado Red', hex: '#C8102E', years: [[1985, 2026]] },
+    { code: 'LR7H', name: 'Reflex Silver Metallic', hex: '#B3B6B9', years: [[1997, 2026]] },
+    { code: 'LH5X', name: 'Lapiz Blue Metallic', hex: '#1E4EA0', years: [[2015, 2026]] },
+    { code: 'LD7X', name: 'Pure Grey', hex: '#8D8F8D', years: [[2017, 2026]] },
+    { code: 'LC6M', name: 'Kings Red Metallic', hex: '#8A1625', years: [[2019, 2026]] },
+  ],
+  'Land Rover': [
+    { code: '820', name: 'Fuji White', hex: '#F1F1EC', years: [[2010, 2026]] },
+    { code: '867', name: 'Santorini Black', hex: '#0F1012', years: [[2006, 2026]] },
+    { code: '1AA', name: 'Pangea Green', hex: '#4F5A3A', years: [[2020, 2026]] },
+    { code: '1CC', name: 'Tasman Blue', hex: '#2A5C8A', years: [[2020, 2026]] },
+    { code: '2AA', name: 'Gondwana Stone', hex: '#A29D8C', years: [[2020, 2026]] },
+    { code: 'HDY', name: 'Coniston Green', hex: '#234235', years: [[1983, 2016]] },
+  ],
+  'Jaguar': [
+    { code: 'JAG1', name: 'British Racing Green', hex: '#17402E', years: [[1961, 2026]] },
+    { code: 'JAG2', name: 'Opalescent Silver Blue', hex: '#8EA3B8', years: [[1961, 1967]] },
+    { code: 'JAG3', name: 'Carmen Red', hex: '#A8161F', years: [[1961, 1971]] },
+    { code: 'JAG4', name: 'Caldera Red', hex: '#C1121F', years: [[2014, 2024]] },
+    { code: 'JAG5', name: 'Santorini Black', hex: '#0F1012', years: [[2010, 2026]] },
+  ],
+  'MINI': [
+    { code: 'A62', name: 'Chili Red', hex: '#C1121F', years: [[2001, 2026]] },
+    { code: '850', name: 'Pepper White', hex: '#EFEDE4', years: [[2001, 2026]] },
+    { code: 'B29', name: 'British Racing Green', hex: '#1E4D36', years: [[2001, 2026]] },
+    { code: 'C2T', name: 'Electric Blue Metallic', hex: '#1E5FB0', years: [[2014, 2026]] },
+    { code: 'A63', name: 'Midnight Black Metallic', hex: '#121316', years: [[2001, 2026]] },
+  ],
+  'Alfa Romeo': [
+    { code: '361', name: 'Rosso Alfa', hex: '#A3121C', years: [[2014, 2026]] },
+    { code: '414', name: 'Alfa Red', hex: '#B0141F', years: [[1960, 2000]] },
+    { code: '248', name: 'Montecarlo Blue Metallic', hex: '#1F3A7A', years: [[2016, 2026]] },
+    { code: '408', name: 'Verde Montreal', hex: '#3F6B45', years: [[2021, 2026]] },
+  ],
+
+  // ── Korea ─────────────────────────────────────────────────────────────
+  'Hyundai': [
+    { code: 'PE2', name: 'Performance Blue', hex: '#2B6FC2', years: [[2019, 2026]] },
+    { code: 'NKA', name: 'Phantom Black', hex: '#0F1012', years: [[2010, 2026]] },
+    { code: 'W6H', name: 'Polar White', hex: '#F2F2EE', years: [[2015, 2026]] },
+    { code: 'TKS', name: 'Cyber Gray', hex: '#686B6E', years: [[2019, 2026]] },
+  ],
+  'Kia': [
+    { code: 'ABP', name: 'Aurora Black Pearl', hex: '#111214', years: [[2011, 2026]] },
+    { code: 'SWP', name: 'Snow White Pearl', hex: '#EFEEE8', years: [[2011, 2026]] },
+    { code: 'HRR', name: 'HiChroma Red', hex: '#B3131F', years: [[2018, 2023]] },
+    { code: 'M4B', name: 'Micro Blue', hex: '#1F4FA0', years: [[2018, 2023]] },
+  ],
+};
@@ -0,0 +1,121 @@
+// lib/strokeFont.ts
+// The bundled lettering font: a monoline display face drawn as polylines on a
+// 10-unit cap height (y = 0 at the cap line, y = 10 on the baseline), with
+// chamfered corners in place of curves. Being plain geometry, it renders the
+// same in every browser and in sharp/librsvg — no font files or system fonts.
+// Faces differ only in stroke weight, caps and joins.
+
+import type { LetteringFont } from '../types.js';
+
+export interface Glyph {
+  w: number;         // advance width in font units, before tracking
+  strokes: string[]; // polylines: "x,y x,y …"
+}
+
+export const CAP_HEIGHT = 10;
+export const TRACKING = 2.2; // space between glyphs, in font units
+
+export const FONT_FACES: Record<LetteringFont, { weight: number; cap: 'square' | 'round'; join: 'miter' | 'round' }> = {
+  block: { weight: 1.4, cap: 'square', join: 'miter' },
+  rounded: { weight: 1.3, cap: 'round', join: 'round' },
+  fine: { weight: 0.7, cap: 'round', join: 'round' },
+};
+
+const O = '1.5,0 4.5,0 6,1.5 6,8.5 4.5,10 1.5,10 0,8.5 0,1.5 1.5,0';
+
+export const GLYPHS: Record<string, Glyph> = {
+  'A': { w: 6, strokes: ['0,10 0,2 2,0 4,0 6,2 6,10', '0,5.5 6,5.5'] },
+  'B': { w: 6, strokes: ['0,5 4.5,5 6,6.5 6,8.5 4.5,10 0,10 0,0 4,0 5.5,1.5 5.5,3.5 4,5'] },
+  'C': { w: 6, strokes: ['6,1.5 4.5,0 1.5,0 0,1.5 0,8.5 1.5,10 4.5,10 6,8.5'] },
+  'D': { w: 6, strokes: ['0,0 0,10 4,10 6,8 6,2 4,0 0,0'] },
+  'E': { w: 5.5, strokes: ['5.5,0 0,0 0,10 5.5,10', '0,5 4,5'] },
+  'F': { w: 5.5, strokes: ['5.5,0 0,0 0,10', '0,5 4,5'] },
+  'G': { w: 6, strokes: ['6,1.5 4.5,0 1.5,0 0,1.5 0,8.5 1.5,10 4.5,10 6,8.5 6,5.5 3.5,5.5'] },
+  'H': { w: 6, strokes: ['0,0 0,10', '6,0 6,10', '0,5 6,5'] },
+  'I': { w: 4, strokes: ['2,0 2,10', '0,0 4,0', '0,10 4,10'] },
+  'J': { w: 6, strokes: ['6,0 6,8.5 4.5,10 1.5,10 0,8.5'] },
+  'K': { w: 6, strokes: ['0,0 0,10', '6,0 0,6', '2.2,4 6,10'] },
+  'L': { w: 5.5, strokes: ['0,0 0,10 5.5,10'] },
+  'M': { w: 7, strokes: ['0,10 0,0 3.5,6 7,0 7,10'] },
+  'N': { w: 6, strokes: ['0,10 0,0 6,10 6,0'] },
+  'O': { w: 6, strokes: [O] },
+  'P': { w: 6, strokes: ['0,10 0,0 4.5,0 6,1.5 6,4 4.5,5.5 0,5.5'] },
+  'Q': { w: 6, strokes: [O, '3.5,7 6,10'] },
+  'R': { w: 6, strokes: ['0,10 0,0 4.5,0 6,1.5 6,4 4.5,5.5 0,5.5', '3,5.5 6,10'] },
+  'S': { w: 6, strokes: ['6,1.5 4.5,0 1.5,0 0,1.5 0,3.5 1.5,5 4.5,5 6,6.5 6,8.5 4.5,10 1.5,10 0,8.5'] },
+  'T': { w: 6, strokes: ['0,0 6,0', '3,0 3,10'] },
+  'U': { w: 6, strokes: ['0,0 0,8.5 1.5,10 4.5,10 6,8.5 6,0'] },
+  'V': { w: 6, strokes: ['0,0 3,10 6,0'] },
+  'W': { w: 7, strokes: ['0,0 1.75,10 3.5,4 5.25,10 7,0'] },
+  'X': { w: 6, strokes: ['0,0 6,10', '6,0 0,10'] },
+  'Y': { w: 6, strokes: ['0,0 3,5 6,0', '3,5 3,10'] },
+  'Z': { w: 6, strokes: ['0,0 6,0 0,10 6,10'] },
+
+  // Slashed zero, so years and plates don't read as O
+  '0': { w: 6, strokes: [O, '4.5,3 1.5,7'] },
+  '1': { w: 5, strokes: ['0.5,2 2.5,0 2.5,10', '0.5,10 4.5,10'] },
+  '2': { w: 6, strokes: ['0,1.5 1.5,0 4.5,0 6,1.5 6,3.5 0,10 6,10'] },
+  '3': { w: 6, strokes: ['0,1.5 1.5,0 4.5,0 6,1.5 6,3.5 4.5,5 2,5', '4.5,5 6,6.5 6,8.5 4.5,10 1.5,10 0,8.5'] },
+  '4': { w: 6, strokes: ['4.5,10 4.5,0 0,7 6,7'] },
+  '5': { w: 6, strokes: ['6,0 0,0 0,4.5 4.5,4.5 6,6 6,8.5 4.5,10 1.5,10 0,8.5'] },
+  '6': { w: 6, strokes: ['5.5,0 1.5,0 0,1.5 0,8.5 1.5,10 4.5,10 6,8.5 6,6 4.5,4.5 0,4.5'] },
+  '7': { w: 6, strokes: ['0,0 6,0 2,10'] },
+  '8': { w: 6, strokes: ['1.5,0 4.5,0 6,1.5 6,3.5 4.5,5 1.5,5 0,3.5 0,1.5 1.5,0', '1.5,5 0,6.5 0,8.5 1.5,10 4.5,10 6,8.5 6,6.5 4.5,5'] },
+  '9': { w: 6, strokes: ['6,5.5 1.5,5.5 0,4 0,1.5 1.5,0 4.5,0 6,1.5 6,8.5 4.5,10 0.5,10'] },
+
+  ' ': { w: 4, strokes: [] },
+  '.': { w: 1, strokes: ['0.5,9.7 0.5,10'] },
+  ',': { w: 1.5, strokes: ['1,9.2 0.3,11'] },
+  ':': { w: 1, strokes: ['0.5,3 0.5,3.3', '0.5,9.7 0.5,10'] },
+  '·': { w: 1, strokes: ['0.5,4.85 0.5,5.15'] },
+  '-': { w: 4, strokes: ['0,5 4,5'] },
+  '+': { w: 5, strokes: ['2.5,2.5 2.5,7.5', '0,5 5,5'] },
+  '/': { w: 4, strokes: ['0,10 4,0'] },
+  '#': { w: 6, strokes: ['2,0 1,10', '5,0 4,10', '0,3.5 6,3.5', '0,6.5 6,6.5'] },
+  '&': { w: 6, strokes: ['6,10 1,3.5 1,1.5 2.5,0 3.5,0 5,1.5 5,3 0,6.5 0,8.5 1.5,10 3.5,10 6,6.5'] },
+  "'": { w: 1, strokes: ['0.5,0 0.5,2.5'] },
+  '"': { w: 2.5, strokes: ['0.25,0 0.25,2.5', '2.25,0 2.25,2.5'] },
+  '!': { w: 1, strokes: ['0.5,0 0.5,7', '0.5,9.7 0.5,10'] },
+  '?': { w: 6, strokes: ['0,1.5 1.5,0 4.5,0 6,1.5 6,3.5 3,5.5 3,7', '3,9.7 3,10'] },
+  '(': { w: 2.5, strokes: ['2.5,0 0.5,2 0.5,8 2.5,10'] },
+  ')': { w: 2.5, strokes: ['0,0 2,2 2,8 0,10'] },
+};
+
+// Latin letters NFD doesn't split into base + accent, spelled the way
+// they're usually written in capitals without the letter (Søren → SOREN)
+const LATIN_FOLDS: Record<string, string> = {
+  'Ø': 'O', 'Ł': 'L', 'Đ': 'D', 'Ð': 'D', 'Ħ': 'H', 'Ŧ': 'T',
+  'Æ': 'AE', 'Œ': 'OE', 'Þ': 'TH', 'ẞ': 'SS',
+};
+
+/**
+ * Text as the font draws it: capitals, accents dropped (É → E) and Latin
+ * letters without a glyph of their own spelled out (ß → SS, Ø → O)
+ */
+export function toFontText(text: string): string {
+  return text.toUpperCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x00-\x7f]/g, char => LATIN_FOLDS[char] ?? char);
+}
+
+/**
+ * Characters of a text the font can't draw even after toFontText, once each
+ * in order of appearance. Lettering with any of these would print a '?'.
+ */
+export function unsupportedCharacters(text: string): string[] {
+  const missing = new Set<string>();
+  for (const char of text) {
+    if ([...toFontText(char)].some(c => !GLYPHS[c])) missing.add(char);
+  }
+  return [...missing];
+}
+
+/** Glyph for a character of toFontText output; anything outside the font becomes '?' */
+export function getGlyph(char: string): Glyph {
+  return GLYPHS[char] || GLYPHS['?'];
+}
+
+/** Width of a line of text in font units, tracking included */
+export function measureText(text: string): number {
+  const chars = [...toFontText(text)];
+  return chars.reduce((sum, char) => sum + getGlyph(char).w, 0) + Math.max(0, chars.length - 1) * TRACKING;
+}
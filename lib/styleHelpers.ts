@@ -8,10 +8,18 @@ interface CarDetailsForStyle {
   backgroundColor?: string;
   view?: string;
   cyanotypeInverted?: boolean;
+  promptTemplate?: string; // vendor-defined style, resolved server-side from snap_custom_styles
 }
 
+/**
+ * Fill a custom style's prompt template. Placeholders: {color} (body color),
+ * {background} (canvas color) and {view}.
+ */
+export const renderPromptTemplate = (template: string, values: { color: string; background: string; view: string }): string =>
+  template.replace(/\{(color|background|view)\}/g, (_, key: keyof typeof values) => values[key]);
+
 export const getStyleInstruction = (details: CarDetailsForStyle): string => {
-  const { artStyle, color, backgroundColor, view, cyanotypeInverted } = details;
+  const { artStyle, color, backgroundColor, view, cyanotypeInverted, promptTemplate } = details;
   const bodyColor = color || '#003366';
   const canvasColor = backgroundColor || '#FFFFFF';
 
@@ -55,6 +63,13 @@ export const getStyleInstruction = (details: CarDetailsForStyle): string => {
     WINDOWS: Subtly translucent glass.
     WHEELS: Render with high precision and realistic depth.`;
 
+  // Custom styles keep the shared view, solidity and flat-canvas rules so
+  // their designs knock out and print like the built-in ones
+  if (promptTemplate) {
+    const style = renderPromptTemplate(promptTemplate, { color: bodyColor, background: canvasColor, view: view || '3/4 Front' });
+    return `STYLE: ${style} ${viewPrompt} ${detailingPrompt} ${canvasBackgroundPrompt}`;
+  }
+
   switch (artStyle) {
     case 'Vector':
       return `STYLE: Professional 2D flat minimalist illustration. COLOR: ${bodyColor}. Pure flat aesthetic. ${viewPrompt} ${detailingPrompt} ${canvasBackgroundPrompt}`;
@@ -1,15 +1,26 @@
 // SnapMerch Supabase Client
+// Requests carry the vendor's Clerk session token (Supabase third-party auth),
+// so row-level security scopes every query to the signed-in Clerk user.
+// Without a token the client acts as anon, which RLS denies table access.
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL || '';
 const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY || '';
 
 let _client: SupabaseClient | null = null;
+let _getToken: (() => Promise<string | null>) | null = null;
+
+/** Set how to fetch the current Clerk session token. Call from React when auth state changes. */
+export function setSupabaseTokenGetter(getToken: (() => Promise<string | null>) | null): void {
+  _getToken = getToken;
+}
 
 export function getSupabase(): SupabaseClient | null {
   if (!SUPABASE_URL || !SUPABASE_ANON_KEY) return null;
   if (!_client) {
-    _client = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
+    _client = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      accessToken: async () => (_getToken ? await _getToken() : null),
+    });
   }
   return _client;
 }
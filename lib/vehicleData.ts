@@ -0,0 +1,453 @@
+// lib/vehicleData.ts
+// Bundled vehicle taxonomy: makes with their aliases and market, models with
+// production years, body type and trims. Covers what shows up at car shows
+// and meets — classics, muscle, trucks, JDM, euro and exotics — not every
+// car ever sold; names outside it pass through vehicleTaxonomy.ts unchanged.
+// Canonical names are the manufacturer's own spelling.
+
+export type Market = 'us' | 'jdm' | 'euro' | 'korean';
+
+export type BodyType = 'car' | 'truck' | 'suv' | 'van';
+
+// [first year, last year]; no last year means still in production
+export type YearRange = [number, number?];
+
+export interface VehicleModel {
+  name: string;
+  years: YearRange[];
+  body: BodyType;
+  trims?: string[];
+  aliases?: string[];           // other spellings, e.g. 'F150', 'Miata'
+  sports?: boolean;             // sports / performance model in every trim
+  performanceTrims?: string[];  // trims that make an everyday model a performance car
+  lowrider?: boolean;           // a lowrider-culture favorite in its classic years
+}
+
+export interface VehicleMake {
+  name: string;
+  aliases?: string[];
+  market: Market;
+  exotic?: boolean;
+  models: VehicleModel[];
+}
+
+export const VEHICLE_MAKES: VehicleMake[] = [
+  // ── US ────────────────────────────────────────────────────────────────
+  {
+    name: 'Chevrolet', aliases: ['Chevy'], market: 'us', models: [
+      { name: 'Bel Air', years: [[1950, 1975]], body: 'car', trims: ['Standard', 'Sport Coupe', 'Convertible'], lowrider: true },
+      { name: 'Impala', years: [[1958, 1985], [1994, 1996], [2000, 2020]], body: 'car', trims: ['Sport Coupe', 'SS', 'LT', 'LTZ'], performanceTrims: ['SS'], lowrider: true },
+      { name: 'Caprice', years: [[1965, 1996]], body: 'car', trims: ['Classic', 'Classic Brougham', 'LS'], lowrider: true },
+      { name: 'Monte Carlo', years: [[1970, 1988], [1995, 2007]], body: 'car', trims: ['Standard', 'SS', 'Landau'], performanceTrims: ['SS'], lowrider: true },
+      { name: 'El Camino', years: [[1959, 1960], [1964, 1987]], body: 'truck', trims: ['Standard', 'SS', 'Conquista'], performanceTrims: ['SS'], lowrider: true },
+      { name: 'Chevelle', years: [[1964, 1977]], body: 'car', trims: ['Malibu', 'SS 396', 'SS 454'], performanceTrims: ['SS 396', 'SS 454'], lowrider: true },
+      { name: 'Nova', years: [[1962, 1979]], body: 'car', trims: ['Standard', 'SS', 'Custom'], performanceTrims: ['SS'] },
+      { name: 'Camaro', years: [[1967, 2002], [2010, 2024]], body: 'car', trims: ['Base', 'RS', 'SS', 'Z28', 'IROC-Z', 'ZL1', 'LT', '1LE'], sports: true },
+      { name: 'Corvette', years: [[1953]], body: 'car', trims: ['Stingray', 'Grand Sport', 'Z06', 'ZR1', 'E-Ray', 'Z51'], sports: true },
+      { name: 'C10', aliases: ['C-10'], years: [[1960, 1987]], body: 'truck', trims: ['Custom', 'Cheyenne', 'Silverado', 'Scottsdale'] },
+      { name: 'Silverado', years: [[1999]], body: 'truck', trims: ['WT', 'Custom', 'LT', 'RST', 'Trail Boss', 'LTZ', 'High Country', 'ZR2'] },
+      { name: 'Colorado', years: [[2004]], body: 'truck', trims: ['WT', 'LT', 'Z71', 'Trail Boss', 'ZR2'] },
+      { name: 'Blazer', years: [[1969, 2005], [2019]], body: 'suv', trims: ['K5', 'LT', 'RS', 'Premier'] },
+      { name: 'Tahoe', years: [[1995]], body: 'suv', trims: ['LS', 'LT', 'RST', 'Z71', 'Premier', 'High Country'] },
+      { name: 'Suburban', years: [[1935]], body: 'suv', trims: ['LS', 'LT', 'RST', 'Z71', 'Premier'] },
+      { name: 'Malibu', years: [[1964, 1983], [1997]], body: 'car', trims: ['LS', 'LT', 'RS', 'SS'] },
+    ],
+  },
+  {
+    name: 'Ford', market: 'us', models: [
+      { name: 'Model A', years: [[1927, 1931]], body: 'car', trims: ['Roadster', 'Coupe', 'Tudor'] },
+      { name: 'Thunderbird', years: [[1955, 1997], [2002, 2005]], body: 'car', trims: ['Base', 'Landau', 'Turbo Coupe', 'Super Coupe'] },
+      { name: 'Mustang', years: [[1964]], body: 'car', trims: ['EcoBoost', 'GT', 'Mach 1', 'Shelby GT350', 'Shelby GT500', 'Boss 302', 'Dark Horse', 'Fastback', 'Cobra', 'SVT Cobra'], sports: true },
+      { name: 'Falcon', years: [[1960, 1970]], body: 'car', trims: ['Standard', 'Futura', 'Sprint'] },
+      { name: 'Fairlane', years: [[1955, 1970]], body: 'car', trims: ['500', 'Crown Victoria', 'Thunderbolt'] },
+      { name: 'Torino', years: [[1968, 1976]], body: 'car', trims: ['GT', 'Cobra', 'Gran Torino'], performanceTrims: ['Cobra'] },
+      { name: 'Crown Victoria', years: [[1955, 1956], [1992, 2011]], body: 'car', trims: ['Standard', 'LX', 'Police Interceptor'], lowrider: true },
+      { name: 'GT', aliases: ['Ford GT'], years: [[2005, 2006], [2017, 2022]], body: 'car', trims: ['Base', 'Heritage Edition', 'Carbon Series'], sports: true },
+      { name: 'Bronco', years: [[1966, 1996], [2021]], body: 'suv', trims: ['Base', 'Big Bend', 'Badlands', 'Wildtrak', 'Raptor', 'Eddie Bauer'] },
+      { name: 'F-100', aliases: ['F100'], years: [[1953, 1983]], body: 'truck', trims: ['Custom', 'Ranger', 'Explorer'] },
+      { name: 'F-150', aliases: ['F150'], years: [[1975]], body: 'truck', trims: ['XL', 'XLT', 'Lariat', 'King Ranch', 'Platinum', 'Limited', 'Tremor', 'Raptor', 'Lightning', 'SVT Lightning'] },
+      { name: 'F-250', aliases: ['F250', 'F-250 Super Duty'], years: [[1953]], body: 'truck', trims: ['XL', 'XLT', 'Lariat', 'King Ranch', 'Platinum', 'Tremor'] },
+      { name: 'F-350', aliases: ['F350', 'F-350 Super Duty'], years: [[1953]], body: 'truck', trims: ['XL', 'XLT', 'Lariat', 'King Ranch', 'Platinum'] },
+      { name: 'Ranger', years: [[1983, 2012], [2019]], body: 'truck', trims: ['XL', 'XLT', 'Lariat', 'Raptor'] },
+      { name: 'Maverick', years: [[1970, 1977], [2022]], body: 'truck', trims: ['XL', 'XLT', 'Lariat', 'Tremor'] },
+    ],
+  },
+  {
+    name: 'Dodge', market: 'us', models: [
+      { name: 'Charger', years: [[1966, 1978], [1982, 1987], [2006]], body: 'car', trims: ['R/T', 'Daytona', 'SRT Hellcat', 'Scat Pack', 'GT', 'SXT'], sports: true },
+      { name: 'Challenger', years: [[1970, 1974], [2008, 2023]], body: 'car', trims: ['R/T', 'T/A', 'SRT Hellcat', 'SRT Demon', 'Scat Pack', 'GT', 'SXT'], sports: true },
+      { name: 'Dart', years: [[1960, 1976], [2013, 2016]], body: 'car', trims: ['GT', 'Swinger', 'Demon'] },
+      { name: 'Coronet', years: [[1949, 1976]], body: 'car', trims: ['440', '500', 'R/T', 'Super Bee'], performanceTrims: ['R/T', 'Super Bee'] },
+      { name: 'Viper', years: [[1992, 2017]], body: 'car', trims: ['RT/10', 'GTS', 'SRT-10', 'ACR'], sports: true },
+      { name: 'Ram', aliases: ['Ram 1500'], years: [[1981, 2010]], body: 'truck', trims: ['ST', 'SLT', 'Laramie', 'Sport', 'SRT-10'] },
+      { name: 'Durango', years: [[1998]], body: 'suv', trims: ['SXT', 'GT', 'R/T', 'SRT 392', 'SRT Hellcat'] },
+    ],
+  },
+  {
+    name: 'Ram', aliases: ['RAM Trucks'], market: 'us', models: [
+      { name: '1500', aliases: ['Ram 1500'], years: [[2011]], body: 'truck', trims: ['Tradesman', 'Big Horn', 'Laramie', 'Rebel', 'Limited', 'TRX'] },
+      { name: '2500', aliases: ['Ram 2500'], years: [[2011]], body: 'truck', trims: ['Tradesman', 'Big Horn', 'Laramie', 'Power Wagon', 'Limited'] },
+    ],
+  },
+  {
+    name: 'Plymouth', market: 'us', models: [
+      { name: 'Barracuda', aliases: ['Cuda', "'Cuda"], years: [[1964, 1974]], body: 'car', trims: ['Formula S', "'Cuda", 'AAR', 'Gran Coupe'], sports: true },
+      { name: 'Road Runner', years: [[1968, 1980]], body: 'car', trims: ['Base', 'Superbird', 'GTX'], sports: true },
+      { name: 'GTX', years: [[1967, 1971]], body: 'car', trims: ['Base', '440 Six Barrel'], sports: true },
+      { name: 'Fury', years: [[1956, 1978]], body: 'car', trims: ['Sport Fury', 'Gran Fury'] },
+      { name: 'Prowler', years: [[1997, 2002]], body: 'car', trims: ['Base'], sports: true },
+    ],
+  },
+  {
+    name: 'Pontiac', market: 'us', models: [
+      { name: 'GTO', years: [[1964, 1974], [2004, 2006]], body: 'car', trims: ['Base', 'The Judge'], sports: true },
+      { name: 'Firebird', aliases: ['Trans Am'], years: [[1967, 2002]], body: 'car', trims: ['Base', 'Formula', 'Trans Am', 'Esprit', 'Firehawk'], sports: true },
+      { name: 'Grand Prix', years: [[1962, 2008]], body: 'car', trims: ['Base', 'SJ', 'LJ', 'GTP', '2+2'], lowrider: true },
+      { name: 'Bonneville', years: [[1957, 2005]], body: 'car', trims: ['Base', 'Brougham', 'SSEi'], lowrider: true },
+      { name: 'Fiero', years: [[1984, 1988]], body: 'car', trims: ['Base', 'SE', 'GT', 'Formula'], sports: true },
+    ],
+  },
+  {
+    name: 'Buick', market: 'us', models: [
+      { name: 'Riviera', years: [[1963, 1999]], body: 'car', trims: ['Base', 'Gran Sport', 'Boattail'], lowrider: true },
+      { name: 'Skylark', years: [[1953, 1998]], body: 'car', trims: ['Custom', 'Gran Sport', 'GS 455'], lowrider: true },
+      { name: 'Regal', years: [[1973]], body: 'car', trims: ['Limited', 'T-Type', 'Grand National', 'GNX', 'GS'], performanceTrims: ['Grand National', 'GNX'], lowrider: true },
+      { name: 'LeSabre', years: [[1959, 2005]], body: 'car', trims: ['Custom', 'Limited'], lowrider: true },
+      { name: 'LaCrosse', years: [[2005, 2019]], body: 'car', trims: ['CX', 'CXL', 'CXS'], lowrider: true },
+      { name: 'Electra', years: [[1959, 1990]], body: 'car', trims: ['225', 'Park Avenue', 'Limited'], lowrider: true },
+    ],
+  },
+  {
+    name: 'Oldsmobile', aliases: ['Olds'], market: 'us', models: [
+      { name: 'Cutlass', aliases: ['Cutlass Supreme'], years: [[1961, 1999]], body: 'car', trims: ['Supreme', 'Salon', '442', 'Hurst/Olds'], performanceTrims: ['442', 'Hurst/Olds'], lowrider: true },
+      { name: '442', aliases: ['4-4-2'], years: [[1964, 1980]], body: 'car', trims: ['Base', 'W-30'], sports: true },
+      { name: 'Toronado', years: [[1966, 1992]], body: 'car', trims: ['Base', 'Brougham', 'Trofeo'] },
+      { name: 'Delta 88', years: [[1965, 1999]], body: 'car', trims: ['Royale', 'Royale Brougham'], lowrider: true },
+    ],
+  },
+  {
+    name: 'Cadillac', market: 'us', models: [
+      { name: 'DeVille', aliases: ['Coupe DeVille', 'Sedan DeVille'], years: [[1949, 2005]], body: 'car', trims: ['Coupe DeVille', 'Sedan DeVille', 'DTS', 'Concours'], lowrider: true },
+      { name: 'Fleetwood', years: [[1935, 1996]], body: 'car', trims: ['Brougham', 'Sixty Special', 'Limousine'], lowrider: true },
+      { name: 'Eldorado', years: [[1953, 2002]], body: 'car', trims: ['Biarritz', 'Touring Coupe', 'ETC'], lowrider: true },
+      { name: 'Escalade', years: [[1999]], body: 'suv', trims: ['Luxury', 'Premium Luxury', 'Sport', 'Platinum', 'V'] },
+      { name: 'CTS', years: [[2003, 2019]], body: 'car', trims: ['Base', 'Luxury', 'CTS-V'], performanceTrims: ['CTS-V'] },
+    ],
+  },
+  {
+    name: 'Lincoln', market: 'us', models: [
+      { name: 'Continental', years: [[1939, 2002], [2017, 2020]], body: 'car', trims: ['Mark IV', 'Mark V', 'Signature', 'Town Car'], lowrider: true },
+      { name: 'Town Car', years: [[1981, 2011]], body: 'car', trims: ['Signature', 'Cartier', 'Executive'], lowrider: true },
+      { name: 'Navigator', years: [[1998]], body: 'suv', trims: ['Base', 'Reserve', 'Black Label'] },
+    ],
+  },
+  {
+    name: 'Mercury', market: 'us', models: [
+      { name: 'Cougar', years: [[1967, 2002]], body: 'car', trims: ['XR-7', 'Eliminator'] },
+      { name: 'Grand Marquis', years: [[1975, 2011]], body: 'car', trims: ['GS', 'LS', 'Marauder'], lowrider: true },
+    ],
+  },
+  {
+    name: 'GMC', market: 'us', models: [
+      { name: 'Sierra', years: [[1987]], body: 'truck', trims: ['Pro', 'SLE', 'Elevation', 'SLT', 'AT4', 'Denali'] },
+      { name: 'Canyon', years: [[2004]], body: 'truck', trims: ['Elevation', 'AT4', 'AT4X', 'Denali'] },
+      { name: 'Syclone', years: [[1991]], body: 'truck', trims: ['Base'], sports: true },
+      { name: 'Yukon', years: [[1992]], body: 'suv', trims: ['SLE', 'SLT', 'AT4', 'Denali'] },
+    ],
+  },
+  {
+    name: 'Jeep', market: 'us', models: [
+      { name: 'Wrangler', years: [[1987]], body: 'suv', trims: ['Sport', 'Sahara', 'Rubicon', 'Rubicon 392'] },
+      { name: 'CJ', aliases: ['CJ-5', 'CJ-7'], years: [[1945, 1986]], body: 'suv', trims: ['CJ-5', 'CJ-7', 'CJ-8 Scrambler'] },
+      { name: 'Gladiator', years: [[1962, 1988], [2020]], body: 'truck', trims: ['Sport', 'Overland', 'Rubicon', 'Mojave'] },
+      { name: 'Grand Cherokee', years: [[1993]], body: 'suv', trims: ['Laredo', 'Limited', 'Overland', 'Summit', 'SRT', 'Trackhawk'] },
+    ],
+  },
+  {
+    name: 'Tesla', market: 'us', models: [
+      { name: 'Model S', years: [[2012]], body: 'car', trims: ['Long Range', 'Plaid'], performanceTrims: ['Plaid'] },
+      { name: 'Model 3', years: [[2017]], body: 'car', trims: ['Standard Range', 'Long Range', 'Performance'], performanceTrims: ['Performance'] },
+      { name: 'Cybertruck', years: [[2023]], body: 'truck', trims: ['AWD', 'Cyberbeast'] },
+    ],
+  },
+  {
+    name: 'Shelby', market: 'us', models: [
+      { name: 'Cobra', years: [[1962, 1967]], body: 'car', trims: ['260', '289', '427'], sports: true },
+    ],
+  },
+
+  // ── Japan ─────────────────────────────────────────────────────────────
+  {
+    name: 'Toyota', market: 'jdm', models: [
+      { name: 'Supra', years: [[1979, 2002], [2019]], body: 'car', trims: ['Base', 'Turbo', 'GR Supra 2.0', 'GR Supra 3.0', 'A91'], sports: true },
+      { name: 'Celica', years: [[1970, 2006]], body: 'car', trims: ['GT', 'GT-S', 'GT-Four', 'All-Trac'] },
+      { name: 'Corolla', years: [[1966]], body: 'car', trims: ['L', 'LE', 'SE', 'XSE', 'GR Corolla'], performanceTrims: ['GR Corolla'] },
+      { name: 'AE86', aliases: ['Corolla AE86', 'Sprinter Trueno', 'Corolla Levin'], years: [[1983, 1987]], body: 'car', trims: ['SR5', 'GT-S', 'Trueno', 'Levin'], sports: true },
+      { name: 'MR2', years: [[1984, 2007]], body: 'car', trims: ['Base', 'Turbo', 'Spyder'], sports: true },
+      { name: 'GR86', aliases: ['86', 'GT86', 'FR-S'], years: [[2012]], body: 'car', trims: ['Base', 'Premium', 'TRD'], sports: true },
+      { name: 'Land Cruiser', years: [[1951]], body: 'suv', trims: ['FJ40', 'FJ60', 'FJ80', '100 Series', '200 Series', '1958', 'First Edition'] },
+      { name: '4Runner', years: [[1984]], body: 'suv', trims: ['SR5', 'TRD Off-Road', 'TRD Pro', 'Limited'] },
+      { name: 'Tacoma', years: [[1995]], body: 'truck', trims: ['SR', 'SR5', 'TRD Sport', 'TRD Off-Road', 'TRD Pro', 'Limited'] },
+      { name: 'Tundra', years: [[2000]], body: 'truck', trims: ['SR', 'SR5', 'Limited', 'Platinum', '1794 Edition', 'TRD Pro', 'Capstone'] },
+      { name: 'Hilux', aliases: ['Pickup', 'Hi-Lux'], years: [[1968]], body: 'truck', trims: ['SR5', 'Xtracab', '4x4'] },
+      { name: 'Cressida', years: [[1976, 1992]], body: 'car', trims: ['Base', 'Luxury'] },
+    ],
+  },
+  {
+    name: 'Nissan', market: 'jdm', models: [
+      { name: 'GT-R', aliases: ['GTR', 'Skyline GT-R'], years: [[2007]], body: 'car', trims: ['Premium', 'Track Edition', 'NISMO'], sports: true },
+      { name: 'Skyline', years: [[1957]], body: 'car', trims: ['GT-R', 'GTS-T', 'GT-T', '2000GT'], performanceTrims: ['GT-R', 'GTS-T', 'GT-T'] },
+      { name: 'Silvia', aliases: ['240SX', 'S13', 'S14', 'S15', '180SX'], years: [[1965, 2002]], body: 'car', trims: ['K\'s', 'Spec-R', 'Spec-S', 'SE', 'LE'], sports: true },
+      { name: '350Z', years: [[2003, 2009]], body: 'car', trims: ['Base', 'Enthusiast', 'Track', 'NISMO'], sports: true },
+      { name: '370Z', years: [[2009, 2020]], body: 'car', trims: ['Base', 'Sport', 'NISMO'], sports: true },
+      { name: 'Z', aliases: ['400Z'], years: [[2023]], body: 'car', trims: ['Sport', 'Performance', 'NISMO'], sports: true },
+      { name: '300ZX', years: [[1984, 1996]], body: 'car', trims: ['Base', 'Turbo', '2+2'], sports: true },
+      { name: 'Titan', years: [[2004, 2024]], body: 'truck', trims: ['S', 'SV', 'PRO-4X', 'Platinum Reserve'] },
+      { name: 'Frontier', years: [[1998]], body: 'truck', trims: ['S', 'SV', 'PRO-4X'] },
+    ],
+  },
+  {
+    name: 'Datsun', market: 'jdm', models: [
+      { name: '240Z', aliases: ['Fairlady Z'], years: [[1969, 1973]], body: 'car', trims: ['Base', 'HLS30'], sports: true },
+      { name: '280Z', years: [[1975, 1978]], body: 'car', trims: ['Base', '2+2'], sports: true },
+      { name: '510', aliases: ['Bluebird'], years: [[1968, 1973]], body: 'car', trims: ['Sedan', 'Wagon', 'SSS'] },
+      { name: '620', years: [[1972, 1979]], body: 'truck', trims: ['Standard', 'King Cab'] },
+    ],
+  },
+  {
+    name: 'Honda', market: 'jdm', models: [
+      { name: 'Civic', years: [[1972]], body: 'car', trims: ['LX', 'EX', 'Sport', 'Si', 'Type R', 'CRX', 'del Sol'], performanceTrims: ['Si', 'Type R'] },
+      { name: 'Integra', years: [[1985, 2006], [2023]], body: 'car', trims: ['LS', 'GS-R', 'Type R', 'A-Spec', 'Type S'], performanceTrims: ['GS-R', 'Type R', 'Type S'] },
+      { name: 'Accord', years: [[1976]], body: 'car', trims: ['LX', 'EX', 'Sport', 'Touring'] },
+      { name: 'Prelude', years: [[1978, 2001], [2025]], body: 'car', trims: ['Si', 'SH', 'Type SH'], sports: true },
+      { name: 'S2000', years: [[1999, 2009]], body: 'car', trims: ['Base', 'CR'], sports: true },
+      { name: 'NSX', years: [[1990, 2005], [2016, 2022]], body: 'car', trims: ['Base', 'Type R', 'Type S'], sports: true },
+      { name: 'Ridgeline', years: [[2005]], body: 'truck', trims: ['Sport', 'RTL', 'TrailSport', 'Black Edition'] },
+    ],
+  },
+  {
+    name: 'Acura', market: 'jdm', models: [
+      { name: 'NSX', years: [[1990, 2005], [2016, 2022]], body: 'car', trims: ['Base', 'Type S'], sports: true },
+      { name: 'Integra', years: [[1986, 2001], [2023]], body: 'car', trims: ['LS', 'GS', 'GS-R', 'Type R', 'A-Spec', 'Type S'], performanceTrims: ['GS-R', 'Type R', 'Type S'] },
+      { name: 'RSX', years: [[2002, 2006]], body: 'car', trims: ['Base', 'Type-S'], performanceTrims: ['Type-S'] },
+      { name: 'TSX', years: [[2004, 2014]], body: 'car', trims: ['Base', 'Special Edition'] },
+    ],
+  },
+  {
+    name: 'Mazda', market: 'jdm', models: [
+      { name: 'RX-7', aliases: ['RX7', 'Savanna RX-7'], years: [[1978, 2002]], body: 'car', trims: ['GSL', 'GSL-SE', 'Turbo II', 'R1', 'Spirit R'], sports: true },
+      { name: 'RX-8', aliases: ['RX8'], years: [[2003, 2012]], body: 'car', trims: ['Base', 'Sport', 'Grand Touring', 'R3'], sports: true },
+      { name: 'MX-5 Miata', aliases: ['Miata', 'MX-5', 'MX5', 'Eunos Roadster'], years: [[1989]], body: 'car', trims: ['Sport', 'Club', 'Grand Touring', 'RF'], sports: true },
+      { name: 'Mazdaspeed3', aliases: ['Mazdaspeed 3'], years: [[2007, 2013]], body: 'car', trims: ['Sport', 'Touring', 'Grand Touring'], sports: true },
+      { name: 'Cosmo', years: [[1967, 1995]], body: 'car', trims: ['Sport', 'Eunos Cosmo'], sports: true },
+    ],
+  },
+  {
+    name: 'Subaru', market: 'jdm', models: [
+      { name: 'WRX', aliases: ['Impreza WRX'], years: [[2002]], body: 'car', trims: ['Base', 'Premium', 'Limited', 'STI', 'GT', 'tS'], sports: true },
+      { name: 'Impreza', years: [[1993]], body: 'car', trims: ['2.5RS', 'Outback Sport', 'Sport', 'WRX', 'WRX STI'], performanceTrims: ['2.5RS', 'WRX', 'WRX STI'] },
+      { name: 'BRZ', years: [[2013]], body: 'car', trims: ['Premium', 'Limited', 'tS'], sports: true },
+      { name: 'Outback', years: [[1995]], body: 'car', trims: ['Base', 'Premium', 'Limited', 'Wilderness', 'XT'] },
+      { name: 'Brat', years: [[1978, 1994]], body: 'truck', trims: ['DL', 'GL'] },
+    ],
+  },
+  {
+    name: 'Mitsubishi', market: 'jdm', models: [
+      { name: 'Lancer Evolution', aliases: ['Evo', 'Lancer Evo', 'Evolution'], years: [[1992, 2016]], body: 'car', trims: ['GSR', 'RS', 'MR', 'Final Edition'], sports: true },
+      { name: 'Eclipse', years: [[1989, 2012]], body: 'car', trims: ['RS', 'GS', 'GS-T', 'GSX', 'GT'], performanceTrims: ['GS-T', 'GSX'] },
+      { name: '3000GT', aliases: ['GTO'], years: [[1990, 2000]], body: 'car', trims: ['Base', 'SL', 'VR-4'], sports: true },
+      { name: 'Montero', aliases: ['Pajero'], years: [[1982, 2006]], body: 'suv', trims: ['LS', 'XLS', 'Limited'] },
+    ],
+  },
+  {
+    name: 'Lexus', market: 'jdm', models: [
+      { name: 'IS', years: [[1999]], body: 'car', trims: ['IS 300', 'IS 350', 'IS 500 F Sport', 'IS F'], performanceTrims: ['IS 500 F Sport', 'IS F'] },
+      { name: 'LFA', years: [[2010, 2012]], body: 'car', trims: ['Base', 'Nürburgring Package'], sports: true },
+      { name: 'RC F', aliases: ['RCF'], years: [[2015]], body: 'car', trims: ['Base', 'Track Edition'], sports: true },
+      { name: 'SC', aliases: ['SC300', 'SC400', 'SC430'], years: [[1991, 2010]], body: 'car', trims: ['SC 300', 'SC 400', 'SC 430'] },
+      { name: 'LX', years: [[1996]], body: 'suv', trims: ['LX 450', 'LX 470', 'LX 570', 'LX 600'] },
+    ],
+  },
+  {
+    name: 'Infiniti', market: 'jdm', models: [
+      { name: 'G35', years: [[2003, 2008]], body: 'car', trims: ['Base', 'Sport', 'x'] },
+      { name: 'G37', years: [[2008, 2013]], body: 'car', trims: ['Journey', 'Sport', 'IPL'] },
+      { name: 'Q60', years: [[2014, 2022]], body: 'car', trims: ['Pure', 'Luxe', 'Red Sport 400'], performanceTrims: ['Red Sport 400'] },
+    ],
+  },
+  {
+    name: 'Suzuki', market: 'jdm', models: [
+      { name: 'Samurai', aliases: ['Jimny', 'SJ413'], years: [[1985, 1995]], body: 'suv', trims: ['JL', 'JX'] },
+      { name: 'Swift', years: [[1983]], body: 'car', trims: ['GT', 'GTi', 'Sport'], performanceTrims: ['GTi', 'Sport'] },
+    ],
+  },
+
+  // ── Europe ────────────────────────────────────────────────────────────
+  {
+    name: 'Porsche', market: 'euro', exotic: true, models: [
+      { name: '911', aliases: ['Carrera'], years: [[1964]], body: 'car', trims: ['Carrera', 'Carrera S', 'Targa', 'Turbo', 'Turbo S', 'GT3', 'GT3 RS', 'GT2 RS', 'Dakar', 'S/T'], sports: true },
+      { name: '356', years: [[1948, 1965]], body: 'car', trims: ['Coupe', 'Speedster', 'Cabriolet'], sports: true },
+      { name: '718 Cayman', aliases: ['Cayman'], years: [[2005]], body: 'car', trims: ['Base', 'S', 'GTS', 'GT4', 'GT4 RS'], sports: true },
+      { name: '718 Boxster', aliases: ['Boxster'], years: [[1996]], body: 'car', trims: ['Base', 'S', 'GTS', 'Spyder'], sports: true },
+      { name: '944', years: [[1982, 1991]], body: 'car', trims: ['Base', 'S', 'S2', 'Turbo'], sports: true },
+      { name: 'Panamera', years: [[2009]], body: 'car', trims: ['Base', '4S', 'GTS', 'Turbo', 'Turbo S E-Hybrid'], sports: true },
+      { name: 'Taycan', years: [[2020]], body: 'car', trims: ['Base', '4S', 'GTS', 'Turbo', 'Turbo S'], sports: true },
+      { name: 'Cayenne', years: [[2003]], body: 'suv', trims: ['Base', 'S', 'GTS', 'Turbo', 'Turbo GT'] },
+    ],
+  },
+  {
+    name: 'Ferrari', market: 'euro', exotic: true, models: [
+      { name: 'Testarossa', years: [[1984, 1996]], body: 'car', trims: ['Base', '512 TR', 'F512 M'], sports: true },
+      { name: 'F40', years: [[1987, 1992]], body: 'car', trims: ['Base'], sports: true },
+      { name: '458 Italia', aliases: ['458'], years: [[2010, 2015]], body: 'car', trims: ['Italia', 'Spider', 'Speciale'], sports: true },
+      { name: '488', years: [[2015, 2019]], body: 'car', trims: ['GTB', 'Spider', 'Pista'], sports: true },
+      { name: 'F8 Tributo', aliases: ['F8'], years: [[2019, 2023]], body: 'car', trims: ['Tributo', 'Spider'], sports: true },
+      { name: '296', years: [[2022]], body: 'car', trims: ['GTB', 'GTS'], sports: true },
+      { name: 'SF90', years: [[2020]], body: 'car', trims: ['Stradale', 'Spider', 'XX'], sports: true },
+      { name: 'Roma', years: [[2020]], body: 'car', trims: ['Base', 'Spider'], sports: true },
+    ],
+  },
+  {
+    name: 'Lamborghini', aliases: ['Lambo'], market: 'euro', exotic: true, models: [
+      { name: 'Countach', years: [[1974, 1990], [2022]], body: 'car', trims: ['LP400', 'LP500 S', '25th Anniversary', 'LPI 800-4'], sports: true },
+      { name: 'Diablo', years: [[1990, 2001]], body: 'car', trims: ['Base', 'VT', 'SV', 'GT'], sports: true },
+      { name: 'Gallardo', years: [[2003, 2013]], body: 'car', trims: ['Base', 'Spyder', 'LP560-4', 'Superleggera'], sports: true },
+      { name: 'Huracán', aliases: ['Huracan'], years: [[2014, 2024]], body: 'car', trims: ['EVO', 'STO', 'Tecnica', 'Sterrato', 'Performante'], sports: true },
+      { name: 'Aventador', years: [[2011, 2022]], body: 'car', trims: ['S', 'SVJ', 'Ultimae'], sports: true },
+      { name: 'Urus', years: [[2018]], body: 'suv', trims: ['Base', 'S', 'Performante'] },
+    ],
+  },
+  {
+    name: 'McLaren', market: 'euro', exotic: true, models: [
+      { name: 'F1', years: [[1992, 1998]], body: 'car', trims: ['Base', 'LM', 'GT'], sports: true },
+      { name: '720S', years: [[2017, 2023]], body: 'car', trims: ['Base', 'Spider'], sports: true },
+      { name: '570S', years: [[2015, 2021]], body: 'car', trims: ['Coupe', 'Spider', 'GT'], sports: true },
+      { name: 'P1', years: [[2013, 2015]], body: 'car', trims: ['Base'], sports: true },
+      { name: 'Artura', years: [[2022]], body: 'car', trims: ['Base', 'Spider'], sports: true },
+    ],
+  },
+  {
+    name: 'Aston Martin', market: 'euro', exotic: true, models: [
+      { name: 'DB5', years: [[1963, 1965]], body: 'car', trims: ['Base', 'Vantage', 'Convertible'], sports: true },
+      { name: 'DB11', years: [[2016, 2023]], body: 'car', trims: ['V8', 'V12', 'AMR', 'Volante'], sports: true },
+      { name: 'Vantage', years: [[2005]], body: 'car', trims: ['V8', 'V12', 'F1 Edition', 'Roadster'], sports: true },
+    ],
+  },
+  {
+    name: 'Lotus', market: 'euro', exotic: true, models: [
+      { name: 'Elise', years: [[1996, 2021]], body: 'car', trims: ['Base', 'S', 'SC', 'Cup 250'], sports: true },
+      { name: 'Exige', years: [[2000, 2021]], body: 'car', trims: ['S', 'Cup 430'], sports: true },
+      { name: 'Esprit', years: [[1976, 2004]], body: 'car', trims: ['S1', 'Turbo', 'V8'], sports: true },
+      { name: 'Emira', years: [[2022]], body: 'car', trims: ['V6', 'i4'], sports: true },
+    ],
+  },
+  {
+    name: 'Maserati', market: 'euro', exotic: true, models: [
+      { name: 'GranTurismo', years: [[2007]], body: 'car', trims: ['Modena', 'Trofeo', 'Folgore', 'MC Stradale'], sports: true },
+      { name: 'MC20', years: [[2021]], body: 'car', trims: ['Base', 'Cielo'], sports: true },
+      { name: 'Ghibli', years: [[1967, 1973], [2013, 2024]], body: 'car', trims: ['Base', 'Modena', 'Trofeo'] },
+    ],
+  },
+  {
+    name: 'Bugatti', market: 'euro', exotic: true, models: [
+      { name: 'Veyron', years: [[2005, 2015]], body: 'car', trims: ['16.4', 'Super Sport', 'Grand Sport'], sports: true },
+      { name: 'Chiron', years: [[2016, 2024]], body: 'car', trims: ['Base', 'Sport', 'Pur Sport', 'Super Sport'], sports: true },
+    ],
+  },
+  {
+    name: 'Koenigsegg', market: 'euro', exotic: true, models: [
+      { name: 'Agera', years: [[2010, 2018]], body: 'car', trims: ['R', 'RS', 'One:1'], sports: true },
+      { name: 'Jesko', years: [[2021]], body: 'car', trims: ['Attack', 'Absolut'], sports: true },
+    ],
+  },
+  {
+    name: 'Pagani', market: 'euro', exotic: true, models: [
+      { name: 'Zonda', years: [[1999, 2019]], body: 'car', trims: ['C12', 'F', 'Cinque', 'R'], sports: true },
+      { name: 'Huayra', years: [[2012]], body: 'car', trims: ['Base', 'BC', 'Roadster'], sports: true },
+    ],
+  },
+  {
+    name: 'BMW', market: 'euro', models: [
+      { name: '2002', years: [[1968, 1976]], body: 'car', trims: ['Base', 'ti', 'tii', 'Turbo'] },
+      { name: '3 Series', years: [[1975]], body: 'car', trims: ['318i', '325i', '328i', '330i', '335i', 'M340i'], performanceTrims: ['M340i'] },
+      { name: 'M3', years: [[1986]], body: 'car', trims: ['E30', 'E36', 'E46', 'E92', 'Competition', 'CS'], sports: true },
+      { name: 'M4', years: [[2014]], body: 'car', trims: ['Base', 'Competition', 'CSL', 'CS'], sports: true },
+      { name: 'M5', years: [[1985]], body: 'car', trims: ['Base', 'Competition', 'CS'], sports: true },
+      { name: 'M2', years: [[2016]], body: 'car', trims: ['Base', 'Competition', 'CS'], sports: true },
+      { name: 'Z4', years: [[2002]], body: 'car', trims: ['sDrive30i', 'M40i', 'M Roadster'], sports: true },
+      { name: 'X5', years: [[1999]], body: 'suv', trims: ['xDrive40i', 'xDrive50e', 'M60i', 'X5 M'] },
+    ],
+  },
+  {
+    name: 'Mercedes-Benz', aliases: ['Mercedes', 'Benz', 'Mercedes-AMG', 'MB'], market: 'euro', models: [
+      { name: 'SL', aliases: ['SL-Class', '300SL', '190SL', 'SL500', 'SL55 AMG'], years: [[1954]], body: 'car', trims: ['300 SL Gullwing', '190 SL', '280 SL Pagoda', '560 SL', 'SL 500', 'SL 55 AMG', 'SL 63 AMG'], performanceTrims: ['SL 55 AMG', 'SL 63 AMG'] },
+      { name: 'C-Class', aliases: ['C Class'], years: [[1993]], body: 'car', trims: ['C 300', 'C 43 AMG', 'C 63 AMG'], performanceTrims: ['C 43 AMG', 'C 63 AMG'] },
+      { name: 'E-Class', aliases: ['E Class'], years: [[1993]], body: 'car', trims: ['E 350', 'E 450', 'E 53 AMG', 'E 63 AMG'], performanceTrims: ['E 53 AMG', 'E 63 AMG'] },
+      { name: 'G-Class', aliases: ['G Wagon', 'G-Wagen', 'G Class'], years: [[1979]], body: 'suv', trims: ['G 550', 'G 63 AMG'] },
+      { name: 'AMG GT', years: [[2015]], body: 'car', trims: ['Base', 'S', 'C', 'R', 'Black Series'], sports: true },
+      { name: 'SLS AMG', years: [[2010, 2015]], body: 'car', trims: ['Base', 'Roadster', 'GT', 'Black Series'], sports: true },
+      { name: '190E', aliases: ['190 E'], years: [[1982, 1993]], body: 'car', trims: ['2.3', '2.3-16', '2.5-16 Evolution II'], performanceTrims: ['2.3-16', '2.5-16 Evolution II'] },
+    ],
+  },
+  {
+    name: 'Audi', market: 'euro', models: [
+      { name: 'Quattro', aliases: ['Ur-Quattro'], years: [[1980, 1991]], body: 'car', trims: ['Base', 'Sport Quattro'], sports: true },
+      { name: 'A4', years: [[1994]], body: 'car', trims: ['Premium', 'Premium Plus', 'Prestige'] },
+      { name: 'S4', years: [[1991]], body: 'car', trims: ['Premium Plus', 'Prestige'], sports: true },
+      { name: 'RS 3', aliases: ['RS3'], years: [[2011]], body: 'car', trims: ['Base', 'Performance Edition'], sports: true },
+      { name: 'RS 5', aliases: ['RS5'], years: [[2010]], body: 'car', trims: ['Coupe', 'Sportback'], sports: true },
+      { name: 'RS 6', aliases: ['RS6', 'RS 6 Avant'], years: [[2002]], body: 'car', trims: ['Avant', 'Performance'], sports: true },
+      { name: 'RS 7', aliases: ['RS7'], years: [[2013]], body: 'car', trims: ['Base', 'Performance'], sports: true },
+      { name: 'R8', years: [[2007, 2024]], body: 'car', trims: ['V8', 'V10', 'V10 Plus', 'V10 Performance', 'GT'], sports: true },
+      { name: 'TT', years: [[1998, 2023]], body: 'car', trims: ['Base', 'TTS', 'TT RS'], performanceTrims: ['TTS', 'TT RS'] },
+    ],
+  },
+  {
+    name: 'Volkswagen', aliases: ['VW'], market: 'euro', models: [
+      { name: 'Beetle', aliases: ['Bug', 'Type 1', 'Käfer'], years: [[1938, 2003], [2012, 2019]], body: 'car', trims: ['Standard', 'Super Beetle', 'Convertible'] },
+      { name: 'Bus', aliases: ['Type 2', 'Microbus', 'Kombi', 'Transporter'], years: [[1950, 2003]], body: 'van', trims: ['Microbus', 'Samba', 'Westfalia', 'Vanagon'] },
+      { name: 'Golf', aliases: ['Rabbit'], years: [[1974]], body: 'car', trims: ['Base', 'GTI', 'R', 'R32'], performanceTrims: ['GTI', 'R', 'R32'] },
+      { name: 'GTI', aliases: ['Golf GTI'], years: [[1983]], body: 'car', trims: ['S', 'SE', 'Autobahn', 'Clubsport'], sports: true },
+      { name: 'Karmann Ghia', years: [[1955, 1974]], body: 'car', trims: ['Coupe', 'Convertible'] },
+    ],
+  },
+  {
+    name: 'Land Rover', market: 'euro', models: [
+      { name: 'Defender', years: [[1983, 2016], [2020]], body: 'suv', trims: ['90', '110', '130', 'V8'] },
+      { name: 'Range Rover', years: [[1970]], body: 'suv', trims: ['Classic', 'SE', 'Autobiography', 'SV', 'Sport'] },
+    ],
+  },
+  {
+    name: 'Jaguar', market: 'euro', models: [
+      { name: 'E-Type', aliases: ['XKE', 'E Type'], years: [[1961, 1975]], body: 'car', trims: ['Series 1', 'Series 2', 'Series 3', 'Roadster', 'Coupe'], sports: true },
+      { name: 'F-Type', aliases: ['F Type'], years: [[2014, 2024]], body: 'car', trims: ['Base', 'R-Dynamic', 'R', 'SVR'], sports: true },
+      { name: 'XJ', years: [[1968, 2019]], body: 'car', trims: ['XJ6', 'XJ12', 'XJR', 'Vanden Plas'] },
+    ],
+  },
+  {
+    name: 'MINI', aliases: ['Mini Cooper', 'Austin Mini'], market: 'euro', models: [
+      { name: 'Cooper', aliases: ['Mini'], years: [[1959]], body: 'car', trims: ['Classic', 'S', 'John Cooper Works'], performanceTrims: ['John Cooper Works'] },
+    ],
+  },
+  {
+    name: 'Alfa Romeo', aliases: ['Alfa'], market: 'euro', models: [
+      { name: 'Giulia', years: [[1962, 1978], [2016]], body: 'car', trims: ['Sprint GT', 'Ti', 'Quadrifoglio'], performanceTrims: ['Quadrifoglio'] },
+      { name: 'Spider', aliases: ['Duetto'], years: [[1966, 1994]], body: 'car', trims: ['Duetto', 'Veloce', 'Graduate'], sports: true },
+    ],
+  },
+
+  // ── Korea ─────────────────────────────────────────────────────────────
+  {
+    name: 'Hyundai', market: 'korean', models: [
+      { name: 'Elantra', years: [[1990]], body: 'car', trims: ['SE', 'SEL', 'N Line', 'N'], performanceTrims: ['N'] },
+      { name: 'Veloster', years: [[2011, 2022]], body: 'car', trims: ['Base', 'Turbo', 'N'], performanceTrims: ['N'] },
+      { name: 'Ioniq 5', years: [[2022]], body: 'suv', trims: ['SE', 'SEL', 'Limited', 'N'] },
+    ],
+  },
+  {
+    name: 'Kia', market: 'korean', models: [
+      { name: 'Stinger', years: [[2018, 2023]], body: 'car', trims: ['GT-Line', 'GT', 'GT2'], sports: true },
+      { name: 'EV6', years: [[2022]], body: 'suv', trims: ['Light', 'Wind', 'GT-Line', 'GT'] },
+    ],
+  },
+];
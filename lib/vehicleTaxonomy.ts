@@ -0,0 +1,141 @@
+// lib/vehicleTaxonomy.ts
+// Lookups over the bundled vehicle taxonomy (vehicleData.ts). Normalizes
+// free-text identities ('chevy camaro ss' → Chevrolet / Camaro / SS), feeds the
+// identity editor's autocomplete and tells style ranking what kind of car it
+// is. Names that aren't in the taxonomy are kept as given.
+
+import type { CarIdentity } from '../types.js';
+import { VEHICLE_MAKES, type BodyType, type Market, type VehicleMake, type VehicleModel } from './vehicleData.js';
+
+export interface VehicleTraits {
+  market?: Market;   // unset when the make isn't in the taxonomy
+  body?: BodyType;   // unset when the model isn't
+  exotic: boolean;
+  sports: boolean;   // a sports model, or an everyday model in a performance trim
+  lowrider: boolean; // a lowrider-culture favorite (any year — callers check the era)
+}
+
+// Case, accent, space and punctuation insensitive: 'F-150' = 'f150', 'Huracán' = 'huracan'
+const toKey = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const makeIndex = new Map<string, VehicleMake>();
+for (const make of VEHICLE_MAKES) {
+  for (const name of [make.name, ...(make.aliases || [])]) makeIndex.set(toKey(name), make);
+}
+
+const modelIndexes = new Map<VehicleMake, Map<string, VehicleModel>>();
+function modelIndex(make: VehicleMake): Map<string, VehicleModel> {
+  let index = modelIndexes.get(make);
+  if (!index) {
+    index = new Map();
+    for (const model of make.models) {
+      for (const name of [model.name, ...(model.aliases || [])]) {
+        const key = toKey(name);
+        if (!index.has(key)) index.set(key, model);
+      }
+    }
+    modelIndexes.set(make, index);
+  }
+  return index;
+}
+
+function parseYear(year: string | undefined): number | null {
+  const parsed = parseInt(year || '', 10);
+  return parsed >= 1880 && parsed <= 2100 ? parsed : null;
+}
+
+function builtIn(model: VehicleModel, year: number | null): boolean {
+  return year === null || model.years.some(([from, to]) => year >= from && year <= (to ?? Infinity));
+}
+
+function findMake(make: string): VehicleMake | undefined {
+  return makeIndex.get(toKey(make));
+}
+
+// Match a model from the start of the text; the words after it are usually the
+// trim ('Mustang Shelby GT500'). A repeated make ('Chevy Camaro') is skipped.
+function findModel(make: VehicleMake, text: string): { model: VehicleModel; rest: string } | undefined {
+  const index = modelIndex(make);
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  const makeKeys = new Set([make.name, ...(make.aliases || [])].map(toKey));
+  // Longest make prefix first, so 'Mini Cooper S' reads as make + Cooper + S
+  for (let skip = Math.min(2, words.length - 1); skip >= 0; skip--) {
+    if (skip > 0 && !makeKeys.has(toKey(words.slice(0, skip).join(' ')))) continue;
+    for (let end = words.length; end > skip; end--) {
+      const model = index.get(toKey(words.slice(skip, end).join(' ')));
+      if (model) return { model, rest: words.slice(end).join(' ') };
+    }
+  }
+  return undefined;
+}
+
+function canonicalTrim(model: VehicleModel, trim: string): string {
+  const key = toKey(trim);
+  return model.trims?.find(t => toKey(t) === key) || trim;
+}
+
+/**
+ * The identity with make, model and trim in their canonical spelling. Unknown
+ * names are only trimmed of whitespace; year and color are untouched.
+ */
+export function normalizeIdentity<T extends CarIdentity>(identity: T): T {
+  const make = findMake(identity.make || '');
+  if (!make) {
+    return { ...identity, make: (identity.make || '').trim(), model: (identity.model || '').trim(), trim: (identity.trim || '').trim() };
+  }
+  const found = findModel(make, identity.model || '');
+  if (!found) {
+    return { ...identity, make: make.name, model: (identity.model || '').trim(), trim: (identity.trim || '').trim() };
+  }
+  // Words left over from the model field lead the trim ('Mustang GT' + 'Premium' → 'GT Premium')
+  const trim = [found.rest, identity.trim || ''].map(t => t.trim()).filter(Boolean).join(' ');
+  return { ...identity, make: make.name, model: found.model.name, trim: canonicalTrim(found.model, trim) };
+}
+
+/** Canonical spelling of a make ('chevy' → 'Chevrolet'), or undefined when it isn't listed */
+export function canonicalMake(make: string): string | undefined {
+  return findMake(make)?.name;
+}
+
+/** What the taxonomy knows about the car; all flags false when it isn't listed */
+export function getVehicleTraits(identity: CarIdentity): VehicleTraits {
+  const make = findMake(identity.make || '');
+  if (!make) return { exotic: false, sports: false, lowrider: false };
+  const found = findModel(make, identity.model || '');
+  if (!found) return { market: make.market, exotic: !!make.exotic, sports: false, lowrider: false };
+
+  const { model, rest } = found;
+  const trimKey = toKey([rest, identity.trim || ''].join(' '));
+  const performanceTrim = !!trimKey && !!model.performanceTrims?.some(t => toKey(t) === trimKey);
+  return {
+    market: make.market,
+    body: model.body,
+    exotic: !!make.exotic,
+    sports: !!model.sports || performanceTrim,
+    lowrider: !!model.lowrider,
+  };
+}
+
+/** Make names for autocomplete, limited to makes with a model built in the year if one is given */
+export function listMakes(year?: string): string[] {
+  const built = parseYear(year);
+  return VEHICLE_MAKES
+    .filter(make => make.models.some(model => builtIn(model, built)))
+    .map(make => make.name)
+    .sort((a, b) => a.localeCompare(b));
+}
+
+/** Model names of a make for autocomplete, limited to the year if one is given */
+export function listModels(make: string, year?: string): string[] {
+  const found = findMake(make);
+  if (!found) return [];
+  const built = parseYear(year);
+  return found.models.filter(model => builtIn(model, built)).map(model => model.name);
+}
+
+/** Known trims of a model for autocomplete */
+export function listTrims(make: string, model: string): string[] {
+  const found = findMake(make);
+  return (found && findModel(found, model)?.model.trims) || [];
+}
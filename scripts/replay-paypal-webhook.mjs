@@ -0,0 +1,55 @@
+// scripts/replay-paypal-webhook.mjs — POST recorded PayPal webhook fixtures to a local endpoint
+// Usage: npm run webhook:replay -- --order <paypalOrderId> --capture <captureId> [--car <carId>]
+//          [--url http://localhost:3000/api/paypal/webhook] [fixture-name ...]
+// Fixtures in fixtures/paypal/ use {{PAYPAL_ORDER_ID}}, {{CAPTURE_ID}} and {{CAR_ID}}
+// placeholders so they can be pointed at a real sandbox order. The endpoint must be
+// running under `vercel dev` with PAYPAL_WEBHOOK_VERIFY=off.
+// The status mapping itself is checked against the same fixtures by `npm test`.
+
+import { readFileSync, readdirSync } from 'node:fs';
+import { join, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const FIXTURE_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', 'fixtures', 'paypal');
+
+// Lifecycle order, so a full replay walks an order through capture → dispute → resolution
+const DEFAULT_ORDER = [
+  'payment-capture-completed',
+  'customer-dispute-created',
+  'customer-dispute-resolved',
+  'payment-capture-refunded',
+];
+
+function parseArgs(argv) {
+  const opts = { url: 'http://localhost:3000/api/paypal/webhook', order: '', capture: '', car: '', fixtures: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.startsWith('--')) opts[arg.slice(2)] = argv[++i] || '';
+    else opts.fixtures.push(arg.replace(/\.json$/, ''));
+  }
+  return opts;
+}
+
+const opts = parseArgs(process.argv.slice(2));
+if (!opts.order || !opts.capture) {
+  console.error('Usage: npm run webhook:replay -- --order <paypalOrderId> --capture <captureId> [--car <carId>] [fixture ...]');
+  console.error('Available fixtures:', readdirSync(FIXTURE_DIR).map(f => f.replace(/\.json$/, '')).join(', '));
+  process.exit(1);
+}
+
+const names = opts.fixtures.length > 0 ? opts.fixtures : DEFAULT_ORDER;
+
+for (const name of names) {
+  const raw = readFileSync(join(FIXTURE_DIR, `${name}.json`), 'utf8')
+    .replaceAll('{{PAYPAL_ORDER_ID}}', opts.order)
+    .replaceAll('{{CAPTURE_ID}}', opts.capture)
+    .replaceAll('{{CAR_ID}}', opts.car);
+
+  const res = await fetch(opts.url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: raw,
+  });
+  const body = await res.text();
+  console.log(`${name}: ${res.status} ${body}`);
+}
@@ -1,5 +1,19 @@
 // SnapMerch API service — calls the same backend as MyRestoModStudio
-import type { CarIdentity, SnapMerchStyle, StyleConfig } from '../types';
+import type {
+  ArtQuality,
+  CarIdentity,
+  DesignView,
+  GenerationProgress,
+  IdentityCandidate,
+  LetteringSpec,
+  QualityReport,
+  SharedCarLookup,
+  SnapMerchStyle,
+  StyleConfig,
+  VehicleAnalysis,
+} from '../types';
+import { DEFAULT_VIEW } from '../types';
+import { registerStyleConfigs } from './styleRegistry';
 
 const API_BASE = import.meta.env.VITE_API_BASE_URL || ''; // empty = same origin (own serverless functions)
 
@@ -35,18 +49,160 @@ async function post<T>(path: string, body: Record<string, any>): Promise<T> {
   return res.json();
 }
 
+// ── Server-Sent Events ───────────────────────────────────────────────────
+// Read with fetch rather than EventSource so requests can be POSTs and carry
+// headers. Endpoints that stream fall back to plain JSON without the Accept header.
+
+const isEventStream = (res: Response) => !!res.body && (res.headers.get('Content-Type') || '').includes('text/event-stream');
+
+/**
+ * Dispatch each event of a text/event-stream response until the server closes it.
+ * Lines may end in \n, \r\n or \r; an event whose data isn't JSON is skipped.
+ */
+export async function readEventStream(res: Response, onEvent: (event: string, data: any, id?: string) => void): Promise<void> {
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      // A trailing \r may be the first half of a \r\n still in flight
+      const complete = !done && buffer.endsWith('\r') ? buffer.length - 1 : buffer.length;
+      const lines = buffer.slice(0, complete).replace(/\r\n?/g, '\n');
+      const end = lines.lastIndexOf('\n\n');
+      const blocks = end < 0 ? [] : lines.slice(0, end).split('\n\n');
+      if (end >= 0) buffer = lines.slice(end + 2) + buffer.slice(complete);
+      for (const block of blocks) {
+        let event = 'message';
+        const data: string[] = [];
+        let id: string | undefined;
+        for (const line of block.split('\n')) {
+          const colon = line.indexOf(':');
+          if (colon <= 0) continue; // blank, or a comment (keep-alive)
+          const field = line.slice(0, colon);
+          const text = line.slice(line[colon + 1] === ' ' ? colon + 2 : colon + 1);
+          if (field === 'event') event = text;
+          else if (field === 'data') data.push(text);
+          else if (field === 'id') id = text;
+        }
+        if (!data.length) continue;
+        let parsed: any;
+        try {
+          parsed = JSON.parse(data.join('\n'));
+        } catch {
+          console.warn(`Skipping malformed ${event} event`);
+          continue;
+        }
+        onEvent(event, parsed, id);
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+/** POST to an endpoint that streams `progress` events, then `done` (result) or `error` */
+async function postWithProgress<T>(
+  path: string,
+  body: Record<string, any>,
+  onProgress?: (progress: GenerationProgress) => void
+): Promise<T> {
+  const res = await fetch(`${API_BASE}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({ error: `Request failed: ${res.statusText}` }));
+    throw new Error(err.error || `Request failed: ${res.statusText}`);
+  }
+  if (!isEventStream(res)) return res.json();
+
+  const outcome: { result?: T; error?: string } = {};
+  await readEventStream(res, (event, data) => {
+    if (event === 'progress') onProgress?.(data);
+    else if (event === 'done') outcome.result = data;
+    else if (event === 'error') outcome.error = data.error;
+  });
+  if (outcome.result) return outcome.result;
+  throw new Error(outcome.error || 'Connection lost. Please try again.');
+}
+
+// ── Shared Car (public, used by the customer QR page) ─────────────────
+
+export async function getSharedCar(carId: string): Promise<SharedCarLookup> {
+  const res = await fetch(`${API_BASE}/api/car/${encodeURIComponent(carId)}`);
+  if (res.status === 404) return { status: 'not-found' };
+  if (res.status === 410) return { status: 'expired' };
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({ error: `Request failed: ${res.statusText}` }));
+    throw new Error(err.error || `Request failed: ${res.statusText}`);
+  }
+
+  const data = await res.json();
+  // Custom styles arrive with label and emoji only — the prompt stays server-side
+  registerStyleConfigs((data.customStyles || []).map((s: { id: SnapMerchStyle; label: string; emoji: string; backgroundColor: string }) => ({
+    id: s.id,
+    label: s.label,
+    emoji: s.emoji,
+    artStyle: s.label,
+    backgroundColor: s.backgroundColor,
+  })));
+  return {
+    status: 'found',
+    eventName: data.eventName || undefined,
+    expiresAt: data.expiresAt,
+    car: {
+      id: data.id,
+      photoBase64: '',
+      photoThumbnail: data.photoThumbnail || undefined,
+      identity: data.identity,
+      styles: (data.styles || []).map((s: { styleId: SnapMerchStyle; imageUrl: string; view: DesignView | null; lettering: LetteringSpec | null }) => ({
+        styleId: s.styleId,
+        imageUrl: s.imageUrl,
+        status: 'done' as const,
+        view: s.view || undefined,
+        lettering: s.lettering || undefined,
+      })),
+      mockups: [],
+      orders: [],
+      createdAt: data.createdAt,
+    },
+  };
+}
+
 // ── Vehicle Analysis ────────────────────────────────────────────────────
 
-export async function analyzeVehicle(base64Image: string): Promise<CarIdentity> {
-  const compressed = await compressImage(base64Image, 1200, 0.7);
-  return post<CarIdentity>('/api/analyze', { imageBase64: compressed });
+/**
+ * One identity for the car in all the photos (up to MAX_CAR_PHOTOS), plus
+ * the ranked candidates it was picked from
+ */
+export async function analyzeVehicle(base64Images: string[]): Promise<{ identity: CarIdentity; candidates: IdentityCandidate[] }> {
+  // Smaller per photo when there are several, to stay under the body limit
+  const maxWidth = base64Images.length > 1 ? 900 : 1200;
+  const images = await Promise.all(base64Images.map(image => compressImage(image, maxWidth, 0.7)));
+  const { year, make, model, trim, color, candidates } = await post<VehicleAnalysis>('/api/analyze', { images });
+  return { identity: { year, make, model, trim, color }, candidates: candidates || [] };
+}
+
+// Blur plates and faces before the photos are kept or shared. Throws when
+// they couldn't be checked — the caller must then keep the originals local.
+export async function redactPhotos(base64Images: string[]): Promise<{ images: string[]; regions: number[] }> {
+  const maxWidth = base64Images.length > 1 ? 900 : 1200;
+  const images = await Promise.all(base64Images.map(image => compressImage(image, maxWidth, 0.85)));
+  return post<{ images: string[]; regions: number[] }>('/api/redact', { images });
 }
 
-// ── Art Generation (uses /api/generate with draft quality for speed) ─────
+// ── Art Generation (queued /api/jobs, draft first, high for variations) ─
 
 // Compress a returned design image to JPEG to save mobile memory
 // Aggressive settings: 600px max, 70% JPEG — keeps images under ~150KB each
+// Stored CDN URLs are passed through untouched — the browser caches them and a
+// cross-origin image would taint the canvas anyway
 function compressDesignImage(base64: string, maxWidth = 600, quality = 0.70): Promise<string> {
+  if (!base64.startsWith('data:')) return Promise.resolve(base64);
   return new Promise((resolve) => {
     const img = new Image();
     img.onload = () => {
@@ -70,28 +226,39 @@ function compressDesignImage(base64: string, maxWidth = 600, quality = 0.70): Pr
 async function generateArt(
   identity: CarIdentity,
   styleConfig: StyleConfig,
-  referenceImage?: string
-): Promise<string> {
+  referenceImage?: string,
+  onProgress?: (progress: GenerationProgress) => void,
+  variation?: number,
+  artQuality: ArtQuality = 'draft'
+): Promise<{ imageUrl: string; quality?: QualityReport }> {
   const carColor = identity.color?.hex || '#003366';
   
+  // styleId lets the API fill in a custom style's prompt template
   const details: Record<string, any> = {
+    styleId: styleConfig.id,
     year: identity.year,
     make: identity.make,
     model: identity.model,
     trim: identity.trim,
     artStyle: styleConfig.artStyle,
-    view: '3/4 Front',
+    view: styleConfig.view || DEFAULT_VIEW,
     color: carColor,
+    // The factory paint behind the hex, when the owner's paint is in the catalog
+    colorName: identity.color?.name || undefined,
+    paintCode: identity.color?.code || undefined,
     backgroundColor: styleConfig.backgroundColor || '#FFFFFF',
+    cyanotypeInverted: styleConfig.cyanotypeInverted || undefined,
+    variation,
     resolution: '1K',
-    quality: 'draft', // SPEED — use flash model at events
+    quality: artQuality, // 'draft' (flash model) keeps the first pass fast at events; 'high' is slower, fine as a job
   };
 
-  // For calligram/typography style, add the car name as title
-  if (styleConfig.id === 'calligram') {
-    details.title = `${identity.year} ${identity.make} ${identity.model}`;
-    details.artStyle = 'Distressed';
-    details.customization = `Include stylized typography of "${identity.year} ${identity.make} ${identity.model}" integrated into the design`;
+  // Styles with lettering get the car name drawn over the art afterwards
+  // (lib/lettering.ts) — the model only leaves room for it
+  if (styleConfig.lettering) {
+    details.customization = styleConfig.lettering === 'arched'
+      ? 'Keep the car compact in the center, with clear canvas around it for lettering arched above and below'
+      : 'Keep the lower fifth of the canvas clear for lettering';
   }
 
   // Compress reference image aggressively (600px, 50% quality) to stay under Vercel 4.5MB limit
@@ -100,9 +267,77 @@ async function generateArt(
     details.referenceImage = await compressImage(referenceImage, 600, 0.5);
   }
 
-  const result = await post<{ imageUrl: string; prompt: string }>('/api/generate', { details });
-  // Compress the returned image aggressively to save mobile memory (PNG→JPEG, 600px, 70%)
-  return compressDesignImage(result.imageUrl, 600, 0.70);
+  // Queued job rather than /api/generate, so a slow model call or a retry
+  // isn't cut off by the 60s request limit
+  const { jobId } = await post<{ jobId: string }>('/api/jobs', { details });
+  const result = await followJob(jobId, onProgress);
+  // Compress a returned data URL aggressively to save mobile memory (PNG→JPEG, 600px, 70%)
+  return { imageUrl: await compressDesignImage(result.imageUrl, 600, 0.70), quality: result.quality };
+}
+
+// ── Generation Jobs ──────────────────────────────────────────────────────
+
+interface GenerationJob {
+  jobId: string;
+  status: 'queued' | 'running' | 'succeeded' | 'failed';
+  attempts: number;
+  progress?: GenerationProgress;
+  imageUrl?: string;
+  prompt?: string;
+  quality?: QualityReport;
+  error?: string;
+}
+
+const JOB_POLL_INTERVAL_MS = 3000;
+const JOB_TIMEOUT_MS = 6 * 60 * 1000;
+
+/**
+ * Follow a generation job until it finishes, reporting each stage as the
+ * server streams it. Reconnects where it left off if the stream closes early,
+ * and polls if the server answers with plain JSON.
+ * Throws if the job fails or takes too long.
+ */
+async function followJob(
+  jobId: string,
+  onProgress?: (progress: GenerationProgress) => void
+): Promise<{ imageUrl: string; prompt: string; quality?: QualityReport }> {
+  const path = `/api/jobs/${encodeURIComponent(jobId)}`;
+  const deadline = Date.now() + JOB_TIMEOUT_MS;
+  let lastEventId: string | undefined;
+
+  while (Date.now() < deadline) {
+    const res = await fetch(`${API_BASE}${path}`, {
+      headers: { 'Accept': 'text/event-stream', ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}) },
+    });
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({ error: `Request failed: ${res.statusText}` }));
+      throw new Error(err.error || `Request failed: ${res.statusText}`);
+    }
+
+    const outcome: { job?: GenerationJob } = {};
+    if (isEventStream(res)) {
+      await readEventStream(res, (event, data, id) => {
+        if (event === 'progress') {
+          lastEventId = id;
+          onProgress?.(data);
+        } else if (event === 'done') {
+          outcome.job = data;
+        }
+      });
+    } else {
+      const job: GenerationJob = await res.json();
+      if (job.progress) onProgress?.(job.progress);
+      if (job.status === 'succeeded' || job.status === 'failed') outcome.job = job;
+      else await new Promise(r => setTimeout(r, JOB_POLL_INTERVAL_MS));
+    }
+
+    const { job } = outcome;
+    if (job?.status === 'succeeded' && job.imageUrl) {
+      return { imageUrl: job.imageUrl, prompt: job.prompt || '', quality: job.quality };
+    }
+    if (job) throw new Error(job.error || 'Generation failed');
+  }
+  throw new Error('Generation is taking too long. Please try again.');
 }
 
 // ── Generate styles with limited concurrency (2 at a time) ──────────────
@@ -111,8 +346,9 @@ export async function generateAllStyles(
   identity: CarIdentity,
   styleConfigs: StyleConfig[],
   referenceImage?: string,
-  onStyleComplete?: (styleId: SnapMerchStyle, imageUrl: string) => void,
-  onStyleError?: (styleId: SnapMerchStyle, error: string) => void
+  onStyleComplete?: (styleId: SnapMerchStyle, imageUrl: string, quality?: QualityReport) => void,
+  onStyleError?: (styleId: SnapMerchStyle, error: string) => void,
+  onStyleProgress?: (styleId: SnapMerchStyle, progress: GenerationProgress) => void
 ): Promise<Map<SnapMerchStyle, string>> {
   const results = new Map<SnapMerchStyle, string>();
   const MAX_CONCURRENT = 2; // Only 2 at a time to reduce mobile memory pressure
@@ -127,9 +363,9 @@ export async function generateAllStyles(
         // Send reference image to ALL styles — since we generate 2 at a time,
         // memory impact is manageable and results are much more accurate.
         const ref = referenceImage;
-        const imageUrl = await generateArt(identity, config, ref);
+        const { imageUrl, quality } = await generateArt(identity, config, ref, progress => onStyleProgress?.(config.id, progress));
         results.set(config.id, imageUrl);
-        onStyleComplete?.(config.id, imageUrl);
+        onStyleComplete?.(config.id, imageUrl, quality);
       } catch (err: any) {
         onStyleError?.(config.id, err.message);
       }
@@ -140,6 +376,41 @@ export async function generateAllStyles(
   return results;
 }
 
+// ── Variations (several takes of one style) ─────────────────────────────
+
+/**
+ * Generate count takes of one style, 2 at a time like generateAllStyles.
+ * The vendor has already picked the style, so takes use the high-quality model.
+ * Resolves with the takes that succeeded, in order; throws only if all fail.
+ */
+export async function generateVariations(
+  identity: CarIdentity,
+  styleConfig: StyleConfig,
+  count: number,
+  referenceImage?: string,
+  onProgress?: (progress: GenerationProgress) => void
+): Promise<string[]> {
+  const takes: (string | null)[] = new Array(count).fill(null);
+  const errors: string[] = [];
+  const MAX_CONCURRENT = 2;
+
+  for (let i = 0; i < count; i += MAX_CONCURRENT) {
+    const batch = Array.from({ length: Math.min(MAX_CONCURRENT, count - i) }, (_, b) => i + b);
+    await Promise.allSettled(batch.map(async (take, batchIndex) => {
+      if (batchIndex > 0) await new Promise(r => setTimeout(r, 500));
+      try {
+        takes[take] = (await generateArt(identity, styleConfig, referenceImage, onProgress, take + 1, 'high')).imageUrl;
+      } catch (err: any) {
+        errors.push(err.message);
+      }
+    }));
+  }
+
+  const done = takes.filter((t): t is string => t !== null);
+  if (done.length === 0) throw new Error(errors[0] || 'Generation failed');
+  return done;
+}
+
 // ── Tweak / Remix a Design ───────────────────────────────────────────────
 
 export async function tweakDesign(
@@ -147,8 +418,8 @@ export async function tweakDesign(
   prompt: string,
   carDetails: Record<string, any>
 ): Promise<string> {
-  // Convert blob URL to base64 if needed, then compress
-  const base64 = await blobUrlToBase64(imageInput);
+  // Convert blob/stored URL to base64 if needed, then compress
+  const base64 = await imageUrlToBase64(imageInput);
   if (!base64 || !base64.startsWith('data:')) {
     throw new Error('Design image is unavailable — please go back and re-select the style');
   }
@@ -163,22 +434,23 @@ export async function tweakDesign(
   return compressDesignImage(result.imageUrl, 600, 0.70);
 }
 
-// ── Helpers: blob URL → base64 ──────────────────────────────────────────
+// ── Helpers: blob / stored URL → base64 ─────────────────────────────────
 
-async function blobUrlToBase64(url: string): Promise<string> {
+async function imageUrlToBase64(url: string): Promise<string> {
   // Already a data URL — pass through
-  if (!url || !url.startsWith('blob:')) return url;
+  if (!url || url.startsWith('data:')) return url;
+
+  // Stored CDN URL — fetch it (bucket must allow CORS from the app origin)
+  if (!url.startsWith('blob:')) {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Design image could not be loaded (${response.status})`);
+    return blobToDataUrl(await response.blob());
+  }
 
   // Use fetch + FileReader (much more reliable than Image+canvas for blob URLs)
   try {
     const response = await fetch(url);
-    const blob = await response.blob();
-    return new Promise<string>((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onloadend = () => resolve(reader.result as string);
-      reader.onerror = () => reject(new Error('FileReader failed on blob'));
-      reader.readAsDataURL(blob);
-    });
+    return await blobToDataUrl(await response.blob());
   } catch {
     // Blob URL may have been revoked — try Image+canvas as fallback
     return new Promise<string>((resolve, reject) => {
@@ -201,11 +473,22 @@ async function blobUrlToBase64(url: string): Promise<string> {
   }
 }
 
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('FileReader failed on blob'));
+    reader.readAsDataURL(blob);
+  });
+}
+
 // ── Product Mockup ──────────────────────────────────────────────────────
 
 export async function generateMockup(
   designImageInput: string,
   options: {
+    styleId?: string;
+    lettering?: LetteringSpec; // drawn over the design server-side, as in the print file
     productType?: string;
     color?: string;
     colorName?: string;
@@ -213,9 +496,12 @@ export async function generateMockup(
     gender?: 'male' | 'female';
     ageRange?: string;
     background?: 'studio' | 'lifestyle';
-  } = {}
+  } = {},
+  onProgress?: (progress: GenerationProgress) => void
 ): Promise<string> {
   const {
+    styleId,
+    lettering,
     productType = 'tshirt',
     color = '#000000',
     colorName = 'Black',
@@ -225,15 +511,17 @@ export async function generateMockup(
     background = 'studio',
   } = options;
 
-  // Convert blob URL to base64 if needed, then compress
-  const base64 = await blobUrlToBase64(designImageInput);
+  // Convert blob/stored URL to base64 if needed, then compress
+  const base64 = await imageUrlToBase64(designImageInput);
   if (!base64 || !base64.startsWith('data:')) {
     throw new Error('Design image is unavailable — please go back and try selecting the style again');
   }
   const compressed = await compressDesignImage(base64, 600, 0.70);
 
-  const result = await post<{ imageUrl: string }>('/api/mockup', {
+  const result = await postWithProgress<{ imageUrl: string }>('/api/mockup', {
     designImageBase64: compressed,
+    styleId,
+    lettering,
     productType,
     shirtColor: color,
     shirtColorName: colorName,
@@ -242,7 +530,7 @@ export async function generateMockup(
     ageRange,
     carDescription,
     background,
-  });
+  }, onProgress);
 
   // Compress returned mockup image (600px, 70% JPEG)
   return compressDesignImage(result.imageUrl, 600, 0.70);
@@ -255,9 +543,9 @@ export async function identifyColor(
   year: string,
   make: string,
   model: string
-): Promise<{ name: string; hex: string }> {
+): Promise<CarIdentity['color']> {
   const compressed = await compressImage(base64Image, 800, 0.6);
-  return post<{ name: string; hex: string }>('/api/identify-color', {
+  return post<CarIdentity['color']>('/api/identify-color', {
     imageBase64: compressed,
     year,
     make,
@@ -0,0 +1,58 @@
+// services/designVersions.ts
+// Tweak history of a design. Each remix is kept as a version pointing at the
+// one it came from; reverting only moves the current pointer, so a tweak made
+// after a revert becomes a branch of that older version.
+
+import type { DesignVersion, GeneratedStyle } from '../types';
+import { generateId } from './storage';
+
+export function getCurrentVersion(style: GeneratedStyle): DesignVersion | undefined {
+  return style.versions?.find(v => v.id === style.currentVersionId);
+}
+
+export function getParentVersion(style: GeneratedStyle, version: DesignVersion): DesignVersion | undefined {
+  return version.parentId ? style.versions?.find(v => v.id === version.parentId) : undefined;
+}
+
+// Record the style's image as a new root version when it didn't come from the
+// history (first tweak, or a regeneration / variation pick since)
+function withCurrentImage(style: GeneratedStyle): GeneratedStyle {
+  if (!style.imageUrl || getCurrentVersion(style)?.imageUrl === style.imageUrl) return style;
+  const root: DesignVersion = { id: generateId(), imageUrl: style.imageUrl, createdAt: Date.now() };
+  return { ...style, versions: [...(style.versions || []), root], currentVersionId: root.id };
+}
+
+/** Make a tweak result the style's design, as a child of the current version */
+export function addTweakVersion(style: GeneratedStyle, imageUrl: string, prompt?: string): GeneratedStyle {
+  const base = withCurrentImage(style);
+  const version: DesignVersion = {
+    id: generateId(),
+    imageUrl,
+    prompt,
+    parentId: base.currentVersionId,
+    createdAt: Date.now(),
+  };
+  return { ...base, imageUrl, versions: [...(base.versions || []), version], currentVersionId: version.id };
+}
+
+/** Show an earlier version again. Versions without an image (dropped from storage) are skipped. */
+export function revertToVersion(style: GeneratedStyle, versionId: string): GeneratedStyle {
+  const base = withCurrentImage(style);
+  const version = base.versions?.find(v => v.id === versionId);
+  if (!version?.imageUrl) return base;
+  return { ...base, imageUrl: version.imageUrl, currentVersionId: version.id };
+}
+
+/**
+ * Versions in tree order (each followed by its remixes) with their depth.
+ * A version whose parent is gone is shown as a root.
+ */
+export function getVersionTree(style: GeneratedStyle): { version: DesignVersion; depth: number }[] {
+  const versions = style.versions || [];
+  const ids = new Set(versions.map(v => v.id));
+  const walk = (parentId: string | undefined, depth: number): { version: DesignVersion; depth: number }[] =>
+    versions
+      .filter(v => parentId ? v.parentId === parentId : !v.parentId || !ids.has(v.parentId))
+      .flatMap(version => [{ version, depth }, ...walk(version.id, depth + 1)]);
+  return walk(undefined, 0);
+}
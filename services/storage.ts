@@ -1,10 +1,14 @@
 // SnapMerch localStorage service + Supabase sync
-import type { CarSession, EventSession, Order } from '../types';
+import type { CarSession, CustomStyle, CustomStyleId, EventSession, EventSummary, GeneratedStyle, Order, SnapMerchStyle, StylePackId } from '../types';
+import { STYLE_CONFIGS, CUSTOM_STYLE_PREFIX, MAX_CAR_PHOTOS } from '../types';
 import { getSupabase } from '../lib/supabase';
 
 const KEYS = {
-  EVENT_SESSION: 'snapmerch_event_session',
+  EVENTS: 'snapmerch_events',
+  ACTIVE_EVENT: 'snapmerch_active_event',
+  EVENT_SESSION: 'snapmerch_event_session', // legacy single daily session
   ORDERS: 'snapmerch_orders',
+  CUSTOM_STYLES: 'snapmerch_custom_styles',
 };
 
 // ── Auth state (set by React layer) ─────────────────────────────────────
@@ -16,55 +20,166 @@ export function setAuthUserId(userId: string | null): void {
   _userId = userId;
 }
 
-// ── Event Session ───────────────────────────────────────────────────────
+// ── Events ──────────────────────────────────────────────────────────────
+// Events stay open until the vendor closes them — no automatic daily reset.
+// Several can be open at once (e.g. a weekend show and a weekly meet); one is
+// active and receives new cars. Closed events live on in Supabase and can be
+// reopened from there.
 
-export function getEventSession(): EventSession {
+/** Today's date in the device's local timezone (YYYY-MM-DD) */
+export function localDate(date: Date = new Date()): string {
+  return date.toLocaleDateString('en-CA'); // en-CA formats as YYYY-MM-DD
+}
+
+function localTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+function readEvents(): EventSession[] {
   try {
-    const stored = localStorage.getItem(KEYS.EVENT_SESSION);
-    if (stored) {
-      const session = JSON.parse(stored) as EventSession;
-      // Reset if it's a different day
-      const today = new Date().toISOString().split('T')[0];
-      if (session.date === today) return session;
+    const stored = localStorage.getItem(KEYS.EVENTS);
+    if (stored) return JSON.parse(stored) as EventSession[];
+
+    // One-time upgrade from the single daily session
+    const legacy = localStorage.getItem(KEYS.EVENT_SESSION);
+    if (legacy) {
+      const session = JSON.parse(legacy);
+      const upgraded: EventSession = {
+        timezone: localTimezone(),
+        status: 'open',
+        ...session,
+        endDate: session.endDate || session.date,
+      };
+      localStorage.removeItem(KEYS.EVENT_SESSION);
+      writeEvents([upgraded]);
+      localStorage.setItem(KEYS.ACTIVE_EVENT, upgraded.id);
+      return [upgraded];
     }
   } catch {
     // Corrupted data — clear it
-    localStorage.removeItem(KEYS.EVENT_SESSION);
+    localStorage.removeItem(KEYS.EVENTS);
   }
-  return createNewEventSession();
+  return [];
+}
+
+/** All open events on this device, most recent first */
+export function listOpenEvents(): EventSession[] {
+  return readEvents()
+    .filter(e => e.status === 'open')
+    .sort((a, b) => b.date.localeCompare(a.date) || b.createdAt - a.createdAt);
+}
+
+/**
+ * The active event that new cars are added to
+ * @returns null if no event is open (the vendor must create or reopen one)
+ */
+export function getEventSession(): EventSession | null {
+  const events = readEvents();
+  const activeId = localStorage.getItem(KEYS.ACTIVE_EVENT);
+  return events.find(e => e.id === activeId && e.status === 'open') || null;
 }
 
-export function createNewEventSession(): EventSession {
+export function createEvent(details: { name: string; location?: string; date: string; endDate?: string; redactPhotos?: boolean }): EventSession {
   const session: EventSession = {
     id: generateId(),
-    name: 'Cars & Coffee',
-    date: new Date().toISOString().split('T')[0],
+    name: details.name.trim(),
+    location: details.location?.trim() || undefined,
+    date: details.date,
+    endDate: details.endDate && details.endDate >= details.date ? details.endDate : details.date,
+    timezone: localTimezone(),
+    status: 'open',
+    redactPhotos: details.redactPhotos ?? true,
     cars: [],
     createdAt: Date.now(),
   };
   saveEventSession(session);
+  localStorage.setItem(KEYS.ACTIVE_EVENT, session.id);
   return session;
 }
 
+/** Make an open event the active one */
+export function switchEvent(eventId: string): EventSession | null {
+  const event = readEvents().find(e => e.id === eventId && e.status === 'open');
+  if (!event) return null;
+  localStorage.setItem(KEYS.ACTIVE_EVENT, event.id);
+  return event;
+}
+
+/**
+ * Close an event. Its cars stay in Supabase (and on this device until
+ * storage runs short) and it can be reopened later.
+ */
+export function closeEvent(eventId: string): void {
+  const event = readEvents().find(e => e.id === eventId);
+  if (!event) return;
+  saveEventSession({ ...event, status: 'closed', closedAt: Date.now() });
+  if (localStorage.getItem(KEYS.ACTIVE_EVENT) === eventId) {
+    localStorage.removeItem(KEYS.ACTIVE_EVENT);
+  }
+}
+
+/** Choose which optional style packs an event offers */
+export function setEventStylePacks(eventId: string, packs: StylePackId[]): EventSession | null {
+  const event = readEvents().find(e => e.id === eventId);
+  if (!event) return null;
+  const updated = { ...event, stylePacks: packs };
+  saveEventSession(updated);
+  return updated;
+}
+
+/** Choose which custom styles an event offers, in display order */
+export function setEventCustomStyles(eventId: string, styleIds: CustomStyleId[]): EventSession | null {
+  const event = readEvents().find(e => e.id === eventId);
+  if (!event) return null;
+  const updated = { ...event, customStyleIds: styleIds };
+  saveEventSession(updated);
+  return updated;
+}
+
+/** Turn plate and face blurring on or off for an event's new photos */
+export function setEventRedaction(eventId: string, enabled: boolean): EventSession | null {
+  const event = readEvents().find(e => e.id === eventId);
+  if (!event) return null;
+  const updated = { ...event, redactPhotos: enabled };
+  saveEventSession(updated);
+  return updated;
+}
+
+// Photos are only kept (here or in Supabase) once redacted, unless the event
+// has redaction turned off
+function mayKeepPhoto(session: EventSession, redacted: boolean | undefined): boolean {
+  return session.redactPhotos === false || !!redacted;
+}
+
 // Check if a string is a large data URL (base64 image)
 function isLargeDataUrl(s: string | null | undefined): boolean {
   if (!s) return false;
   return s.startsWith('data:') && s.length > 500;
 }
 
-function saveEventSession(session: EventSession): void {
+function stripForStorage(session: EventSession): EventSession {
   // Strip ALL large base64 data before saving to localStorage (5MB limit)
-  const stripped: EventSession = {
+  return {
     ...session,
     cars: session.cars.map(car => ({
       ...car,
       photoBase64: '', // NEVER persist full photos — thumbnail only
-      // Keep thumbnail only if it's small (< 10KB as base64)
-      photoThumbnail: (car.photoThumbnail && car.photoThumbnail.length < 15000) ? car.photoThumbnail : '',
+      // Keep thumbnail only if it's small (< 10KB as base64) and may be kept at all
+      photoThumbnail: (car.photoThumbnail && car.photoThumbnail.length < 15000 && mayKeepPhoto(session, car.photoRedacted))
+        ? car.photoThumbnail : '',
+      photos: car.photos?.map(p => ({
+        ...p,
+        base64: '',
+        thumbnail: p.thumbnail.length < 15000 && mayKeepPhoto(session, p.redacted) ? p.thumbnail : '',
+      })),
       styles: car.styles.map(s => ({
         ...s,
         // Strip ALL base64 image data from styles — they must be regenerated
         imageUrl: isLargeDataUrl(s.imageUrl) ? '' : (s.imageUrl || ''),
+        candidates: s.candidates?.filter(url => !isLargeDataUrl(url)),
+        alternates: s.alternates?.filter(url => !isLargeDataUrl(url)),
+        // Keep the version tree intact; a local-only image just goes blank
+        versions: s.versions?.map(v => isLargeDataUrl(v.imageUrl) ? { ...v, imageUrl: '' } : v),
       })),
       // Strip mockup images too
       mockups: car.mockups.map(m => ({
@@ -73,52 +188,221 @@ function saveEventSession(session: EventSession): void {
       })),
     })),
   };
+}
+
+// Set while the device can't hold all event data; VendorMode tells the vendor
+let _storageFull = false;
+
+/** Whether the last save had to leave event data off this device */
+export function isStorageFull(): boolean {
+  return _storageFull;
+}
+
+// Supabase has this event exactly as it was last saved here
+function isSynced(event: EventSession): boolean {
+  return event.syncedAt !== undefined && event.syncedAt === event.updatedAt;
+}
+
+function writeEvents(events: EventSession[]): void {
   try {
-    localStorage.setItem(KEYS.EVENT_SESSION, JSON.stringify(stripped));
+    localStorage.setItem(KEYS.EVENTS, JSON.stringify(events));
+    _storageFull = false;
   } catch (e) {
-    // If still too large, progressively trim
-    console.warn('localStorage full, trimming old sessions');
-    stripped.cars = stripped.cars.slice(0, 3);
-    // Also strip all thumbnails as last resort
-    stripped.cars.forEach(c => { c.photoThumbnail = ''; });
+    // If still too large, drop closed events Supabase has a copy of — they can
+    // be reopened from there. Unsynced ones (signed out, or sync failed) stay
+    console.warn('localStorage full, trimming synced closed events');
+    const kept = events.filter(ev => ev.status === 'open' || !isSynced(ev));
     try {
-      localStorage.setItem(KEYS.EVENT_SESSION, JSON.stringify(stripped));
+      localStorage.setItem(KEYS.EVENTS, JSON.stringify(kept));
+      _storageFull = false;
     } catch {
-      // Nuclear option: clear and start fresh
-      localStorage.removeItem(KEYS.EVENT_SESSION);
+      // Last resort: strip thumbnails too, and tell the vendor
+      _storageFull = true;
+      kept.forEach(ev => ev.cars.forEach(c => { c.photoThumbnail = ''; }));
+      try {
+        localStorage.setItem(KEYS.EVENTS, JSON.stringify(kept));
+      } catch (err: any) {
+        console.warn('localStorage write failed:', err.message);
+      }
     }
   }
+}
+
+function saveEventSession(session: EventSession): void {
+  const events = readEvents();
+  const previous = events.find(e => e.id === session.id);
+  const saved = { ...stripForStorage(session), updatedAt: Math.max(Date.now(), (previous?.updatedAt || 0) + 1) };
+  writeEvents([saved, ...events.filter(e => e.id !== session.id)]);
 
   // Background sync to Supabase
   if (_userId) {
-    syncEventToSupabase(session).catch(err =>
-      console.warn('Supabase sync failed:', err.message)
-    );
+    syncEventToSupabase(session)
+      .then(synced => { if (synced) markSynced(session.id, saved.updatedAt); })
+      .catch(err => console.warn('Supabase sync failed:', err.message));
   }
 }
 
+// Record that Supabase has a save of an event, unless it was saved again since
+function markSynced(eventId: string, updatedAt: number): void {
+  const events = readEvents();
+  const event = events.find(e => e.id === eventId);
+  if (!event || event.updatedAt !== updatedAt) return;
+  event.syncedAt = updatedAt;
+  writeEvents(events);
+}
+
 // ── Car Sessions ────────────────────────────────────────────────────────
 
 export function addCarSession(car: CarSession): EventSession {
   const session = getEventSession();
+  if (!session) throw new Error('No open event — create or reopen an event first');
   session.cars.unshift(car); // newest first
   saveEventSession(session);
   return session;
 }
 
-export function updateCarSession(carId: string, update: Partial<CarSession>): EventSession {
-  const session = getEventSession();
+// Cars can belong to any event on this device, not just the active one
+export function updateCarSession(carId: string, update: Partial<CarSession>): EventSession | null {
+  const session = readEvents().find(e => e.cars.some(c => c.id === carId));
+  if (!session) return null;
   const idx = session.cars.findIndex(c => c.id === carId);
-  if (idx !== -1) {
-    session.cars[idx] = { ...session.cars[idx], ...update };
-    saveEventSession(session);
-  }
+  session.cars[idx] = { ...session.cars[idx], ...update };
+  saveEventSession(session);
   return session;
 }
 
 export function getCarSession(carId: string): CarSession | null {
-  const session = getEventSession();
-  return session.cars.find(c => c.id === carId) || null;
+  for (const session of readEvents()) {
+    const car = session.cars.find(c => c.id === carId);
+    if (car) return car;
+  }
+  return null;
+}
+
+// ── Custom styles ───────────────────────────────────────────────────────
+// Saved to Supabase before use — the API reads a style's prompt template from
+// there when generating — and cached on this device so labels and previews
+// show without a round trip.
+
+function readCustomStyles(): CustomStyle[] {
+  try {
+    const stored = localStorage.getItem(KEYS.CUSTOM_STYLES);
+    return stored ? JSON.parse(stored) as CustomStyle[] : [];
+  } catch {
+    localStorage.removeItem(KEYS.CUSTOM_STYLES);
+    return [];
+  }
+}
+
+function writeCustomStyles(styles: CustomStyle[]): void {
+  try {
+    localStorage.setItem(KEYS.CUSTOM_STYLES, JSON.stringify(styles));
+  } catch (err: any) {
+    console.warn('localStorage write failed:', err.message);
+  }
+}
+
+function toCustomStyle(row: any): CustomStyle {
+  return {
+    id: `${CUSTOM_STYLE_PREFIX}${row.id}`,
+    label: row.label,
+    emoji: row.emoji || '🎨',
+    artStyle: row.label,
+    backgroundColor: row.background_color || '#FFFFFF',
+    knockout: row.knockout === 'soft' ? 'soft' : 'edge',
+    promptTemplate: row.prompt_template,
+    previewUrl: row.preview_url || undefined,
+    archived: !!row.archived,
+    createdAt: new Date(row.created_at).getTime(),
+  };
+}
+
+/**
+ * Custom styles cached on this device, including archived ones
+ * (still needed to label designs made with them)
+ */
+export function getCachedCustomStyles(): CustomStyle[] {
+  return readCustomStyles();
+}
+
+/** The vendor's active custom styles, oldest first */
+export function listCustomStyles(): CustomStyle[] {
+  return readCustomStyles().filter(s => !s.archived);
+}
+
+/**
+ * Refresh the cache from Supabase
+ * @returns The cached styles unchanged when signed out or Supabase is not configured
+ */
+export async function fetchCustomStyles(): Promise<CustomStyle[]> {
+  const supabase = getSupabase();
+  if (!supabase || !_userId) return readCustomStyles();
+
+  const { data, error } = await supabase
+    .from('snap_custom_styles')
+    .select('id, label, emoji, prompt_template, background_color, knockout, preview_url, archived, created_at')
+    .order('created_at', { ascending: true });
+  if (error) throw new Error(error.message);
+
+  const styles = (data || []).map(toCustomStyle);
+  writeCustomStyles(styles);
+  return styles;
+}
+
+/** Create a custom style, or update it when id is given */
+export async function saveCustomStyle(details: {
+  id?: CustomStyleId;
+  label: string;
+  emoji: string;
+  promptTemplate: string;
+  backgroundColor: string;
+  knockout: 'edge' | 'soft';
+  previewUrl?: string;
+}): Promise<CustomStyle> {
+  const supabase = getSupabase();
+  if (!supabase || !_userId) throw new Error('Sign in to save custom styles');
+
+  const { data, error } = await supabase
+    .from('snap_custom_styles')
+    .upsert({
+      id: details.id ? details.id.slice(CUSTOM_STYLE_PREFIX.length) : generateId(),
+      user_id: _userId,
+      label: details.label.trim(),
+      emoji: details.emoji.trim() || '🎨',
+      prompt_template: details.promptTemplate.trim(),
+      background_color: details.backgroundColor,
+      knockout: details.knockout,
+      preview_url: details.previewUrl || null,
+    }, { onConflict: 'id' })
+    .select('id, label, emoji, prompt_template, background_color, knockout, preview_url, archived, created_at')
+    .single();
+  if (error || !data) throw new Error(error?.message || 'Could not save style');
+
+  const style = toCustomStyle(data);
+  writeCustomStyles([...readCustomStyles().filter(s => s.id !== style.id), style]);
+  return style;
+}
+
+/**
+ * Retire a custom style: it is removed from open events and no longer
+ * offered, but designs already made with it keep working
+ */
+export async function archiveCustomStyle(styleId: CustomStyleId): Promise<void> {
+  const supabase = getSupabase();
+  if (!supabase || !_userId) throw new Error('Sign in to manage custom styles');
+
+  const { error } = await supabase
+    .from('snap_custom_styles')
+    .update({ archived: true })
+    .eq('id', styleId.slice(CUSTOM_STYLE_PREFIX.length));
+  if (error) throw new Error(error.message);
+
+  writeCustomStyles(readCustomStyles().map(s => (s.id === styleId ? { ...s, archived: true } : s)));
+  for (const event of readEvents()) {
+    if (event.status === 'open' && event.customStyleIds?.includes(styleId)) {
+      setEventCustomStyles(event.id, event.customStyleIds.filter(id => id !== styleId));
+    }
+  }
 }
 
 // ── Orders ──────────────────────────────────────────────────────────────
@@ -128,23 +412,25 @@ function getOrders(): Order[] {
   return stored ? JSON.parse(stored) : [];
 }
 
+// Local record only — snap_orders rows are written server-side at PayPal capture
 export function saveOrder(order: Order): void {
   const orders = getOrders();
+  if (orders.some(o => o.id === order.id)) return;
   orders.unshift(order);
   localStorage.setItem(KEYS.ORDERS, JSON.stringify(orders));
-
-  // Sync order to Supabase
-  if (_userId) {
-    syncOrderToSupabase(order).catch(err =>
-      console.warn('Supabase order sync failed:', err.message)
-    );
-  }
 }
 
 // ── Utilities ───────────────────────────────────────────────────────────
 
+// UUIDs so local IDs can be used directly as Supabase primary keys
 export function generateId(): string {
-  return Date.now().toString(36) + Math.random().toString(36).substr(2, 6);
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  // Fallback for non-secure contexts (e.g. LAN dev over http)
+  return '10000000-1000-4000-8000-100000000000'.replace(/[018]/g, c =>
+    (Number(c) ^ (Math.random() * 16) >> (Number(c) / 4)).toString(16)
+  );
 }
 
 // Create a small thumbnail from a base64 image for the dashboard
@@ -165,11 +451,24 @@ export async function createThumbnail(base64: string, maxSize: number = 300): Pr
   });
 }
 
+// Read picked image files as data URLs, in order, skipping anything that isn't an image
+export function readImageFiles(files: FileList | File[], limit = MAX_CAR_PHOTOS): Promise<string[]> {
+  const images = Array.from(files).filter(f => f.type.startsWith('image/')).slice(0, limit);
+  return Promise.all(images.map(file => new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  })));
+}
+
 // ── Supabase Sync ───────────────────────────────────────────────────────
 
-async function syncEventToSupabase(session: EventSession): Promise<void> {
+/** @returns true once the event, its cars and their styles are all written */
+async function syncEventToSupabase(session: EventSession): Promise<boolean> {
   const supabase = getSupabase();
-  if (!supabase || !_userId) return;
+  if (!supabase || !_userId) return false;
+  let synced = true;
 
   // Upsert event
   const { error: eventError } = await supabase
@@ -178,12 +477,20 @@ async function syncEventToSupabase(session: EventSession): Promise<void> {
       id: session.id,
       user_id: _userId,
       name: session.name,
+      location: session.location || null,
       date: session.date,
+      end_date: session.endDate,
+      timezone: session.timezone,
+      status: session.status,
+      closed_at: session.closedAt ? new Date(session.closedAt).toISOString() : null,
+      style_packs: session.stylePacks || [],
+      custom_style_ids: session.customStyleIds || [],
+      redact_photos: session.redactPhotos !== false,
     }, { onConflict: 'id' });
 
   if (eventError) {
     console.warn('Supabase snap_events upsert error:', eventError.message);
-    return;
+    return false;
   }
 
   // Upsert cars
@@ -193,14 +500,16 @@ async function syncEventToSupabase(session: EventSession): Promise<void> {
       .upsert({
         id: car.id,
         event_id: session.id,
-        photo_thumbnail: (car.photoThumbnail && car.photoThumbnail.length < 15000)
+        photo_thumbnail: (car.photoThumbnail && car.photoThumbnail.length < 15000 && mayKeepPhoto(session, car.photoRedacted))
           ? car.photoThumbnail : null,
+        photo_redacted: !!car.photoRedacted,
         identity: car.identity,
         share_url: car.shareUrl || null,
       }, { onConflict: 'id' });
 
     if (carError) {
       console.warn(`Supabase snap_cars upsert error for ${car.id}:`, carError.message);
+      synced = false;
       continue;
     }
 
@@ -211,43 +520,126 @@ async function syncEventToSupabase(session: EventSession): Promise<void> {
       const { error: styleError } = await supabase
         .from('snap_styles')
         .upsert({
-          id: `${car.id}_${style.styleId}`, // deterministic ID
           car_id: car.id,
           style_id: style.styleId,
           image_url: (style.imageUrl && !style.imageUrl.startsWith('data:'))
             ? style.imageUrl : null, // Only store CDN URLs
           status: style.status,
           error: style.error || null,
-        }, { onConflict: 'id' });
+          view: style.view || null,
+          versions: (style.versions || []).map(v => v.imageUrl.startsWith('data:') ? { ...v, imageUrl: '' } : v),
+          current_version_id: style.currentVersionId || null,
+          lettering: style.lettering || null,
+        }, { onConflict: 'car_id,style_id' });
 
       if (styleError) {
         console.warn(`Supabase snap_styles upsert error for ${style.styleId}:`, styleError.message);
+        synced = false;
       }
     }
   }
+  return synced;
 }
 
-async function syncOrderToSupabase(order: Order): Promise<void> {
-  const supabase = getSupabase();
-  if (!supabase) return;
+// ── Past events (Supabase) ──────────────────────────────────────────────
 
-  const { error } = await supabase
-    .from('snap_orders')
-    .upsert({
-      id: order.id,
-      car_id: order.carSessionId,
-      customer_email: order.customerEmail,
-      customer_name: order.customerName || null,
-      customer_phone: order.customerPhone || null,
-      shipping_address: order.shippingAddress || null,
-      items: order.items,
-      payment_id: order.paymentId || null,
-      status: order.status,
-    }, { onConflict: 'id' });
+/**
+ * List the signed-in vendor's events from Supabase, newest first
+ * @returns Empty list when signed out or Supabase is not configured
+ */
+export async function fetchEventHistory(limit = 50): Promise<EventSummary[]> {
+  const supabase = getSupabase();
+  if (!supabase || !_userId) return [];
 
-  if (error) {
-    console.warn('Supabase snap_orders upsert error:', error.message);
-  }
+  const { data, error } = await supabase
+    .from('snap_events')
+    .select('id, name, location, date, end_date, status, snap_cars(count)')
+    .order('date', { ascending: false })
+    .limit(limit);
+  if (error) throw new Error(error.message);
+
+  return (data || []).map((row: any) => ({
+    id: row.id,
+    name: row.name,
+    location: row.location || undefined,
+    date: row.date,
+    endDate: row.end_date || row.date,
+    status: row.status === 'closed' ? 'closed' : 'open',
+    carCount: row.snap_cars?.[0]?.count ?? 0,
+  }));
 }
 
+/**
+ * Reopen a past event: load it (and its cars and styles) from Supabase if it
+ * is not on this device, mark it open and make it active.
+ */
+export async function reopenEvent(eventId: string): Promise<EventSession> {
+  let event = readEvents().find(e => e.id === eventId) || null;
+
+  if (!event) {
+    const supabase = getSupabase();
+    if (!supabase || !_userId) throw new Error('Sign in to reopen past events');
+
+    const { data: row, error } = await supabase
+      .from('snap_events')
+      .select('id, name, location, date, end_date, timezone, style_packs, custom_style_ids, redact_photos, created_at, snap_cars(id, identity, photo_thumbnail, photo_redacted, share_url, created_at, snap_styles(style_id, image_url, status, error, view, versions, current_version_id, lettering))')
+      .eq('id', eventId)
+      .single();
+    if (error || !row) throw new Error(error?.message || 'Event not found');
+
+    const orders = getOrders();
+    const stylePacks: StylePackId[] = row.style_packs || [];
+    const customStyleIds: CustomStyleId[] = row.custom_style_ids || [];
+    event = {
+      id: row.id,
+      name: row.name,
+      location: row.location || undefined,
+      date: row.date,
+      endDate: row.end_date || row.date,
+      timezone: row.timezone || localTimezone(),
+      status: 'open',
+      stylePacks,
+      customStyleIds,
+      redactPhotos: row.redact_photos !== false,
+      createdAt: new Date(row.created_at).getTime(),
+      cars: (row.snap_cars || [])
+        .sort((a: any, b: any) => b.created_at.localeCompare(a.created_at))
+        .map((car: any): CarSession => ({
+          id: car.id,
+          photoBase64: '',
+          photoThumbnail: car.photo_thumbnail || undefined,
+          photoRedacted: !!car.photo_redacted,
+          identity: car.identity,
+          // The event's styles, plus any style dropped from the event since
+          styles: [...new Set<SnapMerchStyle>([
+            ...STYLE_CONFIGS.filter(config => !config.pack || stylePacks.includes(config.pack)).map(config => config.id),
+            ...customStyleIds,
+            ...(car.snap_styles || []).map((st: any) => st.style_id),
+          ])].map((styleId): GeneratedStyle => {
+            const stored = (car.snap_styles || []).find((st: any) => st.style_id === styleId);
+            return stored?.image_url
+              ? {
+                  styleId,
+                  imageUrl: stored.image_url,
+                  status: stored.status,
+                  error: stored.error || undefined,
+                  view: stored.view || undefined,
+                  versions: stored.versions?.length ? stored.versions : undefined,
+                  currentVersionId: stored.current_version_id || undefined,
+                  lettering: stored.lettering || undefined,
+                }
+              : { styleId, imageUrl: null, status: 'idle' };
+          }),
+          mockups: [],
+          orders: orders.filter(o => o.carSessionId === car.id),
+          createdAt: new Date(car.created_at).getTime(),
+          shareUrl: car.share_url || undefined,
+        })),
+    };
+  }
 
+  const reopened: EventSession = { ...event, status: 'open', closedAt: undefined };
+  saveEventSession(reopened);
+  localStorage.setItem(KEYS.ACTIVE_EVENT, reopened.id);
+  return reopened;
+}
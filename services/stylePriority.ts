@@ -1,53 +1,35 @@
 // services/stylePriority.ts
-// Smart style prioritization based on vehicle identity
+// Smart style prioritization based on vehicle identity, using the body type
+// and market the vehicle taxonomy (lib/vehicleTaxonomy.ts) has for the car
 
-import type { CarIdentity, SnapMerchStyle, StyleConfig } from '../types';
-import { STYLE_CONFIGS } from '../types';
-
-const JDM_MAKES = ['honda', 'toyota', 'nissan', 'subaru', 'mazda', 'mitsubishi', 'lexus', 'acura', 'infiniti', 'datsun'];
-
-const LOWRIDER_MODELS = ['impala', 'monte carlo', 'regal', 'cutlass', 'el camino', 'caprice', 'fleetwood', 'lacrosse', 'riviera', 'skylark', 'lesabre', 'deville', 'town car', 'crown victoria', 'grand prix'];
-
-const TRUCK_KEYWORDS = ['truck', 'pickup', 'f-150', 'f-250', 'f-350', 'silverado', 'sierra', 'ram', 'tundra', 'titan', 'tacoma', 'frontier', 'ranger', 'colorado', 'canyon', 'ridgeline', 'gladiator', 'maverick', 'raptor'];
-
-const SPORTS_EXOTIC_MAKES = ['ferrari', 'lamborghini', 'porsche', 'mclaren', 'bugatti', 'koenigsegg', 'pagani', 'aston martin', 'lotus', 'maserati'];
-
-const SPORTS_MODELS = ['corvette', 'camaro', 'mustang', 'supra', 'gtr', 'gt-r', 'nsx', 'rx-7', 'rx7', 'brz', 'gr86', '86', 'miata', 'mx-5', 'wrx', 'sti', 'evo', 'lancer evolution', 'challenger', 'charger', 'viper', 'z06', 'zr1', 'shelby', 'gt350', 'gt500', 'amg', 'm3', 'm4', 'm5', 'rs3', 'rs5', 'rs6', 'rs7', '911', 'cayman', 'boxster', 'panamera', 'type r', 'civic si', 's2000'];
+import type { BuiltInStyle, CarIdentity, StyleConfig } from '../types';
+import { STYLE_CONFIGS, isCustomStyleId } from '../types';
+import { getVehicleTraits } from '../lib/vehicleTaxonomy';
 
 type VehicleCategory = 'pre1980-classic' | '80s-90s' | 'truck' | 'jdm' | 'lowrider' | 'modern-sports' | 'default';
 
 function categorizeVehicle(identity: CarIdentity): VehicleCategory {
   const year = parseInt(identity.year, 10) || 0;
-  const make = (identity.make || '').toLowerCase().trim();
-  const model = (identity.model || '').toLowerCase().trim();
-  const fullName = `${make} ${model}`;
+  const traits = getVehicleTraits(identity);
 
-  // Check lowrider first (specific 60s-70s models)
-  if (year >= 1958 && year <= 1985) {
-    const isLowriderModel = LOWRIDER_MODELS.some(m => model.includes(m));
-    if (isLowriderModel && ['chevrolet', 'chevy', 'buick', 'oldsmobile', 'cadillac', 'lincoln', 'pontiac', 'ford'].includes(make)) {
-      return 'lowrider';
-    }
+  // Check lowrider first (the classic-era cruisers)
+  if (traits.lowrider && year >= 1958 && year <= 1985) {
+    return 'lowrider';
   }
 
   // JDM
-  if (JDM_MAKES.includes(make)) {
+  if (traits.market === 'jdm') {
     return 'jdm';
   }
 
   // Trucks
-  const isTruck = TRUCK_KEYWORDS.some(k => fullName.includes(k));
-  if (isTruck) {
+  if (traits.body === 'truck') {
     return 'truck';
   }
 
   // Modern sports/exotic (2010+)
-  if (year >= 2010) {
-    const isExoticMake = SPORTS_EXOTIC_MAKES.some(m => make.includes(m));
-    const isSportsModel = SPORTS_MODELS.some(m => model.includes(m));
-    if (isExoticMake || isSportsModel) {
-      return 'modern-sports';
-    }
+  if (year >= 2010 && (traits.exotic || traits.sports)) {
+    return 'modern-sports';
   }
 
   // Pre-1980 classics/muscle cars
@@ -63,32 +45,35 @@ function categorizeVehicle(identity: CarIdentity): VehicleCategory {
   return 'default';
 }
 
-const PRIORITY_MAP: Record<VehicleCategory, SnapMerchStyle[]> = {
-  'pre1980-classic': ['retro', 'pencil', 'watercolor', 'vector', 'pop-art', 'blueprint', 'calligram', 'neon', 'comic', 'lowrider', 'neon-80s', 'japanese'],
-  '80s-90s': ['neon-80s', 'retro', 'neon', 'comic', 'vector', 'pop-art', 'calligram', 'watercolor', 'pencil', 'blueprint', 'lowrider', 'japanese'],
-  'truck': ['vector', 'blueprint', 'retro', 'watercolor', 'pencil', 'calligram', 'neon', 'comic', 'pop-art', 'neon-80s', 'lowrider', 'japanese'],
-  'jdm': ['japanese', 'neon', 'comic', 'neon-80s', 'vector', 'pop-art', 'retro', 'calligram', 'watercolor', 'pencil', 'blueprint', 'lowrider'],
-  'lowrider': ['lowrider', 'pop-art', 'retro', 'neon', 'calligram', 'watercolor', 'vector', 'pencil', 'comic', 'blueprint', 'neon-80s', 'japanese'],
-  'modern-sports': ['neon', 'vector', 'comic', 'neon-80s', 'pop-art', 'calligram', 'retro', 'blueprint', 'watercolor', 'pencil', 'lowrider', 'japanese'],
-  'default': ['vector', 'retro', 'neon', 'comic', 'calligram', 'watercolor', 'pop-art', 'pencil', 'blueprint', 'neon-80s', 'lowrider', 'japanese'],
+// Pack styles are ranked too but only appear when the event offers their
+// pack; among themselves the core styles keep the same order either way
+const PRIORITY_MAP: Record<VehicleCategory, BuiltInStyle[]> = {
+  'pre1980-classic': ['retro', 'pencil', 'watercolor', 'oil-painting', 'vector', 'cyanotype', 'pop-art', 'blueprint', 'ukiyo-e', 'line-art', 'calligram', 'chalk', 'cyanotype-inverted', 'neon', 'comic', 'exploded-view', 'lowrider', 'neon-80s', 'lego', 'vaporwave', 'low-poly', 'carbon-tech', 'anime', 'japanese', 'cyberpunk'],
+  '80s-90s': ['neon-80s', 'vaporwave', 'retro', 'neon', 'cyberpunk', 'comic', 'vector', 'pop-art', 'anime', 'calligram', 'low-poly', 'watercolor', 'pencil', 'lego', 'blueprint', 'chalk', 'carbon-tech', 'line-art', 'oil-painting', 'exploded-view', 'cyanotype', 'ukiyo-e', 'cyanotype-inverted', 'lowrider', 'japanese'],
+  'truck': ['vector', 'blueprint', 'retro', 'exploded-view', 'watercolor', 'pencil', 'lego', 'calligram', 'chalk', 'cyanotype', 'neon', 'comic', 'oil-painting', 'pop-art', 'line-art', 'low-poly', 'carbon-tech', 'neon-80s', 'cyanotype-inverted', 'lowrider', 'japanese', 'ukiyo-e', 'anime', 'vaporwave', 'cyberpunk'],
+  'jdm': ['japanese', 'anime', 'neon', 'cyberpunk', 'comic', 'ukiyo-e', 'neon-80s', 'vaporwave', 'carbon-tech', 'vector', 'pop-art', 'low-poly', 'retro', 'calligram', 'lego', 'watercolor', 'line-art', 'pencil', 'exploded-view', 'blueprint', 'chalk', 'oil-painting', 'cyanotype', 'cyanotype-inverted', 'lowrider'],
+  'lowrider': ['lowrider', 'pop-art', 'retro', 'oil-painting', 'neon', 'calligram', 'vaporwave', 'watercolor', 'chalk', 'vector', 'pencil', 'comic', 'line-art', 'anime', 'blueprint', 'neon-80s', 'cyberpunk', 'lego', 'ukiyo-e', 'low-poly', 'cyanotype', 'exploded-view', 'cyanotype-inverted', 'carbon-tech', 'japanese'],
+  'modern-sports': ['neon', 'vector', 'carbon-tech', 'comic', 'cyberpunk', 'neon-80s', 'exploded-view', 'low-poly', 'pop-art', 'anime', 'calligram', 'lego', 'retro', 'blueprint', 'line-art', 'watercolor', 'pencil', 'vaporwave', 'chalk', 'oil-painting', 'cyanotype', 'ukiyo-e', 'cyanotype-inverted', 'lowrider', 'japanese'],
+  'default': ['vector', 'retro', 'neon', 'comic', 'calligram', 'watercolor', 'pop-art', 'pencil', 'oil-painting', 'blueprint', 'lego', 'line-art', 'neon-80s', 'low-poly', 'anime', 'cyberpunk', 'chalk', 'exploded-view', 'carbon-tech', 'vaporwave', 'cyanotype', 'ukiyo-e', 'cyanotype-inverted', 'lowrider', 'japanese'],
 };
 
 /**
- * Returns all style configs sorted by likely appeal for the given vehicle.
+ * Returns style configs sorted by likely appeal for the given vehicle.
+ * Custom styles lead: the vendor picked them for this event's crowd.
  */
-export function getPrioritizedStyles(identity: CarIdentity): StyleConfig[] {
+export function getPrioritizedStyles(identity: CarIdentity, configs: StyleConfig[] = STYLE_CONFIGS): StyleConfig[] {
   const category = categorizeVehicle(identity);
   const order = PRIORITY_MAP[category];
 
+  const ordered: StyleConfig[] = configs.filter(c => isCustomStyleId(c.id));
   // Map ordered style IDs to their configs
-  const configMap = new Map(STYLE_CONFIGS.map(c => [c.id, c]));
-  const ordered: StyleConfig[] = [];
+  const configMap = new Map(configs.map(c => [c.id, c]));
   for (const id of order) {
     const cfg = configMap.get(id);
     if (cfg) ordered.push(cfg);
   }
   // Append any remaining configs not in the priority list (safety net)
-  for (const cfg of STYLE_CONFIGS) {
+  for (const cfg of configs) {
     if (!ordered.find(o => o.id === cfg.id)) {
       ordered.push(cfg);
     }
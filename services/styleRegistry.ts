@@ -0,0 +1,57 @@
+// SnapMerch style registry — built-in styles (core set and packs) plus
+// vendor-defined custom styles
+// The vendor's own custom styles come from the storage cache; the customer
+// page registers the ones a shared car's designs were made with.
+import type { CustomStyleId, DesignView, GeneratedStyle, StyleConfig, StylePackId } from '../types';
+import { STYLE_CONFIGS, baseStyleId, viewOfStyleId, viewStyleId } from '../types';
+import { getCachedCustomStyles } from './storage';
+
+const _registered = new Map<string, StyleConfig>();
+
+/** Make styles from outside the vendor's cache (e.g. a shared car) resolvable */
+export function registerStyleConfigs(configs: StyleConfig[]): void {
+  for (const config of configs) _registered.set(config.id, config);
+}
+
+function knownCustomStyles(): StyleConfig[] {
+  const cached = getCachedCustomStyles();
+  const extra = [..._registered.values()].filter(r => !cached.some(c => c.id === r.id));
+  return [...cached, ...extra];
+}
+
+/**
+ * Styles offered for a selection (an event): the core built-in styles, the
+ * selected packs' styles and the selected custom styles, in order.
+ * Omit the selection for every style known on this device.
+ */
+export function getStyleConfigs(selection?: { stylePacks?: StylePackId[]; customStyleIds?: CustomStyleId[] }): StyleConfig[] {
+  const custom = knownCustomStyles();
+  if (!selection) return [...STYLE_CONFIGS, ...custom];
+
+  const packs = selection.stylePacks || [];
+  const builtIn = STYLE_CONFIGS.filter(c => !c.pack || packs.includes(c.pack));
+  const selected = (selection.customStyleIds || [])
+    .map(id => custom.find(c => c.id === id))
+    .filter((c): c is StyleConfig => c !== undefined);
+  return [...builtIn, ...selected];
+}
+
+/** Config for a multi-view design: the style fixed to one angle */
+export function getViewConfig(base: StyleConfig, view: DesignView): StyleConfig {
+  return { ...base, id: viewStyleId(base.id, view), label: `${base.label} · ${view}`, view };
+}
+
+/**
+ * Configs with each style's multi-view designs (found in styles) placed
+ * right after it
+ */
+export function withViewConfigs(configs: StyleConfig[], styles: GeneratedStyle[]): StyleConfig[] {
+  return configs.flatMap(config => [
+    config,
+    ...styles
+      .filter(s => s.styleId !== config.id && baseStyleId(s.styleId) === config.id)
+      .map(s => viewOfStyleId(s.styleId))
+      .filter((view): view is DesignView => view !== null)
+      .map(view => getViewConfig(config, view)),
+  ]);
+}
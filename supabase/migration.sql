@@ -51,8 +51,240 @@ ALTER TABLE snap_cars ENABLE ROW LEVEL SECURITY;
 ALTER TABLE snap_styles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE snap_orders ENABLE ROW LEVEL SECURITY;
 
--- Policies: events belong to user_id, cascade via joins
-CREATE POLICY "Users manage own events" ON snap_events FOR ALL USING (true);
-CREATE POLICY "Cars via event access" ON snap_cars FOR ALL USING (true);
-CREATE POLICY "Styles via car access" ON snap_styles FOR ALL USING (true);
-CREATE POLICY "Orders public create, auth read" ON snap_orders FOR ALL USING (true);
+-- Policies: see "Row-level security" below (scoped to the Clerk user ID)
+
+-- ── Server-recorded orders ──────────────────────────────────────────────
+-- Orders are written by /api/paypal/create-order (pending) and
+-- /api/paypal/capture-order (confirmed), keyed on the PayPal order ID so a
+-- retried capture updates the same row.
+ALTER TABLE snap_orders ADD COLUMN IF NOT EXISTS event_id uuid REFERENCES snap_events(id) ON DELETE SET NULL;
+ALTER TABLE snap_orders ADD COLUMN IF NOT EXISTS paypal_order_id text;
+ALTER TABLE snap_orders ADD COLUMN IF NOT EXISTS total numeric(10, 2);
+ALTER TABLE snap_orders ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+ALTER TABLE snap_orders ALTER COLUMN customer_email DROP NOT NULL; -- unknown until capture
+CREATE UNIQUE INDEX IF NOT EXISTS snap_orders_paypal_order_id_key ON snap_orders (paypal_order_id);
+
+-- One row per (car, style) so client sync can upsert without synthetic IDs
+CREATE UNIQUE INDEX IF NOT EXISTS snap_styles_car_style_key ON snap_styles (car_id, style_id);
+
+-- ── PayPal webhook events ───────────────────────────────────────────────
+-- /api/paypal/webhook records each delivered event ID here so PayPal's
+-- retries and replays are acknowledged without being re-applied.
+CREATE TABLE IF NOT EXISTS snap_webhook_events (
+  id text PRIMARY KEY, -- PayPal event ID (WH-...)
+  event_type text NOT NULL,
+  resource_id text,
+  payload jsonb,
+  outcome text, -- updated | ignored
+  received_at timestamptz DEFAULT now(),
+  processed_at timestamptz
+);
+CREATE INDEX IF NOT EXISTS snap_orders_payment_id_idx ON snap_orders (payment_id);
+ALTER TABLE snap_orders ADD COLUMN IF NOT EXISTS status_before_dispute text; -- restored when the seller wins the dispute
+ALTER TABLE snap_webhook_events ENABLE ROW LEVEL SECURITY; -- service role only
+
+-- ── Print-on-demand fulfillment ─────────────────────────────────────────
+-- Paid orders are submitted to FULFILLMENT_PROVIDER; provider webhooks and
+-- /api/fulfillment/sync move status through in_production → shipped → fulfilled.
+ALTER TABLE snap_orders ADD COLUMN IF NOT EXISTS fulfillment_provider text; -- 'printful' | 'mock'
+ALTER TABLE snap_orders ADD COLUMN IF NOT EXISTS fulfillment_id text; -- provider-side order ID
+ALTER TABLE snap_orders ADD COLUMN IF NOT EXISTS fulfillment_status text; -- submitting | in_production | shipped | fulfilled | failed | cancelled
+ALTER TABLE snap_orders ADD COLUMN IF NOT EXISTS fulfillment_error text;
+ALTER TABLE snap_orders ADD COLUMN IF NOT EXISTS fulfillment_submitted_at timestamptz;
+ALTER TABLE snap_orders ADD COLUMN IF NOT EXISTS fulfillment_attempts integer NOT NULL DEFAULT 0; -- submissions started
+ALTER TABLE snap_orders ADD COLUMN IF NOT EXISTS fulfillment_next_attempt_at timestamptz; -- retry time, with backoff
+ALTER TABLE snap_orders ADD COLUMN IF NOT EXISTS tracking_carrier text;
+ALTER TABLE snap_orders ADD COLUMN IF NOT EXISTS tracking_number text;
+ALTER TABLE snap_orders ADD COLUMN IF NOT EXISTS tracking_url text;
+CREATE UNIQUE INDEX IF NOT EXISTS snap_orders_fulfillment_key ON snap_orders (fulfillment_provider, fulfillment_id);
+
+-- ── Row-level security ──────────────────────────────────────────────────
+-- Vendors sign in with Clerk; Supabase's Clerk third-party auth integration
+-- verifies the Clerk session token, so auth.jwt() ->> 'sub' is the Clerk user
+-- ID (the Clerk instance must be enabled for Supabase so tokens carry
+-- role = authenticated). Vendors reach only their own events and everything
+-- under them. Customers (anon) get no table access at all — only the
+-- snap_get_shared_car() read path below. Orders and webhook events are
+-- written by the API with the service role, which bypasses RLS.
+-- Verify with supabase/tests/rls.sql.
+
+CREATE OR REPLACE FUNCTION snap_requesting_user_id() RETURNS text
+LANGUAGE sql STABLE AS $$
+  SELECT nullif(auth.jwt() ->> 'sub', '')
+$$;
+
+-- Replace the original allow-all policies
+DROP POLICY IF EXISTS "Users manage own events" ON snap_events;
+DROP POLICY IF EXISTS "Cars via event access" ON snap_cars;
+DROP POLICY IF EXISTS "Styles via car access" ON snap_styles;
+DROP POLICY IF EXISTS "Orders public create, auth read" ON snap_orders;
+
+DROP POLICY IF EXISTS "Vendors manage own events" ON snap_events;
+CREATE POLICY "Vendors manage own events" ON snap_events
+  FOR ALL TO authenticated
+  USING (user_id = snap_requesting_user_id())
+  WITH CHECK (user_id = snap_requesting_user_id());
+
+DROP POLICY IF EXISTS "Vendors manage cars in own events" ON snap_cars;
+CREATE POLICY "Vendors manage cars in own events" ON snap_cars
+  FOR ALL TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM snap_events e
+    WHERE e.id = snap_cars.event_id AND e.user_id = snap_requesting_user_id()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM snap_events e
+    WHERE e.id = snap_cars.event_id AND e.user_id = snap_requesting_user_id()
+  ));
+
+DROP POLICY IF EXISTS "Vendors manage styles of own cars" ON snap_styles;
+CREATE POLICY "Vendors manage styles of own cars" ON snap_styles
+  FOR ALL TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM snap_cars c JOIN snap_events e ON e.id = c.event_id
+    WHERE c.id = snap_styles.car_id AND e.user_id = snap_requesting_user_id()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM snap_cars c JOIN snap_events e ON e.id = c.event_id
+    WHERE c.id = snap_styles.car_id AND e.user_id = snap_requesting_user_id()
+  ));
+
+-- Read-only for vendors: orders are created and updated server-side
+DROP POLICY IF EXISTS "Vendors read orders for own events" ON snap_orders;
+CREATE POLICY "Vendors read orders for own events" ON snap_orders
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM snap_events e
+    WHERE e.id = snap_orders.event_id AND e.user_id = snap_requesting_user_id()
+  ) OR EXISTS (
+    SELECT 1 FROM snap_cars c JOIN snap_events e ON e.id = c.event_id
+    WHERE c.id = snap_orders.car_id AND e.user_id = snap_requesting_user_id()
+  ));
+
+-- Service role only
+REVOKE ALL ON snap_webhook_events FROM anon, authenticated;
+
+CREATE INDEX IF NOT EXISTS snap_events_user_id_idx ON snap_events (user_id);
+CREATE INDEX IF NOT EXISTS snap_cars_event_id_idx ON snap_cars (event_id);
+
+-- ── Named, multi-day events ─────────────────────────────────────────────
+-- Events are created and closed explicitly by the vendor. date/end_date are
+-- local calendar days in the event's timezone.
+ALTER TABLE snap_events ADD COLUMN IF NOT EXISTS location text;
+ALTER TABLE snap_events ADD COLUMN IF NOT EXISTS end_date date;
+ALTER TABLE snap_events ADD COLUMN IF NOT EXISTS timezone text;
+ALTER TABLE snap_events ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'open'; -- open | closed
+ALTER TABLE snap_events ADD COLUMN IF NOT EXISTS closed_at timestamptz;
+UPDATE snap_events SET end_date = date WHERE end_date IS NULL;
+CREATE INDEX IF NOT EXISTS snap_events_user_date_idx ON snap_events (user_id, date DESC);
+
+-- ── Custom styles ───────────────────────────────────────────────────────
+-- Vendor-defined art styles. The app refers to them as 'custom-' || id (the
+-- style_id stored in snap_styles); events list the ones they offer in
+-- custom_style_ids. prompt_template replaces the built-in style instruction
+-- (placeholders {color}, {background}, {view} — see lib/styleHelpers.ts).
+CREATE TABLE IF NOT EXISTS snap_custom_styles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id text NOT NULL, -- Clerk user ID
+  label text NOT NULL,
+  emoji text NOT NULL DEFAULT '🎨',
+  prompt_template text NOT NULL,
+  background_color text NOT NULL DEFAULT '#FFFFFF',
+  knockout text NOT NULL DEFAULT 'edge', -- edge | soft (api/_lib/knockout.ts)
+  preview_url text, -- small data URL or CDN URL
+  archived boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now()
+);
+ALTER TABLE snap_custom_styles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Vendors manage own styles" ON snap_custom_styles;
+CREATE POLICY "Vendors manage own styles" ON snap_custom_styles
+  FOR ALL TO authenticated
+  USING (user_id = snap_requesting_user_id())
+  WITH CHECK (user_id = snap_requesting_user_id());
+
+CREATE INDEX IF NOT EXISTS snap_custom_styles_user_id_idx ON snap_custom_styles (user_id);
+
+ALTER TABLE snap_events ADD COLUMN IF NOT EXISTS custom_style_ids text[] NOT NULL DEFAULT '{}';
+
+-- ── Style packs ─────────────────────────────────────────────────────────
+-- Optional groups of built-in styles an event offers on top of the core set
+-- (STYLE_PACKS in types.ts).
+ALTER TABLE snap_events ADD COLUMN IF NOT EXISTS style_packs text[] NOT NULL DEFAULT '{}';
+
+-- ── Design views ────────────────────────────────────────────────────────
+-- The angle a design was rendered from (DESIGN_VIEWS in types.ts). Multi-view
+-- designs are stored as their own style_id ('blueprint@side').
+ALTER TABLE snap_styles ADD COLUMN IF NOT EXISTS view text;
+
+-- ── Design versions ─────────────────────────────────────────────────────
+-- Tweak history per design: [{ id, imageUrl, prompt, parentId, createdAt }]
+-- (DesignVersion in types.ts), a tree through parentId. Not part of the
+-- shared car read path.
+ALTER TABLE snap_styles ADD COLUMN IF NOT EXISTS versions jsonb NOT NULL DEFAULT '[]';
+ALTER TABLE snap_styles ADD COLUMN IF NOT EXISTS current_version_id text;
+
+-- ── Lettering ───────────────────────────────────────────────────────────
+-- Text drawn over a design from the bundled font (LetteringSpec in types.ts),
+-- kept apart from image_url so it stays editable. Print files and mockups
+-- composite it server-side (api/_lib/lettering.ts).
+ALTER TABLE snap_styles ADD COLUMN IF NOT EXISTS lettering jsonb;
+
+-- ── Photo redaction ─────────────────────────────────────────────────────
+-- Plates and faces are blurred server-side (/api/redact) before a photo
+-- becomes the stored thumbnail or the customer hero image. redact_photos is
+-- the per-event switch (on unless the vendor turns it off); photo_redacted
+-- records that the car's thumbnail went through it.
+ALTER TABLE snap_events ADD COLUMN IF NOT EXISTS redact_photos boolean NOT NULL DEFAULT true;
+ALTER TABLE snap_cars ADD COLUMN IF NOT EXISTS photo_redacted boolean NOT NULL DEFAULT false;
+
+-- ── Shared car read path ────────────────────────────────────────────────
+-- What a customer sees for a shared car (QR code page): identity, the
+-- thumbnail if it was redacted (or the event doesn't redact), finished designs
+-- with their angle and lettering, the custom styles behind them (label, emoji
+-- and canvas only — never the prompt) and the event name. Share links expire
+-- 30 days after the car was snapped; expired cars return only
+-- { id, expired, expires_at }. Kept last, after every column it reads; edit
+-- this definition when they change.
+CREATE OR REPLACE FUNCTION snap_get_shared_car(p_car_id uuid) RETURNS jsonb
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT CASE
+    WHEN c.created_at < now() - interval '30 days' THEN jsonb_build_object(
+      'id', c.id,
+      'expired', true,
+      'expires_at', c.created_at + interval '30 days'
+    )
+    ELSE jsonb_build_object(
+      'id', c.id,
+      'expired', false,
+      'identity', c.identity,
+      'photo_thumbnail', CASE WHEN c.photo_redacted OR e.redact_photos = false THEN c.photo_thumbnail END,
+      'event_name', e.name,
+      'created_at', c.created_at,
+      'expires_at', c.created_at + interval '30 days',
+      'styles', coalesce((
+        SELECT jsonb_agg(jsonb_build_object('style_id', s.style_id, 'image_url', s.image_url, 'view', s.view, 'lettering', s.lettering) ORDER BY s.created_at)
+        FROM snap_styles s
+        WHERE s.car_id = c.id AND s.status = 'done' AND s.image_url IS NOT NULL
+      ), '[]'::jsonb),
+      'custom_styles', coalesce((
+        SELECT jsonb_agg(jsonb_build_object(
+          'id', 'custom-' || cs.id::text,
+          'label', cs.label,
+          'emoji', cs.emoji,
+          'background_color', cs.background_color
+        ))
+        FROM snap_custom_styles cs
+        WHERE EXISTS (
+          SELECT 1 FROM snap_styles s
+          WHERE s.car_id = c.id AND split_part(s.style_id, '@', 1) = 'custom-' || cs.id::text
+        )
+      ), '[]'::jsonb)
+    )
+  END
+  FROM snap_cars c
+  LEFT JOIN snap_events e ON e.id = c.event_id
+  WHERE c.id = p_car_id
+$$;
+REVOKE ALL ON FUNCTION snap_get_shared_car(uuid) FROM public;
+GRANT EXECUTE ON FUNCTION snap_get_shared_car(uuid) TO anon, authenticated, service_role;
@@ -0,0 +1,152 @@
+-- supabase/tests/rls.sql — Prove the snap_* row-level security policies hold
+-- Run against a database with supabase/migration.sql applied:
+--   npm run test:rls            (uses $DATABASE_URL)
+-- Everything runs inside one transaction and is rolled back. Any failed
+-- check raises an exception, so psql exits non-zero with ON_ERROR_STOP.
+
+BEGIN;
+
+-- ── Fixtures (as the table owner, bypassing RLS) ────────────────────────
+-- Vendor A: event aaaa…, car aaaa…; vendor B: event bbbb…, car bbbb…
+
+INSERT INTO snap_events (id, user_id, name) VALUES
+  ('aaaaaaaa-0000-4000-8000-000000000001', 'user_rls_vendor_a', 'Vendor A meet'),
+  ('bbbbbbbb-0000-4000-8000-000000000001', 'user_rls_vendor_b', 'Vendor B meet');
+
+-- Car A's thumbnail went through redaction, car B's didn't
+INSERT INTO snap_cars (id, event_id, identity, photo_thumbnail, photo_redacted) VALUES
+  ('aaaaaaaa-0000-4000-8000-000000000002', 'aaaaaaaa-0000-4000-8000-000000000001', '{"make":"Porsche"}', 'data:image/jpeg;base64,REDACTED', true),
+  ('bbbbbbbb-0000-4000-8000-000000000002', 'bbbbbbbb-0000-4000-8000-000000000001', '{"make":"Ferrari"}', 'data:image/jpeg;base64,UNREDACTED', false);
+
+INSERT INTO snap_styles (car_id, style_id, image_url, status) VALUES
+  ('aaaaaaaa-0000-4000-8000-000000000002', 'vector', 'https://cdn.example.com/a.png', 'done'),
+  ('bbbbbbbb-0000-4000-8000-000000000002', 'vector', 'https://cdn.example.com/b.png', 'done'),
+  ('bbbbbbbb-0000-4000-8000-000000000002', 'custom-bbbbbbbb-0000-4000-8000-000000000003', 'https://cdn.example.com/b-custom.png', 'done');
+
+INSERT INTO snap_custom_styles (id, user_id, label, prompt_template) VALUES
+  ('aaaaaaaa-0000-4000-8000-000000000003', 'user_rls_vendor_a', 'Vendor A house style', 'SECRET PROMPT A'),
+  ('bbbbbbbb-0000-4000-8000-000000000003', 'user_rls_vendor_b', 'Vendor B house style', 'SECRET PROMPT B');
+
+INSERT INTO snap_orders (car_id, event_id, paypal_order_id, customer_email, shipping_address, items, status) VALUES
+  ('aaaaaaaa-0000-4000-8000-000000000002', 'aaaaaaaa-0000-4000-8000-000000000001', 'RLS-TEST-A', 'a@example.com', '{"city":"Austin"}', '[]', 'confirmed'),
+  ('bbbbbbbb-0000-4000-8000-000000000002', 'bbbbbbbb-0000-4000-8000-000000000001', 'RLS-TEST-B', 'b@example.com', '{"city":"Boston"}', '[]', 'confirmed');
+
+-- ── Vendor A (authenticated, Clerk sub = user_rls_vendor_a) ─────────────
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub":"user_rls_vendor_a","role":"authenticated"}', true);
+
+DO $$
+DECLARE
+  n integer;
+BEGIN
+  -- Own rows are visible
+  SELECT count(*) INTO n FROM snap_events WHERE id = 'aaaaaaaa-0000-4000-8000-000000000001';
+  IF n <> 1 THEN RAISE EXCEPTION 'vendor A cannot read own event'; END IF;
+  SELECT count(*) INTO n FROM snap_orders WHERE paypal_order_id = 'RLS-TEST-A';
+  IF n <> 1 THEN RAISE EXCEPTION 'vendor A cannot read own order'; END IF;
+  SELECT count(*) INTO n FROM snap_custom_styles WHERE id = 'aaaaaaaa-0000-4000-8000-000000000003';
+  IF n <> 1 THEN RAISE EXCEPTION 'vendor A cannot read own custom style'; END IF;
+
+  -- Other vendor's rows are not
+  SELECT count(*) INTO n FROM snap_events WHERE user_id = 'user_rls_vendor_b';
+  IF n <> 0 THEN RAISE EXCEPTION 'vendor A can read vendor B events'; END IF;
+  SELECT count(*) INTO n FROM snap_cars WHERE id = 'bbbbbbbb-0000-4000-8000-000000000002';
+  IF n <> 0 THEN RAISE EXCEPTION 'vendor A can read vendor B cars'; END IF;
+  SELECT count(*) INTO n FROM snap_styles WHERE car_id = 'bbbbbbbb-0000-4000-8000-000000000002';
+  IF n <> 0 THEN RAISE EXCEPTION 'vendor A can read vendor B styles'; END IF;
+  SELECT count(*) INTO n FROM snap_orders WHERE paypal_order_id = 'RLS-TEST-B';
+  IF n <> 0 THEN RAISE EXCEPTION 'vendor A can read vendor B orders'; END IF;
+  SELECT count(*) INTO n FROM snap_custom_styles WHERE user_id = 'user_rls_vendor_b';
+  IF n <> 0 THEN RAISE EXCEPTION 'vendor A can read vendor B custom styles'; END IF;
+
+  -- Writes to the other vendor's rows affect nothing
+  UPDATE snap_events SET name = 'hijacked' WHERE id = 'bbbbbbbb-0000-4000-8000-000000000001';
+  GET DIAGNOSTICS n = ROW_COUNT;
+  IF n <> 0 THEN RAISE EXCEPTION 'vendor A can update vendor B event'; END IF;
+  DELETE FROM snap_cars WHERE id = 'bbbbbbbb-0000-4000-8000-000000000002';
+  GET DIAGNOSTICS n = ROW_COUNT;
+  IF n <> 0 THEN RAISE EXCEPTION 'vendor A can delete vendor B car'; END IF;
+
+  -- Orders are read-only for vendors, even their own
+  UPDATE snap_orders SET status = 'refunded' WHERE paypal_order_id = 'RLS-TEST-A';
+  GET DIAGNOSTICS n = ROW_COUNT;
+  IF n <> 0 THEN RAISE EXCEPTION 'vendor A can update orders'; END IF;
+
+  -- Inserts are checked against the JWT
+  BEGIN
+    INSERT INTO snap_events (user_id, name) VALUES ('user_rls_vendor_b', 'spoofed');
+    RAISE EXCEPTION 'vendor A can create an event for vendor B';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+  BEGIN
+    INSERT INTO snap_cars (event_id) VALUES ('bbbbbbbb-0000-4000-8000-000000000001');
+    RAISE EXCEPTION 'vendor A can add a car to vendor B event';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+  BEGIN
+    INSERT INTO snap_styles (car_id, style_id) VALUES ('bbbbbbbb-0000-4000-8000-000000000002', 'retro');
+    RAISE EXCEPTION 'vendor A can add a style to vendor B car';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+  BEGIN
+    INSERT INTO snap_custom_styles (user_id, label, prompt_template) VALUES ('user_rls_vendor_b', 'spoofed', 'x');
+    RAISE EXCEPTION 'vendor A can create a custom style for vendor B';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+END
+$$;
+
+RESET ROLE;
+
+-- ── Customer (anon key, no Clerk session) ───────────────────────────────
+
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role":"anon"}', true);
+
+DO $$
+DECLARE
+  n integer;
+  shared jsonb;
+BEGIN
+  SELECT count(*) INTO n FROM snap_events;
+  IF n <> 0 THEN RAISE EXCEPTION 'anon can read snap_events'; END IF;
+  SELECT count(*) INTO n FROM snap_cars;
+  IF n <> 0 THEN RAISE EXCEPTION 'anon can read snap_cars'; END IF;
+  SELECT count(*) INTO n FROM snap_styles;
+  IF n <> 0 THEN RAISE EXCEPTION 'anon can read snap_styles'; END IF;
+  SELECT count(*) INTO n FROM snap_orders;
+  IF n <> 0 THEN RAISE EXCEPTION 'anon can read snap_orders'; END IF;
+  SELECT count(*) INTO n FROM snap_custom_styles;
+  IF n <> 0 THEN RAISE EXCEPTION 'anon can read snap_custom_styles'; END IF;
+
+  BEGIN
+    INSERT INTO snap_orders (items) VALUES ('[]');
+    RAISE EXCEPTION 'anon can create orders';
+  EXCEPTION WHEN insufficient_privilege THEN NULL;
+  END;
+
+  -- The shared-car read path works and exposes nothing vendor- or customer-private
+  shared := snap_get_shared_car('bbbbbbbb-0000-4000-8000-000000000002');
+  IF shared IS NULL OR (shared ->> 'expired')::boolean THEN RAISE EXCEPTION 'anon cannot read a shared car'; END IF;
+  IF jsonb_array_length(shared -> 'styles') <> 2 THEN RAISE EXCEPTION 'shared car styles missing'; END IF;
+  IF jsonb_array_length(shared -> 'custom_styles') <> 1 THEN RAISE EXCEPTION 'shared car custom style missing'; END IF;
+  IF shared ? 'user_id' OR shared ? 'event_id' OR shared::text LIKE '%@example.com%' OR shared::text LIKE '%SECRET PROMPT%' THEN
+    RAISE EXCEPTION 'shared car leaks private fields: %', shared;
+  END IF;
+  -- Only redacted thumbnails are shared while the event requires redaction
+  IF shared ->> 'photo_thumbnail' IS NOT NULL THEN RAISE EXCEPTION 'shared car exposes an unredacted photo'; END IF;
+  IF snap_get_shared_car('aaaaaaaa-0000-4000-8000-000000000002') ->> 'photo_thumbnail' IS NULL THEN
+    RAISE EXCEPTION 'shared car hides its redacted photo';
+  END IF;
+  IF snap_get_shared_car('00000000-0000-4000-8000-000000000000') IS NOT NULL THEN
+    RAISE EXCEPTION 'unknown car returned data';
+  END IF;
+END
+$$;
+
+RESET ROLE;
+
+\echo 'RLS checks passed'
+
+ROLLBACK;
@@ -0,0 +1,67 @@
+// tests/api.test.ts — Reading the server's event streams however they arrive
+import { describe, it, expect, vi } from 'vitest';
+import { readEventStream } from '../services/api';
+
+// A text/event-stream response delivered in the given chunks
+function streamOf(...chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  return new Response(new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  }), { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+async function read(res: Response): Promise<[string, any, string?][]> {
+  const events: [string, any, string?][] = [];
+  await readEventStream(res, (event, data, id) => events.push(id === undefined ? [event, data] : [event, data, id]));
+  return events;
+}
+
+describe('readEventStream', () => {
+  it('dispatches events with their type, data and id', async () => {
+    expect(await read(streamOf('event: progress\nid: 1\ndata: {"stage":"sent"}\n\nevent: done\ndata: {"ok":true}\n\n'))).toEqual([
+      ['progress', { stage: 'sent' }, '1'],
+      ['done', { ok: true }],
+    ]);
+  });
+
+  it('reassembles events split across chunks, even mid-character', async () => {
+    const body = 'event: done\ndata: {"label":"Café"}\n\n';
+    const bytes = new TextEncoder().encode(body);
+    const split = bytes.indexOf(0xc3) + 1; // inside the two bytes of é
+    const res = new Response(new ReadableStream({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, split));
+        controller.enqueue(bytes.slice(split));
+        controller.close();
+      },
+    }));
+    expect(await read(res)).toEqual([['done', { label: 'Café' }]]);
+  });
+
+  it('accepts \\r\\n and \\r line endings, including a \\r\\n split between chunks', async () => {
+    expect(await read(streamOf('event: progress\r\ndata: {"n":1}\r\n\r\n', 'event: done\rdata: {"n":2}\r\r'))).toEqual([
+      ['progress', { n: 1 }],
+      ['done', { n: 2 }],
+    ]);
+    expect(await read(streamOf('data: {"n":1}\r', '\n\r', '\ndata: {"n":2}\r\n\r\n'))).toEqual([
+      ['message', { n: 1 }],
+      ['message', { n: 2 }],
+    ]);
+  });
+
+  it('skips an event with malformed data and keeps reading', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(await read(streamOf('event: progress\ndata: {"stage":\n\nevent: done\ndata: {"ok":true}\n\n'))).toEqual([
+      ['done', { ok: true }],
+    ]);
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+
+  it('ignores keep-alive comments and joins multi-line data', async () => {
+    expect(await read(streamOf(': ping\n\nevent: done\ndata: {"a":\ndata:1}\n\n'))).toEqual([['done', { a: 1 }]]);
+  });
+});
@@ -0,0 +1,74 @@
+// tests/designVersions.test.ts — Design tweak history: tree, revert and branching
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { GeneratedStyle } from '../types';
+import { addTweakVersion, getCurrentVersion, getParentVersion, getVersionTree, revertToVersion } from '../services/designVersions';
+
+// Hoisted above the imports by vitest; predictable IDs instead of the browser-backed storage module
+const ids = vi.hoisted(() => ({ next: 0 }));
+vi.mock('../services/storage', () => ({ generateId: () => `v${++ids.next}` }));
+
+const generated = (): GeneratedStyle => ({ styleId: 'blueprint', imageUrl: 'gen.png', status: 'done' });
+
+const tree = (style: GeneratedStyle) => getVersionTree(style).map(({ version, depth }) => `${'  '.repeat(depth)}${version.imageUrl}`);
+
+beforeEach(() => { ids.next = 0; });
+
+describe('addTweakVersion', () => {
+  it('keeps the generated design as the root of the first tweak', () => {
+    const style = addTweakVersion(generated(), 'tweak-1.png', 'lower it');
+    expect(style.imageUrl).toBe('tweak-1.png');
+    expect(style.versions).toHaveLength(2);
+    const current = getCurrentVersion(style)!;
+    expect(current).toMatchObject({ imageUrl: 'tweak-1.png', prompt: 'lower it' });
+    expect(getParentVersion(style, current)?.imageUrl).toBe('gen.png');
+  });
+
+  it('chains tweaks onto the current version', () => {
+    const style = addTweakVersion(addTweakVersion(generated(), 'tweak-1.png'), 'tweak-2.png');
+    expect(tree(style)).toEqual(['gen.png', '  tweak-1.png', '    tweak-2.png']);
+  });
+
+  it('starts a new root when the image changed outside the history (a regeneration)', () => {
+    const tweaked = addTweakVersion(generated(), 'tweak-1.png');
+    const style = addTweakVersion({ ...tweaked, imageUrl: 'regen.png' }, 'tweak-2.png');
+    expect(tree(style)).toEqual(['gen.png', '  tweak-1.png', 'regen.png', '  tweak-2.png']);
+  });
+});
+
+describe('revertToVersion', () => {
+  it('moves the current pointer without dropping later versions', () => {
+    const tweaked = addTweakVersion(addTweakVersion(generated(), 'tweak-1.png'), 'tweak-2.png');
+    const root = tweaked.versions![0];
+    const reverted = revertToVersion(tweaked, root.id);
+    expect(reverted.imageUrl).toBe('gen.png');
+    expect(reverted.currentVersionId).toBe(root.id);
+    expect(reverted.versions).toHaveLength(3);
+  });
+
+  it('branches a tweak made after a revert off the older version', () => {
+    const tweaked = addTweakVersion(addTweakVersion(generated(), 'tweak-1.png'), 'tweak-2.png');
+    const branched = addTweakVersion(revertToVersion(tweaked, tweaked.versions![0].id), 'branch.png');
+    expect(tree(branched)).toEqual(['gen.png', '  tweak-1.png', '    tweak-2.png', '  branch.png']);
+  });
+
+  it('skips versions whose image was dropped from storage, and unknown IDs', () => {
+    const tweaked = addTweakVersion(generated(), 'tweak-1.png');
+    const dropped = { ...tweaked, versions: tweaked.versions!.map((v, i) => i === 0 ? { ...v, imageUrl: '' } : v) };
+    expect(revertToVersion(dropped, dropped.versions[0].id).imageUrl).toBe('tweak-1.png');
+    expect(revertToVersion(tweaked, 'missing').imageUrl).toBe('tweak-1.png');
+  });
+});
+
+describe('getVersionTree', () => {
+  it('shows a version whose parent is gone as a root', () => {
+    const style: GeneratedStyle = {
+      ...generated(),
+      versions: [{ id: 'orphan', imageUrl: 'orphan.png', parentId: 'gone', createdAt: 1 }],
+    };
+    expect(getVersionTree(style)).toEqual([{ version: style.versions![0], depth: 0 }]);
+  });
+
+  it('is empty for a design that was never tweaked', () => {
+    expect(getVersionTree(generated())).toEqual([]);
+  });
+});
@@ -0,0 +1,59 @@
+// tests/knockout.test.ts — Canvas knockout for apparel print files
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { knockoutBackground, parseHex } from '../api/_lib/knockout.js';
+
+const SIZE = 64;
+
+// White canvas with a red ring around a white middle — a white car's body on a white canvas
+async function ringOnCanvas(canvas = '#FFFFFF') {
+  const ring = await sharp({ create: { width: 32, height: 32, channels: 3, background: '#C8102E' } })
+    .composite([{ input: await sharp({ create: { width: 16, height: 16, channels: 3, background: '#FFFFFF' } }).png().toBuffer(), left: 8, top: 8 }])
+    .png()
+    .toBuffer();
+  return sharp({ create: { width: SIZE, height: SIZE, channels: 3, background: canvas } })
+    .composite([{ input: ring, left: 16, top: 16 }])
+    .png()
+    .toBuffer();
+}
+
+async function alphaAt(png: Buffer, x: number, y: number): Promise<number> {
+  const { data } = await sharp(png).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  return data[(y * SIZE + x) * 4 + 3];
+}
+
+describe('parseHex', () => {
+  it('reads 6- and 3-digit hex colors', () => {
+    expect(parseHex('#C8102E')).toEqual([200, 16, 46]);
+    expect(parseHex('#fff')).toEqual([255, 255, 255]);
+  });
+
+  it('throws on anything else', () => {
+    expect(() => parseHex('white')).toThrow(/Invalid background color/);
+    expect(() => parseHex('#12345')).toThrow();
+  });
+});
+
+describe('knockoutBackground', () => {
+  it('clears the canvas from the border in but keeps same-colored areas inside the subject', async () => {
+    const result = await knockoutBackground(await ringOnCanvas(), '#FFFFFF');
+    expect(result).toMatchObject({ mode: 'edge', width: SIZE, height: SIZE });
+    expect(await alphaAt(result.png, 2, 2)).toBe(0);    // canvas
+    expect(await alphaAt(result.png, 20, 20)).toBe(255); // red ring
+    expect(await alphaAt(result.png, 32, 32)).toBe(255); // white inside the ring
+  });
+
+  it('falls back to soft mode when the border is not the canvas color', async () => {
+    const result = await knockoutBackground(await ringOnCanvas('#000000'), '#FFFFFF');
+    expect(result.mode).toBe('soft');
+    expect(await alphaAt(result.png, 2, 2)).toBe(255);  // black is far from the white canvas
+    expect(await alphaAt(result.png, 32, 32)).toBe(0);  // soft mode clears every canvas-colored pixel
+  });
+
+  it('uses soft mode when asked', async () => {
+    const result = await knockoutBackground(await ringOnCanvas(), '#FFFFFF', { mode: 'soft' });
+    expect(result.mode).toBe('soft');
+    expect(await alphaAt(result.png, 2, 2)).toBe(0);
+    expect(await alphaAt(result.png, 20, 20)).toBe(255);
+  });
+});
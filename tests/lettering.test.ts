@@ -0,0 +1,125 @@
+// tests/lettering.test.ts — Lettering layout over a square design
+import { describe, it, expect } from 'vitest';
+import { contrastColor, defaultLettering, formatLetteringDate, hasLettering, renderLetteringSvg } from '../lib/lettering.js';
+import { toFontText, unsupportedCharacters } from '../lib/strokeFont.js';
+import { validateLettering } from '../api/_lib/validation.js';
+import type { LetteringPreset } from '../types.js';
+
+const texts = { car: "1969 Camaro SS", owner: "Dana's", event: 'Cars & Coffee', date: 'JUN 14 2026' };
+
+// Every coordinate the paths draw through, as [x, y]
+function pathPoints(svg: string): [number, number][] {
+  return [...svg.matchAll(/<path d="([^"]+)"/g)].flatMap(([, d]) =>
+    d.split(/[ML]/).filter(Boolean).map(pair => pair.split(' ').map(Number) as [number, number]));
+}
+
+const pathCount = (svg: string) => (svg.match(/<path /g) || []).length;
+
+describe('renderLetteringSvg', () => {
+  it.each<[LetteringPreset, number]>([['stacked', 3], ['badge', 3], ['arched', 2]])('lays out %s as %i lines', (preset, lines) => {
+    expect(pathCount(renderLetteringSvg(defaultLettering(preset, texts)))).toBe(lines);
+  });
+
+  it('keeps every line inside the canvas, shrinking long names to fit', () => {
+    const long = { ...texts, car: '1970 Plymouth Hemi Cuda Convertible Shaker Hood Edition' };
+    for (const preset of ['stacked', 'badge', 'arched'] as LetteringPreset[]) {
+      for (const [x, y] of pathPoints(renderLetteringSvg(defaultLettering(preset, long)))) {
+        expect(x).toBeGreaterThanOrEqual(0);
+        expect(x).toBeLessThanOrEqual(1000);
+        expect(y).toBeGreaterThanOrEqual(0);
+        expect(y).toBeLessThanOrEqual(1000);
+      }
+    }
+  });
+
+  it('keeps stacked lettering in the lower part of the canvas', () => {
+    const ys = pathPoints(renderLetteringSvg(defaultLettering('stacked', texts))).map(([, y]) => y);
+    expect(Math.min(...ys)).toBeGreaterThan(700);
+  });
+
+  it('draws a plate behind badge lettering only', () => {
+    expect(renderLetteringSvg(defaultLettering('badge', texts))).toContain('<rect');
+    expect(renderLetteringSvg(defaultLettering('stacked', texts))).not.toContain('<rect');
+  });
+
+  it('emits paths only, never the text itself', () => {
+    const svg = renderLetteringSvg(defaultLettering('stacked', { car: '<script>alert(1)</script>' }));
+    expect(svg).not.toContain('script');
+    expect(svg).not.toContain('<text');
+  });
+
+  it('falls back to near-black for a color that is not a hex', () => {
+    const spec = { ...defaultLettering('stacked', texts), color: 'red" onload="x' };
+    expect(renderLetteringSvg(spec)).toContain('stroke="#111111"');
+  });
+
+  it('sizes the SVG in pixels over a 1000-unit viewBox', () => {
+    expect(renderLetteringSvg(defaultLettering('stacked', texts), 600)).toMatch(/^<svg [^>]*width="600" height="600" viewBox="0 0 1000 1000"/);
+  });
+});
+
+describe('hasLettering', () => {
+  it('is false for missing specs and blank layers', () => {
+    expect(hasLettering(null)).toBe(false);
+    expect(hasLettering(defaultLettering('stacked', { car: '   ' }))).toBe(false);
+    expect(hasLettering(defaultLettering('stacked', { date: 'JUN 14 2026' }))).toBe(true);
+  });
+});
+
+describe('defaultLettering', () => {
+  it('reads on the canvas color and puts the plate in it', () => {
+    expect(defaultLettering('badge', texts, '#0A0A0A')).toMatchObject({ color: '#FFFFFF', plateColor: '#0A0A0A', font: 'block' });
+    expect(defaultLettering('badge', texts, '#FFFFFF').color).toBe('#111111');
+    expect(defaultLettering('badge', texts).layers.map(l => l.role)).toEqual(['car', 'owner', 'event', 'date']);
+  });
+
+  it('leaves out characters the font cannot draw from filled-in texts', () => {
+    const spec = defaultLettering('stacked', { car: 'Škoda 110 R', event: '東京 Cars & Coffee' });
+    expect(spec.layers.map(l => l.text)).toEqual(['Škoda 110 R', '', 'Cars & Coffee', '']);
+  });
+});
+
+describe('glyph coverage', () => {
+  it('spells Latin names with the letters the font has', () => {
+    expect(toFontText('Søren')).toBe('SOREN');
+    expect(toFontText('Łukasz')).toBe('LUKASZ');
+    expect(toFontText('Straße')).toBe('STRASSE');
+    expect(toFontText('Chloé Æsir')).toBe('CHLOE AESIR');
+    for (const name of ['Søren', 'Łukasz', 'Straße', 'Chloé', 'Dvořák']) {
+      expect(unsupportedCharacters(name)).toEqual([]);
+    }
+  });
+
+  it('reports what would print as ?, once each', () => {
+    expect(unsupportedCharacters('Дмитрий Дима')).toEqual(['Д', 'м', 'и', 'т', 'р', 'й', 'а']);
+    expect(unsupportedCharacters('健太 🚗')).toEqual(['健', '太', '🚗']);
+    expect(unsupportedCharacters("1969 Camaro SS — Dana's!")).toEqual(['—']);
+  });
+
+  it('is enforced by validateLettering', () => {
+    const spec = defaultLettering('stacked', texts);
+    expect(validateLettering(spec)).toEqual([]);
+    expect(validateLettering({ ...spec, layers: [{ role: 'owner', text: 'Søren' }] })).toEqual([]);
+    const errors = validateLettering({ ...spec, layers: [{ role: 'owner', text: '健太' }] });
+    expect(errors).toHaveLength(1);
+    expect(errors[0].field).toBe('lettering.layers');
+    expect(errors[0].message).toContain('健 太');
+  });
+});
+
+describe('contrastColor', () => {
+  it('picks white on dark canvases and near-black on light ones', () => {
+    expect(contrastColor('#000000')).toBe('#FFFFFF');
+    expect(contrastColor('#1E3F8C')).toBe('#FFFFFF');
+    expect(contrastColor('#F4D00C')).toBe('#111111');
+    expect(contrastColor('nope')).toBe('#111111');
+  });
+});
+
+describe('formatLetteringDate', () => {
+  it('formats event dates without shifting the day', () => {
+    expect(formatLetteringDate('2026-06-14')).toBe('JUN 14 2026');
+    expect(formatLetteringDate('2026-01-01')).toBe('JAN 1 2026');
+    expect(formatLetteringDate('someday')).toBe('someday');
+  });
+});
@@ -0,0 +1,197 @@
+// tests/orders.test.ts — Recording paid orders when the pending row or the car is missing, and claiming their submission
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { priceOrderItems } from '../api/_lib/pricing.js';
+import { MAX_SUBMISSION_ATTEMPTS, claimSubmission, orderItemsFromPaypal, recordCapturedOrder, recordPendingOrder, type OrderRecord } from '../api/_lib/orders.js';
+
+const db = vi.hoisted(() => ({ tables: {} as Record<string, any[]>, upserts: [] as any[] }));
+
+// Hoisted above the imports by vitest. Just enough of the Supabase query builder for orders.ts
+vi.mock('../api/_lib/supabase.js', () => ({
+  getServerSupabase: () => ({
+    from: (table: string) => ({
+      select: () => {
+        const filters: [string, unknown][] = [];
+        const query = {
+          eq: (column: string, value: unknown) => { filters.push([column, value]); return query; },
+          maybeSingle: async () => ({
+            data: (db.tables[table] || []).find(row => filters.every(([c, v]) => row[c] === v)) || null,
+            error: null,
+          }),
+        };
+        return query;
+      },
+      upsert: (row: any) => {
+        db.upserts.push(row);
+        return { select: () => ({ single: async () => ({ data: { id: 'order-1', ...row }, error: null }) }) };
+      },
+      // Conditional update: patches only the rows every filter matches, like Postgres would
+      update: (patch: any) => {
+        const tests: ((row: any) => boolean)[] = [];
+        const term = (row: any, expr: string) => {
+          const [column, op, ...rest] = expr.split('.');
+          const value = row[column] ?? null;
+          const operand = rest.join('.');
+          if (op === 'is') return value === null;
+          if (op === 'neq') return value !== null && value !== operand;
+          if (op === 'lt') return value !== null && value < operand;
+          return value === operand;
+        };
+        const query = {
+          eq: (column: string, value: unknown) => { tests.push(row => row[column] === value); return query; },
+          is: (column: string, value: unknown) => { tests.push(row => (row[column] ?? null) === value); return query; },
+          or: (exprs: string) => { tests.push(row => exprs.split(',').some(expr => term(row, expr))); return query; },
+          select: async () => {
+            const rows = (db.tables[table] || []).filter(row => tests.every(test => test(row)));
+            rows.forEach(row => Object.assign(row, patch));
+            return { data: rows.map(row => ({ id: row.id })), error: null };
+          },
+        };
+        return query;
+      },
+    }),
+  }),
+}));
+
+const CAR_ID = '0b5c1f3e-4d2a-4c8e-9f61-2a7d3e9b1c40';
+const EVENT_ID = '7f0e2d1c-3b4a-4958-8a7b-6c5d4e3f2a10';
+
+// A purchase unit as create-order builds it
+const paypalUnit = {
+  custom_id: CAR_ID,
+  amount: { currency_code: 'USD', value: '113.96' },
+  items: [
+    { name: '1969 Camaro — T-Shirt (2XL) — Heather Gray', description: 'Custom T-Shirt design · synthwave', sku: 'tshirt-2XL-Heather Gray', quantity: '2', unit_amount: { currency_code: 'USD', value: '32.99' } },
+    { name: '1969 Camaro — Poster (18x24)', description: 'Custom Poster design · blueprint', sku: 'poster-18x24', quantity: '1', unit_amount: { currency_code: 'USD', value: '34.99' } },
+    { name: '1969 Camaro — Coffee Mug — White', description: 'Custom Coffee Mug design', sku: 'mug-White', quantity: '1', unit_amount: { currency_code: 'USD', value: '19.99' } },
+    { name: 'Mystery', sku: 'yacht', quantity: '1', unit_amount: { currency_code: 'USD', value: '1.00' } },
+  ],
+};
+
+beforeEach(() => {
+  db.tables = { snap_cars: [{ id: CAR_ID, event_id: EVENT_ID }], snap_orders: [] };
+  db.upserts = [];
+  process.env.SUPABASE_URL = 'http://localhost';
+  process.env.SUPABASE_SERVICE_ROLE_KEY = 'test';
+});
+
+describe('orderItemsFromPaypal', () => {
+  it('reads back the items create-order sent, skipping unknown products', () => {
+    const { items, total } = orderItemsFromPaypal(paypalUnit);
+    expect(total).toBe(113.96);
+    expect(items).toEqual([
+      { productId: 'tshirt', styleId: 'synthwave', size: '2XL', color: 'Heather Gray', quantity: 2, price: 32.99 },
+      { productId: 'poster', styleId: 'blueprint', size: '18x24', color: undefined, quantity: 1, price: 34.99 },
+      { productId: 'mug', styleId: undefined, size: undefined, color: 'White', quantity: 1, price: 19.99 },
+    ]);
+  });
+
+  it('agrees with the catalog prices', () => {
+    const { items } = orderItemsFromPaypal(paypalUnit);
+    const priced = priceOrderItems(items);
+    expect(priced.errors).toEqual([]);
+    expect(priced.items.map(i => i.unitPrice)).toEqual(items.map(i => i.price));
+  });
+
+  it('returns nothing for a unit without items or amount', () => {
+    expect(orderItemsFromPaypal(undefined)).toEqual({ items: [], total: null });
+    expect(orderItemsFromPaypal({ items: 'nope', amount: {} })).toEqual({ items: [], total: null });
+  });
+});
+
+describe('recordCapturedOrder', () => {
+  const capture = { paypalOrderId: 'PAYPAL-1', captureId: 'CAP-1', captureStatus: 'COMPLETED' };
+
+  it('keeps the line items of the pending row', async () => {
+    db.tables.snap_orders = [{
+      id: 'order-1', paypal_order_id: 'PAYPAL-1', car_id: CAR_ID, event_id: EVENT_ID, status: 'pending',
+      items: [{ productId: 'mug', styleId: 'pop-art', color: 'Black', quantity: 1, price: 19.99 }], total: 19.99,
+    }];
+    const record = await recordCapturedOrder({ ...capture, ...orderItemsFromPaypal(paypalUnit) });
+    expect(record?.items).toEqual(db.tables.snap_orders[0].items);
+    expect(record?.total).toBe(19.99);
+    expect(record?.status).toBe('confirmed');
+  });
+
+  it('recovers line items and total from PayPal when the pending row is missing', async () => {
+    const record = await recordCapturedOrder({ ...capture, carId: CAR_ID, ...orderItemsFromPaypal(paypalUnit) });
+    expect(record?.items).toHaveLength(3);
+    expect(record?.total).toBe(113.96);
+    expect(record).toMatchObject({ car_id: CAR_ID, event_id: EVENT_ID, status: 'confirmed', payment_id: 'CAP-1' });
+  });
+
+  it('records the order without a car that has not synced', async () => {
+    const record = await recordCapturedOrder({ ...capture, carId: '5d9e8f7a-6b5c-4d3e-8f2a-1b0c9d8e7f6a' });
+    expect(record).toMatchObject({ car_id: null, event_id: null, status: 'confirmed' });
+  });
+
+  it('records the order without a car ID that is not a UUID', async () => {
+    const record = await recordCapturedOrder({ ...capture, carId: 'not-a-car' });
+    expect(record?.car_id).toBeNull();
+  });
+
+  it('never moves a refunded order back to confirmed', async () => {
+    db.tables.snap_orders = [{ id: 'order-1', paypal_order_id: 'PAYPAL-1', car_id: null, event_id: null, status: 'refunded', items: [], total: 5 }];
+    const record = await recordCapturedOrder(capture);
+    expect(record?.status).toBe('refunded');
+  });
+});
+
+describe('recordPendingOrder', () => {
+  it('drops a car that has not synced instead of failing the insert', async () => {
+    await recordPendingOrder({ paypalOrderId: 'PAYPAL-2', carId: '5d9e8f7a-6b5c-4d3e-8f2a-1b0c9d8e7f6a', items: [], total: 0 });
+    expect(db.upserts[0]).toMatchObject({ car_id: null, event_id: null, status: 'pending' });
+  });
+});
+
+describe('claimSubmission', () => {
+  const paid = (patch: Partial<OrderRecord> = {}) => ({
+    id: 'order-1', status: 'confirmed', fulfillment_id: null, fulfillment_status: null,
+    fulfillment_attempts: 0, fulfillment_next_attempt_at: null, ...patch,
+  }) as OrderRecord;
+
+  it('lets only one of capture and the webhook submit a freshly paid order', async () => {
+    db.tables.snap_orders = [paid()];
+    const [capture, webhook] = await Promise.all([claimSubmission(paid()), claimSubmission(paid())]);
+    expect([capture, webhook].filter(Boolean)).toHaveLength(1);
+    expect(db.tables.snap_orders[0]).toMatchObject({ fulfillment_status: 'submitting', fulfillment_attempts: 1 });
+  });
+
+  it('does not start a second submission while one is in progress', async () => {
+    const inProgress = paid({ fulfillment_status: 'submitting', fulfillment_attempts: 1, fulfillment_next_attempt_at: new Date(Date.now() + 60_000).toISOString() });
+    db.tables.snap_orders = [{ ...inProgress }];
+    expect(await claimSubmission(inProgress)).toBe(false);
+  });
+
+  it('retries a failed submission, or one cut off past its retry time', async () => {
+    const failed = paid({ fulfillment_status: 'failed', fulfillment_attempts: 1, fulfillment_next_attempt_at: new Date(Date.now() - 1000).toISOString() });
+    db.tables.snap_orders = [{ ...failed }];
+    expect(await claimSubmission(failed)).toBe(true);
+    expect(db.tables.snap_orders[0].fulfillment_attempts).toBe(2);
+
+    const stale = paid({ fulfillment_status: 'submitting', fulfillment_attempts: 2, fulfillment_next_attempt_at: new Date(Date.now() - 1000).toISOString() });
+    db.tables.snap_orders = [{ ...stale }];
+    expect(await claimSubmission(stale)).toBe(true);
+  });
+
+  it('backs off further after each attempt', async () => {
+    const delays: number[] = [];
+    for (let attempts = 0; attempts < 3; attempts++) {
+      const order = paid({ fulfillment_status: attempts ? 'failed' : null, fulfillment_attempts: attempts });
+      db.tables.snap_orders = [{ ...order }];
+      await claimSubmission(order);
+      delays.push(Date.parse(db.tables.snap_orders[0].fulfillment_next_attempt_at) - Date.now());
+    }
+    expect(delays[1]).toBeGreaterThan(delays[0] * 2);
+    expect(delays[2]).toBeGreaterThan(delays[1] * 2);
+  });
+
+  it('gives up after the last attempt and never resubmits a submitted order', async () => {
+    const spent = paid({ fulfillment_status: 'failed', fulfillment_attempts: MAX_SUBMISSION_ATTEMPTS });
+    db.tables.snap_orders = [{ ...spent }];
+    expect(await claimSubmission(spent)).toBe(false);
+
+    const submitted = paid({ fulfillment_id: 'pf-1', fulfillment_status: 'in_production', fulfillment_attempts: 1 });
+    db.tables.snap_orders = [{ ...submitted }];
+    expect(await claimSubmission(submitted)).toBe(false);
+  });
+});
@@ -0,0 +1,50 @@
+// tests/paintCodes.test.ts — Factory paint lookups and color snapping
+import { describe, it, expect } from 'vitest';
+import { catalogColor, findPaint, listPaints } from '../lib/paintCodes.js';
+
+describe('listPaints', () => {
+  it('lists a make\'s colors for the model year, by any spelling of the make', () => {
+    const names = listPaints('chevy', '1969').map(p => p.name);
+    expect(names).toContain('Hugger Orange');
+    expect(listPaints('Chevrolet', '1975').map(p => p.name)).not.toContain('Hugger Orange');
+  });
+
+  it('is empty for makes without a catalog entry', () => {
+    expect(listPaints('Studebaker', '1963')).toEqual([]);
+    expect(listPaints('', '1969')).toEqual([]);
+  });
+
+  it('lists a carried-over color once when no year is given', () => {
+    expect(listPaints('Pontiac').filter(p => p.name === 'Starlight Black')).toHaveLength(1);
+    expect(listPaints('Pontiac', 'not a year').filter(p => p.name === 'Starlight Black')).toHaveLength(1);
+  });
+});
+
+describe('findPaint', () => {
+  it('matches by code before name, ignoring case and punctuation', () => {
+    expect(findPaint('Toyota', '1994', { code: '3e5' })?.name).toBe('Super Red');
+    expect(findPaint('Toyota', '1994', { name: 'super-red' })?.code).toBe('3E5');
+    expect(findPaint('Toyota', '1994', { code: '202', name: 'Super Red' })?.name).toBe('Black');
+  });
+
+  it('only finds colors offered that year', () => {
+    expect(findPaint('Toyota', '2010', { name: 'Super Red' })).toBeUndefined();
+  });
+});
+
+describe('catalogColor', () => {
+  it('snaps a named factory color to the catalog', () => {
+    expect(catalogColor('Toyota', '1994', { name: 'Super Red', hex: '#D01020' }))
+      .toEqual({ name: 'Super Red', hex: '#C8102E', code: '3E5' });
+  });
+
+  it('drops a code the catalog doesn\'t know', () => {
+    expect(catalogColor('Toyota', '1994', { name: 'Sunset Glow', hex: '#FF8800', code: 'ZZ9' }))
+      .toEqual({ name: 'Sunset Glow', hex: '#FF8800' });
+  });
+
+  it('keeps colors of makes without a catalog entry as given', () => {
+    expect(catalogColor('Studebaker', '1963', { name: 'Avanti Gold', hex: '#C9A13B' }))
+      .toEqual({ name: 'Avanti Gold', hex: '#C9A13B' });
+  });
+});
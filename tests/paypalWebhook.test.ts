@@ -0,0 +1,135 @@
+// tests/paypalWebhook.test.ts — Recorded PayPal webhook fixtures through status mapping and transitions
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { getEventOrderRef, mapEventToStatus, nextEventStatus, shouldApply, type PayPalWebhookEvent } from '../api/_lib/paypalWebhook.js';
+import type { OrderStatus } from '../api/_lib/orders.js';
+
+const PAYPAL_ORDER_ID = '5O190127TN364715T';
+const CAPTURE_ID = '3C679366HH908993F';
+
+// Same placeholders scripts/replay-paypal-webhook.mjs fills in
+function fixture(name: string): PayPalWebhookEvent {
+  const raw = readFileSync(new URL(`../fixtures/paypal/${name}.json`, import.meta.url), 'utf8')
+    .replaceAll('{{PAYPAL_ORDER_ID}}', PAYPAL_ORDER_ID)
+    .replaceAll('{{CAPTURE_ID}}', CAPTURE_ID)
+    .replaceAll('{{CAR_ID}}', '0b5c1f3e-4d2a-4c8e-9f61-2a7d3e9b1c40');
+  return JSON.parse(raw);
+}
+
+interface Order { status: OrderStatus; status_before_dispute: OrderStatus | null }
+
+// What applyEvent writes to an order, without the database
+function applyTo(order: Order, event: PayPalWebhookEvent): Order {
+  const change = nextEventStatus(order, event);
+  if (!change) return order;
+  return { status: change.status, status_before_dispute: change.statusBeforeDispute === undefined ? order.status_before_dispute : change.statusBeforeDispute };
+}
+
+const apply = (current: OrderStatus, event: PayPalWebhookEvent): OrderStatus =>
+  applyTo({ status: current, status_before_dispute: null }, event).status;
+
+describe('mapEventToStatus', () => {
+  it.each([
+    ['payment-capture-completed', 'confirmed'],
+    ['payment-capture-denied', 'cancelled'],
+    ['payment-capture-refunded', 'refunded'],
+    ['customer-dispute-created', 'disputed'],
+    ['customer-dispute-resolved', 'confirmed'],
+  ])('%s → %s', (name, status) => {
+    expect(mapEventToStatus(fixture(name))).toBe(status);
+  });
+
+  it('refunds a dispute resolved in the buyer\'s favour', () => {
+    const event = fixture('customer-dispute-resolved');
+    event.resource.dispute_outcome.outcome_code = 'RESOLVED_BUYER_FAVOUR';
+    expect(mapEventToStatus(event)).toBe('refunded');
+  });
+
+  it('ignores event types it does not handle', () => {
+    expect(mapEventToStatus({ ...fixture('payment-capture-completed'), event_type: 'CHECKOUT.ORDER.APPROVED' })).toBeNull();
+  });
+});
+
+describe('getEventOrderRef', () => {
+  it('finds the order and capture each fixture refers to', () => {
+    expect(getEventOrderRef(fixture('payment-capture-completed'))).toEqual({ paypalOrderId: PAYPAL_ORDER_ID, captureId: CAPTURE_ID });
+    expect(getEventOrderRef(fixture('payment-capture-denied'))).toEqual({ paypalOrderId: PAYPAL_ORDER_ID, captureId: CAPTURE_ID });
+    expect(getEventOrderRef(fixture('payment-capture-refunded')).captureId).toBe(CAPTURE_ID);
+    expect(getEventOrderRef(fixture('customer-dispute-created'))).toEqual({ captureId: CAPTURE_ID });
+    expect(getEventOrderRef(fixture('customer-dispute-resolved'))).toEqual({ captureId: CAPTURE_ID });
+  });
+});
+
+describe('nextEventStatus', () => {
+  it('walks an order through capture → dispute → resolution → refund', () => {
+    let status: OrderStatus = 'pending';
+    const seen: OrderStatus[] = [];
+    for (const name of ['payment-capture-completed', 'customer-dispute-created', 'customer-dispute-resolved', 'payment-capture-refunded']) {
+      status = apply(status, fixture(name));
+      seen.push(status);
+    }
+    expect(seen).toEqual(['confirmed', 'disputed', 'confirmed', 'refunded']);
+  });
+
+  it('returns a disputed order to confirmed when the seller wins', () => {
+    expect(apply('disputed', fixture('customer-dispute-resolved'))).toBe('confirmed');
+  });
+
+  it('restores fulfillment progress when the seller wins a dispute', () => {
+    for (const status of ['in_production', 'shipped', 'fulfilled'] as OrderStatus[]) {
+      const disputed = applyTo({ status, status_before_dispute: null }, fixture('customer-dispute-created'));
+      expect(disputed).toEqual({ status: 'disputed', status_before_dispute: status });
+      expect(applyTo(disputed, fixture('customer-dispute-resolved'))).toEqual({ status, status_before_dispute: null });
+    }
+  });
+
+  it('refunds a disputed order when the buyer wins', () => {
+    const event = fixture('customer-dispute-resolved');
+    event.resource.dispute_outcome.outcome_code = 'RESOLVED_BUYER_FAVOUR';
+    expect(applyTo({ status: 'disputed', status_before_dispute: 'shipped' }, event))
+      .toEqual({ status: 'refunded', status_before_dispute: null });
+  });
+
+  it('does not let a late capture undo fulfillment, a dispute, a refund or a cancellation', () => {
+    for (const current of ['in_production', 'shipped', 'fulfilled', 'disputed', 'refunded', 'cancelled'] as OrderStatus[]) {
+      expect(apply(current, fixture('payment-capture-completed'))).toBe(current);
+    }
+  });
+
+  it('does not let a seller-won dispute confirm an order that was never disputed', () => {
+    expect(apply('refunded', fixture('customer-dispute-resolved'))).toBe('refunded');
+    expect(apply('shipped', fixture('customer-dispute-resolved'))).toBe('shipped');
+  });
+
+  it('keeps refunded and cancelled orders final', () => {
+    for (const current of ['refunded', 'cancelled'] as OrderStatus[]) {
+      for (const name of ['payment-capture-completed', 'payment-capture-denied', 'payment-capture-refunded', 'customer-dispute-created']) {
+        expect(apply(current, fixture(name))).toBe(current);
+      }
+    }
+  });
+
+  it('only cancels an order still awaiting payment', () => {
+    expect(apply('pending', fixture('payment-capture-denied'))).toBe('cancelled');
+    for (const current of ['confirmed', 'in_production', 'shipped', 'fulfilled', 'disputed'] as OrderStatus[]) {
+      expect(apply(current, fixture('payment-capture-denied'))).toBe(current);
+    }
+  });
+
+  it('lets refunds and disputes through once paid', () => {
+    expect(apply('fulfilled', fixture('payment-capture-refunded'))).toBe('refunded');
+    expect(apply('shipped', fixture('customer-dispute-created'))).toBe('disputed');
+  });
+});
+
+describe('shouldApply', () => {
+  it('skips a replayed event that would not change the status', () => {
+    expect(shouldApply('confirmed', 'confirmed')).toBe(false);
+    expect(shouldApply('refunded', 'refunded')).toBe(false);
+    expect(shouldApply('disputed', 'disputed')).toBe(false);
+  });
+
+  it('does not move a completed capture back to pending', () => {
+    expect(shouldApply('confirmed', 'pending')).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+// tests/pricing.test.ts — Server-side pricing against the shared catalog
+import { describe, it, expect } from 'vitest';
+import { priceOrderItems, validateOrderTotal } from '../api/_lib/pricing.js';
+
+describe('priceOrderItems', () => {
+  it('prices sized, colored and plain products from the catalog', () => {
+    const { items, total, errors } = priceOrderItems([
+      { productId: 'tshirt', size: 'L', color: 'Black', quantity: 2 },
+      { productId: 'hoodie', size: '2XL', color: 'Navy' },
+      { productId: 'mug', color: 'White' },
+      { productId: 'poster', size: '24x36' },
+    ]);
+    expect(errors).toEqual([]);
+    expect(items.map(i => i.unitPrice)).toEqual([29.99, 53.99, 19.99, 44.99]);
+    expect(items[0].quantity).toBe(2);
+    expect(items[1].quantity).toBe(1);
+    expect(total).toBe(178.95);
+  });
+
+  it('reports unknown products, sizes and colors instead of pricing them', () => {
+    const { items, total, errors } = priceOrderItems([
+      { productId: 'yacht' },
+      { productId: 'tshirt', size: 'XXXL', color: 'Black' },
+      { productId: 'tshirt', size: 'M', color: 'Plaid' },
+      { productId: 'mug', size: 'L' },
+      { productId: 'tshirt', size: 'M', color: 'Red' },
+    ]);
+    expect(errors).toHaveLength(4);
+    expect(errors[0]).toMatch(/^Item 1: invalid product ID/);
+    expect(errors[1]).toMatch(/^Item 2: invalid size/);
+    expect(errors[2]).toMatch(/^Item 3: invalid color/);
+    expect(errors[3]).toMatch(/^Item 4: invalid size/);
+    expect(items).toHaveLength(1);
+    expect(total).toBe(29.99);
+  });
+
+  it('rejects quantities outside 1–10', () => {
+    for (const quantity of [0, -1, 11, NaN]) {
+      const { items, errors } = priceOrderItems([{ productId: 'mug', quantity }]);
+      expect(items).toEqual([]);
+      expect(errors[0]).toMatch(/quantity must be between 1 and 10/);
+    }
+  });
+
+  it('drops size and color fields the product does not have', () => {
+    const { items } = priceOrderItems([{ productId: 'poster', size: '12x18', color: 'Black' }]);
+    expect(items[0].color).toBeUndefined();
+    expect(items[0].size).toBe('12x18');
+  });
+});
+
+describe('validateOrderTotal', () => {
+  const items = [{ productId: 'tshirt', size: 'M', color: 'White', quantity: 3 }];
+
+  it('accepts the catalog total within a cent', () => {
+    expect(validateOrderTotal(items, 89.97)).toMatchObject({ valid: true, expectedTotal: 89.97 });
+    expect(validateOrderTotal(items, 89.975).valid).toBe(true);
+  });
+
+  it('rejects a total the client made up', () => {
+    expect(validateOrderTotal(items, 1)).toMatchObject({ valid: false, expectedTotal: 89.97, receivedTotal: 1 });
+  });
+
+  it('rejects an order with invalid items even when the total adds up', () => {
+    const result = validateOrderTotal([...items, { productId: 'yacht' }], 89.97);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toHaveLength(1);
+  });
+});
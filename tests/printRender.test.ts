@@ -0,0 +1,36 @@
+// tests/printRender.test.ts — Fitting designs into product print areas
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { renderToPrintArea } from '../api/_lib/printRender.js';
+
+// Square design on a flat navy canvas, like the model renders
+const design = () => sharp({ create: { width: 40, height: 40, channels: 3, background: '#1B2A4A' } }).png().toBuffer();
+
+async function pixel(png: Buffer, x: number, y: number): Promise<number[]> {
+  const { data, info } = await sharp(png).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  const i = (y * info.width + x) * 4;
+  return [...data.subarray(i, i + 4)];
+}
+
+describe('renderToPrintArea', () => {
+  const poster = { widthIn: 0.4, heightIn: 0.6, dpi: 100 }; // 2:3, like 12×18 and 24×36
+
+  it('renders at the print area size with its DPI', async () => {
+    const { png, widthPx, heightPx } = await renderToPrintArea(await design(), poster);
+    expect([widthPx, heightPx]).toEqual([40, 60]);
+    const meta = await sharp(png).metadata();
+    expect([meta.width, meta.height, meta.density]).toEqual([40, 60, 100]);
+  });
+
+  it('fills a taller print area with the canvas color, not blank bands', async () => {
+    const { png } = await renderToPrintArea(await design(), poster, '#1B2A4A');
+    expect(await pixel(png, 0, 0)).toEqual([0x1B, 0x2A, 0x4A, 255]);
+    expect(await pixel(png, 39, 59)).toEqual([0x1B, 0x2A, 0x4A, 255]);
+  });
+
+  it('pads transparently without a canvas color (apparel, after knockout)', async () => {
+    const { png } = await renderToPrintArea(await design(), poster);
+    expect((await pixel(png, 0, 0))[3]).toBe(0);
+    expect((await pixel(png, 20, 30))[3]).toBe(255);
+  });
+});
@@ -0,0 +1,72 @@
+// tests/qualityGate.test.ts — Pixel checks, retry budget and input the gate can't read
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import sharp from 'sharp';
+import { assessDesign, qualityRetryBudget } from '../api/_lib/qualityGate.js';
+import { validateDesignInput } from '../api/_lib/validation.js';
+
+// A size×size canvas with a filled rectangle on it
+async function canvas(background: string, box: { left: number; top: number; width: number; height: number; color: string }, size = 256) {
+  const rect = await sharp({ create: { width: box.width, height: box.height, channels: 3, background: box.color } }).png().toBuffer();
+  return sharp({ create: { width: size, height: size, channels: 3, background } })
+    .composite([{ input: rect, left: box.left, top: box.top }])
+    .png()
+    .toBuffer();
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('qualityRetryBudget', () => {
+  it('retries a failing image once by default', () => {
+    delete process.env.QUALITY_GATE_RETRIES;
+    expect(qualityRetryBudget()).toBe(1);
+  });
+
+  it('takes the configured budget, 0 turning retries off, and ignores nonsense', () => {
+    vi.stubEnv('QUALITY_GATE_RETRIES', '2');
+    expect(qualityRetryBudget()).toBe(2);
+    vi.stubEnv('QUALITY_GATE_RETRIES', '0');
+    expect(qualityRetryBudget()).toBe(0);
+    vi.stubEnv('QUALITY_GATE_RETRIES', 'lots');
+    expect(qualityRetryBudget()).toBe(1);
+  });
+});
+
+describe('assessDesign', () => {
+  it('passes a centered car on a flat canvas', async () => {
+    const png = await canvas('#FFFFFF', { left: 64, top: 96, width: 128, height: 64, color: '#C8102E' });
+    const report = await assessDesign(png, { backgroundColor: '#FFFFFF' });
+    expect(report).toMatchObject({ passed: true, score: 100, reasons: [] });
+  });
+
+  it('flags a car running off the edge', async () => {
+    const png = await canvas('#FFFFFF', { left: 128, top: 96, width: 128, height: 64, color: '#C8102E' });
+    const report = await assessDesign(png, { backgroundColor: '#FFFFFF' });
+    expect(report.passed).toBe(false);
+    expect(report.reasons).toEqual(['Subject is cut off at the right edge']);
+  });
+
+  it('flags a canvas that is not the requested color', async () => {
+    const png = await canvas('#000000', { left: 64, top: 96, width: 128, height: 64, color: '#C8102E' });
+    const report = await assessDesign(png, { backgroundColor: '#FFFFFF' });
+    expect(report.passed).toBe(false);
+    expect(report.reasons[0]).toMatch(/^Background is not flat #FFFFFF/);
+  });
+
+  it('skips the pixel checks instead of failing on a canvas color it cannot read', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const png = await canvas('#FFFFFF', { left: 64, top: 96, width: 128, height: 64, color: '#C8102E' });
+    const report = await assessDesign(png, { backgroundColor: 'white' });
+    expect(report).toMatchObject({ passed: true, score: 100 });
+  });
+});
+
+describe('validateDesignInput backgroundColor', () => {
+  it('accepts a hex canvas color and rejects anything else', () => {
+    expect(validateDesignInput({ backgroundColor: '#1a1a2e' })).toEqual([]);
+    expect(validateDesignInput({ backgroundColor: 'white' }).map(e => e.field)).toEqual(['backgroundColor']);
+    expect(validateDesignInput({ backgroundColor: 12 }).map(e => e.field)).toEqual(['backgroundColor']);
+  });
+});
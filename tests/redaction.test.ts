@@ -0,0 +1,35 @@
+// tests/redaction.test.ts — Turning the vision model's boxes into blur regions
+import { describe, it, expect } from 'vitest';
+import { toPixelRegions } from '../api/_lib/redaction.js';
+
+describe('toPixelRegions', () => {
+  it('scales the 0–1000 grid to pixels and pads each box by 15%', () => {
+    // 200×100 grid units on a 2000×1000 photo → 400×100 px, padded 30×7.5 px on each side
+    expect(toPixelRegions([{ kind: 'plate', xmin: 400, ymin: 500, xmax: 600, ymax: 600 }], 2000, 1000)).toEqual([
+      { kind: 'plate', left: 740, top: 485, width: 520, height: 130 },
+    ]);
+  });
+
+  it('clamps boxes at and past the image edge', () => {
+    const [corner] = toPixelRegions([{ kind: 'face', xmin: -50, ymin: 900, xmax: 100, ymax: 1200 }], 1000, 1000);
+    expect(corner).toEqual({ kind: 'face', left: 0, top: 885, width: 115, height: 115 });
+  });
+
+  it('treats any kind but face as a plate', () => {
+    expect(toPixelRegions([{ kind: 'sticker', xmin: 0, ymin: 0, xmax: 500, ymax: 500 }], 100, 100)[0].kind).toBe('plate');
+  });
+
+  it('drops junk boxes', () => {
+    expect(toPixelRegions([
+      null,
+      { kind: 'plate' },
+      { kind: 'plate', xmin: 'left', ymin: 0, xmax: 10, ymax: 10 },
+      { kind: 'plate', xmin: 500, ymin: 0, xmax: 400, ymax: 100 }, // inverted
+      { kind: 'face', xmin: 0, ymin: 300, xmax: 100, ymax: 300 },  // zero height
+      { kind: 'face', xmin: 1100, ymin: 0, xmax: 1200, ymax: 100 }, // off the image
+    ], 1000, 1000)).toEqual([]);
+    // Under 2 px wide once clamped
+    expect(toPixelRegions([{ kind: 'plate', xmin: 0, ymin: 0, xmax: 1, ymax: 1 }], 100, 100)).toEqual([]);
+    expect(toPixelRegions(undefined as any, 1000, 1000)).toEqual([]);
+  });
+});
@@ -0,0 +1,85 @@
+// tests/vehicleTaxonomy.test.ts — Name normalization and autocomplete over the vehicle taxonomy
+import { describe, it, expect } from 'vitest';
+import { canonicalMake, getVehicleTraits, listMakes, listModels, listTrims, normalizeIdentity } from '../lib/vehicleTaxonomy.js';
+import type { CarIdentity } from '../types.js';
+
+const color = { name: 'Hugger Orange', hex: '#E2561F' };
+const car = (make: string, model: string, trim = '', year = '1969'): CarIdentity => ({ year, make, model, trim, color });
+
+describe('normalizeIdentity', () => {
+  it('reads the trim out of the model field', () => {
+    expect(normalizeIdentity(car('chevy', 'camaro ss'))).toMatchObject({ make: 'Chevrolet', model: 'Camaro', trim: 'SS' });
+  });
+
+  it('skips a make repeated in the model field', () => {
+    expect(normalizeIdentity(car('Chevy', 'Chevy Camaro', 'z28'))).toMatchObject({ make: 'Chevrolet', model: 'Camaro', trim: 'Z28' });
+    expect(normalizeIdentity(car('mini', 'Mini Cooper S', '', '1965'))).toMatchObject({ make: 'MINI', model: 'Cooper', trim: 'S' });
+  });
+
+  it('matches punctuation and accents loosely', () => {
+    expect(normalizeIdentity(car('ford', 'f150', 'raptor', '2020'))).toMatchObject({ make: 'Ford', model: 'F-150', trim: 'Raptor' });
+    expect(normalizeIdentity(car('Lamborghini', 'huracan', 'evo', '2020'))).toMatchObject({ model: 'Huracán', trim: 'EVO' });
+  });
+
+  it('puts words left over from the model ahead of the trim', () => {
+    expect(normalizeIdentity(car('Ford', 'Mustang GT', 'Premium', '2018')).trim).toBe('GT Premium');
+  });
+
+  it('keeps unknown names as given, trimmed', () => {
+    expect(normalizeIdentity(car(' Studebaker ', ' Avanti ', ' R2 '))).toMatchObject({ make: 'Studebaker', model: 'Avanti', trim: 'R2' });
+    expect(normalizeIdentity(car('chevy', 'Chevette'))).toMatchObject({ make: 'Chevrolet', model: 'Chevette' });
+  });
+
+  it('leaves year and color alone', () => {
+    const normalized = normalizeIdentity(car('chevy', 'camaro ss'));
+    expect(normalized.year).toBe('1969');
+    expect(normalized.color).toEqual(color);
+  });
+});
+
+describe('canonicalMake', () => {
+  it('resolves aliases and rejects unknown makes', () => {
+    expect(canonicalMake('chevy')).toBe('Chevrolet');
+    expect(canonicalMake('ALFA')).toBe('Alfa Romeo');
+    expect(canonicalMake('Studebaker')).toBeUndefined();
+  });
+});
+
+describe('getVehicleTraits', () => {
+  it('reads body, market and flags from the model', () => {
+    expect(getVehicleTraits(car('Chevy', 'Camaro'))).toMatchObject({ market: 'us', body: 'car', sports: true, lowrider: false });
+    expect(getVehicleTraits(car('Ford', 'F-150', 'XLT', '2020'))).toMatchObject({ body: 'truck', sports: false });
+    expect(getVehicleTraits(car('Chevrolet', 'Impala', 'Sport Coupe', '1964')).lowrider).toBe(true);
+  });
+
+  it('counts a performance trim as sports', () => {
+    expect(getVehicleTraits(car('Chevrolet', 'Impala', 'SS', '1964')).sports).toBe(true);
+    expect(getVehicleTraits(car('Chevrolet', 'Impala SS', '', '1964')).sports).toBe(true);
+  });
+
+  it('knows only the market for an unknown model, nothing for an unknown make', () => {
+    expect(getVehicleTraits(car('Alfa Romeo', 'Montreal'))).toEqual({ market: 'euro', exotic: false, sports: false, lowrider: false });
+    expect(getVehicleTraits(car('Studebaker', 'Avanti'))).toEqual({ exotic: false, sports: false, lowrider: false });
+  });
+});
+
+describe('autocomplete', () => {
+  it('lists makes sorted, limited to the year', () => {
+    const all = listMakes();
+    expect(all).toEqual([...all].sort((a, b) => a.localeCompare(b)));
+    expect(listMakes('1955').length).toBeLessThan(all.length);
+    expect(listMakes('1955')).toContain('Chevrolet');
+  });
+
+  it('lists models built in the year', () => {
+    expect(listModels('chevy', '1969')).toContain('Camaro');
+    expect(listModels('chevy', '2005')).not.toContain('Camaro');
+    expect(listModels('Studebaker')).toEqual([]);
+  });
+
+  it('lists trims of a model', () => {
+    expect(listTrims('chevy', 'camaro')).toContain('Z28');
+    expect(listTrims('chevy', 'Chevette')).toEqual([]);
+    expect(listTrims('Studebaker', 'Avanti')).toEqual([]);
+  });
+});
@@ -5,13 +5,82 @@ export interface CarIdentity {
   make: string;
   model: string;
   trim: string;
-  color: { name: string; hex: string };
+  color: { name: string; hex: string; code?: string }; // code: factory paint code, when the catalog (lib/paintData.ts) knows it
 }
 
-export type SnapMerchStyle =
+// One possible identification of a car in the photos
+export interface IdentityCandidate extends CarIdentity {
+  confidence: number; // 0–1
+  cues: string;       // what sets it apart from the other candidates (badges, lights, wheels…)
+}
+
+// /api/analyze result: the best candidate's identity plus the ranked candidates
+export interface VehicleAnalysis extends CarIdentity {
+  confidence: number;
+  candidates: IdentityCandidate[]; // most likely first
+}
+
+// Below this the vendor is asked to check the identification before generating
+export const LOW_CONFIDENCE = 0.6;
+
+export type BuiltInStyle =
   | 'vector' | 'retro' | 'calligram' | 'neon'
   | 'watercolor' | 'comic' | 'blueprint' | 'pop-art'
-  | 'pencil' | 'neon-80s' | 'lowrider' | 'japanese';
+  | 'pencil' | 'neon-80s' | 'lowrider' | 'japanese'
+  // Pack styles (STYLE_PACKS)
+  | 'cyberpunk' | 'vaporwave' | 'anime'
+  | 'oil-painting' | 'ukiyo-e' | 'line-art' | 'chalk'
+  | 'cyanotype' | 'cyanotype-inverted' | 'exploded-view' | 'carbon-tech'
+  | 'low-poly' | 'lego';
+
+// Vendor-defined styles (snap_custom_styles) are 'custom-' + the row's UUID
+export type CustomStyleId = `custom-${string}`;
+
+// Camera angles lib/styleHelpers.ts has orientation prompts for
+export type DesignView = 'Front' | 'Rear' | '3/4 Front' | '3/4 Rear' | 'Side' | 'Top';
+
+export const DEFAULT_VIEW: DesignView = '3/4 Front';
+
+export const DESIGN_VIEWS: { id: DesignView; slug: string }[] = [
+  { id: '3/4 Front', slug: 'front34' },
+  { id: 'Front', slug: 'front' },
+  { id: 'Side', slug: 'side' },
+  { id: '3/4 Rear', slug: 'rear34' },
+  { id: 'Rear', slug: 'rear' },
+  { id: 'Top', slug: 'top' },
+];
+
+// Default angles of a multi-view pack (e.g. a blueprint triptych)
+export const MULTI_VIEW_PACK: DesignView[] = ['Front', 'Side', 'Rear'];
+
+type BaseStyleId = BuiltInStyle | CustomStyleId;
+
+// A multi-view pack keeps each extra angle as its own design: the style's ID
+// plus '@' and the view slug, e.g. 'blueprint@side'
+export type SnapMerchStyle = BaseStyleId | `${BaseStyleId}@${string}`;
+
+export const CUSTOM_STYLE_PREFIX = 'custom-';
+
+export function isCustomStyleId(styleId: string): styleId is CustomStyleId {
+  return styleId.startsWith(CUSTOM_STYLE_PREFIX);
+}
+
+/** The style a design was made in ('blueprint@side' → 'blueprint') */
+export function baseStyleId(styleId: string): BaseStyleId {
+  return styleId.split('@')[0] as BaseStyleId;
+}
+
+/** Design ID for an extra angle of a style */
+export function viewStyleId(styleId: string, view: DesignView): SnapMerchStyle {
+  const slug = DESIGN_VIEWS.find(v => v.id === view)!.slug;
+  return `${baseStyleId(styleId)}@${slug}`;
+}
+
+/** The angle a multi-view design ID stands for, or null for a style's main design */
+export function viewOfStyleId(styleId: string): DesignView | null {
+  const slug = styleId.split('@')[1];
+  return DESIGN_VIEWS.find(v => v.slug === slug)?.id || null;
+}
 
 export interface StyleConfig {
   id: SnapMerchStyle;
@@ -20,87 +89,175 @@ export interface StyleConfig {
   artStyle: string;
   color?: string;
   backgroundColor?: string;
+  // How apparel files remove backgroundColor (api/_lib/knockout.ts):
+  // 'edge' keys out the flat canvas, 'soft' fades glows and washes into alpha
+  knockout?: 'edge' | 'soft';
+  cyanotypeInverted?: boolean; // Cyanotype: dark lines on light paper
+  view?: DesignView;   // multi-view designs: the fixed angle (see viewStyleId)
+  pack?: StylePackId;  // built-in styles outside the core set
+  previewUrl?: string; // custom styles: example image shown in the style picker
+  lettering?: LetteringPreset; // designs get this lettering layout by default
 }
 
+// Optional groups of built-in styles, switched on per event. Styles without
+// a pack are the core set, offered at every event.
+export type StylePackId = 'neon-nights' | 'gallery' | 'workshop' | 'toy-box';
+
+export interface StylePack {
+  id: StylePackId;
+  label: string;
+  emoji: string;
+  description: string;
+}
+
+export const STYLE_PACKS: StylePack[] = [
+  { id: 'neon-nights', label: 'Neon Nights', emoji: '🌃', description: 'Cyberpunk, Vaporwave and Anime — tuner and night meets' },
+  { id: 'gallery', label: 'Gallery', emoji: '🖼️', description: 'Oil, Ukiyo-e, Line Art and Chalk — concours and classics' },
+  { id: 'workshop', label: 'Workshop', emoji: '🔧', description: 'Cyanotypes, Exploded View and Carbon Tech — builders and track days' },
+  { id: 'toy-box', label: 'Toy Box', emoji: '🧸', description: 'Low Poly and Brick Built — family days and kids' },
+];
+
+/**
+ * A vendor-defined style. promptTemplate replaces the built-in style
+ * instruction; see lib/styleHelpers.ts for its placeholders.
+ */
+export interface CustomStyle extends StyleConfig {
+  id: CustomStyleId;
+  promptTemplate: string;
+  archived?: boolean; // hidden from new events; existing designs keep their label
+  createdAt: number;
+}
+
+// Built-in styles: the core set plus pack styles (lib/styleHelpers.ts has the prompts)
 export const STYLE_CONFIGS: StyleConfig[] = [
   { id: 'vector', label: 'Vector', emoji: '🎯', artStyle: 'Vector (Monochromatic)', backgroundColor: '#FFFFFF' },
   { id: 'retro', label: 'Retro Poster', emoji: '🎨', artStyle: 'Vintage Poster', backgroundColor: '#FFFFFF' },
-  { id: 'calligram', label: 'Typography', emoji: '✍️', artStyle: 'Distressed', backgroundColor: '#FFFFFF' },
-  { id: 'neon', label: 'Neon Glow', emoji: '💡', artStyle: 'Neon Sign', backgroundColor: '#000000' },
-  { id: 'watercolor', label: 'Watercolor', emoji: '🎨', artStyle: 'Watercolor', backgroundColor: '#FFFFFF' },
+  { id: 'calligram', label: 'Typography', emoji: '✍️', artStyle: 'Distressed', backgroundColor: '#FFFFFF', lettering: 'arched' },
+  { id: 'neon', label: 'Neon Glow', emoji: '💡', artStyle: 'Neon Sign', backgroundColor: '#000000', knockout: 'soft' },
+  { id: 'watercolor', label: 'Watercolor', emoji: '🎨', artStyle: 'Watercolor', backgroundColor: '#FFFFFF', knockout: 'soft' },
   { id: 'comic', label: 'Comic Book', emoji: '💥', artStyle: 'Comic Book', backgroundColor: '#FFFFFF' },
   { id: 'blueprint', label: 'Blueprint', emoji: '📐', artStyle: 'Blueprint Style', backgroundColor: '#003366' },
   { id: 'pop-art', label: 'Pop Art', emoji: '🎭', artStyle: 'Pop Art', backgroundColor: '#FFFFFF' },
-  { id: 'pencil', label: 'Pencil Sketch', emoji: '✏️', artStyle: 'Pencil Sketch', backgroundColor: '#FFFFFF' },
-  { id: 'neon-80s', label: '80s Synthwave', emoji: '🌆', artStyle: 'Synthwave 80s', backgroundColor: '#1a0033' },
-  { id: 'lowrider', label: 'Lowrider Art', emoji: '🔊', artStyle: 'Lowrider Airbrush', backgroundColor: '#FFFFFF' },
+  { id: 'pencil', label: 'Pencil Sketch', emoji: '✏️', artStyle: 'Pencil Sketch', backgroundColor: '#FFFFFF', knockout: 'soft' },
+  { id: 'neon-80s', label: '80s Synthwave', emoji: '🌆', artStyle: 'Synthwave 80s', backgroundColor: '#1a0033', knockout: 'soft' },
+  { id: 'lowrider', label: 'Lowrider Art', emoji: '🔊', artStyle: 'Lowrider Airbrush', backgroundColor: '#FFFFFF', knockout: 'soft' },
   { id: 'japanese', label: 'JDM Style', emoji: '🗾', artStyle: 'JDM Japanese', backgroundColor: '#000000' },
+  { id: 'cyberpunk', label: 'Cyberpunk', emoji: '🌃', artStyle: 'Cyberpunk', backgroundColor: '#000000', knockout: 'soft', pack: 'neon-nights' },
+  { id: 'vaporwave', label: 'Vaporwave', emoji: '🌴', artStyle: 'Vaporwave', backgroundColor: '#FFFFFF', knockout: 'soft', pack: 'neon-nights' },
+  { id: 'anime', label: 'Anime', emoji: '⚡', artStyle: 'Anime', backgroundColor: '#FFFFFF', pack: 'neon-nights' },
+  { id: 'oil-painting', label: 'Oil Painting', emoji: '🖼️', artStyle: 'Oil Painting', backgroundColor: '#FFFFFF', knockout: 'soft', pack: 'gallery' },
+  { id: 'ukiyo-e', label: 'Ukiyo-e', emoji: '🌊', artStyle: 'Ukiyo-e', backgroundColor: '#FFFFFF', pack: 'gallery' },
+  { id: 'line-art', label: 'Line Art', emoji: '🖊️', artStyle: 'Line-Art', backgroundColor: '#FFFFFF', pack: 'gallery' },
+  { id: 'chalk', label: 'Chalkboard', emoji: '🖍️', artStyle: 'Chalk', backgroundColor: '#000000', knockout: 'soft', pack: 'gallery' },
+  { id: 'cyanotype', label: 'Cyanotype', emoji: '🟦', artStyle: 'Cyanotype', backgroundColor: '#003366', pack: 'workshop' },
+  { id: 'cyanotype-inverted', label: 'Cyanotype Inverted', emoji: '📜', artStyle: 'Cyanotype', backgroundColor: '#FDFCF8', cyanotypeInverted: true, pack: 'workshop' },
+  { id: 'exploded-view', label: 'Exploded View', emoji: '🔩', artStyle: 'Exploded View', backgroundColor: '#FFFFFF', pack: 'workshop' },
+  { id: 'carbon-tech', label: 'Carbon Tech', emoji: '🏁', artStyle: 'Carbon Tech', backgroundColor: '#FFFFFF', pack: 'workshop' },
+  { id: 'low-poly', label: 'Low Poly', emoji: '🔷', artStyle: 'Low Poly', backgroundColor: '#FFFFFF', pack: 'toy-box' },
+  { id: 'lego', label: 'Brick Built', emoji: '🧱', artStyle: 'Lego', backgroundColor: '#FFFFFF', pack: 'toy-box' },
 ];
 
+// Lifecycle of one image generation, reported by the server as it happens
+// (/api/jobs/:id and /api/mockup stream these as Server-Sent Events)
+export type GenerationStage = 'queued' | 'sent' | 'received' | 'compressed' | 'stored' | 'failed';
+
+export interface GenerationProgress {
+  stage: GenerationStage;
+  at: string;        // ISO timestamp
+  attempt?: number;  // model attempt, from 1
+  error?: string;    // failure reason (stage 'failed')
+}
+
+// Stages in the order a successful generation passes through them
+export const GENERATION_STEPS: GenerationStage[] = ['queued', 'sent', 'received', 'compressed', 'stored'];
+
+export const GENERATION_STAGE_LABELS: Record<GenerationStage, string> = {
+  queued: 'Queued',
+  sent: 'Sent to model',
+  received: 'Image received',
+  compressed: 'Compressed',
+  stored: 'Saved',
+  failed: 'Failed',
+};
+
+// Image model tier for a design: 'draft' is the fast model, 'high' the slower,
+// more detailed one (operationForQuality in api/_lib/generation.ts)
+export type ArtQuality = 'draft' | 'high';
+
+// Quality gate verdict on generated art (api/_lib/qualityGate.ts)
+export interface QualityReport {
+  score: number;     // 0–100
+  passed: boolean;
+  reasons: string[]; // failed checks; empty when passed
+  attempts: number;  // generations it took, the kept one included
+}
+
 export interface GeneratedStyle {
   styleId: SnapMerchStyle;
   imageUrl: string | null;
   status: 'idle' | 'generating' | 'done' | 'error';
-  error?: string;
+  error?: string;    // why it failed, or what the quality gate still flags on a finished design
+  progress?: GenerationProgress; // latest event while generating
+  view?: DesignView;             // angle it was rendered at (DEFAULT_VIEW if unset)
+  candidates?: string[];         // variation takes waiting for the vendor to pick one (current image first)
+  alternates?: string[];         // takes passed over in earlier picks, newest first
+  versions?: DesignVersion[];    // tweak history, oldest first (see services/designVersions.ts)
+  currentVersionId?: string;     // version imageUrl shows
+  lettering?: LetteringSpec;     // text drawn over imageUrl, kept separate so it stays editable
 }
 
-export interface ProductOption {
+// One saved state of a design. Tweaks point at the version they were remixed
+// from, so the history is a tree: tweaking an older version starts a branch.
+export interface DesignVersion {
   id: string;
-  name: string;
-  emoji: string;
-  basePrice: number;
-  sizes?: string[];
-  colors?: { name: string; hex: string }[];
-}
-
-export const PRODUCT_OPTIONS: ProductOption[] = [
-  {
-    id: 'tshirt',
-    name: 'T-Shirt',
-    emoji: '👕',
-    basePrice: 29.99,
-    sizes: ['S', 'M', 'L', 'XL', '2XL'],
-    colors: [
-      { name: 'Black', hex: '#000000' },
-      { name: 'White', hex: '#FFFFFF' },
-      { name: 'Navy', hex: '#001F3F' },
-      { name: 'Heather Gray', hex: '#9CA3AF' },
-      { name: 'Red', hex: '#C8102E' },
-    ],
-  },
-  {
-    id: 'hoodie',
-    name: 'Hoodie',
-    emoji: '🧥',
-    basePrice: 49.99,
-    sizes: ['S', 'M', 'L', 'XL', '2XL'],
-    colors: [
-      { name: 'Black', hex: '#000000' },
-      { name: 'White', hex: '#FFFFFF' },
-      { name: 'Navy', hex: '#001F3F' },
-      { name: 'Heather Gray', hex: '#9CA3AF' },
-      { name: 'Red', hex: '#C8102E' },
-    ],
-  },
-  {
-    id: 'mug',
-    name: 'Coffee Mug',
-    emoji: '☕',
-    basePrice: 19.99,
-    colors: [
-      { name: 'White', hex: '#FFFFFF' },
-      { name: 'Black', hex: '#000000' },
-    ],
-  },
-  {
-    id: 'poster',
-    name: 'Poster',
-    emoji: '🖼️',
-    basePrice: 34.99,
-    sizes: ['12×18', '18×24', '24×36'],
-  },
+  imageUrl: string;  // '' once a local-only data URL has been dropped from storage
+  prompt?: string;   // tweak prompt; unset for a generated design
+  parentId?: string;
+  createdAt: number;
+}
+
+// Lettering — text composited over a design from the bundled stroke font
+// (lib/lettering.ts), never drawn by the image model
+export type LetteringPreset = 'arched' | 'stacked' | 'badge';
+export type LetteringFont = 'block' | 'rounded' | 'fine';
+export type LetteringRole = 'car' | 'owner' | 'event' | 'date';
+
+export interface LetteringLayer {
+  role: LetteringRole;
+  text: string;
+}
+
+export interface LetteringSpec {
+  preset: LetteringPreset;
+  font: LetteringFont;
+  color: string;       // hex
+  plateColor?: string; // badge fill, hex (defaults to the style's canvas)
+  layers: LetteringLayer[];
+}
+
+export const LETTERING_PRESETS: { id: LetteringPreset; label: string }[] = [
+  { id: 'arched', label: 'Arched' },
+  { id: 'stacked', label: 'Stacked' },
+  { id: 'badge', label: 'Badge' },
 ];
 
+export const LETTERING_FONTS: { id: LetteringFont; label: string }[] = [
+  { id: 'block', label: 'Block' },
+  { id: 'rounded', label: 'Rounded' },
+  { id: 'fine', label: 'Fine Line' },
+];
+
+export const LETTERING_ROLES: { id: LetteringRole; label: string }[] = [
+  { id: 'car', label: 'Car' },
+  { id: 'owner', label: 'Owner' },
+  { id: 'event', label: 'Event' },
+  { id: 'date', label: 'Date' },
+];
+
+// Takes per variations round, and how many passed-over takes a style keeps
+export const VARIATION_COUNTS = [2, 3, 4];
+export const MAX_ALTERNATES = 8;
+
 export interface MockupResult {
   productId: string;
   styleId: SnapMerchStyle;
@@ -109,11 +266,11 @@ export interface MockupResult {
 }
 
 export interface OrderItem {
-  productId: string;
+  productId: string;     // catalog product ID (lib/catalog.ts)
   styleId: SnapMerchStyle;
-  size?: string;
+  size?: string;         // catalog size ID
   color?: string;
-  price: number;
+  price: number;         // display only — checkout reprices server-side
 }
 
 export interface ShippingAddress {
@@ -136,15 +293,20 @@ export interface Order {
   customerPhone?: string;
   shippingAddress?: ShippingAddress;
   paymentId?: string;
-  status: 'pending' | 'confirmed' | 'fulfilled';
+  status: 'pending' | 'confirmed' | 'in_production' | 'shipped' | 'fulfilled' | 'cancelled' | 'refunded' | 'disputed';
   createdAt: number;
 }
 
 export interface CarSession {
   id: string;
-  photoBase64: string;
+  photoBase64: string;      // the reference photo (see referencePhotoId)
   photoThumbnail?: string;
+  photoRedacted?: boolean;  // the reference photo (and so the thumbnail) had plates and faces blurred
+  photos?: CarPhoto[];      // every photo taken of the car, identified together
+  referencePhotoId?: string; // the photo designs are generated from
   identity: CarIdentity | null;
+  candidates?: IdentityCandidate[]; // ranked alternatives from identification
+  identityConfirmed?: boolean;      // the vendor picked or edited the identity
   styles: GeneratedStyle[];
   mockups: MockupResult[];
   orders: Order[];
@@ -152,12 +314,51 @@ export interface CarSession {
   shareUrl?: string;
 }
 
+// One of several photos of a car (rear badge, wheels, interior, …). The full
+// image is only kept until designs are generated.
+export interface CarPhoto {
+  id: string;
+  base64: string;    // '' once released
+  thumbnail: string; // small, for the photo strip
+  redacted?: boolean; // plates and faces blurred (/api/redact)
+}
+
+// Photos /api/analyze reasons over at once
+export const MAX_CAR_PHOTOS = 4;
+
+/** Result of looking up a shared car via the public /api/car/:id endpoint */
+export type SharedCarLookup =
+  | { status: 'found'; car: CarSession; eventName?: string; expiresAt: number }
+  | { status: 'expired' }
+  | { status: 'not-found' };
+
 export interface EventSession {
   id: string;
   name: string;
-  date: string;
+  location?: string;
+  date: string;       // start date, YYYY-MM-DD in the event's timezone
+  endDate: string;    // last day (same as date for single-day events)
+  timezone: string;   // IANA zone the dates are in, e.g. 'America/Chicago'
+  status: 'open' | 'closed';
+  closedAt?: number;
+  stylePacks?: StylePackId[];       // optional built-in packs offered at this event
+  customStyleIds?: CustomStyleId[]; // vendor styles offered at this event, in order
+  redactPhotos?: boolean;           // blur plates and faces before photos are kept (on unless false)
   cars: CarSession[];
   createdAt: number;
+  updatedAt?: number; // last saved on this device
+  syncedAt?: number;  // updatedAt of the last save fully written to Supabase
+}
+
+/** Past event listed from Supabase, before its cars are loaded */
+export interface EventSummary {
+  id: string;
+  name: string;
+  location?: string;
+  date: string;
+  endDate: string;
+  status: 'open' | 'closed';
+  carCount: number;
 }
 
 export type VendorTab = 'capture' | 'designs' | 'dashboard';